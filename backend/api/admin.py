@@ -1,3 +1,15 @@
 from django.contrib import admin
+from .models import Model3D, ModelMember
 
 # Register your models here.
+
+class ModelMemberInline(admin.TabularInline):
+    model = ModelMember
+    extra = 0
+
+
+@admin.register(Model3D)
+class Model3DAdmin(admin.ModelAdmin):
+    list_display = ['name', 'revision', 'owner', 'uploaded_at']
+    # Members are kept on the first revision of a model
+    inlines = [ModelMemberInline]
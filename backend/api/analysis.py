@@ -0,0 +1,48 @@
+import logging
+
+logger = logging.getLogger(__name__)
+
+
+def analyze_mesh(path, file_format):
+    """Compute mesh statistics for a model file, in the file's own units.
+
+    Returns a dict of ``Model3D`` field values, or None when the file cannot be
+    analyzed (for instance when trimesh is not installed).
+    """
+    try:
+        import trimesh
+    except ImportError:
+        logger.warning('trimesh is not installed, skipping mesh analysis')
+        return None
+
+    try:
+        mesh = trimesh.load(path, file_type=file_format, force='mesh')
+    except Exception:
+        logger.exception('Failed to load %s for analysis', path)
+        return None
+
+    if mesh.is_empty:
+        return None
+
+    size_x, size_y, size_z = (float(value) for value in mesh.extents)
+    return {
+        'triangle_count': int(len(mesh.faces)),
+        'surface_area': float(mesh.area),
+        'volume': float(abs(mesh.volume)) if mesh.is_watertight else None,
+        'size_x': size_x,
+        'size_y': size_y,
+        'size_z': size_z,
+        'is_watertight': bool(mesh.is_watertight),
+    }
+
+
+def store_analysis(model):
+    """Analyze the mesh the viewer renders and save the results on the model."""
+    display_file = model.display_file or model.file
+    results = analyze_mesh(display_file.path, model.display_format)
+    if not results:
+        return
+
+    for field, value in results.items():
+        setattr(model, field, value)
+    model.save(update_fields=list(results))
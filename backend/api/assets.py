@@ -0,0 +1,108 @@
+import os
+import posixpath
+import zipfile
+
+from django.conf import settings
+from django.core.files.base import ContentFile
+
+# Companion files kept with a model: OBJ material libraries and the textures they
+# reference, each served with a fixed content type so none can be rendered as a page
+ASSET_CONTENT_TYPES = {
+    'mtl': 'text/plain; charset=utf-8',
+    'png': 'image/png',
+    'jpg': 'image/jpeg',
+    'jpeg': 'image/jpeg',
+    'bmp': 'image/bmp',
+    'tga': 'image/x-tga',
+    'gif': 'image/gif',
+    'webp': 'image/webp',
+}
+
+# Archives are extracted in memory, so their size is checked before anything is read
+MAX_ARCHIVE_ENTRIES = 1000
+
+
+class ArchiveError(Exception):
+    """Raised when an uploaded archive does not contain a usable model."""
+
+
+def _is_hidden(path):
+    return any(part.startswith('.') or part == '__MACOSX' for part in path.split('/'))
+
+
+def _extension(name):
+    return name.rsplit('.', 1)[-1].lower()
+
+
+def is_asset(name):
+    return _extension(name) in ASSET_CONTENT_TYPES
+
+
+def asset_content_type(name):
+    # Assets stored before the types were restricted are only offered as raw bytes
+    return ASSET_CONTENT_TYPES.get(_extension(name), 'application/octet-stream')
+
+
+def extract_archive(file_obj, model_extensions):
+    """Split a zip upload into the model file and its companion assets.
+
+    Returns ``(model_file, assets)`` where ``assets`` is a list of
+    ``(relative_name, ContentFile)`` tuples. Asset names are relative to the
+    directory holding the model file so MTL and texture references resolve;
+    other files in the archive are left out.
+    """
+    try:
+        archive = zipfile.ZipFile(file_obj)
+    except zipfile.BadZipFile as exc:
+        raise ArchiveError('Invalid zip archive') from exc
+
+    with archive:
+        infos = archive.infolist()
+        # Reading stops at the declared size of each entry, so the declared sizes bound the total
+        if len(infos) > MAX_ARCHIVE_ENTRIES:
+            raise ArchiveError(f'The archive holds more than {MAX_ARCHIVE_ENTRIES} files')
+        if sum(info.file_size for info in infos) > settings.MAX_UPLOAD_SIZE:
+            raise ArchiveError('The extracted archive is too large')
+
+        entries = [
+            info.filename for info in infos
+            if not info.is_dir() and not _is_hidden(info.filename)
+        ]
+        model_entries = [name for name in entries if _extension(name) in model_extensions]
+        if not model_entries:
+            raise ArchiveError('The archive does not contain a supported model file')
+
+        # Prefer the model closest to the archive root
+        model_entry = min(model_entries, key=lambda name: name.count('/'))
+        base_dir = posixpath.dirname(model_entry)
+
+        model_file = ContentFile(archive.read(model_entry), name=os.path.basename(model_entry))
+        assets = []
+        for name in entries:
+            if name == model_entry or not is_asset(name):
+                continue
+            relative_name = posixpath.relpath(name, base_dir) if base_dir else name
+            assets.append((relative_name, ContentFile(archive.read(name), name=os.path.basename(name))))
+
+    return model_file, assets
+
+
+def find_asset(model, name):
+    """Find a companion file by the name a model file uses to reference it.
+
+    References in MTL files are often absolute or use Windows separators, so
+    fall back to matching the file name alone, ignoring case.
+    """
+    normalized = name.replace('\\', '/').lstrip('./')
+    assets = list(model.assets.all())
+
+    for asset in assets:
+        if asset.name == normalized:
+            return asset
+
+    basename = posixpath.basename(normalized).lower()
+    for asset in assets:
+        if posixpath.basename(asset.name).lower() == basename:
+            return asset
+
+    return None
@@ -0,0 +1,144 @@
+import os
+import tempfile
+
+from django.core.files import File
+
+
+class ConversionError(Exception):
+    """Raised when an uploaded CAD file cannot be tessellated."""
+
+
+def _body_meshes(gmsh, numpy, trimesh):
+    # Build one triangle mesh per solid body, falling back to a single mesh of all
+    # surfaces for surface-only files (common with IGES exports)
+    node_tags, coords, _ = gmsh.model.mesh.getNodes()
+    vertices = numpy.asarray(coords).reshape(-1, 3)
+    index_of = {tag: i for i, tag in enumerate(node_tags)}
+
+    volumes = gmsh.model.getEntities(3)
+    if volumes:
+        bodies = [gmsh.model.getBoundary([volume], oriented=False) for volume in volumes]
+    else:
+        bodies = [gmsh.model.getEntities(2)]
+
+    meshes = []
+    for surfaces in bodies:
+        faces = []
+        for dim, tag in surfaces:
+            element_types, _, element_nodes = gmsh.model.mesh.getElements(dim, abs(tag))
+            for element_type, nodes in zip(element_types, element_nodes):
+                # Element type 2 is the 3-node triangle
+                if element_type == 2:
+                    faces.extend(index_of[node] for node in nodes)
+        if not faces:
+            continue
+
+        mesh = trimesh.Trimesh(vertices=vertices, faces=numpy.asarray(faces).reshape(-1, 3), process=False)
+        mesh.remove_unreferenced_vertices()
+        mesh.fix_normals()
+        meshes.append(mesh)
+
+    return meshes
+
+
+def tessellate_to_glb(source_path):
+    """Tessellate a STEP or IGES file and return the path of a temporary GLB file.
+
+    Each solid body becomes its own node in the GLB scene. The caller owns the
+    returned file and must delete it.
+    """
+    try:
+        import gmsh
+        import numpy
+        import trimesh
+    except ImportError as exc:
+        raise ConversionError('STEP/IGES support requires the gmsh and trimesh packages') from exc
+
+    gmsh.initialize(interruptible=False)
+    try:
+        gmsh.option.setNumber('General.Terminal', 0)
+        # Refine curved surfaces so holes and fillets stay round
+        gmsh.option.setNumber('Mesh.MeshSizeFromCurvature', 24)
+        gmsh.model.add('upload')
+        gmsh.model.occ.importShapes(source_path)
+        gmsh.model.occ.synchronize()
+        gmsh.model.mesh.generate(2)
+
+        meshes = _body_meshes(gmsh, numpy, trimesh)
+        if not meshes:
+            raise ConversionError('The file does not contain any surfaces')
+
+        scene = trimesh.Scene()
+        for i, mesh in enumerate(meshes):
+            scene.add_geometry(mesh, node_name=f'body_{i + 1}', geom_name=f'body_{i + 1}')
+
+        fd, output_path = tempfile.mkstemp(suffix='.glb')
+        with os.fdopen(fd, 'wb') as output:
+            output.write(scene.export(file_type='glb'))
+        return output_path
+    except ConversionError:
+        raise
+    except Exception as exc:
+        raise ConversionError(f'Failed to tessellate model: {exc}') from exc
+    finally:
+        gmsh.finalize()
+
+
+def create_display_file(model):
+    """Tessellate a STEP/IGES model and attach the resulting GLB as its display file."""
+    output_path = tessellate_to_glb(model.file.path)
+    try:
+        base_name = os.path.splitext(os.path.basename(model.file.name))[0]
+        with open(output_path, 'rb') as output:
+            model.display_file.save(f'{base_name}.glb', File(output), save=True)
+    finally:
+        os.remove(output_path)
+
+
+# Formats models can be converted to, with their file extension and content type
+EXPORT_FORMATS = {
+    'stl': ('stl', 'model/stl'),
+    'obj': ('obj', 'model/obj'),
+    'glb': ('glb', 'model/gltf-binary'),
+    'ply': ('ply', 'application/octet-stream'),
+}
+
+# Formats that can be written as text as well as binary
+TEXT_FORMATS = {'stl', 'ply'}
+
+
+def convert_mesh(path, source_format, target_format, ascii=False, scale=1.0):
+    """Convert a mesh file to one of EXPORT_FORMATS and return its bytes.
+
+    GLB keeps the parts of the file as separate nodes; the other formats merge
+    them into one mesh. `scale` multiplies every coordinate, to change units.
+    """
+    if target_format not in EXPORT_FORMATS:
+        raise ConversionError(f'Unsupported export format: {target_format}')
+    if ascii and target_format not in TEXT_FORMATS:
+        raise ConversionError(f'{target_format.upper()} files cannot be written as text')
+
+    try:
+        import trimesh
+    except ImportError as exc:
+        raise ConversionError('Converting models requires the trimesh package') from exc
+
+    try:
+        loaded = trimesh.load(path, file_type=source_format, force='scene' if target_format == 'glb' else 'mesh')
+        if loaded.is_empty:
+            raise ConversionError('The file does not contain any surfaces')
+        if scale != 1.0:
+            loaded.apply_scale(scale)
+
+        if target_format == 'stl':
+            data = loaded.export(file_type='stl_ascii' if ascii else 'stl')
+        elif target_format == 'ply':
+            data = loaded.export(file_type='ply', encoding='ascii' if ascii else 'binary')
+        else:
+            data = loaded.export(file_type=target_format)
+    except ConversionError:
+        raise
+    except Exception as exc:
+        raise ConversionError(f'Failed to convert model: {exc}') from exc
+
+    return data.encode() if isinstance(data, str) else data
@@ -0,0 +1,21 @@
+from django.db import migrations, models
+
+
+class Migration(migrations.Migration):
+
+    dependencies = [
+        ('api', '0001_initial'),
+    ]
+
+    operations = [
+        migrations.AlterField(
+            model_name='model3d',
+            name='file_format',
+            field=models.CharField(choices=[('stl', 'STL'), ('obj', 'OBJ'), ('step', 'STEP'), ('iges', 'IGES')], max_length=10),
+        ),
+        migrations.AddField(
+            model_name='model3d',
+            name='display_file',
+            field=models.FileField(blank=True, null=True, upload_to='models/derived/'),
+        ),
+    ]
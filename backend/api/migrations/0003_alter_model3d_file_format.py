@@ -0,0 +1,16 @@
+from django.db import migrations, models
+
+
+class Migration(migrations.Migration):
+
+    dependencies = [
+        ('api', '0002_model3d_display_file'),
+    ]
+
+    operations = [
+        migrations.AlterField(
+            model_name='model3d',
+            name='file_format',
+            field=models.CharField(choices=[('stl', 'STL'), ('obj', 'OBJ'), ('glb', 'GLB'), ('gltf', 'glTF'), ('ply', 'PLY'), ('3mf', '3MF'), ('step', 'STEP'), ('iges', 'IGES')], max_length=10),
+        ),
+    ]
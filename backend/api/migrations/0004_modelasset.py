@@ -0,0 +1,21 @@
+import django.db.models.deletion
+from django.db import migrations, models
+
+
+class Migration(migrations.Migration):
+
+    dependencies = [
+        ('api', '0003_alter_model3d_file_format'),
+    ]
+
+    operations = [
+        migrations.CreateModel(
+            name='ModelAsset',
+            fields=[
+                ('id', models.BigAutoField(auto_created=True, primary_key=True, serialize=False, verbose_name='ID')),
+                ('name', models.CharField(max_length=255)),
+                ('file', models.FileField(upload_to='models/assets/')),
+                ('model', models.ForeignKey(on_delete=django.db.models.deletion.CASCADE, related_name='assets', to='api.model3d')),
+            ],
+        ),
+    ]
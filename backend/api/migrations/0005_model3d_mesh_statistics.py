@@ -0,0 +1,46 @@
+from django.db import migrations, models
+
+
+class Migration(migrations.Migration):
+
+    dependencies = [
+        ('api', '0004_modelasset'),
+    ]
+
+    operations = [
+        migrations.AddField(
+            model_name='model3d',
+            name='triangle_count',
+            field=models.PositiveIntegerField(blank=True, null=True),
+        ),
+        migrations.AddField(
+            model_name='model3d',
+            name='surface_area',
+            field=models.FloatField(blank=True, null=True),
+        ),
+        migrations.AddField(
+            model_name='model3d',
+            name='volume',
+            field=models.FloatField(blank=True, null=True),
+        ),
+        migrations.AddField(
+            model_name='model3d',
+            name='size_x',
+            field=models.FloatField(blank=True, null=True),
+        ),
+        migrations.AddField(
+            model_name='model3d',
+            name='size_y',
+            field=models.FloatField(blank=True, null=True),
+        ),
+        migrations.AddField(
+            model_name='model3d',
+            name='size_z',
+            field=models.FloatField(blank=True, null=True),
+        ),
+        migrations.AddField(
+            model_name='model3d',
+            name='is_watertight',
+            field=models.BooleanField(blank=True, null=True),
+        ),
+    ]
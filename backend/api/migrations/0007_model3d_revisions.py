@@ -0,0 +1,30 @@
+import django.db.models.deletion
+from django.db import migrations, models
+from django.db.models import F
+
+
+def start_lineages(apps, schema_editor):
+    # Existing models become the first revision of their own lineage
+    Model3D = apps.get_model('api', 'Model3D')
+    Model3D.objects.filter(lineage__isnull=True).update(lineage=F('id'))
+
+
+class Migration(migrations.Migration):
+
+    dependencies = [
+        ('api', '0006_annotation'),
+    ]
+
+    operations = [
+        migrations.AddField(
+            model_name='model3d',
+            name='lineage',
+            field=models.ForeignKey(blank=True, null=True, on_delete=django.db.models.deletion.CASCADE, related_name='revisions', to='api.model3d'),
+        ),
+        migrations.AddField(
+            model_name='model3d',
+            name='revision',
+            field=models.PositiveIntegerField(default=1),
+        ),
+        migrations.RunPython(start_lineages, migrations.RunPython.noop),
+    ]
@@ -0,0 +1,28 @@
+import django.db.models.deletion
+from django.db import migrations, models
+
+
+class Migration(migrations.Migration):
+
+    dependencies = [
+        ('api', '0007_model3d_revisions'),
+    ]
+
+    operations = [
+        migrations.CreateModel(
+            name='SavedView',
+            fields=[
+                ('id', models.BigAutoField(auto_created=True, primary_key=True, serialize=False, verbose_name='ID')),
+                ('name', models.CharField(max_length=100)),
+                ('camera_position', models.JSONField()),
+                ('camera_target', models.JSONField()),
+                ('projection', models.CharField(choices=[('perspective', 'Perspective'), ('orthographic', 'Orthographic')], default='perspective', max_length=20)),
+                ('view_height', models.FloatField(blank=True, null=True)),
+                ('created_at', models.DateTimeField(auto_now_add=True)),
+                ('model', models.ForeignKey(on_delete=django.db.models.deletion.CASCADE, related_name='saved_views', to='api.model3d')),
+            ],
+            options={
+                'ordering': ['created_at'],
+            },
+        ),
+    ]
@@ -0,0 +1,16 @@
+from django.db import migrations, models
+
+
+class Migration(migrations.Migration):
+
+    dependencies = [
+        ('api', '0009_chunkedupload'),
+    ]
+
+    operations = [
+        migrations.AddField(
+            model_name='model3d',
+            name='thumbnail',
+            field=models.FileField(blank=True, null=True, upload_to='models/thumbnails/'),
+        ),
+    ]
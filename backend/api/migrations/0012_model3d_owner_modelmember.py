@@ -0,0 +1,31 @@
+import django.db.models.deletion
+from django.conf import settings
+from django.db import migrations, models
+
+
+class Migration(migrations.Migration):
+
+    dependencies = [
+        ('api', '0011_project_tag'),
+        migrations.swappable_dependency(settings.AUTH_USER_MODEL),
+    ]
+
+    operations = [
+        migrations.AddField(
+            model_name='model3d',
+            name='owner',
+            field=models.ForeignKey(blank=True, null=True, on_delete=django.db.models.deletion.SET_NULL, related_name='models', to=settings.AUTH_USER_MODEL),
+        ),
+        migrations.CreateModel(
+            name='ModelMember',
+            fields=[
+                ('id', models.BigAutoField(auto_created=True, primary_key=True, serialize=False, verbose_name='ID')),
+                ('role', models.CharField(choices=[('viewer', 'Viewer'), ('editor', 'Editor')], default='viewer', max_length=10)),
+                ('model', models.ForeignKey(on_delete=django.db.models.deletion.CASCADE, related_name='members', to='api.model3d')),
+                ('user', models.ForeignKey(on_delete=django.db.models.deletion.CASCADE, related_name='model_memberships', to=settings.AUTH_USER_MODEL)),
+            ],
+            options={
+                'constraints': [models.UniqueConstraint(fields=('model', 'user'), name='unique_model_member')],
+            },
+        ),
+    ]
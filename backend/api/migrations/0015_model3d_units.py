@@ -0,0 +1,23 @@
+from django.db import migrations, models
+
+
+def default_units(apps, schema_editor):
+    # Existing glTF models get the units new uploads of them default to
+    Model3D = apps.get_model('api', 'Model3D')
+    Model3D.objects.filter(file_format__in=['glb', 'gltf']).update(units='m')
+
+
+class Migration(migrations.Migration):
+
+    dependencies = [
+        ('api', '0014_scene'),
+    ]
+
+    operations = [
+        migrations.AddField(
+            model_name='model3d',
+            name='units',
+            field=models.CharField(choices=[('mm', 'Millimeters'), ('cm', 'Centimeters'), ('m', 'Meters'), ('in', 'Inches')], default='mm', max_length=2),
+        ),
+        migrations.RunPython(default_units, migrations.RunPython.noop),
+    ]
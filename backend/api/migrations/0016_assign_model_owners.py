@@ -0,0 +1,25 @@
+from django.conf import settings
+from django.db import migrations
+
+
+def assign_owners(apps, schema_editor):
+    # Models uploaded before accounts existed go to the first superuser; without
+    # one they stay ownerless, which leaves them to staff users
+    app_label, model_name = settings.AUTH_USER_MODEL.split('.')
+    User = apps.get_model(app_label, model_name)
+    Model3D = apps.get_model('api', 'Model3D')
+    admin = User.objects.filter(is_superuser=True).order_by('pk').first()
+    if admin:
+        Model3D.objects.filter(owner__isnull=True).update(owner=admin)
+
+
+class Migration(migrations.Migration):
+
+    dependencies = [
+        ('api', '0015_model3d_units'),
+        migrations.swappable_dependency(settings.AUTH_USER_MODEL),
+    ]
+
+    operations = [
+        migrations.RunPython(assign_owners, migrations.RunPython.noop),
+    ]
@@ -0,0 +1,30 @@
+import django.db.models.deletion
+from django.conf import settings
+from django.db import migrations, models
+
+
+def assign_owners(apps, schema_editor):
+    # Existing projects go to the first superuser, like ownerless models in 0016
+    app_label, model_name = settings.AUTH_USER_MODEL.split('.')
+    User = apps.get_model(app_label, model_name)
+    Project = apps.get_model('api', 'Project')
+    admin = User.objects.filter(is_superuser=True).order_by('pk').first()
+    if admin:
+        Project.objects.filter(owner__isnull=True).update(owner=admin)
+
+
+class Migration(migrations.Migration):
+
+    dependencies = [
+        ('api', '0017_savedview_created_by'),
+        migrations.swappable_dependency(settings.AUTH_USER_MODEL),
+    ]
+
+    operations = [
+        migrations.AddField(
+            model_name='project',
+            name='owner',
+            field=models.ForeignKey(blank=True, null=True, on_delete=django.db.models.deletion.CASCADE, related_name='projects', to=settings.AUTH_USER_MODEL),
+        ),
+        migrations.RunPython(assign_owners, migrations.RunPython.noop),
+    ]
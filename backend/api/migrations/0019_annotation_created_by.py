@@ -0,0 +1,38 @@
+import django.db.models.deletion
+from django.conf import settings
+from django.db import migrations, models
+
+
+def link_authors(apps, schema_editor):
+    # Comments were attributed by username; link those whose author still has that name
+    app_label, model_name = settings.AUTH_USER_MODEL.split('.')
+    User = apps.get_model(app_label, model_name)
+    users = dict(User.objects.values_list('username', 'pk'))
+    for name in ('Annotation', 'AnnotationReply'):
+        note_model = apps.get_model('api', name)
+        for note in note_model.objects.exclude(author=''):
+            if note.author in users:
+                note.created_by_id = users[note.author]
+                note.save(update_fields=['created_by'])
+
+
+class Migration(migrations.Migration):
+
+    dependencies = [
+        ('api', '0018_project_owner'),
+        migrations.swappable_dependency(settings.AUTH_USER_MODEL),
+    ]
+
+    operations = [
+        migrations.AddField(
+            model_name='annotation',
+            name='created_by',
+            field=models.ForeignKey(blank=True, null=True, on_delete=django.db.models.deletion.SET_NULL, related_name='annotations', to=settings.AUTH_USER_MODEL),
+        ),
+        migrations.AddField(
+            model_name='annotationreply',
+            name='created_by',
+            field=models.ForeignKey(blank=True, null=True, on_delete=django.db.models.deletion.SET_NULL, related_name='annotation_replies', to=settings.AUTH_USER_MODEL),
+        ),
+        migrations.RunPython(link_authors, migrations.RunPython.noop),
+    ]
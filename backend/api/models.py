@@ -1,17 +1,335 @@
+import secrets
+import uuid
+
+from django.conf import settings
 from django.db import models
+from django.utils import timezone
 
 # Create your models here.
 
+class Project(models.Model):
+    """Folder for organising models; projects nest through `parent`."""
+
+    name = models.CharField(max_length=255)
+    # Deleting a project deletes its subprojects; their models become unfiled
+    parent = models.ForeignKey('self', related_name='children', on_delete=models.CASCADE, blank=True, null=True)
+    # Projects are private to their owner; those without one are only open to staff
+    owner = models.ForeignKey(settings.AUTH_USER_MODEL, related_name='projects', on_delete=models.CASCADE, blank=True, null=True)
+    created_at = models.DateTimeField(auto_now_add=True)
+
+    class Meta:
+        ordering = ['name']
+
+    def __str__(self):
+        return self.name
+
+    def descendant_ids(self):
+        """Ids of this project and every project below it."""
+        ids = [self.pk]
+        frontier = [self.pk]
+        while frontier:
+            frontier = list(Project.objects.filter(parent_id__in=frontier).values_list('pk', flat=True))
+            ids.extend(frontier)
+        return ids
+
+
+class Tag(models.Model):
+    name = models.CharField(max_length=50, unique=True)
+
+    class Meta:
+        ordering = ['name']
+
+    def __str__(self):
+        return self.name
+
+
 class Model3D(models.Model):
     FILE_FORMATS = [
         ('stl', 'STL'),
         ('obj', 'OBJ'),
+        ('glb', 'GLB'),
+        ('gltf', 'glTF'),
+        ('ply', 'PLY'),
+        ('3mf', '3MF'),
+        ('step', 'STEP'),
+        ('iges', 'IGES'),
+    ]
+
+    # Upload extensions mapped to their file format
+    EXTENSION_FORMATS = {
+        'stl': 'stl',
+        'obj': 'obj',
+        'glb': 'glb',
+        'gltf': 'gltf',
+        'ply': 'ply',
+        '3mf': '3mf',
+        'step': 'step',
+        'stp': 'step',
+        'iges': 'iges',
+        'igs': 'iges',
+    }
+
+    # Formats the browser cannot load directly and that are tessellated to GLB on upload
+    TESSELLATED_FORMATS = {'step', 'iges'}
+
+    UNITS = [
+        ('mm', 'Millimeters'),
+        ('cm', 'Centimeters'),
+        ('m', 'Meters'),
+        ('in', 'Inches'),
     ]
+
+    # glTF is defined in meters; the other formats carry no units or are
+    # usually written in millimeters (STEP and IGES are tessellated in mm)
+    DEFAULT_UNITS = {
+        'glb': 'm',
+        'gltf': 'm',
+    }
     
     name = models.CharField(max_length=255)
     file = models.FileField(upload_to='models/')
-    file_format = models.CharField(max_length=3, choices=FILE_FORMATS)
+    file_format = models.CharField(max_length=10, choices=FILE_FORMATS)
+    # Viewer-friendly mesh derived from the original file (GLB), if any
+    display_file = models.FileField(upload_to='models/derived/', blank=True, null=True)
+    # PNG preview for the model list, rendered by the viewer the first time the model is opened
+    thumbnail = models.FileField(upload_to='models/thumbnails/', blank=True, null=True)
     uploaded_at = models.DateTimeField(auto_now_add=True)
 
+    # Mesh statistics computed at upload, in model units
+    triangle_count = models.PositiveIntegerField(blank=True, null=True)
+    surface_area = models.FloatField(blank=True, null=True)
+    # Only set for watertight meshes, where the enclosed volume is meaningful
+    volume = models.FloatField(blank=True, null=True)
+    size_x = models.FloatField(blank=True, null=True)
+    size_y = models.FloatField(blank=True, null=True)
+    size_z = models.FloatField(blank=True, null=True)
+    is_watertight = models.BooleanField(blank=True, null=True)
+    # Length unit of the file's coordinates, declared at upload since most formats do not store it
+    units = models.CharField(max_length=2, choices=UNITS, default='mm')
+
+    # First revision of the model, shared by all of its revisions
+    lineage = models.ForeignKey('self', related_name='revisions', on_delete=models.CASCADE, blank=True, null=True)
+    revision = models.PositiveIntegerField(default=1)
+
+    # Shared by all revisions of a model; unfiled when the project is deleted
+    project = models.ForeignKey(Project, related_name='models', on_delete=models.SET_NULL, blank=True, null=True)
+    tags = models.ManyToManyField(Tag, related_name='models', blank=True)
+
+    # Shared by all revisions of a model. Models without an owner are only open to
+    # staff; those uploaded before accounts existed were given to the first superuser.
+    owner = models.ForeignKey(settings.AUTH_USER_MODEL, related_name='models', on_delete=models.SET_NULL, blank=True, null=True)
+
     def __str__(self):
         return self.name
+
+    def save(self, *args, **kwargs):
+        super().save(*args, **kwargs)
+        # A model without history starts its own lineage
+        if self.lineage_id is None:
+            Model3D.objects.filter(pk=self.pk).update(lineage=self.pk)
+            self.lineage_id = self.pk
+
+    @classmethod
+    def default_units(cls, file_format):
+        return cls.DEFAULT_UNITS.get(file_format, 'mm')
+
+    @property
+    def display_format(self):
+        return 'glb' if self.display_file else self.file_format
+
+
+class ModelMember(models.Model):
+    """Role of a user other than the owner on a model and all of its revisions."""
+
+    ROLES = [
+        ('viewer', 'Viewer'),
+        ('editor', 'Editor'),
+    ]
+
+    # First revision of the model, like Model3D.lineage
+    model = models.ForeignKey(Model3D, related_name='members', on_delete=models.CASCADE)
+    user = models.ForeignKey(settings.AUTH_USER_MODEL, related_name='model_memberships', on_delete=models.CASCADE)
+    role = models.CharField(max_length=10, choices=ROLES, default='viewer')
+
+    class Meta:
+        constraints = [
+            models.UniqueConstraint(fields=['model', 'user'], name='unique_model_member'),
+        ]
+
+    def __str__(self):
+        return f'{self.user} ({self.role})'
+
+
+def share_token():
+    return secrets.token_urlsafe(24)
+
+
+class ShareLink(models.Model):
+    """Read-only link to one revision of a model for people without an account."""
+
+    token = models.CharField(max_length=64, unique=True, default=share_token, editable=False)
+    model = models.ForeignKey(Model3D, related_name='share_links', on_delete=models.CASCADE)
+    created_by = models.ForeignKey(settings.AUTH_USER_MODEL, related_name='share_links', on_delete=models.SET_NULL, blank=True, null=True)
+    created_at = models.DateTimeField(auto_now_add=True)
+    # The link stops working after this time; never when empty
+    expires_at = models.DateTimeField(blank=True, null=True)
+    # Hashed like user passwords; empty when the link needs none
+    password = models.CharField(max_length=128, blank=True)
+
+    class Meta:
+        ordering = ['-created_at']
+
+    def __str__(self):
+        return f'{self.model} ({self.token[:8]})'
+
+    @property
+    def is_expired(self):
+        return self.expires_at is not None and self.expires_at <= timezone.now()
+
+
+class ModelAsset(models.Model):
+    """Companion file stored with a model, such as an OBJ's MTL file or textures."""
+
+    model = models.ForeignKey(Model3D, related_name='assets', on_delete=models.CASCADE)
+    # Path relative to the model file, used to resolve references from the model
+    name = models.CharField(max_length=255)
+    file = models.FileField(upload_to='models/assets/')
+
+    def __str__(self):
+        return self.name
+
+
+class ChunkedUpload(models.Model):
+    """Large model file received in chunks, turned into a Model3D once complete."""
+
+    # Random id so one client cannot guess and append to another's upload
+    id = models.UUIDField(primary_key=True, default=uuid.uuid4, editable=False)
+    # Only the user who started an upload may add to it or turn it into a model; uploads
+    # started before owners were recorded have none and are left to expire
+    owner = models.ForeignKey(settings.AUTH_USER_MODEL, related_name='chunked_uploads', on_delete=models.CASCADE, null=True)
+    filename = models.CharField(max_length=255)
+    # Total size announced by the client, in bytes
+    size = models.BigIntegerField()
+    # Bytes received so far, appended in order
+    file = models.FileField(upload_to='uploads/')
+    created_at = models.DateTimeField(auto_now_add=True)
+
+    def __str__(self):
+        return self.filename
+
+    @property
+    def received(self):
+        return self.file.size
+
+    @property
+    def is_complete(self):
+        return self.received >= self.size
+
+
+class Annotation(models.Model):
+    """Review comment pinned to a point on a model's surface."""
+
+    STATUSES = [
+        ('open', 'Open'),
+        ('resolved', 'Resolved'),
+    ]
+
+    model = models.ForeignKey(Model3D, related_name='annotations', on_delete=models.CASCADE)
+    text = models.TextField()
+    # Name shown with the comment; authorship is decided by `created_by`
+    author = models.CharField(max_length=100, blank=True)
+    # Empty for comments made before accounts existed
+    created_by = models.ForeignKey(settings.AUTH_USER_MODEL, related_name='annotations', on_delete=models.SET_NULL, blank=True, null=True)
+    status = models.CharField(max_length=10, choices=STATUSES, default='open')
+    # Pinned point and surface normal as [x, y, z] in model coordinates
+    position = models.JSONField()
+    normal = models.JSONField(default=list, blank=True)
+    # Camera view saved with the comment, in model coordinates
+    camera_position = models.JSONField(blank=True, null=True)
+    camera_target = models.JSONField(blank=True, null=True)
+    created_at = models.DateTimeField(auto_now_add=True)
+
+    class Meta:
+        ordering = ['created_at']
+
+    def __str__(self):
+        return self.text[:50]
+
+    def is_author(self, user):
+        return self.created_by_id is not None and self.created_by_id == user.pk
+
+
+class AnnotationReply(models.Model):
+    annotation = models.ForeignKey(Annotation, related_name='replies', on_delete=models.CASCADE)
+    text = models.TextField()
+    author = models.CharField(max_length=100, blank=True)
+    created_by = models.ForeignKey(settings.AUTH_USER_MODEL, related_name='annotation_replies', on_delete=models.SET_NULL, blank=True, null=True)
+    created_at = models.DateTimeField(auto_now_add=True)
+
+    class Meta:
+        ordering = ['created_at']
+
+    def __str__(self):
+        return self.text[:50]
+
+
+class SavedView(models.Model):
+    """Named camera view of a model."""
+
+    PROJECTIONS = [
+        ('perspective', 'Perspective'),
+        ('orthographic', 'Orthographic'),
+    ]
+
+    model = models.ForeignKey(Model3D, related_name='saved_views', on_delete=models.CASCADE)
+    name = models.CharField(max_length=100)
+    # Camera eye and orbit target as [x, y, z] in model coordinates
+    camera_position = models.JSONField()
+    camera_target = models.JSONField()
+    projection = models.CharField(max_length=20, choices=PROJECTIONS, default='perspective')
+    # Height of the visible area at the target in model units, sets the orthographic zoom
+    view_height = models.FloatField(blank=True, null=True)
+    # Empty for views saved before accounts existed
+    created_by = models.ForeignKey(settings.AUTH_USER_MODEL, related_name='saved_views', on_delete=models.SET_NULL, blank=True, null=True)
+    created_at = models.DateTimeField(auto_now_add=True)
+
+    class Meta:
+        ordering = ['created_at']
+
+    def __str__(self):
+        return self.name
+
+    def is_author(self, user):
+        return self.created_by_id is not None and self.created_by_id == user.pk
+
+
+class Scene(models.Model):
+    """Named arrangement of several models at their true scale, such as a build plate."""
+
+    name = models.CharField(max_length=255)
+    owner = models.ForeignKey(settings.AUTH_USER_MODEL, related_name='scenes', on_delete=models.CASCADE)
+    created_at = models.DateTimeField(auto_now_add=True)
+    updated_at = models.DateTimeField(auto_now=True)
+
+    class Meta:
+        ordering = ['-updated_at']
+
+    def __str__(self):
+        return self.name
+
+
+class ScenePart(models.Model):
+    """One model placed in a scene. A model can be placed several times."""
+
+    scene = models.ForeignKey(Scene, related_name='parts', on_delete=models.CASCADE)
+    model = models.ForeignKey(Model3D, related_name='scene_parts', on_delete=models.CASCADE)
+    # Placement in scene units as [x, y, z]; rotation in degrees about x, y and z, applied in that order
+    position = models.JSONField()
+    rotation = models.JSONField()
+    scale = models.JSONField()
+
+    class Meta:
+        ordering = ['id']
+
+    def __str__(self):
+        return f'{self.model} in {self.scene}'
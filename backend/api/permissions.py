@@ -0,0 +1,66 @@
+from django.db.models import Exists, OuterRef, Q, Subquery
+from rest_framework import permissions
+from .models import Model3D, ModelMember
+
+# Roles on a model, each allowing what the previous ones do
+ROLES = ['viewer', 'editor', 'owner']
+
+
+def model_role(user, model):
+    """Role of `user` on `model` and its revisions, None when it is not shared with them."""
+    if user.is_staff or model.owner_id == user.pk:
+        return 'owner'
+    # Models left without an owner, e.g. when their owner's account was deleted, are
+    # only open to staff
+    if model.owner_id is None:
+        return None
+    # Models from with_member_roles() carry the membership role already
+    if hasattr(model, 'member_role'):
+        return model.member_role
+    member = ModelMember.objects.filter(model_id=model.lineage_id, user=user).first()
+    return member.role if member else None
+
+
+def has_role(user, model, role):
+    current = model_role(user, model)
+    return current is not None and ROLES.index(current) >= ROLES.index(role)
+
+
+def can_change_note(user, note):
+    """Whether `user` may change or delete an annotation or saved view: its author and editors of its model may."""
+    return note.is_author(user) or has_role(user, note.model, 'editor')
+
+
+def with_member_roles(user, queryset):
+    """Annotate the role `user` was given on each model, so model_role needs no query per model."""
+    membership = ModelMember.objects.filter(model_id=OuterRef('lineage_id'), user=user)
+    return queryset.annotate(member_role=Subquery(membership.values('role')[:1]))
+
+
+def visible_models(user, queryset=None):
+    """Models `user` has any role on."""
+    if queryset is None:
+        queryset = Model3D.objects.all()
+    if user.is_staff:
+        return queryset
+    membership = ModelMember.objects.filter(model_id=OuterRef('lineage_id'), user=user)
+    return queryset.filter(Q(owner=user) | Exists(membership))
+
+
+class ModelRolePermission(permissions.BasePermission):
+    """Viewers may read a model, editors change, re-upload and delete it, owners manage its members."""
+
+    OWNER_ACTIONS = {'members', 'member'}
+    # Share links give access to anyone holding them, so only owners may even list them
+    OWNER_ONLY_ACTIONS = {'share_links', 'share_link'}
+
+    def has_object_permission(self, request, view, obj):
+        if view.action in self.OWNER_ONLY_ACTIONS:
+            role = 'owner'
+        elif request.method in permissions.SAFE_METHODS:
+            role = 'viewer'
+        elif view.action in self.OWNER_ACTIONS:
+            role = 'owner'
+        else:
+            role = 'editor'
+        return has_role(request.user, obj, role)
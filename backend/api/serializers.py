@@ -1,7 +1,332 @@
+import os
+
+from django.conf import settings
+from django.contrib.auth import get_user_model
+from django.contrib.auth.hashers import make_password
+from django.utils import timezone
 from rest_framework import serializers
-from .models import Model3D
+from .models import (
+    Model3D, ModelAsset, ModelMember, ShareLink, ChunkedUpload, Project, Tag, Annotation, AnnotationReply, SavedView,
+    Scene, ScenePart,
+)
+from .permissions import has_role, model_role, visible_models
+
+
+class UserSerializer(serializers.ModelSerializer):
+    class Meta:
+        model = get_user_model()
+        fields = ['id', 'username', 'is_staff']
+
+
+class ModelAssetSerializer(serializers.ModelSerializer):
+    class Meta:
+        model = ModelAsset
+        fields = ['id', 'name']
+
+class TagNameField(serializers.SlugRelatedField):
+    """Tag referenced by name; tags are free-form, so unknown names are created."""
+
+    def __init__(self, **kwargs):
+        super().__init__(slug_field='name', queryset=Tag.objects.all(), **kwargs)
+
+    def to_internal_value(self, data):
+        name = str(data).strip()
+        if not name:
+            raise serializers.ValidationError('Tag names cannot be empty')
+        if len(name) > Tag._meta.get_field('name').max_length:
+            raise serializers.ValidationError('Tag name is too long')
+        return Tag.objects.get_or_create(name=name)[0]
+
 
 class Model3DSerializer(serializers.ModelSerializer):
+    display_format = serializers.CharField(read_only=True)
+    assets = ModelAssetSerializer(many=True, read_only=True)
+    revision_count = serializers.SerializerMethodField()
+    has_thumbnail = serializers.SerializerMethodField()
+    tags = TagNameField(many=True, required=False)
+    owner = serializers.SlugRelatedField(slug_field='username', read_only=True)
+    role = serializers.SerializerMethodField()
+    # Stored files are only reachable through the download and display actions, so
+    # their paths are not sent
+    file_name = serializers.SerializerMethodField()
+
+    class Meta:
+        model = Model3D
+        fields = [
+            'id', 'name', 'file', 'file_name', 'file_format', 'display_format', 'assets', 'uploaded_at',
+            'triangle_count', 'surface_area', 'volume', 'size_x', 'size_y', 'size_z', 'is_watertight',
+            'units', 'lineage', 'revision', 'revision_count', 'has_thumbnail', 'project', 'tags', 'owner', 'role',
+        ]
+        extra_kwargs = {'file': {'write_only': True}}
+        read_only_fields = [
+            'triangle_count', 'surface_area', 'volume', 'size_x', 'size_y', 'size_z', 'is_watertight',
+            'lineage', 'revision',
+        ]
+
+    def get_revision_count(self, obj):
+        # Annotated on the model lists by with_revision_counts()
+        if hasattr(obj, 'revision_total'):
+            return obj.revision_total
+        return Model3D.objects.filter(lineage_id=obj.lineage_id).count()
+
+    def get_file_name(self, obj):
+        return os.path.basename(obj.file.name)
+
+    def get_has_thumbnail(self, obj):
+        return bool(obj.thumbnail)
+
+    def get_role(self, obj):
+        # Role of the requesting user, so clients can hide what they may not do
+        request = self.context.get('request')
+        return model_role(request.user, obj) if request else None
+
+    def validate(self, attrs):
+        # Replacing the file goes through a new revision, which keeps the previous one
+        if self.instance is not None:
+            replaced = [field for field in ('file', 'file_format') if field in attrs]
+            if replaced:
+                raise serializers.ValidationError({field: 'Upload a new revision to replace the file' for field in replaced})
+        return attrs
+
+    def validate_project(self, value):
+        request = self.context.get('request')
+        # Editors may keep a model where its owner filed it
+        unchanged = self.instance is not None and value == self.instance.project
+        if value and request and not unchanged and not owns_project(request.user, value):
+            raise serializers.ValidationError('You can only file models in your own projects')
+        return value
+
+
+class SharedModel3DSerializer(serializers.ModelSerializer):
+    """What anyone holding a share link sees of a model: enough to show it, nothing about who owns it or where it is filed."""
+
+    display_format = serializers.CharField(read_only=True)
+    assets = ModelAssetSerializer(many=True, read_only=True)
+
     class Meta:
         model = Model3D
-        fields = ['id', 'name', 'file', 'file_format', 'uploaded_at'] 
\ No newline at end of file
+        fields = ['id', 'name', 'file_format', 'display_format', 'assets', 'units']
+        read_only_fields = fields
+
+
+class ModelMemberSerializer(serializers.ModelSerializer):
+    username = serializers.CharField(source='user.username', read_only=True)
+
+    class Meta:
+        model = ModelMember
+        fields = ['id', 'user', 'username', 'role']
+        read_only_fields = ['user']
+
+
+def count_models(queryset):
+    # Revisions share their project and tags, count each model once
+    return queryset.values('lineage').distinct().count()
+
+
+def owns_project(user, project):
+    return user.is_staff or project.owner_id == user.pk
+
+
+class ProjectSerializer(serializers.ModelSerializer):
+    model_count = serializers.SerializerMethodField()
+
+    class Meta:
+        model = Project
+        fields = ['id', 'name', 'parent', 'model_count', 'created_at']
+
+    def get_model_count(self, obj):
+        return count_models(obj.models.all())
+
+    def validate_parent(self, value):
+        request = self.context.get('request')
+        if value and request and not owns_project(request.user, value):
+            raise serializers.ValidationError('You can only nest projects in your own projects')
+        if value and self.instance and value.pk in self.instance.descendant_ids():
+            raise serializers.ValidationError('A project cannot be moved into itself')
+        return value
+
+
+class TagSerializer(serializers.ModelSerializer):
+    model_count = serializers.SerializerMethodField()
+
+    class Meta:
+        model = Tag
+        fields = ['id', 'name', 'model_count']
+
+    def get_model_count(self, obj):
+        # Tags are shared by everyone, so only the models the user can see are counted
+        request = self.context.get('request')
+        models = obj.models.all()
+        return count_models(visible_models(request.user, models) if request else models)
+
+
+class ShareLinkSerializer(serializers.ModelSerializer):
+    created_by = serializers.SlugRelatedField(slug_field='username', read_only=True)
+    password = serializers.CharField(write_only=True, required=False, allow_blank=True)
+    has_password = serializers.SerializerMethodField()
+
+    class Meta:
+        model = ShareLink
+        fields = ['id', 'token', 'model', 'created_by', 'created_at', 'expires_at', 'password', 'has_password']
+        read_only_fields = ['model']
+
+    def get_has_password(self, obj):
+        return bool(obj.password)
+
+    def validate_expires_at(self, value):
+        if value and value <= timezone.now():
+            raise serializers.ValidationError('Expiry must be in the future')
+        return value
+
+    def validate_password(self, value):
+        return make_password(value) if value else ''
+
+
+class ChunkedUploadSerializer(serializers.ModelSerializer):
+    received = serializers.IntegerField(read_only=True)
+
+    class Meta:
+        model = ChunkedUpload
+        fields = ['id', 'filename', 'size', 'received', 'created_at']
+
+    def validate_size(self, value):
+        if value <= 0:
+            raise serializers.ValidationError('Expected a positive file size')
+        if value > settings.MAX_UPLOAD_SIZE:
+            raise serializers.ValidationError('File is larger than the upload limit')
+        return value
+
+
+def validate_vector(value):
+    if not isinstance(value, list) or len(value) != 3 or not all(isinstance(v, (int, float)) for v in value):
+        raise serializers.ValidationError('Expected a list of three numbers')
+    return value
+
+
+def validate_same_model(serializer, value):
+    # Annotations and views stay on the model they were made on
+    if serializer.instance is not None and value != serializer.instance.model:
+        raise serializers.ValidationError('The model cannot be changed')
+    return value
+
+
+def can_edit_note(serializer, note):
+    """Whether the requesting user may change an annotation or view, see permissions.can_change_note."""
+    request = serializer.context.get('request')
+    if not request:
+        return False
+    if note.is_author(request.user):
+        return True
+    # Lists hold the notes of a single model, so its role is looked up once
+    editable = serializer.context.setdefault('editable_models', {})
+    if note.model_id not in editable:
+        editable[note.model_id] = has_role(request.user, note.model, 'editor')
+    return editable[note.model_id]
+
+
+class AnnotationReplySerializer(serializers.ModelSerializer):
+    class Meta:
+        model = AnnotationReply
+        fields = ['id', 'text', 'author', 'created_at']
+        read_only_fields = ['author']
+
+
+class AnnotationSerializer(serializers.ModelSerializer):
+    replies = AnnotationReplySerializer(many=True, read_only=True)
+    can_edit = serializers.SerializerMethodField()
+
+    class Meta:
+        model = Annotation
+        fields = [
+            'id', 'model', 'text', 'author', 'status', 'position', 'normal',
+            'camera_position', 'camera_target', 'created_at', 'replies', 'can_edit',
+        ]
+        read_only_fields = ['author']
+
+    def get_can_edit(self, obj):
+        return can_edit_note(self, obj)
+
+    def validate_model(self, value):
+        return validate_same_model(self, value)
+
+    def validate_position(self, value):
+        return validate_vector(value)
+
+    def validate_camera_position(self, value):
+        return value if value is None else validate_vector(value)
+
+    def validate_camera_target(self, value):
+        return value if value is None else validate_vector(value)
+
+
+class SavedViewSerializer(serializers.ModelSerializer):
+    can_edit = serializers.SerializerMethodField()
+
+    class Meta:
+        model = SavedView
+        fields = [
+            'id', 'model', 'name', 'camera_position', 'camera_target', 'projection', 'view_height', 'created_at',
+            'can_edit',
+        ]
+
+    def get_can_edit(self, obj):
+        return can_edit_note(self, obj)
+
+    def validate_model(self, value):
+        return validate_same_model(self, value)
+
+    def validate_camera_position(self, value):
+        return validate_vector(value)
+
+    def validate_camera_target(self, value):
+        return validate_vector(value)
+
+
+class ScenePartSerializer(serializers.ModelSerializer):
+    model_name = serializers.CharField(source='model.name', read_only=True)
+
+    class Meta:
+        model = ScenePart
+        fields = ['id', 'model', 'model_name', 'position', 'rotation', 'scale']
+
+    def validate_model(self, value):
+        request = self.context.get('request')
+        if request and not has_role(request.user, value, 'viewer'):
+            raise serializers.ValidationError('You do not have access to this model')
+        return value
+
+    def validate_position(self, value):
+        return validate_vector(value)
+
+    def validate_rotation(self, value):
+        return validate_vector(value)
+
+    def validate_scale(self, value):
+        validate_vector(value)
+        if any(v == 0 for v in value):
+            raise serializers.ValidationError('Scale cannot be zero')
+        return value
+
+
+class SceneSerializer(serializers.ModelSerializer):
+    owner = serializers.SlugRelatedField(slug_field='username', read_only=True)
+    # Saved as a whole, the parts of the scene are replaced on every update
+    parts = ScenePartSerializer(many=True, required=False)
+
+    class Meta:
+        model = Scene
+        fields = ['id', 'name', 'owner', 'parts', 'created_at', 'updated_at']
+
+    def create(self, validated_data):
+        parts = validated_data.pop('parts', [])
+        scene = Scene.objects.create(**validated_data)
+        ScenePart.objects.bulk_create(ScenePart(scene=scene, **part) for part in parts)
+        return scene
+
+    def update(self, instance, validated_data):
+        parts = validated_data.pop('parts', None)
+        instance = super().update(instance, validated_data)
+        if parts is not None:
+            instance.parts.all().delete()
+            ScenePart.objects.bulk_create(ScenePart(scene=instance, **part) for part in parts)
+        return instance
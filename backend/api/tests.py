@@ -1,3 +1,1076 @@
-from django.test import TestCase
+import io
+import os
+import shutil
+import sys
+import tempfile
+import zipfile
+from datetime import datetime, timedelta
+from importlib.util import find_spec
+from unittest import mock, skipUnless
 
-# Create your tests here.
+from django.contrib.auth import get_user_model
+from django.core.files.base import ContentFile
+from django.core.files.uploadedfile import SimpleUploadedFile
+from django.test import override_settings
+from django.utils import timezone
+from rest_framework import status
+from rest_framework.authtoken.models import Token
+from rest_framework.test import APITestCase
+
+from .conversion import ConversionError, tessellate_to_glb
+from .models import Annotation, ChunkedUpload, Model3D, ModelMember, Project, SavedView, Scene, ShareLink, Tag
+
+# Smallest mesh the upload endpoints accept: a single triangle
+STL = b"""solid part
+facet normal 0 0 1
+  outer loop
+    vertex 0 0 0
+    vertex 1 0 0
+    vertex 0 1 0
+  endloop
+endfacet
+endsolid part
+"""
+
+# Closed mesh with a known volume of 1/6
+TETRAHEDRON = b"""solid tetrahedron
+facet normal 0 0 -1
+  outer loop
+    vertex 0 0 0
+    vertex 0 1 0
+    vertex 1 0 0
+  endloop
+endfacet
+facet normal 0 -1 0
+  outer loop
+    vertex 0 0 0
+    vertex 1 0 0
+    vertex 0 0 1
+  endloop
+endfacet
+facet normal -1 0 0
+  outer loop
+    vertex 0 0 0
+    vertex 0 0 1
+    vertex 0 1 0
+  endloop
+endfacet
+facet normal 0.577 0.577 0.577
+  outer loop
+    vertex 1 0 0
+    vertex 0 1 0
+    vertex 0 0 1
+  endloop
+endfacet
+endsolid tetrahedron
+"""
+
+# Mesh analysis and conversion are skipped when the optional trimesh package is missing
+HAS_TRIMESH = find_spec('trimesh') is not None
+
+
+def stl_file(name='part.stl', data=STL):
+    return SimpleUploadedFile(name, data, content_type='model/stl')
+
+
+class ApiTestCase(APITestCase):
+    """Stores uploaded files in a temporary directory, removed once the tests of the class have run."""
+
+    @classmethod
+    def setUpClass(cls):
+        super().setUpClass()
+        cls.media_root = tempfile.mkdtemp()
+        cls.media_settings = override_settings(MEDIA_ROOT=cls.media_root)
+        cls.media_settings.enable()
+
+    @classmethod
+    def tearDownClass(cls):
+        cls.media_settings.disable()
+        shutil.rmtree(cls.media_root, ignore_errors=True)
+        super().tearDownClass()
+
+    def setUp(self):
+        # Every endpoint but the share links needs an account
+        self.user = self.create_user('user')
+        self.client.force_authenticate(self.user)
+
+    def create_user(self, username, **fields):
+        return get_user_model().objects.create_user(username=username, password='secret', **fields)
+
+    def create_model(self, name='Part', **fields):
+        fields.setdefault('file_format', 'stl')
+        fields.setdefault('owner', self.user)
+        return Model3D.objects.create(name=name, file=ContentFile(STL, name='part.stl'), **fields)
+
+    def add_member(self, model, user, role):
+        return ModelMember.objects.create(model_id=model.lineage_id, user=user, role=role)
+
+    def upload(self, url='/api/models/', file=None, **data):
+        return self.client.post(url, {'file': file or stl_file(), **data}, format='multipart')
+
+
+# Stands in for the tessellated GLB; gmsh is not needed to test the upload flow
+GLB = b'glTF' + bytes(16)
+
+
+def fake_tessellation(created):
+    """tessellate_to_glb replacement writing GLB to a temporary file, whose path is added to `created`."""
+    def tessellate(source_path):
+        fd, path = tempfile.mkstemp(suffix='.glb')
+        with os.fdopen(fd, 'wb') as output:
+            output.write(GLB)
+        created.append(path)
+        return path
+    return tessellate
+
+
+class TessellationTests(ApiTestCase):
+    def upload_cad(self, name, side_effect):
+        with mock.patch('api.conversion.tessellate_to_glb', side_effect=side_effect) as tessellate:
+            response = self.upload(file=SimpleUploadedFile(name, b'ISO-10303-21;'))
+        return response, tessellate
+
+    def test_step_upload_gets_a_glb_display_file(self):
+        created = []
+        response, _ = self.upload_cad('bracket.step', fake_tessellation(created))
+        self.assertEqual(response.status_code, status.HTTP_201_CREATED)
+        self.assertEqual(response.data['file_format'], 'step')
+        self.assertEqual(response.data['display_format'], 'glb')
+
+        model = Model3D.objects.get(pk=response.data['id'])
+        with model.display_file.open('rb') as handle:
+            self.assertEqual(handle.read(), GLB)
+        # The temporary GLB is removed once stored
+        self.assertFalse(os.path.exists(created[0]))
+
+    def test_short_cad_extensions_are_recognised(self):
+        for name, file_format in [('bracket.stp', 'step'), ('bracket.igs', 'iges'), ('bracket.IGES', 'iges')]:
+            response, _ = self.upload_cad(name, fake_tessellation([]))
+            self.assertEqual(response.status_code, status.HTTP_201_CREATED)
+            self.assertEqual(response.data['file_format'], file_format)
+
+    def test_display_action_serves_the_tessellated_mesh(self):
+        response, _ = self.upload_cad('bracket.step', fake_tessellation([]))
+        display = self.client.get(f"/api/models/{response.data['id']}/display/")
+        self.assertEqual(display.status_code, status.HTTP_200_OK)
+        self.assertEqual(b''.join(display.streaming_content), GLB)
+
+    def test_failed_tessellation_discards_the_upload(self):
+        response, _ = self.upload_cad('bracket.step', ConversionError('The file does not contain any surfaces'))
+        self.assertEqual(response.status_code, status.HTTP_422_UNPROCESSABLE_ENTITY)
+        self.assertEqual(response.data['error'], 'The file does not contain any surfaces')
+        self.assertFalse(Model3D.objects.exists())
+
+    def test_mesh_formats_are_not_tessellated(self):
+        response, tessellate = self.upload_cad('part.stl', fake_tessellation([]))
+        self.assertEqual(response.status_code, status.HTTP_201_CREATED)
+        self.assertEqual(response.data['display_format'], 'stl')
+        tessellate.assert_not_called()
+
+    def test_missing_gmsh_is_reported_as_a_conversion_error(self):
+        with mock.patch.dict(sys.modules, {'gmsh': None}):
+            with self.assertRaises(ConversionError):
+                tessellate_to_glb('bracket.step')
+
+
+OBJ = b"""mtllib part.mtl
+v 0 0 0
+v 1 0 0
+v 0 1 0
+usemtl wood
+f 1 2 3
+"""
+
+
+def zip_file(entries, name='part.zip'):
+    """Zip upload holding `entries`, a dict of archive paths to their bytes."""
+    buffer = io.BytesIO()
+    with zipfile.ZipFile(buffer, 'w', zipfile.ZIP_DEFLATED) as archive:
+        for path, data in entries.items():
+            archive.writestr(path, data)
+    return SimpleUploadedFile(name, buffer.getvalue(), content_type='application/zip')
+
+
+class AssetTests(ApiTestCase):
+    def upload_archive(self, entries):
+        return self.upload(file=zip_file(entries))
+
+    def test_archive_keeps_materials_and_textures_only(self):
+        response = self.upload_archive({
+            'part/part.obj': OBJ,
+            'part/part.mtl': b'newmtl wood\nmap_Kd textures/wood.png\n',
+            'part/textures/wood.png': b'png',
+            'part/readme.html': b'<script></script>',
+        })
+        self.assertEqual(response.status_code, status.HTTP_201_CREATED)
+        self.assertEqual(response.data['file_format'], 'obj')
+        self.assertCountEqual([asset['name'] for asset in response.data['assets']], ['part.mtl', 'textures/wood.png'])
+
+    def test_companion_files_other_than_materials_and_images_are_refused(self):
+        response = self.upload(
+            file=SimpleUploadedFile('part.obj', OBJ), assets=[SimpleUploadedFile('page.html', b'<script></script>')],
+        )
+        self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+        self.assertFalse(Model3D.objects.exists())
+
+    def test_archive_with_too_many_files_is_refused(self):
+        with mock.patch('api.assets.MAX_ARCHIVE_ENTRIES', 2):
+            response = self.upload_archive({'part.obj': OBJ, 'part.mtl': b'', 'wood.png': b''})
+        self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+
+    def test_archive_too_large_once_extracted_is_refused(self):
+        # A small upload that inflates past the limit
+        with override_settings(MAX_UPLOAD_SIZE=10_000):
+            response = self.upload_archive({'part.obj': OBJ, 'wood.png': bytes(100_000)})
+        self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+        self.assertIn('too large', response.data['error'])
+
+    def test_assets_are_served_with_their_own_type(self):
+        model = self.upload_archive({'part.obj': OBJ, 'part.mtl': b'newmtl wood\n', 'wood.png': b'png'}).data
+        for name, content_type in [('part.mtl', 'text/plain; charset=utf-8'), ('wood.png', 'image/png')]:
+            response = self.client.get(f"/api/models/{model['id']}/asset/", {'name': name})
+            self.assertEqual(response.status_code, status.HTTP_200_OK)
+            self.assertEqual(response['Content-Type'], content_type)
+            self.assertEqual(response['X-Content-Type-Options'], 'nosniff')
+            response.close()
+
+
+class MeshAnalysisTests(ApiTestCase):
+    @skipUnless(HAS_TRIMESH, 'trimesh is not installed')
+    def test_statistics_of_a_closed_mesh_are_stored_at_upload(self):
+        response = self.upload(file=stl_file('tetrahedron.stl', TETRAHEDRON))
+        self.assertEqual(response.status_code, status.HTTP_201_CREATED)
+        self.assertEqual(response.data['triangle_count'], 4)
+        self.assertTrue(response.data['is_watertight'])
+        self.assertAlmostEqual(response.data['volume'], 1 / 6)
+        self.assertAlmostEqual(response.data['surface_area'], 1.5 + 3 ** 0.5 / 2)
+        self.assertEqual([response.data[f'size_{axis}'] for axis in 'xyz'], [1.0, 1.0, 1.0])
+
+    @skipUnless(HAS_TRIMESH, 'trimesh is not installed')
+    def test_open_mesh_has_no_volume(self):
+        response = self.upload()
+        self.assertEqual(response.data['triangle_count'], 1)
+        self.assertFalse(response.data['is_watertight'])
+        self.assertIsNone(response.data['volume'])
+
+    def test_upload_succeeds_without_trimesh(self):
+        with mock.patch.dict(sys.modules, {'trimesh': None}):
+            response = self.upload(file=stl_file('tetrahedron.stl', TETRAHEDRON))
+        self.assertEqual(response.status_code, status.HTTP_201_CREATED)
+        self.assertIsNone(response.data['triangle_count'])
+        self.assertIsNone(response.data['volume'])
+
+    def test_statistics_are_read_only(self):
+        model = self.create_model()
+        response = self.client.patch(f'/api/models/{model.pk}/', {'volume': 42, 'triangle_count': 7}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_200_OK)
+        model.refresh_from_db()
+        self.assertIsNone(model.volume)
+        self.assertIsNone(model.triangle_count)
+
+
+class RevisionTests(ApiTestCase):
+    def upload_revision(self, model, **data):
+        return self.upload(f"/api/models/{model['id']}/revisions/", **data)
+
+    def test_new_model_starts_its_own_lineage(self):
+        response = self.upload()
+        self.assertEqual(response.status_code, status.HTTP_201_CREATED)
+        self.assertEqual(response.data['lineage'], response.data['id'])
+        self.assertEqual(response.data['revision'], 1)
+        self.assertEqual(response.data['revision_count'], 1)
+
+    def test_revision_joins_the_lineage(self):
+        first = self.upload().data
+        response = self.upload_revision(first)
+        self.assertEqual(response.status_code, status.HTTP_201_CREATED)
+        self.assertEqual(response.data['lineage'], first['id'])
+        self.assertEqual(response.data['revision'], 2)
+        self.assertEqual(response.data['revision_count'], 2)
+        self.assertEqual(response.data['name'], first['name'])
+
+    def test_revision_of_a_revision_stays_in_the_first_lineage(self):
+        first = self.upload().data
+        second = self.upload_revision(first).data
+        third = self.upload_revision(second).data
+        self.assertEqual(third['lineage'], first['id'])
+        self.assertEqual(third['revision'], 3)
+
+    def test_every_revision_reports_the_revision_count(self):
+        first = self.upload().data
+        self.upload_revision(first)
+        self.upload_revision(first)
+
+        response = self.client.get(f"/api/models/{first['id']}/")
+        self.assertEqual(response.data['revision_count'], 3)
+
+        response = self.client.get(f"/api/models/{first['id']}/revisions/")
+        self.assertEqual([model['revision'] for model in response.data], [1, 2, 3])
+        self.assertEqual({model['revision_count'] for model in response.data}, {3})
+
+    def test_list_shows_each_model_at_its_latest_revision(self):
+        first = self.upload().data
+        latest = self.upload_revision(first).data
+        other = self.upload().data
+
+        response = self.client.get('/api/models/')
+        self.assertEqual(response.status_code, status.HTTP_200_OK)
+        counts = {model['id']: model['revision_count'] for model in response.data['results']}
+        self.assertEqual(counts, {latest['id']: 2, other['id']: 1})
+
+    def test_revision_keeps_project_and_tags(self):
+        project = self.client.post('/api/projects/', {'name': 'Brackets'}, format='json').data
+        first = self.upload(project=project['id']).data
+        self.client.patch(f"/api/models/{first['id']}/", {'tags': ['steel']}, format='json')
+
+        revision = self.upload_revision(first).data
+        self.assertEqual(revision['project'], project['id'])
+        self.assertEqual(revision['tags'], ['steel'])
+
+    def test_file_is_only_replaced_by_a_revision(self):
+        first = self.upload().data
+        url = f"/api/models/{first['id']}/"
+        response = self.client.patch(url, {'file': stl_file('other.stl')}, format='multipart')
+        self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+        response = self.client.patch(url, {'file_format': 'obj'}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+
+        self.assertEqual(Model3D.objects.get(pk=first['id']).file_format, 'stl')
+        self.assertEqual(self.client.get(url).data['file_name'], first['file_name'])
+
+    def test_deleting_a_revision_deletes_the_whole_lineage(self):
+        first = self.upload().data
+        second = self.upload_revision(first).data
+
+        response = self.client.delete(f"/api/models/{second['id']}/")
+        self.assertEqual(response.status_code, status.HTTP_204_NO_CONTENT)
+        self.assertFalse(Model3D.objects.filter(lineage_id=first['id']).exists())
+
+
+class ChunkedUploadTests(ApiTestCase):
+    def setUp(self):
+        super().setUp()
+        response = self.client.post('/api/models/uploads/', {'filename': 'part.stl', 'size': len(STL)}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_201_CREATED)
+        self.upload_id = response.data['id']
+        self.url = f'/api/models/uploads/{self.upload_id}/'
+
+    def send_chunk(self, offset, data):
+        return self.client.put(self.url, {'chunk': SimpleUploadedFile('chunk', data), 'offset': offset}, format='multipart')
+
+    def test_upload_starts_empty(self):
+        response = self.client.get(self.url)
+        self.assertEqual(response.status_code, status.HTTP_200_OK)
+        self.assertEqual(response.data['received'], 0)
+
+    def test_upload_resumes_from_the_received_size(self):
+        response = self.send_chunk(0, STL[:40])
+        self.assertEqual(response.status_code, status.HTTP_200_OK)
+        self.assertEqual(response.data['received'], 40)
+
+        # A client that lost track asks how much arrived and continues from there
+        received = self.client.get(self.url).data['received']
+        self.assertEqual(received, 40)
+        response = self.send_chunk(received, STL[received:])
+        self.assertEqual(response.status_code, status.HTTP_200_OK)
+        self.assertEqual(response.data['received'], len(STL))
+
+        response = self.client.post('/api/models/', {'upload': self.upload_id}, format='multipart')
+        self.assertEqual(response.status_code, status.HTTP_201_CREATED)
+        model = Model3D.objects.get(pk=response.data['id'])
+        with model.file.open('rb') as handle:
+            self.assertEqual(handle.read(), STL)
+        # The assembled file has been moved into the model
+        self.assertFalse(ChunkedUpload.objects.filter(pk=self.upload_id).exists())
+
+    def test_resent_chunk_is_refused_with_the_received_size(self):
+        self.send_chunk(0, STL[:40])
+        response = self.send_chunk(0, STL[:40])
+        self.assertEqual(response.status_code, status.HTTP_409_CONFLICT)
+        self.assertEqual(response.data['received'], 40)
+        self.assertEqual(self.client.get(self.url).data['received'], 40)
+
+    def test_chunk_past_a_gap_is_refused(self):
+        self.send_chunk(0, STL[:40])
+        response = self.send_chunk(60, STL[60:])
+        self.assertEqual(response.status_code, status.HTTP_409_CONFLICT)
+        self.assertEqual(response.data['received'], 40)
+
+    def test_chunk_beyond_the_file_size_is_refused(self):
+        response = self.send_chunk(0, STL + b'extra')
+        self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+        self.assertEqual(self.client.get(self.url).data['received'], 0)
+
+    def test_invalid_offset_is_refused(self):
+        response = self.send_chunk('start', STL)
+        self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+
+    def test_incomplete_upload_cannot_become_a_model(self):
+        self.send_chunk(0, STL[:40])
+        response = self.client.post('/api/models/', {'upload': self.upload_id}, format='multipart')
+        self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+        self.assertTrue(ChunkedUpload.objects.filter(pk=self.upload_id).exists())
+
+    def test_cancelled_upload_is_discarded(self):
+        response = self.client.delete(self.url)
+        self.assertEqual(response.status_code, status.HTTP_204_NO_CONTENT)
+        self.assertEqual(self.client.get(self.url).status_code, status.HTTP_404_NOT_FOUND)
+
+    def test_upload_is_hidden_from_other_users(self):
+        self.send_chunk(0, STL)
+        self.client.force_authenticate(self.create_user('other'))
+        self.assertEqual(self.client.get(self.url).status_code, status.HTTP_404_NOT_FOUND)
+        self.assertEqual(self.send_chunk(len(STL), b'extra').status_code, status.HTTP_404_NOT_FOUND)
+        self.assertEqual(self.client.delete(self.url).status_code, status.HTTP_404_NOT_FOUND)
+        response = self.client.post('/api/models/', {'upload': self.upload_id}, format='multipart')
+        self.assertEqual(response.status_code, status.HTTP_404_NOT_FOUND)
+        self.assertTrue(ChunkedUpload.objects.filter(pk=self.upload_id).exists())
+
+    @override_settings(MAX_UPLOAD_SIZE=100)
+    def test_files_over_the_upload_limit_are_refused(self):
+        response = self.client.post('/api/models/uploads/', {'filename': 'part.stl', 'size': 101}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+        self.assertIn('size', response.data)
+        self.assertEqual(self.upload().status_code, status.HTTP_400_BAD_REQUEST)
+
+
+class ModelListTests(ApiTestCase):
+    def setUp(self):
+        super().setUp()
+        self.bracket = self.create_model('Bracket')
+        self.gear = self.create_model('Gear', file_format='obj')
+        self.housing = self.create_model('Housing', file_format='step')
+        # Noon, so the dates are the same in any time zone setting
+        for model, day in [(self.bracket, 5), (self.gear, 15), (self.housing, 25)]:
+            uploaded_at = datetime(2024, 3, day, 12, tzinfo=timezone.utc)
+            Model3D.objects.filter(pk=model.pk).update(uploaded_at=uploaded_at)
+
+    def names(self, query=''):
+        response = self.client.get(f'/api/models/{query}')
+        self.assertEqual(response.status_code, status.HTTP_200_OK)
+        return [model['name'] for model in response.data['results']]
+
+    def test_newest_models_come_first(self):
+        self.assertEqual(self.names(), ['Housing', 'Gear', 'Bracket'])
+
+    def test_search_matches_part_of_the_name(self):
+        self.assertEqual(self.names('?search=brack'), ['Bracket'])
+        self.assertEqual(self.names('?search=wheel'), [])
+
+    def test_filter_by_file_formats(self):
+        self.assertEqual(self.names('?file_format=obj,step'), ['Housing', 'Gear'])
+
+    def test_ordering_by_name(self):
+        self.assertEqual(self.names('?ordering=name'), ['Bracket', 'Gear', 'Housing'])
+        self.assertEqual(self.names('?ordering=-name'), ['Housing', 'Gear', 'Bracket'])
+
+    def test_upload_dates_are_inclusive(self):
+        self.assertEqual(self.names('?uploaded_after=2024-03-15'), ['Housing', 'Gear'])
+        self.assertEqual(self.names('?uploaded_before=2024-03-15'), ['Gear', 'Bracket'])
+        self.assertEqual(self.names('?uploaded_after=2024-03-10&uploaded_before=2024-03-20'), ['Gear'])
+
+    def test_malformed_date_is_refused(self):
+        response = self.client.get('/api/models/?uploaded_after=yesterday')
+        self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+        self.assertIn('uploaded_after', response.data['error'])
+
+    def test_impossible_date_is_refused(self):
+        response = self.client.get('/api/models/?uploaded_before=2024-13-45')
+        self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+        self.assertIn('uploaded_before', response.data['error'])
+
+    def test_pages_follow_the_cursor(self):
+        response = self.client.get('/api/models/?page_size=2')
+        self.assertEqual([model['name'] for model in response.data['results']], ['Housing', 'Gear'])
+        response = self.client.get(response.data['next'])
+        self.assertEqual([model['name'] for model in response.data['results']], ['Bracket'])
+        self.assertIsNone(response.data['next'])
+
+
+class ProjectTests(ApiTestCase):
+    def create_project(self, name, parent=None):
+        response = self.client.post('/api/projects/', {'name': name, 'parent': parent}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_201_CREATED)
+        return response.data
+
+    def test_projects_nest(self):
+        fixtures = self.create_project('Fixtures')
+        jigs = self.create_project('Jigs', fixtures['id'])
+        self.assertEqual(jigs['parent'], fixtures['id'])
+
+    def test_project_cannot_move_into_itself_or_below(self):
+        fixtures = self.create_project('Fixtures')
+        jigs = self.create_project('Jigs', fixtures['id'])
+        drilling = self.create_project('Drilling', jigs['id'])
+        for parent in [fixtures, drilling]:
+            response = self.client.patch(f"/api/projects/{fixtures['id']}/", {'parent': parent['id']}, format='json')
+            self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+        self.assertIsNone(Project.objects.get(pk=fixtures['id']).parent)
+
+    def test_deleting_a_project_deletes_subprojects_and_unfiles_their_models(self):
+        fixtures = self.create_project('Fixtures')
+        jigs = self.create_project('Jigs', fixtures['id'])
+        model = self.create_model(project_id=jigs['id'])
+
+        response = self.client.delete(f"/api/projects/{fixtures['id']}/")
+        self.assertEqual(response.status_code, status.HTTP_204_NO_CONTENT)
+        self.assertFalse(Project.objects.exists())
+        model.refresh_from_db()
+        self.assertIsNone(model.project)
+
+    def test_model_count_counts_each_model_once(self):
+        project = self.create_project('Fixtures')
+        first = self.create_model(project_id=project['id'])
+        self.create_model(project_id=project['id'], lineage=first, revision=2)
+        response = self.client.get(f"/api/projects/{project['id']}/")
+        self.assertEqual(response.data['model_count'], 1)
+
+    def test_list_filters_by_project(self):
+        project = self.create_project('Fixtures')
+        self.create_model('Filed', project_id=project['id'])
+        self.create_model('Unfiled')
+
+        response = self.client.get(f"/api/models/?project={project['id']}")
+        self.assertEqual([model['name'] for model in response.data['results']], ['Filed'])
+        response = self.client.get('/api/models/?project=none')
+        self.assertEqual([model['name'] for model in response.data['results']], ['Unfiled'])
+        self.assertEqual(self.client.get('/api/models/?project=abc').status_code, status.HTTP_400_BAD_REQUEST)
+
+    def test_tags_are_created_by_name_and_filter_the_list(self):
+        model = self.create_model('Bracket')
+        self.create_model('Gear')
+        response = self.client.patch(f'/api/models/{model.pk}/', {'tags': ['steel', ' bracket ']}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_200_OK)
+        self.assertCountEqual(response.data['tags'], ['steel', 'bracket'])
+
+        response = self.client.get('/api/models/?tags=steel,bracket')
+        self.assertEqual([model['name'] for model in response.data['results']], ['Bracket'])
+        response = self.client.get('/api/models/?tags=steel,aluminium')
+        self.assertEqual(response.data['results'], [])
+
+    def test_empty_tag_is_refused(self):
+        model = self.create_model()
+        response = self.client.patch(f'/api/models/{model.pk}/', {'tags': [' ']}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+
+    def test_moving_and_tagging_applies_to_every_revision(self):
+        project = self.create_project('Fixtures')
+        first = self.create_model()
+        second = self.create_model(lineage=first, revision=2)
+        response = self.client.patch(
+            f'/api/models/{second.pk}/', {'project': project['id'], 'tags': ['steel']}, format='json',
+        )
+        self.assertEqual(response.status_code, status.HTTP_200_OK)
+
+        first.refresh_from_db()
+        self.assertEqual(first.project_id, project['id'])
+        self.assertEqual([tag.name for tag in first.tags.all()], ['steel'])
+        tags = {tag['name']: tag['model_count'] for tag in self.client.get('/api/tags/').data}
+        self.assertEqual(tags, {'steel': 1})
+
+
+class RoleTestCase(ApiTestCase):
+    """A model shared with an editor and two viewers, next to a stranger and a staff user."""
+
+    def setUp(self):
+        super().setUp()
+        self.owner = self.create_user('owner')
+        self.editor = self.create_user('editor')
+        self.viewer = self.create_user('viewer')
+        self.other_viewer = self.create_user('other_viewer')
+        self.stranger = self.create_user('stranger')
+        self.staff = self.create_user('staff', is_staff=True)
+        self.model = self.create_model(owner=self.owner)
+        self.add_member(self.model, self.editor, 'editor')
+        self.add_member(self.model, self.viewer, 'viewer')
+        self.add_member(self.model, self.other_viewer, 'viewer')
+        self.url = f'/api/models/{self.model.pk}/'
+
+    def as_user(self, user):
+        self.client.force_authenticate(user)
+
+
+class ModelRoleTests(RoleTestCase):
+    def test_model_is_hidden_from_users_it_is_not_shared_with(self):
+        self.as_user(self.stranger)
+        self.assertEqual(self.client.get(self.url).status_code, status.HTTP_404_NOT_FOUND)
+        self.assertEqual(self.client.get('/api/models/').data['results'], [])
+        self.assertEqual(self.client.patch(self.url, {'name': 'Mine'}, format='json').status_code, status.HTTP_404_NOT_FOUND)
+
+    def test_requests_without_an_account_are_refused(self):
+        self.client.force_authenticate(None)
+        self.assertEqual(self.client.get(self.url).status_code, status.HTTP_401_UNAUTHORIZED)
+
+    def test_token_is_only_accepted_in_the_header(self):
+        token = Token.objects.create(user=self.viewer)
+        self.client.force_authenticate(None)
+        response = self.client.get(f'{self.url}thumbnail/', {'token': token.key})
+        self.assertEqual(response.status_code, status.HTTP_401_UNAUTHORIZED)
+
+        self.client.credentials(HTTP_AUTHORIZATION=f'Token {token.key}')
+        self.assertEqual(self.client.get(self.url).status_code, status.HTTP_200_OK)
+
+    def test_role_of_the_user_is_reported(self):
+        for user, role in [(self.owner, 'owner'), (self.editor, 'editor'), (self.viewer, 'viewer'), (self.staff, 'owner')]:
+            self.as_user(user)
+            self.assertEqual(self.client.get(self.url).data['role'], role)
+
+    def test_stored_file_paths_are_not_sent(self):
+        self.as_user(self.viewer)
+        data = self.client.get(self.url).data
+        self.assertNotIn('file', data)
+        self.assertNotIn('display_file', data)
+        self.assertTrue(data['file_name'].endswith('.stl'))
+
+    def test_viewer_can_read_but_not_change(self):
+        self.as_user(self.viewer)
+        response = self.client.get(f'{self.url}download/')
+        self.assertEqual(response.status_code, status.HTTP_200_OK)
+        response.close()
+        self.assertEqual(self.client.patch(self.url, {'name': 'Renamed'}, format='json').status_code, status.HTTP_403_FORBIDDEN)
+        self.assertEqual(self.client.delete(self.url).status_code, status.HTTP_403_FORBIDDEN)
+        self.assertEqual(self.upload(f'{self.url}revisions/').status_code, status.HTTP_403_FORBIDDEN)
+
+    def test_editor_can_change_and_upload_revisions(self):
+        self.as_user(self.editor)
+        self.assertEqual(self.client.patch(self.url, {'name': 'Renamed'}, format='json').status_code, status.HTTP_200_OK)
+        response = self.upload(f'{self.url}revisions/')
+        self.assertEqual(response.status_code, status.HTTP_201_CREATED)
+        # The model stays its owner's
+        self.assertEqual(response.data['owner'], self.owner.username)
+
+    def test_only_the_owner_manages_members(self):
+        new_member = {'username': self.stranger.username, 'role': 'viewer'}
+        self.as_user(self.viewer)
+        self.assertEqual(self.client.get(f'{self.url}members/').status_code, status.HTTP_200_OK)
+        self.as_user(self.editor)
+        self.assertEqual(self.client.post(f'{self.url}members/', new_member, format='json').status_code, status.HTTP_403_FORBIDDEN)
+
+        self.as_user(self.owner)
+        self.assertEqual(self.client.post(f'{self.url}members/', new_member, format='json').status_code, status.HTTP_201_CREATED)
+        self.as_user(self.stranger)
+        self.assertEqual(self.client.get(self.url).status_code, status.HTTP_200_OK)
+
+    def test_only_the_owner_sees_share_links(self):
+        for user in [self.viewer, self.editor]:
+            self.as_user(user)
+            self.assertEqual(self.client.get(f'{self.url}share-links/').status_code, status.HTTP_403_FORBIDDEN)
+            self.assertEqual(self.client.post(f'{self.url}share-links/', {}, format='json').status_code, status.HTTP_403_FORBIDDEN)
+        self.as_user(self.owner)
+        self.assertEqual(self.client.get(f'{self.url}share-links/').status_code, status.HTTP_200_OK)
+
+    def test_role_covers_every_revision(self):
+        revision = self.create_model(owner=self.owner, lineage=self.model, revision=2)
+        self.as_user(self.viewer)
+        self.assertEqual(self.client.get(f'/api/models/{revision.pk}/').data['role'], 'viewer')
+
+    def test_ownerless_model_is_only_open_to_staff(self):
+        ownerless = self.create_model(owner=None)
+        self.as_user(self.owner)
+        self.assertEqual(self.client.get(f'/api/models/{ownerless.pk}/').status_code, status.HTTP_404_NOT_FOUND)
+        self.as_user(self.staff)
+        self.assertEqual(self.client.get(f'/api/models/{ownerless.pk}/').status_code, status.HTTP_200_OK)
+
+
+class AnnotationRoleTests(RoleTestCase):
+    def setUp(self):
+        super().setUp()
+        self.annotation = Annotation.objects.create(
+            model=self.model, text='Check the fillet', author=self.viewer.username, created_by=self.viewer,
+            position=[0, 0, 0],
+        )
+        self.annotation_url = f'/api/annotations/{self.annotation.pk}/'
+
+    def test_anyone_with_access_can_comment(self):
+        self.as_user(self.other_viewer)
+        response = self.client.post(
+            '/api/annotations/', {'model': self.model.pk, 'text': 'Too thin', 'position': [1, 0, 0]}, format='json',
+        )
+        self.assertEqual(response.status_code, status.HTTP_201_CREATED)
+        self.assertEqual(response.data['author'], self.other_viewer.username)
+        self.assertTrue(response.data['can_edit'])
+
+    def test_users_without_access_cannot_comment_or_read(self):
+        self.as_user(self.stranger)
+        response = self.client.post(
+            '/api/annotations/', {'model': self.model.pk, 'text': 'Hello', 'position': [0, 0, 0]}, format='json',
+        )
+        self.assertEqual(response.status_code, status.HTTP_403_FORBIDDEN)
+        self.assertEqual(self.client.get(f'/api/annotations/?model={self.model.pk}').data, [])
+
+    def test_author_cannot_be_set_by_the_client(self):
+        self.as_user(self.viewer)
+        response = self.client.post('/api/annotations/', {
+            'model': self.model.pk, 'text': 'Hello', 'position': [0, 0, 0], 'author': self.owner.username,
+        }, format='json')
+        self.assertEqual(response.data['author'], self.viewer.username)
+
+    def test_other_viewers_cannot_change_or_delete_a_comment(self):
+        self.as_user(self.other_viewer)
+        self.assertFalse(self.client.get(self.annotation_url).data['can_edit'])
+        response = self.client.patch(self.annotation_url, {'status': 'resolved'}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_403_FORBIDDEN)
+        self.assertEqual(self.client.delete(self.annotation_url).status_code, status.HTTP_403_FORBIDDEN)
+        self.assertTrue(Annotation.objects.filter(pk=self.annotation.pk, status='open').exists())
+
+    def test_author_and_editors_can_change_a_comment(self):
+        self.as_user(self.viewer)
+        response = self.client.patch(self.annotation_url, {'text': 'Check both fillets'}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_200_OK)
+
+        self.as_user(self.editor)
+        self.assertTrue(self.client.get(self.annotation_url).data['can_edit'])
+        response = self.client.patch(self.annotation_url, {'status': 'resolved'}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_200_OK)
+        self.assertEqual(self.client.delete(self.annotation_url).status_code, status.HTTP_204_NO_CONTENT)
+
+    def test_invalid_model_filter_is_refused(self):
+        self.as_user(self.viewer)
+        response = self.client.get('/api/annotations/?model=abc')
+        self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+        self.assertEqual(len(self.client.get(f'/api/annotations/?model={self.model.pk}').data), 1)
+
+    def test_authorship_follows_the_account_not_the_name(self):
+        # A comment left before accounts existed, under a name another user now has
+        legacy = Annotation.objects.create(
+            model=self.model, text='Old note', author=self.other_viewer.username, position=[0, 0, 0],
+        )
+        self.as_user(self.other_viewer)
+        self.assertFalse(self.client.get(f'/api/annotations/{legacy.pk}/').data['can_edit'])
+
+        self.viewer.username = 'renamed'
+        self.viewer.save()
+        self.as_user(self.viewer)
+        response = self.client.patch(self.annotation_url, {'text': 'Check both fillets'}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_200_OK)
+
+    def test_comment_stays_on_its_model(self):
+        other = self.create_model(owner=self.viewer)
+        self.as_user(self.viewer)
+        response = self.client.patch(self.annotation_url, {'model': other.pk}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+
+
+class SavedViewRoleTests(RoleTestCase):
+    def setUp(self):
+        super().setUp()
+        self.view = SavedView.objects.create(
+            model=self.model, name='Front', camera_position=[0, 0, 10], camera_target=[0, 0, 0], created_by=self.viewer,
+        )
+        self.view_url = f'/api/views/{self.view.pk}/'
+
+    def test_viewers_can_save_views(self):
+        self.as_user(self.other_viewer)
+        response = self.client.post('/api/views/', {
+            'model': self.model.pk, 'name': 'Top', 'camera_position': [0, 10, 0], 'camera_target': [0, 0, 0],
+        }, format='json')
+        self.assertEqual(response.status_code, status.HTTP_201_CREATED)
+        self.assertTrue(response.data['can_edit'])
+        self.assertEqual(SavedView.objects.get(pk=response.data['id']).created_by, self.other_viewer)
+
+    def test_users_without_access_cannot_save_views(self):
+        self.as_user(self.stranger)
+        response = self.client.post('/api/views/', {
+            'model': self.model.pk, 'name': 'Top', 'camera_position': [0, 10, 0], 'camera_target': [0, 0, 0],
+        }, format='json')
+        self.assertEqual(response.status_code, status.HTTP_403_FORBIDDEN)
+
+    def test_invalid_model_filter_is_refused(self):
+        self.as_user(self.viewer)
+        response = self.client.get('/api/views/?model=abc')
+        self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+        self.assertEqual(len(self.client.get(f'/api/views/?model={self.model.pk}').data), 1)
+
+    def test_other_viewers_cannot_change_or_delete_a_view(self):
+        self.as_user(self.other_viewer)
+        self.assertFalse(self.client.get(self.view_url).data['can_edit'])
+        self.assertEqual(self.client.patch(self.view_url, {'name': 'Back'}, format='json').status_code, status.HTTP_403_FORBIDDEN)
+        self.assertEqual(self.client.delete(self.view_url).status_code, status.HTTP_403_FORBIDDEN)
+
+    def test_author_can_change_a_view_and_editors_can_delete_it(self):
+        self.as_user(self.viewer)
+        self.assertEqual(self.client.patch(self.view_url, {'name': 'Back'}, format='json').status_code, status.HTTP_200_OK)
+        self.as_user(self.editor)
+        self.assertEqual(self.client.delete(self.view_url).status_code, status.HTTP_204_NO_CONTENT)
+
+    def test_view_without_author_is_left_to_editors(self):
+        self.view.created_by = None
+        self.view.save()
+        self.as_user(self.viewer)
+        self.assertEqual(self.client.delete(self.view_url).status_code, status.HTTP_403_FORBIDDEN)
+        self.as_user(self.owner)
+        self.assertEqual(self.client.delete(self.view_url).status_code, status.HTTP_204_NO_CONTENT)
+
+
+class ProjectAndTagPrivacyTests(RoleTestCase):
+    def setUp(self):
+        super().setUp()
+        self.project = Project.objects.create(name='Brackets', owner=self.owner)
+        self.stranger_project = Project.objects.create(name='Private', owner=self.stranger)
+
+    def test_projects_are_private_to_their_owner(self):
+        self.as_user(self.owner)
+        self.assertEqual([project['name'] for project in self.client.get('/api/projects/').data], ['Brackets'])
+        response = self.client.get(f'/api/projects/{self.stranger_project.pk}/')
+        self.assertEqual(response.status_code, status.HTTP_404_NOT_FOUND)
+        response = self.client.delete(f'/api/projects/{self.stranger_project.pk}/')
+        self.assertEqual(response.status_code, status.HTTP_404_NOT_FOUND)
+
+    def test_projects_nest_only_in_own_projects(self):
+        self.as_user(self.owner)
+        response = self.client.post('/api/projects/', {'name': 'Sub', 'parent': self.stranger_project.pk}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+        response = self.client.post('/api/projects/', {'name': 'Sub', 'parent': self.project.pk}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_201_CREATED)
+        self.assertEqual(Project.objects.get(pk=response.data['id']).owner, self.owner)
+
+    def test_models_are_filed_only_in_own_projects(self):
+        self.as_user(self.owner)
+        response = self.client.patch(self.url, {'project': self.stranger_project.pk}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+        response = self.client.patch(self.url, {'project': self.project.pk}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_200_OK)
+
+        # Editors may save a model that stays where its owner filed it, and revise it there
+        self.as_user(self.editor)
+        response = self.client.patch(self.url, {'name': 'Renamed', 'project': self.project.pk}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_200_OK)
+        response = self.upload(f'{self.url}revisions/')
+        self.assertEqual(response.status_code, status.HTTP_201_CREATED)
+        self.assertEqual(response.data['project'], self.project.pk)
+
+    def test_tags_cannot_be_created_directly(self):
+        self.as_user(self.owner)
+        response = self.client.post('/api/tags/', {'name': 'steel'}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_405_METHOD_NOT_ALLOWED)
+
+    def test_tags_list_only_visible_models(self):
+        steel = Tag.objects.create(name='steel')
+        self.model.tags.add(steel)
+        self.create_model(owner=self.stranger).tags.add(steel)
+        self.create_model(owner=self.stranger).tags.add(Tag.objects.create(name='secret'))
+
+        self.as_user(self.viewer)
+        counts = {tag['name']: tag['model_count'] for tag in self.client.get('/api/tags/').data}
+        self.assertEqual(counts, {'steel': 1})
+
+        self.as_user(self.staff)
+        counts = {tag['name']: tag['model_count'] for tag in self.client.get('/api/tags/').data}
+        self.assertEqual(counts, {'secret': 1, 'steel': 2})
+
+
+class ShareLinkTests(ApiTestCase):
+    def setUp(self):
+        super().setUp()
+        self.model = self.create_model()
+        self.links_url = f'/api/models/{self.model.pk}/share-links/'
+
+    def create_link(self, **data):
+        self.client.force_authenticate(self.user)
+        response = self.client.post(self.links_url, data, format='json')
+        # Share links are opened without an account
+        self.client.force_authenticate(None)
+        return response
+
+    def open_link(self, token, key=None, action=''):
+        response = self.client.get(f'/api/shared/{token}/{action}', {'key': key} if key else {})
+        if hasattr(response, 'streaming_content'):
+            response.close()
+        return response
+
+    def test_link_opens_the_model_without_an_account(self):
+        link = self.create_link().data
+        self.assertFalse(link['has_password'])
+
+        response = self.open_link(link['token'])
+        self.assertEqual(response.status_code, status.HTTP_200_OK)
+        self.assertEqual(response.data['model']['id'], self.model.pk)
+        self.assertEqual(self.open_link(link['token'], action='display/').status_code, status.HTTP_200_OK)
+
+    def test_link_only_reveals_what_the_viewer_needs(self):
+        self.model.project = Project.objects.create(name='Client work', owner=self.user)
+        self.model.save()
+        self.model.tags.add(Tag.objects.create(name='confidential'))
+        model = self.open_link(self.create_link().data['token']).data['model']
+        for field in ('file', 'file_name', 'owner', 'project', 'tags', 'lineage', 'revision_count', 'role'):
+            self.assertNotIn(field, model)
+        self.assertEqual(model['display_format'], 'stl')
+
+    def test_unknown_token_is_not_found(self):
+        self.assertEqual(self.open_link('not-a-token').status_code, status.HTTP_404_NOT_FOUND)
+
+    def test_password_link_needs_the_key_from_unlocking_it(self):
+        link = self.create_link(password='hunter2').data
+        self.assertTrue(link['has_password'])
+        self.assertNotIn('password', link)
+        token = link['token']
+
+        self.assertEqual(self.open_link(token).status_code, status.HTTP_403_FORBIDDEN)
+        self.assertEqual(self.open_link(token, action='display/').status_code, status.HTTP_403_FORBIDDEN)
+        self.assertEqual(self.open_link(token, key='guessed').status_code, status.HTTP_403_FORBIDDEN)
+
+        response = self.client.post(f'/api/shared/{token}/unlock/', {'password': 'wrong'}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+        response = self.client.post(f'/api/shared/{token}/unlock/', {'password': 'hunter2'}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_200_OK)
+        key = response.data['key']
+
+        self.assertEqual(self.open_link(token, key).status_code, status.HTTP_200_OK)
+        self.assertEqual(self.open_link(token, key, action='display/').status_code, status.HTTP_200_OK)
+
+    def test_key_only_unlocks_its_own_link(self):
+        first = self.create_link(password='hunter2').data
+        second = self.create_link(password='hunter2').data
+        key = self.client.post(f"/api/shared/{first['token']}/unlock/", {'password': 'hunter2'}, format='json').data['key']
+        self.assertEqual(self.open_link(second['token'], key).status_code, status.HTTP_403_FORBIDDEN)
+
+    def test_link_works_until_it_expires(self):
+        link = self.create_link(expires_at=(timezone.now() + timedelta(hours=1)).isoformat()).data
+        response = self.open_link(link['token'])
+        self.assertEqual(response.status_code, status.HTTP_200_OK)
+        self.assertIsNotNone(response.data['expires_at'])
+
+    def test_expired_link_is_gone(self):
+        link = ShareLink.objects.create(model=self.model, expires_at=timezone.now() - timedelta(minutes=1))
+        self.assertEqual(self.open_link(link.token).status_code, status.HTTP_410_GONE)
+        self.assertEqual(self.open_link(link.token, action='display/').status_code, status.HTTP_410_GONE)
+        response = self.client.post(f'/api/shared/{link.token}/unlock/', {'password': ''}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_410_GONE)
+
+    def test_expiry_must_be_in_the_future(self):
+        response = self.create_link(expires_at=(timezone.now() - timedelta(hours=1)).isoformat())
+        self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+        self.assertFalse(ShareLink.objects.exists())
+
+    def test_revoked_link_is_not_found(self):
+        link = self.create_link().data
+        self.client.force_authenticate(self.user)
+        response = self.client.delete(f"{self.links_url}{link['id']}/")
+        self.assertEqual(response.status_code, status.HTTP_204_NO_CONTENT)
+
+        self.client.force_authenticate(None)
+        self.assertEqual(self.open_link(link['token']).status_code, status.HTTP_404_NOT_FOUND)
+
+    def test_link_is_revoked_only_through_its_own_model(self):
+        link = self.create_link().data
+        other = self.create_model()
+        self.client.force_authenticate(self.user)
+        response = self.client.delete(f"/api/models/{other.pk}/share-links/{link['id']}/")
+        self.assertEqual(response.status_code, status.HTTP_404_NOT_FOUND)
+        self.assertTrue(ShareLink.objects.filter(pk=link['id']).exists())
+
+
+class SceneTests(ApiTestCase):
+    def setUp(self):
+        super().setUp()
+        self.model = self.create_model('Bracket')
+
+    def part(self, model=None, **placement):
+        return {
+            'model': (model or self.model).pk,
+            'position': placement.get('position', [0, 0, 0]),
+            'rotation': placement.get('rotation', [0, 0, 0]),
+            'scale': placement.get('scale', [1, 1, 1]),
+        }
+
+    def create_scene(self, parts):
+        return self.client.post('/api/scenes/', {'name': 'Build plate', 'parts': parts}, format='json')
+
+    def test_scene_is_saved_with_its_parts(self):
+        response = self.create_scene([self.part(position=[10, 0, 0]), self.part(position=[-10, 0, 0])])
+        self.assertEqual(response.status_code, status.HTTP_201_CREATED)
+        self.assertEqual(response.data['owner'], self.user.username)
+        self.assertEqual([part['position'] for part in response.data['parts']], [[10, 0, 0], [-10, 0, 0]])
+        self.assertEqual(response.data['parts'][0]['model_name'], 'Bracket')
+
+    def test_saving_replaces_the_parts(self):
+        scene = self.create_scene([self.part(), self.part()]).data
+        response = self.client.patch(f"/api/scenes/{scene['id']}/", {'parts': [self.part(scale=[2, 2, 2])]}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_200_OK)
+        self.assertEqual([part['scale'] for part in response.data['parts']], [[2, 2, 2]])
+
+        # Renaming alone keeps them
+        response = self.client.patch(f"/api/scenes/{scene['id']}/", {'name': 'Plate 2'}, format='json')
+        self.assertEqual(len(response.data['parts']), 1)
+
+    def test_invalid_placements_are_refused(self):
+        for placement in [{'scale': [1, 0, 1]}, {'position': [0, 0]}, {'rotation': [0, 'x', 0]}]:
+            response = self.create_scene([self.part(**placement)])
+            self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+        self.assertFalse(Scene.objects.exists())
+
+    def test_only_visible_models_can_be_placed(self):
+        other = self.create_user('other')
+        hidden = self.create_model('Hidden', owner=other)
+        response = self.create_scene([self.part(hidden)])
+        self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+
+        self.add_member(hidden, self.user, 'viewer')
+        response = self.create_scene([self.part(hidden)])
+        self.assertEqual(response.status_code, status.HTTP_201_CREATED)
+
+    def test_scenes_are_private_to_their_owner(self):
+        scene = self.create_scene([self.part()]).data
+        self.client.force_authenticate(self.create_user('other'))
+        self.assertEqual(self.client.get('/api/scenes/').data, [])
+        self.assertEqual(self.client.get(f"/api/scenes/{scene['id']}/").status_code, status.HTTP_404_NOT_FOUND)
+
+
+class ConvertTests(ApiTestCase):
+    def setUp(self):
+        super().setUp()
+        self.url = f'/api/models/{self.create_model().pk}/convert/'
+
+    def test_invalid_options_are_refused(self):
+        for query in ['', '?target_format=dxf', '?target_format=stl&encoding=utf8', '?target_format=stl&scale=0',
+                      '?target_format=stl&scale=-2', '?target_format=stl&scale=big']:
+            response = self.client.get(f'{self.url}{query}')
+            self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST, query)
+
+    def test_binary_formats_cannot_be_written_as_text(self):
+        response = self.client.get(f'{self.url}?target_format=glb&encoding=ascii')
+        self.assertEqual(response.status_code, status.HTTP_400_BAD_REQUEST)
+
+    @skipUnless(HAS_TRIMESH, 'trimesh is not installed')
+    def test_conversion_is_downloaded_with_the_new_extension(self):
+        response = self.client.get(f'{self.url}?target_format=obj')
+        self.assertEqual(response.status_code, status.HTTP_200_OK)
+        self.assertEqual(response['Content-Type'], 'model/obj')
+        self.assertIn('.obj', response['Content-Disposition'])
+        self.assertIn(b'v ', b''.join(response.streaming_content))
+
+    @skipUnless(HAS_TRIMESH, 'trimesh is not installed')
+    def test_scale_applies_to_every_coordinate(self):
+        response = self.client.get(f'{self.url}?target_format=stl&encoding=ascii&scale=25.4')
+        self.assertEqual(response.status_code, status.HTTP_200_OK)
+        data = b''.join(response.streaming_content)
+        self.assertTrue(data.startswith(b'solid'))
+        self.assertIn(b'2.54', data)
+
+
+class UnitsTests(ApiTestCase):
+    def upload_revision(self, model, **data):
+        return self.upload(f"/api/models/{model['id']}/revisions/", **data)
+
+    def test_units_default_to_the_file_format(self):
+        self.assertEqual(self.upload().data['units'], 'mm')
+        self.assertEqual(Model3D.default_units('glb'), 'm')
+        self.assertEqual(Model3D.default_units('step'), 'mm')
+
+    def test_declared_units_are_kept(self):
+        self.assertEqual(self.upload(units='in').data['units'], 'in')
+
+    def test_unknown_units_are_refused(self):
+        self.assertEqual(self.upload(units='ft').status_code, status.HTTP_400_BAD_REQUEST)
+
+    def test_revisions_keep_the_units_unless_others_are_declared(self):
+        first = self.upload(units='in').data
+        self.assertEqual(self.upload_revision(first).data['units'], 'in')
+        self.assertEqual(self.upload_revision(first, units='cm').data['units'], 'cm')
+
+    def test_changing_the_units_applies_to_every_revision(self):
+        first = self.upload().data
+        second = self.upload_revision(first).data
+        response = self.client.patch(f"/api/models/{second['id']}/", {'units': 'in'}, format='json')
+        self.assertEqual(response.status_code, status.HTTP_200_OK)
+        self.assertEqual(set(Model3D.objects.filter(lineage_id=first['id']).values_list('units', flat=True)), {'in'})
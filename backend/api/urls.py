@@ -1,10 +1,22 @@
 from django.urls import path, include
 from rest_framework.routers import DefaultRouter
-from .views import Model3DViewSet
+from .views import (
+    LoginView, LogoutView, CurrentUserView,
+    Model3DViewSet, SharedModelViewSet, ProjectViewSet, TagViewSet, AnnotationViewSet, SavedViewViewSet, SceneViewSet,
+)
 
 router = DefaultRouter()
 router.register(r'models', Model3DViewSet)
+router.register(r'shared', SharedModelViewSet, basename='shared')
+router.register(r'projects', ProjectViewSet)
+router.register(r'tags', TagViewSet)
+router.register(r'annotations', AnnotationViewSet)
+router.register(r'views', SavedViewViewSet)
+router.register(r'scenes', SceneViewSet)
 
 urlpatterns = [
+    path('auth/login/', LoginView.as_view()),
+    path('auth/logout/', LogoutView.as_view()),
+    path('auth/me/', CurrentUserView.as_view()),
     path('', include(router.urls)),
 ] 
\ No newline at end of file
@@ -1,43 +1,631 @@
-from django.shortcuts import render
-from rest_framework import viewsets, status
+from django.shortcuts import render, get_object_or_404
+from rest_framework import viewsets, status, filters
 from rest_framework.response import Response
 from rest_framework.decorators import action
+from rest_framework.exceptions import APIException, PermissionDenied, ValidationError
+from rest_framework.pagination import CursorPagination
+from rest_framework.permissions import AllowAny, IsAuthenticated
+from rest_framework.views import APIView
+from rest_framework.authtoken.models import Token
+from rest_framework.authtoken.views import ObtainAuthToken
+from django.conf import settings
+from django.contrib.auth import get_user_model
+from django.contrib.auth.hashers import check_password
+from django.core import signing
+from django.db.models import Count, Exists, Max, OuterRef, Subquery
 from django.http import FileResponse
-from .models import Model3D
-from .serializers import Model3DSerializer
+from django.core.files import File
+from django.core.files.base import ContentFile
+from django.utils import timezone
+from django.utils.dateparse import parse_date
+from .models import Model3D, ModelAsset, ModelMember, ShareLink, ChunkedUpload, Project, Tag, Annotation, SavedView, Scene
+from .serializers import (
+    UserSerializer, Model3DSerializer, ModelMemberSerializer, ShareLinkSerializer, ChunkedUploadSerializer,
+    ProjectSerializer, TagSerializer, AnnotationSerializer, AnnotationReplySerializer, SavedViewSerializer,
+    SceneSerializer, SharedModel3DSerializer,
+)
+from .permissions import ModelRolePermission, can_change_note, has_role, visible_models, with_member_roles
+from .conversion import EXPORT_FORMATS, ConversionError, convert_mesh, create_display_file
+from .assets import ArchiveError, asset_content_type, extract_archive, find_asset, is_asset
+from .analysis import store_analysis
+import io
 import os
+import uuid
+from datetime import timedelta
+
+# Chunked uploads left unfinished this long are discarded
+UPLOAD_EXPIRY = timedelta(days=1)
+
+# Thumbnails are small previews, anything larger is not one
+MAX_THUMBNAIL_SIZE = 2 * 1024 * 1024
+PNG_SIGNATURE = b'\x89PNG\r\n\x1a\n'
+
+UPLOAD_ID_PATTERN = r'[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}'
+
+# Keys handed out for the password of a share link stay valid this long
+SHARE_KEY_AGE = timedelta(hours=12)
+SHARE_KEY_SALT = 'api.share-link'
 
 # Create your views here.
 
+def discard_upload(upload):
+    upload.file.delete(save=False)
+    upload.delete()
+
+
+def asset_response(asset):
+    # Uploaded by users, so browsers must not guess a type that renders as a page
+    response = FileResponse(open(asset.file.path, 'rb'), content_type=asset_content_type(asset.name))
+    response['X-Content-Type-Options'] = 'nosniff'
+    return response
+
+
+def date_param(request, name):
+    value = request.query_params.get(name)
+    if not value:
+        return None
+    # Well-formed but impossible dates such as 2024-13-45 raise instead of returning None
+    try:
+        date = parse_date(value)
+    except ValueError:
+        date = None
+    if not date:
+        raise ValidationError({'error': f'Invalid date for {name}, expected YYYY-MM-DD'})
+    return date
+
+
+def with_revision_counts(queryset):
+    """Annotate the number of revisions of each model, read by Model3DSerializer."""
+    revisions = Model3D.objects.filter(lineage_id=OuterRef('lineage_id')).order_by().values('lineage_id')
+    return queryset.annotate(revision_total=Subquery(revisions.annotate(total=Count('pk')).values('total')))
+
+
+class LoginView(ObtainAuthToken):
+    """Exchange a username and password for the token to authenticate further requests with."""
+
+    # A stale token sent along must not stop the user from logging in again
+    authentication_classes = []
+    permission_classes = [AllowAny]
+
+    def post(self, request, *args, **kwargs):
+        serializer = self.serializer_class(data=request.data, context={'request': request})
+        if not serializer.is_valid():
+            return Response({'error': 'Invalid username or password'}, status=status.HTTP_400_BAD_REQUEST)
+        user = serializer.validated_data['user']
+        token, _ = Token.objects.get_or_create(user=user)
+        return Response({'token': token.key, 'user': UserSerializer(user).data})
+
+
+class LogoutView(APIView):
+    def post(self, request):
+        # Invalidates the token on every device that shares it
+        Token.objects.filter(user=request.user).delete()
+        return Response(status=status.HTTP_204_NO_CONTENT)
+
+
+class CurrentUserView(APIView):
+    def get(self, request):
+        return Response(UserSerializer(request.user).data)
+
+
+class ShareLinkExpired(APIException):
+    status_code = status.HTTP_410_GONE
+    default_detail = {'error': 'This link has expired'}
+
+
+class ModelCursorPagination(CursorPagination):
+    # Cursors keep pages stable while models are being uploaded
+    page_size = 30
+    page_size_query_param = 'page_size'
+    max_page_size = 100
+    ordering = '-uploaded_at'
+
+
 class Model3DViewSet(viewsets.ModelViewSet):
     queryset = Model3D.objects.all()
     serializer_class = Model3DSerializer
+    permission_classes = [IsAuthenticated, ModelRolePermission]
+    pagination_class = ModelCursorPagination
+    # ?search=bracket matches names, ?ordering=name sorts
+    filter_backends = [filters.SearchFilter, filters.OrderingFilter]
+    search_fields = ['name']
+    ordering_fields = ['name', 'uploaded_at']
+    ordering = ['-uploaded_at']
+
+    def annotate_models(self, queryset):
+        # Everything the serializer reads per model, fetched with the page
+        queryset = queryset.select_related('owner').prefetch_related('assets', 'tags')
+        return with_revision_counts(with_member_roles(self.request.user, queryset))
+
+    def get_queryset(self):
+        # Models that are not shared with the user are not found at all
+        queryset = self.annotate_models(visible_models(self.request.user, super().get_queryset()))
+        if self.action != 'list':
+            return queryset
+
+        # The model list shows each model once, at its latest revision
+        newer = Model3D.objects.filter(lineage=OuterRef('lineage'), revision__gt=OuterRef('revision'))
+        queryset = queryset.exclude(Exists(newer))
+
+        # ?file_format=stl,obj (`format` selects the response format in DRF)
+        formats = [f for f in self.request.query_params.get('file_format', '').split(',') if f]
+        if formats:
+            queryset = queryset.filter(file_format__in=formats)
+
+        # ?project=3 lists the models filed directly in a project, ?project=none the unfiled ones
+        project = self.request.query_params.get('project')
+        if project == 'none':
+            queryset = queryset.filter(project__isnull=True)
+        elif project:
+            if not project.isdigit():
+                raise ValidationError({'error': 'Invalid project'})
+            queryset = queryset.filter(project_id=project)
+
+        # ?tags=bracket,steel lists the models having all of the tags
+        for tag in [t for t in self.request.query_params.get('tags', '').split(',') if t]:
+            queryset = queryset.filter(tags__name=tag)
+
+        # ?uploaded_after=2024-01-01&uploaded_before=2024-06-30, both inclusive
+        uploaded_after = date_param(self.request, 'uploaded_after')
+        if uploaded_after:
+            queryset = queryset.filter(uploaded_at__date__gte=uploaded_after)
+        uploaded_before = date_param(self.request, 'uploaded_before')
+        if uploaded_before:
+            queryset = queryset.filter(uploaded_at__date__lte=uploaded_before)
+        return queryset
 
     def create(self, request, *args, **kwargs):
-        # Get the file from the request
-        file_obj = request.FILES.get('file')
+        return self.create_revision(request)
+
+    def perform_destroy(self, instance):
+        # Deleting a model removes its whole revision history
+        (instance.lineage or instance).delete()
+
+    def perform_create(self, serializer):
+        serializer.save(owner=self.request.user)
+
+    def perform_update(self, serializer):
+        super().perform_update(serializer)
+        # Moving, tagging or declaring the units of a model applies to all of its revisions
+        instance = serializer.instance
+        revisions = Model3D.objects.filter(lineage_id=instance.lineage_id).exclude(pk=instance.pk)
+        revisions.update(project=instance.project, units=instance.units)
+        tags = list(instance.tags.all())
+        for revision in revisions:
+            revision.tags.set(tags)
+
+    def create_revision(self, request, previous=None):
+        """Store an uploaded file as a new model, or as the next revision of `previous`.
+
+        The file is either sent as the `file` field or, for large files, assembled
+        beforehand through the chunked upload endpoints and referenced by `upload`.
+        """
+        upload_id = request.data.get('upload')
+        if 'file' in request.FILES or not upload_id:
+            return self.store_file(request, request.FILES.get('file'), previous)
+
+        try:
+            upload = get_object_or_404(ChunkedUpload, pk=uuid.UUID(str(upload_id)), owner=request.user)
+        except ValueError:
+            return Response({'error': 'Invalid upload id'}, status=status.HTTP_400_BAD_REQUEST)
+        if not upload.is_complete:
+            return Response({'error': 'Upload is incomplete'}, status=status.HTTP_400_BAD_REQUEST)
+
+        with open(upload.file.path, 'rb') as handle:
+            response = self.store_file(request, File(handle, name=upload.filename), previous)
+        # The assembled file has been copied into the model
+        if response.status_code == status.HTTP_201_CREATED:
+            discard_upload(upload)
+        return response
+
+    def store_file(self, request, file_obj, previous):
         if not file_obj:
             return Response({'error': 'No file provided'}, status=status.HTTP_400_BAD_REQUEST)
+        if file_obj.size > settings.MAX_UPLOAD_SIZE:
+            return Response({'error': 'File is larger than the upload limit'}, status=status.HTTP_400_BAD_REQUEST)
+
+        # Companion files (MTL, textures) sent alongside the model
+        assets = [(asset.name, asset) for asset in request.FILES.getlist('assets')]
+        for asset_name, _ in assets:
+            if not is_asset(asset_name):
+                return Response(
+                    {'error': f'Unsupported companion file: {asset_name}, expected an MTL file or an image'},
+                    status=status.HTTP_400_BAD_REQUEST,
+                )
+
+        # A zip holds the model file together with its companion files
+        extension = file_obj.name.split('.')[-1].lower()
+        if extension == 'zip':
+            try:
+                file_obj, archived_assets = extract_archive(file_obj, Model3D.EXTENSION_FORMATS)
+            except ArchiveError as exc:
+                return Response({'error': str(exc)}, status=status.HTTP_400_BAD_REQUEST)
+            assets.extend(archived_assets)
+            extension = file_obj.name.split('.')[-1].lower()
 
         # Get file format from the file extension
-        file_format = file_obj.name.split('.')[-1].lower()
-        if file_format not in ['stl', 'obj']:
+        file_format = Model3D.EXTENSION_FORMATS.get(extension)
+        if not file_format:
             return Response({'error': 'Invalid file format'}, status=status.HTTP_400_BAD_REQUEST)
 
         # Create the model instance
         serializer = self.get_serializer(data={
-            'name': request.data.get('name', file_obj.name),
+            'name': request.data.get('name', previous.name if previous else file_obj.name),
             'file': file_obj,
-            'file_format': file_format
+            'file_format': file_format,
+            'project': None if previous else request.data.get('project') or None,
+            # Revisions keep the units of the model unless others are declared
+            'units': request.data.get('units') or (previous.units if previous else Model3D.default_units(file_format)),
         })
         serializer.is_valid(raise_exception=True)
-        self.perform_create(serializer)
+        if previous:
+            lineage = previous.lineage or previous
+            latest = Model3D.objects.filter(lineage=lineage).aggregate(Max('revision'))['revision__max'] or 0
+            # New revisions stay where the model is filed
+            serializer.save(
+                lineage=lineage, revision=latest + 1, project=previous.project, tags=previous.tags.all(), owner=previous.owner,
+            )
+        else:
+            self.perform_create(serializer)
+
+        for asset_name, asset_file in assets:
+            ModelAsset.objects.create(model=serializer.instance, name=asset_name, file=asset_file)
+
+        # Tessellate CAD formats into a GLB the viewer can load
+        if file_format in Model3D.TESSELLATED_FORMATS:
+            try:
+                create_display_file(serializer.instance)
+            except ConversionError as exc:
+                serializer.instance.file.delete(save=False)
+                serializer.instance.delete()
+                return Response({'error': str(exc)}, status=status.HTTP_422_UNPROCESSABLE_ENTITY)
+
+        # Persist mesh statistics so lists can show them without loading the mesh
+        store_analysis(serializer.instance)
         
         headers = self.get_success_headers(serializer.data)
         return Response(serializer.data, status=status.HTTP_201_CREATED, headers=headers)
 
+    @action(detail=False, methods=['post'])
+    def uploads(self, request):
+        """Start a chunked upload of a file of `size` bytes; chunks are sent to `uploads/<id>/`."""
+        for stale in ChunkedUpload.objects.filter(created_at__lt=timezone.now() - UPLOAD_EXPIRY):
+            discard_upload(stale)
+
+        serializer = ChunkedUploadSerializer(data=request.data)
+        serializer.is_valid(raise_exception=True)
+        serializer.save(owner=request.user, file=ContentFile(b'', name=f"{serializer.validated_data['filename']}.part"))
+        return Response(serializer.data, status=status.HTTP_201_CREATED)
+
+    @action(detail=False, methods=['get', 'put', 'delete'], url_path=f'uploads/(?P<upload_id>{UPLOAD_ID_PATTERN})')
+    def upload_chunk(self, request, upload_id=None):
+        """GET reports the bytes received so far, PUT appends a chunk, DELETE cancels the upload."""
+        upload = get_object_or_404(ChunkedUpload, pk=upload_id, owner=request.user)
+        if request.method == 'DELETE':
+            discard_upload(upload)
+            return Response(status=status.HTTP_204_NO_CONTENT)
+        if request.method == 'GET':
+            return Response(ChunkedUploadSerializer(upload).data)
+
+        chunk = request.FILES.get('chunk')
+        if not chunk:
+            return Response({'error': 'No chunk provided'}, status=status.HTTP_400_BAD_REQUEST)
+        try:
+            offset = int(request.data.get('offset'))
+        except (TypeError, ValueError):
+            return Response({'error': 'Invalid offset'}, status=status.HTTP_400_BAD_REQUEST)
+
+        # Chunks are appended in order. A chunk resent after its reply was lost, or one
+        # past a gap, is refused with the received size so the client resumes from there.
+        if offset != upload.received:
+            return Response(
+                {'error': 'Chunk offset does not match the received size', 'received': upload.received},
+                status=status.HTTP_409_CONFLICT,
+            )
+        if offset + chunk.size > upload.size:
+            return Response({'error': 'Chunk exceeds the file size'}, status=status.HTTP_400_BAD_REQUEST)
+
+        with open(upload.file.path, 'ab') as destination:
+            for piece in chunk.chunks():
+                destination.write(piece)
+        return Response(ChunkedUploadSerializer(upload).data)
+
+    @action(detail=True, methods=['get', 'post'])
+    def revisions(self, request, pk=None):
+        # GET lists every revision of the model, POST uploads a new one
+        model = self.get_object()
+        if request.method == 'POST':
+            return self.create_revision(request, previous=model)
+
+        revisions = self.annotate_models(Model3D.objects.filter(lineage_id=model.lineage_id or model.pk)).order_by('revision')
+        return Response(self.get_serializer(revisions, many=True).data)
+
+    @action(detail=True, methods=['get', 'post'])
+    def members(self, request, pk=None):
+        # GET lists who the model is shared with, POST gives `username` a `role` on it
+        model = self.get_object()
+        lineage = model.lineage or model
+        if request.method == 'POST':
+            user = get_user_model().objects.filter(username=request.data.get('username')).first()
+            if not user:
+                return Response({'error': 'No user with this username'}, status=status.HTTP_400_BAD_REQUEST)
+            if user.pk == model.owner_id:
+                return Response({'error': 'The owner already has full access'}, status=status.HTTP_400_BAD_REQUEST)
+            member = ModelMember.objects.filter(model=lineage, user=user).first()
+            serializer = ModelMemberSerializer(member, data={'role': request.data.get('role')})
+            serializer.is_valid(raise_exception=True)
+            serializer.save(model=lineage, user=user)
+            return Response(serializer.data, status=status.HTTP_200_OK if member else status.HTTP_201_CREATED)
+
+        members = ModelMember.objects.filter(model=lineage).select_related('user')
+        return Response(ModelMemberSerializer(members, many=True).data)
+
+    @action(detail=True, methods=['delete'], url_path=r'members/(?P<member_id>\d+)')
+    def member(self, request, pk=None, member_id=None):
+        model = self.get_object()
+        member = get_object_or_404(ModelMember, pk=member_id, model_id=model.lineage_id)
+        member.delete()
+        return Response(status=status.HTTP_204_NO_CONTENT)
+
+    @action(detail=True, methods=['get', 'post'], url_path='share-links')
+    def share_links(self, request, pk=None):
+        # GET lists the read-only links to this revision, POST creates one
+        model = self.get_object()
+        if request.method == 'POST':
+            serializer = ShareLinkSerializer(data=request.data)
+            serializer.is_valid(raise_exception=True)
+            serializer.save(model=model, created_by=request.user)
+            return Response(serializer.data, status=status.HTTP_201_CREATED)
+
+        return Response(ShareLinkSerializer(model.share_links.all(), many=True).data)
+
+    @action(detail=True, methods=['delete'], url_path=r'share-links/(?P<link_id>\d+)')
+    def share_link(self, request, pk=None, link_id=None):
+        model = self.get_object()
+        get_object_or_404(ShareLink, pk=link_id, model=model).delete()
+        return Response(status=status.HTTP_204_NO_CONTENT)
+
     @action(detail=True, methods=['get'])
     def download(self, request, pk=None):
         model = self.get_object()
         file_path = model.file.path
         return FileResponse(open(file_path, 'rb'), as_attachment=True)
+
+    @action(detail=True, methods=['get'])
+    def convert(self, request, pk=None):
+        # Viewer mesh converted to another format, e.g. ?target_format=stl&encoding=ascii&scale=25.4.
+        # Not ?format=, which REST framework reads as the format of its own response.
+        model = self.get_object()
+        target_format = request.query_params.get('target_format', '').lower()
+        if target_format not in EXPORT_FORMATS:
+            return Response(
+                {'error': f'Expected a format of {", ".join(EXPORT_FORMATS)}'},
+                status=status.HTTP_400_BAD_REQUEST,
+            )
+        encoding = request.query_params.get('encoding', 'binary')
+        if encoding not in ('binary', 'ascii'):
+            return Response({'error': 'Expected an encoding of binary or ascii'}, status=status.HTTP_400_BAD_REQUEST)
+        try:
+            scale = float(request.query_params.get('scale', 1))
+        except ValueError:
+            scale = 0
+        if not scale > 0:
+            return Response({'error': 'Expected a positive scale'}, status=status.HTTP_400_BAD_REQUEST)
+
+        display_file = model.display_file or model.file
+        try:
+            data = convert_mesh(display_file.path, model.display_format, target_format, encoding == 'ascii', scale)
+        except ConversionError as exc:
+            return Response({'error': str(exc)}, status=status.HTTP_400_BAD_REQUEST)
+
+        extension, content_type = EXPORT_FORMATS[target_format]
+        base_name = os.path.splitext(os.path.basename(model.file.name))[0]
+        response = FileResponse(io.BytesIO(data), as_attachment=True, filename=f'{base_name}.{extension}')
+        response['Content-Type'] = content_type
+        return response
+
+    @action(detail=True, methods=['get'])
+    def display(self, request, pk=None):
+        # Mesh the viewer should render: the derived GLB when there is one, else the original
+        model = self.get_object()
+        display_file = model.display_file or model.file
+        return FileResponse(open(display_file.path, 'rb'), as_attachment=True)
+
+    @action(detail=True, methods=['get', 'post'])
+    def thumbnail(self, request, pk=None):
+        # GET returns the preview image, POST stores one rendered by the viewer
+        model = self.get_object()
+        if request.method == 'POST':
+            image = request.FILES.get('image')
+            if not image:
+                return Response({'error': 'No image provided'}, status=status.HTTP_400_BAD_REQUEST)
+            if image.size > MAX_THUMBNAIL_SIZE or image.read(len(PNG_SIGNATURE)) != PNG_SIGNATURE:
+                return Response({'error': 'Thumbnail must be a PNG image under 2MB'}, status=status.HTTP_400_BAD_REQUEST)
+            image.seek(0)
+
+            if model.thumbnail:
+                model.thumbnail.delete(save=False)
+            model.thumbnail.save(f'{model.pk}.png', image)
+            return Response(self.get_serializer(model).data)
+
+        if not model.thumbnail:
+            return Response({'error': 'No thumbnail'}, status=status.HTTP_404_NOT_FOUND)
+        return FileResponse(open(model.thumbnail.path, 'rb'), content_type='image/png')
+
+    @action(detail=True, methods=['get'])
+    def asset(self, request, pk=None):
+        # Companion file referenced by the model, e.g. ?name=textures/wood.png
+        model = self.get_object()
+        name = request.query_params.get('name')
+        if not name:
+            return Response({'error': 'No asset name provided'}, status=status.HTTP_400_BAD_REQUEST)
+
+        asset = find_asset(model, name)
+        if not asset:
+            return Response({'error': 'Asset not found'}, status=status.HTTP_404_NOT_FOUND)
+        return asset_response(asset)
+
+
+class SharedModelViewSet(viewsets.ViewSet):
+    """Read-only access to a model through the token of a share link, without an account.
+
+    Links with a password need the `key` returned by `unlock` on every request.
+    """
+
+    authentication_classes = []
+    permission_classes = [AllowAny]
+    lookup_field = 'token'
+    lookup_value_regex = r'[A-Za-z0-9_-]+'
+
+    def get_link(self, token, key=None, check_key=True):
+        link = get_object_or_404(ShareLink.objects.select_related('model'), token=token)
+        if link.is_expired:
+            raise ShareLinkExpired()
+        if check_key and link.password:
+            try:
+                valid = signing.loads(key or '', salt=SHARE_KEY_SALT, max_age=SHARE_KEY_AGE) == link.pk
+            except signing.BadSignature:
+                valid = False
+            if not valid:
+                raise PermissionDenied({'error': 'This link needs a password'})
+        return link
+
+    def retrieve(self, request, token=None):
+        link = self.get_link(token, request.query_params.get('key'))
+        # Without the request in the context no role is reported, shared models are read-only
+        return Response({'model': SharedModel3DSerializer(link.model).data, 'expires_at': link.expires_at})
+
+    @action(detail=True, methods=['post'])
+    def unlock(self, request, token=None):
+        link = self.get_link(token, check_key=False)
+        if link.password and not check_password(request.data.get('password', ''), link.password):
+            return Response({'error': 'Wrong password'}, status=status.HTTP_400_BAD_REQUEST)
+        return Response({'key': signing.dumps(link.pk, salt=SHARE_KEY_SALT)})
+
+    @action(detail=True, methods=['get'])
+    def display(self, request, token=None):
+        model = self.get_link(token, request.query_params.get('key')).model
+        display_file = model.display_file or model.file
+        return FileResponse(open(display_file.path, 'rb'), as_attachment=True)
+
+    @action(detail=True, methods=['get'])
+    def asset(self, request, token=None):
+        model = self.get_link(token, request.query_params.get('key')).model
+        asset = find_asset(model, request.query_params.get('name', ''))
+        if not asset:
+            return Response({'error': 'Asset not found'}, status=status.HTTP_404_NOT_FOUND)
+        return asset_response(asset)
+
+
+class ProjectViewSet(viewsets.ModelViewSet):
+    queryset = Project.objects.all()
+    serializer_class = ProjectSerializer
+
+    def get_queryset(self):
+        queryset = super().get_queryset()
+        # Projects are private to their owner
+        if not self.request.user.is_staff:
+            queryset = queryset.filter(owner=self.request.user)
+        return queryset
+
+    def perform_create(self, serializer):
+        serializer.save(owner=self.request.user)
+
+
+class TagViewSet(viewsets.ReadOnlyModelViewSet):
+    """Tags in use on the models the user can see; tags are created by tagging models."""
+
+    queryset = Tag.objects.all()
+    serializer_class = TagSerializer
+
+    def get_queryset(self):
+        queryset = super().get_queryset()
+        if not self.request.user.is_staff:
+            queryset = queryset.filter(models__in=visible_models(self.request.user)).distinct()
+        return queryset
+
+
+class AnnotationViewSet(viewsets.ModelViewSet):
+    queryset = Annotation.objects.all()
+    serializer_class = AnnotationSerializer
+
+    def get_queryset(self):
+        queryset = super().get_queryset().select_related('model').prefetch_related('replies')
+        queryset = queryset.filter(model__in=visible_models(self.request.user))
+        # Annotations of a single model, e.g. ?model=3
+        model_id = self.request.query_params.get('model')
+        if model_id:
+            if not model_id.isdigit():
+                raise ValidationError({'error': 'Invalid model'})
+            queryset = queryset.filter(model_id=model_id)
+        return queryset
+
+    def perform_create(self, serializer):
+        # Anyone who can view a model may comment on it
+        if not has_role(self.request.user, serializer.validated_data['model'], 'viewer'):
+            raise PermissionDenied('You do not have access to this model')
+        serializer.save(author=self.request.user.username, created_by=self.request.user)
+
+    def perform_update(self, serializer):
+        # Resolving or editing a comment is left to its author and the model's editors
+        if not can_change_note(self.request.user, serializer.instance):
+            raise PermissionDenied('Only the author or an editor of the model may change this comment')
+        serializer.save()
+
+    def perform_destroy(self, instance):
+        if not can_change_note(self.request.user, instance):
+            raise PermissionDenied('Only the author or an editor of the model may delete this comment')
+        instance.delete()
+
+    @action(detail=True, methods=['post'])
+    def replies(self, request, pk=None):
+        annotation = self.get_object()
+        serializer = AnnotationReplySerializer(data=request.data)
+        serializer.is_valid(raise_exception=True)
+        serializer.save(annotation=annotation, author=request.user.username, created_by=request.user)
+        return Response(self.get_serializer(annotation).data, status=status.HTTP_201_CREATED)
+
+
+class SavedViewViewSet(viewsets.ModelViewSet):
+    queryset = SavedView.objects.all()
+    serializer_class = SavedViewSerializer
+
+    def get_queryset(self):
+        queryset = super().get_queryset().select_related('model').filter(model__in=visible_models(self.request.user))
+        # Views of a single model, e.g. ?model=3
+        model_id = self.request.query_params.get('model')
+        if model_id:
+            if not model_id.isdigit():
+                raise ValidationError({'error': 'Invalid model'})
+            queryset = queryset.filter(model_id=model_id)
+        return queryset
+
+    def perform_create(self, serializer):
+        if not has_role(self.request.user, serializer.validated_data['model'], 'viewer'):
+            raise PermissionDenied('You do not have access to this model')
+        serializer.save(created_by=self.request.user)
+
+    def perform_update(self, serializer):
+        if not can_change_note(self.request.user, serializer.instance):
+            raise PermissionDenied('Only the author or an editor of the model may change this view')
+        serializer.save()
+
+    def perform_destroy(self, instance):
+        if not can_change_note(self.request.user, instance):
+            raise PermissionDenied('Only the author or an editor of the model may delete this view')
+        instance.delete()
+
+
+class SceneViewSet(viewsets.ModelViewSet):
+    queryset = Scene.objects.all()
+    serializer_class = SceneSerializer
+
+    def get_queryset(self):
+        queryset = super().get_queryset().prefetch_related('parts__model')
+        # Scenes are private to their owner
+        if not self.request.user.is_staff:
+            queryset = queryset.filter(owner=self.request.user)
+        return queryset
+
+    def perform_create(self, serializer):
+        serializer.save(owner=self.request.user)
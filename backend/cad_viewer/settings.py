@@ -39,6 +39,7 @@ INSTALLED_APPS = [
     'django.contrib.messages',
     'django.contrib.staticfiles',
     'rest_framework',
+    'rest_framework.authtoken',
     'corsheaders',
     'api',
 ]
@@ -127,12 +128,25 @@ STATIC_URL = 'static/'
 
 DEFAULT_AUTO_FIELD = 'django.db.models.BigAutoField'
 
+REST_FRAMEWORK = {
+    # Clients send `Authorization: Token <key>`, obtained from /api/auth/login/
+    'DEFAULT_AUTHENTICATION_CLASSES': [
+        'rest_framework.authentication.TokenAuthentication',
+    ],
+    'DEFAULT_PERMISSION_CLASSES': [
+        'rest_framework.permissions.IsAuthenticated',
+    ],
+}
+
 # CORS settings
 CORS_ALLOW_ALL_ORIGINS = True  # For development only, configure properly for production
 
-# Media files (uploaded models)
+# Media files (uploaded models), stored here but only served through the API
 MEDIA_URL = '/media/'
 MEDIA_ROOT = os.path.join(BASE_DIR, 'media')
 
 # Maximum file upload size (10MB)
 DATA_UPLOAD_MAX_MEMORY_SIZE = 10485760
+
+# Largest model file accepted (500MB), also the most a zip upload may hold once extracted
+MAX_UPLOAD_SIZE = 500 * 1024 * 1024
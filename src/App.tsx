@@ -1,36 +1,205 @@
-import React, { useState, useRef, useEffect } from 'react'
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react'
 import { ModelViewer } from './components/ModelViewer'
+import { CompareWorkspace } from './components/CompareWorkspace'
+import { SceneWorkspace } from './components/SceneWorkspace'
+import { UploadQueue } from './components/UploadQueue'
+import { ModelThumbnail } from './components/ModelThumbnail'
+import { ProjectTree } from './components/ProjectTree'
+import { TagChips } from './components/TagChips'
+import { ConfirmDialog } from './components/ConfirmDialog'
+import { LoginDialog } from './components/LoginDialog'
+import { MembersDialog } from './components/MembersDialog'
+import { uploadExtensions, ASSET_EXTENSIONS } from './loaders'
+import { formatDimensions } from './utils/analysis'
+import { LENGTH_UNITS } from './utils/units'
+import { LengthUnit } from './types'
+import {
+  Model3D,
+  ModelChanges,
+  ModelOrdering,
+  ModelQuery,
+  FILE_FORMATS,
+  listModels,
+  updateModel,
+  deleteModel,
+  listRevisions,
+  Project,
+  listProjects,
+  createProject,
+  updateProject,
+  deleteProject,
+  Tag,
+  listTags,
+  uploadModel,
+  isAbortError,
+  canEditModel,
+  User,
+  getCurrentUser,
+  logout,
+  onAuthError
+} from './api'
+import { PickedFile, QueuedUpload, droppedFiles, groupUploads, pickedFiles } from './utils/uploadQueue'
+import { MODEL_DRAG_TYPE, ProjectSelection, projectDescendants } from './utils/projects'
+import { getUrlParam, setUrlParams } from './utils/url'
+
+// File extensions accepted for upload (STEP/IGES are tessellated on the server)
+const SUPPORTED_EXTENSIONS = uploadExtensions()
+
+type ListLayout = 'list' | 'grid'
+const LIST_LAYOUT_KEY = 'modelListLayout'
+
+const ORDERINGS: Array<[ModelOrdering, string]> = [
+  ['-uploaded_at', 'Newest first'],
+  ['uploaded_at', 'Oldest first'],
+  ['name', 'Name A–Z'],
+  ['-name', 'Name Z–A']
+]
+// Milliseconds to wait for typing to pause before searching
+const SEARCH_DELAY = 300
 
 function App() {
-  const [models, setModels] = useState<any[]>([])
-  const [activeModelId, setActiveModelId] = useState<string | null>(null)
-  const [isUploading, setIsUploading] = useState(false)
-  const [uploadError, setUploadError] = useState<string | null>(null)
+  const [currentUser, setCurrentUser] = useState<User | null>(null)
+  // Reason shown in the login dialog while it is open
+  const [loginPrompt, setLoginPrompt] = useState<string | null>(null)
+  // Model whose members are being edited
+  const [sharingModel, setSharingModel] = useState<Model3D | null>(null)
+  const [models, setModels] = useState<Model3D[]>([])
+  const [search, setSearch] = useState('')
+  const [fileFormat, setFileFormat] = useState('')
+  const [ordering, setOrdering] = useState<ModelOrdering>('-uploaded_at')
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoadingModels, setIsLoadingModels] = useState(false)
+  // Bumped to reload the list from the first page, e.g. after uploads
+  const [modelsVersion, setModelsVersion] = useState(0)
+  const [projects, setProjects] = useState<Project[]>([])
+  const [tags, setTags] = useState<Tag[]>([])
+  // Bumped to reload projects and tags, whose model counts change with the models
+  const [libraryVersion, setLibraryVersion] = useState(0)
+  const [selectedProject, setSelectedProject] = useState<ProjectSelection>(null)
+  const [activeTags, setActiveTags] = useState<string[]>([])
+  const [deletingProject, setDeletingProject] = useState<Project | null>(null)
+  const [deletingModel, setDeletingModel] = useState<Model3D | null>(null)
+  // Replies to superseded list requests are dropped
+  const modelsRequestRef = useRef(0)
+  const loadMoreRef = useRef<HTMLDivElement>(null)
+  // The page URL can open a model directly, e.g. ?model=3&view=7
+  const [activeModelId, setActiveModelId] = useState<string | null>(() => getUrlParam('model'))
+  // Model shown against the active one in the compare workspace
+  const [compareModelId, setCompareModelId] = useState<string | null>(() => getUrlParam('compare'))
+  // Scene open in the scene workspace, 'new' for one not saved yet
+  const [sceneId, setSceneId] = useState<string | null>(() => getUrlParam('scene'))
+  const [uploads, setUploads] = useState<QueuedUpload[]>([])
+  // Units declared for new uploads, '' to let the server pick them from the file format
+  const [uploadUnits, setUploadUnits] = useState<LengthUnit | ''>('')
+  // Mirror of `uploads` for the upload loop, which outlives renders
+  const uploadsRef = useRef<QueuedUpload[]>([])
+  const nextUploadIdRef = useRef(1)
+  const uploadControllersRef = useRef(new Map<number, AbortController>())
+  const isProcessingRef = useRef(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const folderInputRef = useRef<HTMLInputElement>(null)
+  const revisionInputRef = useRef<HTMLInputElement>(null)
+  // Model that the next file picked in revisionInputRef is uploaded to
+  const revisionTargetRef = useRef<string | null>(null)
+  const [expandedHistoryId, setExpandedHistoryId] = useState<string | null>(null)
+  // Mirror of `expandedHistoryId` for the upload loop, which outlives renders
+  const expandedHistoryRef = useRef<string | null>(null)
+  const [revisions, setRevisions] = useState<Model3D[]>([])
+  const [historyError, setHistoryError] = useState<string | null>(null)
+  const [listLayout, setListLayout] = useState<ListLayout>(
+    () => localStorage.getItem(LIST_LAYOUT_KEY) === 'grid' ? 'grid' : 'list'
+  )
 
-  // Fetch models on component mount
+  // Ask to log in whenever the API refuses a request
   useEffect(() => {
-    fetchModels()
+    const unsubscribe = onAuthError(() => setLoginPrompt('Log in to continue.'))
+    getCurrentUser()
+      .then(setCurrentUser)
+      .catch(error => console.error('Error fetching the current user:', error))
+    return unsubscribe
   }, [])
 
-  // Fetch all models from the API
-  const fetchModels = async () => {
+  const modelQuery = useMemo((): ModelQuery => ({
+    search: search.trim(),
+    fileFormats: fileFormat ? [fileFormat] : [],
+    project: selectedProject ?? undefined,
+    tags: activeTags,
+    ordering
+  }), [search, fileFormat, selectedProject, activeTags, ordering])
+  const isFiltered = Boolean(modelQuery.search || fileFormat || selectedProject !== null || activeTags.length > 0)
+
+  // Fetch a page of models matching the query; without a cursor the list starts over
+  const fetchModels = useCallback(async (cursor: string | null = null) => {
+    const requestId = ++modelsRequestRef.current
+    setIsLoadingModels(true)
     try {
-      const response = await fetch('http://localhost:8000/api/models/')
-      if (!response.ok) {
-        throw new Error('Failed to fetch models')
-      }
-      const data = await response.json()
-      setModels(data)
+      const page = await listModels(modelQuery, cursor)
+      if (requestId !== modelsRequestRef.current) return
+      setModels(models => cursor ? [...models, ...page.results] : page.results)
+      setNextCursor(page.nextCursor)
       
       // Auto-select first model if available and no model is selected
-      if (data.length > 0 && !activeModelId) {
-        setActiveModelId(data[0].id.toString())
+      if (!cursor && page.results.length > 0) {
+        setActiveModelId(current => current ?? page.results[0].id.toString())
       }
     } catch (error) {
       console.error('Error fetching models:', error)
+    } finally {
+      if (requestId === modelsRequestRef.current) {
+        setIsLoadingModels(false)
+      }
     }
-  }
+  }, [modelQuery])
+
+  // Reload the list when the query changes, once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => fetchModels(), search ? SEARCH_DELAY : 0)
+    return () => clearTimeout(timer)
+  }, [fetchModels, search, modelsVersion])
+
+  useEffect(() => {
+    Promise.all([listProjects(), listTags()])
+      .then(([projects, tags]) => {
+        setProjects(projects)
+        setTags(tags)
+      })
+      .catch(error => console.error('Error fetching projects and tags:', error))
+  }, [libraryVersion])
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current
+    if (!sentinel || !nextCursor || isLoadingModels) return
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) fetchModels(nextCursor)
+    })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [fetchModels, nextCursor, isLoadingModels])
+
+  // React does not know the non-standard attribute for picking folders
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '')
+  }, [])
+
+  // Keep the URL pointing at the open model; a saved view only applies to its own model
+  useEffect(() => {
+    if (activeModelId !== getUrlParam('model')) {
+      setUrlParams({ model: activeModelId, view: null })
+    }
+  }, [activeModelId])
+
+  useEffect(() => {
+    if (compareModelId !== getUrlParam('compare')) {
+      setUrlParams({ compare: compareModelId })
+    }
+  }, [compareModelId])
+
+  useEffect(() => {
+    if (sceneId !== getUrlParam('scene')) {
+      setUrlParams({ scene: sceneId })
+    }
+  }, [sceneId])
 
   // Handle file selection via button
   const handleFileSelect = () => {
@@ -39,58 +208,266 @@ function App() {
     }
   }
 
-  // Handle file change (upload)
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const updateUploads = (update: (uploads: QueuedUpload[]) => QueuedUpload[]) => {
+    uploadsRef.current = update(uploadsRef.current)
+    setUploads(uploadsRef.current)
+  }
+
+  const updateUpload = (id: number, changes: Partial<QueuedUpload>) => {
+    updateUploads(uploads => uploads.map(upload => upload.id === id ? { ...upload, ...changes } : upload))
+  }
+
+  // Queue the picked files, one upload per model file with its companion files
+  // (MTL, textures). A revision takes a single model file. New models are
+  // filed in the selected project.
+  const enqueueUploads = (files: PickedFile[], revisionOf?: string) => {
+    const project = typeof selectedProject === 'number' ? selectedProject : null
+    const queued = groupUploads(files).map((group, index): QueuedUpload => {
+      let error = group.error
+      if (!error && revisionOf && index > 0) {
+        error = 'A revision takes a single model file'
+      }
+      return {
+        ...group,
+        id: nextUploadIdRef.current++,
+        status: error ? 'invalid' : 'pending',
+        progress: null,
+        error,
+        revisionOf,
+        project,
+        // Revisions keep the units of their model
+        units: revisionOf ? undefined : uploadUnits || undefined
+      }
+    })
+    updateUploads(uploads => [...uploads, ...queued])
+    processUploads()
+  }
+
+  const runUpload = async (upload: QueuedUpload) => {
+    const controller = new AbortController()
+    uploadControllersRef.current.set(upload.id, controller)
+    updateUpload(upload.id, { status: 'uploading', progress: null, error: null })
+
+    try {
+      const model = await uploadModel(upload.file, {
+        assets: upload.assets,
+        revisionOf: upload.revisionOf,
+        project: upload.project,
+        units: upload.units,
+        signal: controller.signal,
+        onProgress: progress => updateUpload(upload.id, { progress })
+      })
+      updateUpload(upload.id, { status: 'done' })
+      return model
+    } catch (error) {
+      if (isAbortError(error)) {
+        updateUpload(upload.id, { status: 'cancelled' })
+      } else {
+        // Conversion errors reported by the backend surface as the ApiError message
+        console.error('Error uploading model:', error)
+        updateUpload(upload.id, { status: 'failed', error: error instanceof Error ? error.message : 'Failed to upload model' })
+      }
+      return null
+    } finally {
+      uploadControllersRef.current.delete(upload.id)
+    }
+  }
+
+  // Upload queued files one at a time, then refresh the model list once
+  const processUploads = async () => {
+    if (isProcessingRef.current) return
+    isProcessingRef.current = true
+
+    let uploaded: Model3D | null = null
+    let next = uploadsRef.current.find(upload => upload.status === 'pending')
+    while (next) {
+      uploaded = (await runUpload(next)) ?? uploaded
+      next = uploadsRef.current.find(upload => upload.status === 'pending')
+    }
+    isProcessingRef.current = false
+
+    if (!uploaded) return
+    setModelsVersion(version => version + 1)
+    setLibraryVersion(version => version + 1)
+    // Open the last uploaded model, and follow it in the revision history
+    setActiveModelId(uploaded.id.toString())
+    if (expandedHistoryRef.current) {
+      await showHistory(uploaded.id.toString())
+    }
+  }
+
+  const cancelUpload = (id: number) => {
+    uploadControllersRef.current.get(id)?.abort()
+  }
+
+  const retryUpload = (id: number) => {
+    updateUpload(id, { status: 'pending', error: null })
+    processUploads()
+  }
+
+  const removeUpload = (id: number) => {
+    updateUploads(uploads => uploads.filter(upload => upload.id !== id))
+  }
+
+  const clearFinishedUploads = () => {
+    updateUploads(uploads => uploads.filter(upload => upload.status === 'pending' || upload.status === 'uploading'))
+  }
+
+  // Handle files picked with the file or folder input
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files
     if (!files || files.length === 0) return
 
-    const file = files[0]
-    // Check if file is an STL or OBJ file
-    if (!file.name.toLowerCase().endsWith('.stl') && !file.name.toLowerCase().endsWith('.obj')) {
-      setUploadError('Only STL and OBJ files are supported')
+    enqueueUploads(pickedFiles(files))
+    // Clear the input, so picking the same file again resumes an interrupted upload
+    e.target.value = ''
+  }
+
+  const expandHistory = (modelId: string | null) => {
+    expandedHistoryRef.current = modelId
+    setExpandedHistoryId(modelId)
+  }
+
+  // Expand the revision history of a model and load its revisions
+  const showHistory = async (modelId: string) => {
+    expandHistory(modelId)
+    setRevisions([])
+    setHistoryError(null)
+    try {
+      const loaded = await listRevisions(modelId)
+      // Another history may have been opened meanwhile
+      if (expandedHistoryRef.current === modelId) setRevisions(loaded)
+    } catch (error) {
+      console.error('Error fetching revisions:', error)
+      if (expandedHistoryRef.current === modelId) setHistoryError('Failed to load revisions')
+    }
+  }
+
+  // Show or hide the revision history of a model
+  const toggleHistory = async (modelId: string) => {
+    if (expandedHistoryId === modelId) {
+      expandHistory(null)
       return
     }
+    await showHistory(modelId)
+  }
 
-    setIsUploading(true)
-    setUploadError(null)
+  // Pick a file to upload as the next revision of a model
+  const handleRevisionSelect = (modelId: string) => {
+    revisionTargetRef.current = modelId
+    revisionInputRef.current?.click()
+  }
 
-    try {
-      const formData = new FormData()
-      formData.append('name', file.name)
-      formData.append('file', file)
-      
-      // Detect file format from file extension
-      const fileFormat = file.name.split('.').pop()?.toLowerCase() || 'stl'
-      formData.append('file_format', fileFormat)
+  const handleRevisionChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files
+    const modelId = revisionTargetRef.current
+    if (!files || files.length === 0 || !modelId) return
 
-      const response = await fetch('http://localhost:8000/api/models/', {
-        method: 'POST',
-        body: formData,
-      })
+    enqueueUploads(pickedFiles(files), modelId)
+    e.target.value = ''
+  }
+
+  const changeListLayout = (layout: ListLayout) => {
+    setListLayout(layout)
+    localStorage.setItem(LIST_LAYOUT_KEY, layout)
+  }
 
-      if (!response.ok) {
-        throw new Error('Failed to upload model')
+  // Keep the list in sync with changes made in the viewer, such as a new thumbnail
+  const handleModelUpdate = (updated: Model3D) => {
+    setModels(models => models.map(model => model.id === updated.id ? updated : model))
+  }
+
+  // Move or tag a model; the change applies to all of its revisions
+  const changeModel = async (modelId: number, changes: ModelChanges) => {
+    try {
+      const updated = await updateModel(modelId, changes)
+      // A model moved out of the listed project, or untagged, drops out of the list
+      const listedProject = selectedProject === 'none' ? null : selectedProject
+      const stillListed = (selectedProject === null || listedProject === updated.project)
+        && activeTags.every(tag => updated.tags.includes(tag))
+      if (stillListed) {
+        handleModelUpdate(updated)
+      } else {
+        setModels(models => models.filter(model => model.id !== updated.id))
       }
+      setLibraryVersion(version => version + 1)
+    } catch (error) {
+      console.error('Error updating model:', error)
+    }
+  }
 
-      // Get the newly created model and update the models list
-      const newModel = await response.json()
-      
-      // Fetch latest models
-      await fetchModels()
-      
-      // Automatically select the newly uploaded model
-      setActiveModelId(newModel.id.toString())
-      
-      // Clear file input
-      if (fileInputRef.current) {
-        fileInputRef.current.value = ''
+  const toggleTag = (tag: string) => {
+    setActiveTags(tags => tags.includes(tag) ? tags.filter(t => t !== tag) : [...tags, tag])
+  }
+
+  const handleProjectCreate = async (name: string, parent: number | null) => {
+    try {
+      const project = await createProject(name, parent)
+      setProjects(projects => [...projects, project])
+    } catch (error) {
+      console.error('Error creating project:', error)
+    }
+  }
+
+  const handleProjectChange = async (id: number, changes: Partial<Pick<Project, 'name' | 'parent'>>) => {
+    try {
+      const updated = await updateProject(id, changes)
+      setProjects(projects => projects.map(project => project.id === id ? updated : project))
+    } catch (error) {
+      console.error('Error updating project:', error)
+    }
+  }
+
+  const handleProjectDelete = async (project: Project) => {
+    setDeletingProject(null)
+    const deleted = projectDescendants(projects, project.id)
+    try {
+      await deleteProject(project.id)
+      if (typeof selectedProject === 'number' && deleted.has(selectedProject)) {
+        setSelectedProject(null)
       }
+      setModelsVersion(version => version + 1)
+      setLibraryVersion(version => version + 1)
     } catch (error) {
-      console.error('Error uploading model:', error)
-      setUploadError('Failed to upload model')
-    } finally {
-      setIsUploading(false)
+      console.error('Error deleting project:', error)
+    }
+  }
+
+  // Confirmation text saying what deleting a project takes with it
+  const projectDeleteMessage = (project: Project) => {
+    const ids = projectDescendants(projects, project.id)
+    const subprojects = ids.size - 1
+    const modelCount = projects.filter(p => ids.has(p.id)).reduce((count, p) => count + p.model_count, 0)
+    const parts = [`Delete the project "${project.name}"`]
+    if (subprojects > 0) {
+      parts.push(` and its ${subprojects} ${subprojects === 1 ? 'subproject' : 'subprojects'}`)
     }
+    parts.push('? ')
+    parts.push(modelCount > 0
+      ? `The ${modelCount} ${modelCount === 1 ? 'model' : 'models'} in it will not be deleted; they are moved to Unfiled.`
+      : 'It contains no models.')
+    return parts.join('')
+  }
+
+  const handleLogin = (user: User) => {
+    setCurrentUser(user)
+    setLoginPrompt(null)
+    setModelsVersion(version => version + 1)
+    setLibraryVersion(version => version + 1)
+  }
+
+  const handleLogout = async () => {
+    try {
+      await logout()
+    } catch (error) {
+      console.error('Error logging out:', error)
+    }
+    setCurrentUser(null)
+    setModels([])
+    setActiveModelId(null)
+    setCompareModelId(null)
+    setSceneId(null)
+    setLoginPrompt('')
   }
 
   // Handle model selection
@@ -101,16 +478,11 @@ function App() {
   // Handle model deletion
   const handleModelDelete = async (modelId: string) => {
     try {
-      const response = await fetch(`http://localhost:8000/api/models/${modelId}/`, {
-        method: 'DELETE',
-      })
-
-      if (!response.ok) {
-        throw new Error('Failed to delete model')
-      }
+      await deleteModel(modelId)
 
       // Update models list
       setModels(models.filter(model => model.id.toString() !== modelId))
+      if (compareModelId === modelId) setCompareModelId(null)
       
       // If the active model was deleted, select another model
       if (activeModelId === modelId) {
@@ -122,6 +494,146 @@ function App() {
     }
   }
 
+  const iconButtonStyle = {
+    backgroundColor: 'transparent',
+    border: 'none',
+    color: '#909296',
+    cursor: 'pointer',
+    padding: '5px',
+    borderRadius: '4px',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    transition: 'all 0.2s ease'
+  }
+
+  const filterStyle = {
+    backgroundColor: '#25262b',
+    color: '#C1C2C5',
+    border: '1px solid #373A40',
+    borderRadius: '4px',
+    padding: '6px 8px',
+    fontSize: '13px'
+  }
+
+  // Revision history, revision upload and delete buttons of a model
+  const renderModelActions = (model: Model3D) => (
+    <div style={{ display: 'flex' }}>
+      <button 
+        style={iconButtonStyle}
+        onClick={(e) => {
+          e.stopPropagation()
+          toggleHistory(model.id.toString())
+        }}
+        title="Revision history"
+      >
+        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+          <circle cx="12" cy="12" r="10"></circle>
+          <polyline points="12 6 12 12 16 14"></polyline>
+        </svg>
+      </button>
+      {activeModelId && activeModelId !== model.id.toString() && (
+        <button 
+          style={iconButtonStyle}
+          onClick={(e) => {
+            e.stopPropagation()
+            setCompareModelId(model.id.toString())
+          }}
+          title="Compare with the open model"
+        >
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <rect x="3" y="3" width="7" height="18" rx="1"></rect>
+            <rect x="14" y="3" width="7" height="18" rx="1"></rect>
+          </svg>
+        </button>
+      )}
+      {model.role === 'owner' && (
+        <button 
+          style={iconButtonStyle}
+          onClick={(e) => {
+            e.stopPropagation()
+            setSharingModel(model)
+          }}
+          title="Share"
+        >
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2"></path>
+            <circle cx="9" cy="7" r="4"></circle>
+            <line x1="20" y1="8" x2="20" y2="14"></line>
+            <line x1="23" y1="11" x2="17" y2="11"></line>
+          </svg>
+        </button>
+      )}
+      {canEditModel(model) && (
+        <>
+          <button 
+            style={iconButtonStyle}
+            onClick={(e) => {
+              e.stopPropagation()
+              handleRevisionSelect(model.id.toString())
+            }}
+            title="Upload new revision"
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <polyline points="17 8 12 3 7 8"></polyline>
+              <line x1="12" y1="3" x2="12" y2="15"></line>
+              <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+            </svg>
+          </button>
+          <button 
+            style={iconButtonStyle}
+            onClick={(e) => {
+              e.stopPropagation()
+              setDeletingModel(model)
+            }}
+            title={model.revision_count > 1 ? 'Delete model and all revisions' : 'Delete model'}
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <polyline points="3 6 5 6 21 6"></polyline>
+              <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
+            </svg>
+          </button>
+        </>
+      )}
+    </div>
+  )
+
+  // Revisions of the expanded model, newest first
+  const renderHistory = () => (
+    <div style={{ 
+      display: 'flex', 
+      flexDirection: 'column', 
+      gap: '4px',
+      padding: '0 0 0 15px',
+      gridColumn: '1 / -1'
+    }}>
+      {historyError ? (
+        <p style={{ fontSize: '12px', color: '#f44336', margin: 0 }}>{historyError}</p>
+      ) : revisions.length === 0 ? (
+        <p style={{ fontSize: '12px', color: '#909296', margin: 0 }}>Loading revisions...</p>
+      ) : (
+        [...revisions].reverse().map(revision => (
+          <div
+            key={revision.id}
+            style={{
+              padding: '4px 8px',
+              borderRadius: '4px',
+              fontSize: '12px',
+              cursor: 'pointer',
+              backgroundColor: activeModelId === revision.id.toString() ? '#2C2E33' : 'transparent',
+              color: activeModelId === revision.id.toString() ? '#00b8d4' : '#909296'
+            }}
+            onClick={() => handleModelSelect(revision.id.toString())}
+          >
+            Rev {revision.revision} • {new Date(revision.uploaded_at).toLocaleString()}
+            {revision.triangle_count !== null && ` • ${revision.triangle_count.toLocaleString()} triangles`}
+          </div>
+        ))
+      )}
+    </div>
+  )
+
+
   return (
     <div style={{ 
       display: 'flex', 
@@ -145,6 +657,40 @@ function App() {
         }}>
           CAD Viewer
         </h1>
+        {currentUser && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: '10px', fontSize: '14px' }}>
+            <button
+              style={{
+                padding: '6px 12px',
+                backgroundColor: sceneId ? '#00b8d4' : 'transparent',
+                color: sceneId ? 'white' : '#C1C2C5',
+                border: '1px solid #373A40',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '13px'
+              }}
+              onClick={() => setSceneId(sceneId ?? 'new')}
+              title="Place several models together at their true size"
+            >
+              Scenes
+            </button>
+            <span style={{ color: '#909296' }}>{currentUser.username}</span>
+            <button
+              style={{
+                padding: '6px 12px',
+                backgroundColor: 'transparent',
+                color: '#C1C2C5',
+                border: '1px solid #373A40',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '13px'
+              }}
+              onClick={handleLogout}
+            >
+              Log out
+            </button>
+          </div>
+        )}
       </header>
 
       <div style={{ 
@@ -183,11 +729,10 @@ function App() {
             onClick={handleFileSelect}
             onDrop={(e) => {
               e.preventDefault()
-              if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-                const dummyEvent = {
-                  target: { files: e.dataTransfer.files }
-                } as React.ChangeEvent<HTMLInputElement>
-                handleFileChange(dummyEvent)
+              if (e.dataTransfer.items.length > 0) {
+                droppedFiles(e.dataTransfer)
+                  .then(files => enqueueUploads(files))
+                  .catch(error => console.error('Error reading dropped files:', error))
               }
             }}
             onDragOver={(e) => e.preventDefault()}
@@ -198,8 +743,9 @@ function App() {
                 <line x1="12" y1="3" x2="12" y2="15"></line>
               </svg>
               <div>
-                <p style={{ marginBottom: '5px' }}>Drag and drop your model here</p>
-                <p style={{ fontSize: '12px' }}>Supports .STL and .OBJ files</p>
+                <p style={{ marginBottom: '5px' }}>Drag and drop models or folders here</p>
+                <p style={{ fontSize: '12px' }}>Supports STL, OBJ, glTF, PLY, 3MF, STEP and IGES files</p>
+                <p style={{ fontSize: '12px' }}>Add MTL and textures alongside an OBJ, or upload a .zip</p>
               </div>
               <button style={{
                 padding: '8px 16px',
@@ -211,30 +757,161 @@ function App() {
                 fontSize: '14px',
                 fontWeight: 500
               }}>
-                {isUploading ? 'Uploading...' : 'Select File'}
+                Select Files
+              </button>
+              <button
+                style={{
+                  backgroundColor: 'transparent',
+                  border: 'none',
+                  color: '#909296',
+                  cursor: 'pointer',
+                  fontSize: '12px',
+                  textDecoration: 'underline'
+                }}
+                onClick={(e) => {
+                  e.stopPropagation()
+                  folderInputRef.current?.click()
+                }}
+              >
+                or select a folder
               </button>
               <input 
                 type="file" 
                 ref={fileInputRef} 
                 style={{ display: 'none' }} 
-                accept=".stl,.obj"
+                accept={[...SUPPORTED_EXTENSIONS, ...ASSET_EXTENSIONS].join(',')}
+                multiple
                 onChange={handleFileChange}
               />
             </div>
-            {uploadError && (
-              <p style={{ 
-                color: '#f44336', 
-                marginTop: '10px', 
-                fontSize: '14px' 
-              }}>
-                {uploadError}
-              </p>
-            )}
+            {/* Outside the drop zone, whose click handler would open the file picker too */}
+            <input 
+              type="file" 
+              ref={folderInputRef} 
+              style={{ display: 'none' }} 
+              onChange={handleFileChange}
+            />
+            <label style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '10px', fontSize: '13px', color: '#909296' }}>
+              Units
+              <select
+                style={{ ...filterStyle, flex: 1, minWidth: 0 }}
+                value={uploadUnits}
+                onChange={(e) => setUploadUnits(e.target.value as LengthUnit | '')}
+                title="Units the uploaded files are in; they can be changed later in the viewer"
+              >
+                <option value="">From format (glTF in meters, others in millimeters)</option>
+                {LENGTH_UNITS.map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <UploadQueue
+              uploads={uploads}
+              onCancel={cancelUpload}
+              onRetry={retryUpload}
+              onRemove={removeUpload}
+              onClearFinished={clearFinishedUploads}
+            />
           </div>
           
+          <ProjectTree
+            projects={projects}
+            selected={selectedProject}
+            onSelect={setSelectedProject}
+            onCreate={handleProjectCreate}
+            onRename={(id, name) => handleProjectChange(id, { name })}
+            onDelete={setDeletingProject}
+            onMoveModel={(modelId, project) => changeModel(modelId, { project })}
+            onMoveProject={(id, parent) => handleProjectChange(id, { parent })}
+          />
+
+          {tags.length > 0 && (
+            <div>
+              <h2 style={{ fontSize: '18px', marginBottom: '10px' }}>Tags</h2>
+              <TagChips
+                tags={tags.map(tag => tag.name)}
+                activeTags={activeTags}
+                onToggle={toggleTag}
+              />
+            </div>
+          )}
+          <datalist id="tag-names">
+            {tags.map(tag => <option key={tag.id} value={tag.name} />)}
+          </datalist>
+
           {/* Models List */}
           <div style={{ flex: 1 }}>
-            <h2 style={{ fontSize: '18px', marginBottom: '15px' }}>Models</h2>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '15px' }}>
+              <h2 style={{ fontSize: '18px', margin: 0 }}>Models</h2>
+              <div style={{ display: 'flex' }}>
+                <button 
+                  style={{ ...iconButtonStyle, color: listLayout === 'list' ? '#00b8d4' : '#909296' }}
+                  onClick={() => changeListLayout('list')}
+                  title="List"
+                >
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <line x1="8" y1="6" x2="21" y2="6"></line>
+                    <line x1="8" y1="12" x2="21" y2="12"></line>
+                    <line x1="8" y1="18" x2="21" y2="18"></line>
+                    <line x1="3" y1="6" x2="3.01" y2="6"></line>
+                    <line x1="3" y1="12" x2="3.01" y2="12"></line>
+                    <line x1="3" y1="18" x2="3.01" y2="18"></line>
+                  </svg>
+                </button>
+                <button 
+                  style={{ ...iconButtonStyle, color: listLayout === 'grid' ? '#00b8d4' : '#909296' }}
+                  onClick={() => changeListLayout('grid')}
+                  title="Gallery"
+                >
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <rect x="3" y="3" width="7" height="7"></rect>
+                    <rect x="14" y="3" width="7" height="7"></rect>
+                    <rect x="14" y="14" width="7" height="7"></rect>
+                    <rect x="3" y="14" width="7" height="7"></rect>
+                  </svg>
+                </button>
+              </div>
+            </div>
+            <input 
+              type="file" 
+              ref={revisionInputRef} 
+              style={{ display: 'none' }} 
+              accept={[...SUPPORTED_EXTENSIONS, ...ASSET_EXTENSIONS].join(',')}
+              multiple
+              onChange={handleRevisionChange}
+            />
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '15px' }}>
+              <input
+                type="search"
+                style={{ ...filterStyle, width: '100%', boxSizing: 'border-box' }}
+                value={search}
+                placeholder="Search models"
+                onChange={(e) => setSearch(e.target.value)}
+              />
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <select
+                  style={{ ...filterStyle, flex: 1, minWidth: 0 }}
+                  value={fileFormat}
+                  onChange={(e) => setFileFormat(e.target.value)}
+                  title="File format"
+                >
+                  <option value="">All formats</option>
+                  {FILE_FORMATS.map(format => (
+                    <option key={format} value={format}>{format.toUpperCase()}</option>
+                  ))}
+                </select>
+                <select
+                  style={{ ...filterStyle, flex: 1, minWidth: 0 }}
+                  value={ordering}
+                  onChange={(e) => setOrdering(e.target.value as ModelOrdering)}
+                  title="Sort"
+                >
+                  {ORDERINGS.map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
             {models.length === 0 ? (
               <p style={{ 
                 color: '#909296', 
@@ -242,72 +919,125 @@ function App() {
                 textAlign: 'center',
                 padding: '20px 0'
               }}>
-                No models available. Upload a model to get started.
+                {isLoadingModels
+                  ? 'Loading models...'
+                  : isFiltered
+                    ? 'No models match the filters.'
+                    : 'No models available. Upload a model to get started.'}
               </p>
             ) : (
-              <div style={{ 
-                display: 'flex', 
-                flexDirection: 'column', 
-                gap: '10px' 
-              }}>
-                {models.map(model => (
-                  <div 
-                    key={model.id}
-                    style={{ 
-                      padding: '10px 15px',
-                      borderRadius: '4px',
-                      backgroundColor: activeModelId === model.id.toString() ? '#2C2E33' : 'transparent',
-                      border: '1px solid #373A40',
-                      cursor: 'pointer',
-                      display: 'flex',
-                      justifyContent: 'space-between',
-                      alignItems: 'center',
-                      transition: 'all 0.2s ease'
-                    }}
-                    onClick={() => handleModelSelect(model.id.toString())}
-                  >
-                    <div>
-                      <p style={{ 
-                        marginBottom: '4px',
-                        color: activeModelId === model.id.toString() ? '#00b8d4' : '#C1C2C5',
-                        fontWeight: activeModelId === model.id.toString() ? 500 : 400,
-                      }}>
-                        {model.name}
-                      </p>
-                      <p style={{ 
-                        fontSize: '12px', 
-                        color: '#909296',
-                        margin: 0 
-                      }}>
-                        {model.file_format.toUpperCase()}
-                      </p>
-                    </div>
-                    <button 
-                      style={{
-                        backgroundColor: 'transparent',
-                        border: 'none',
-                        color: '#909296',
-                        cursor: 'pointer',
-                        padding: '5px',
-                        borderRadius: '4px',
-                        display: 'flex',
-                        alignItems: 'center',
-                        justifyContent: 'center',
-                        transition: 'all 0.2s ease'
-                      }}
-                      onClick={(e) => {
-                        e.stopPropagation()
-                        handleModelDelete(model.id.toString())
-                      }}
-                      title="Delete model"
-                    >
-                      <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                        <polyline points="3 6 5 6 21 6"></polyline>
-                        <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
-                      </svg>
-                    </button>
-                  </div>
-                ))}
+              <div style={listLayout === 'grid'
+                ? { display: 'grid', gridTemplateColumns: 'repeat(2, minmax(0, 1fr))', gap: '10px' }
+                : { display: 'flex', flexDirection: 'column', gap: '10px' }
+              }>
+                {models.map(model => {
+                  const isActive = activeModelId === model.id.toString()
+                  const details = [
+                    model.file_format.toUpperCase(),
+                    model.revision_count > 1 ? `Rev ${model.revision}` : null,
+                    model.size_x !== null && model.size_y !== null && model.size_z !== null
+                      ? formatDimensions(model.size_x, model.size_y, model.size_z, model.units)
+                      : null
+                  ].filter(Boolean).join(' • ')
+                  // Rows are dragged onto the project tree to move the model
+                  const dragHandlers = {
+                    draggable: canEditModel(model),
+                    onDragStart: (e: React.DragEvent) => {
+                      e.dataTransfer.setData(MODEL_DRAG_TYPE, String(model.id))
+                      e.dataTransfer.effectAllowed = 'move'
+                    }
+                  }
+
+                  return (
+                    <React.Fragment key={model.id}>
+                      {listLayout === 'grid' ? (
+                        <div 
+                          style={{ 
+                            padding: '8px',
+                            borderRadius: '4px',
+                            backgroundColor: isActive ? '#2C2E33' : 'transparent',
+                            border: '1px solid #373A40',
+                            cursor: 'pointer',
+                            display: 'flex',
+                            flexDirection: 'column',
+                            alignItems: 'center',
+                            gap: '6px',
+                            transition: 'all 0.2s ease'
+                          }}
+                          title={`${model.name}\n${details}`}
+                          {...dragHandlers}
+                          onClick={() => handleModelSelect(model.id.toString())}
+                        >
+                          <ModelThumbnail model={model} size="100%" />
+                          <p style={{ 
+                            margin: 0,
+                            width: '100%',
+                            fontSize: '13px',
+                            textAlign: 'center',
+                            overflow: 'hidden',
+                            textOverflow: 'ellipsis',
+                            whiteSpace: 'nowrap',
+                            color: isActive ? '#00b8d4' : '#C1C2C5',
+                            fontWeight: isActive ? 500 : 400,
+                          }}>
+                            {model.name}
+                          </p>
+                          {renderModelActions(model)}
+                        </div>
+                      ) : (
+                        <div 
+                          style={{ 
+                            padding: '8px 10px',
+                            borderRadius: '4px',
+                            backgroundColor: isActive ? '#2C2E33' : 'transparent',
+                            border: '1px solid #373A40',
+                            cursor: 'pointer',
+                            display: 'flex',
+                            justifyContent: 'space-between',
+                            alignItems: 'center',
+                            gap: '10px',
+                            transition: 'all 0.2s ease'
+                          }}
+                          {...dragHandlers}
+                          onClick={() => handleModelSelect(model.id.toString())}
+                        >
+                          <ModelThumbnail model={model} size="40px" />
+                          <div style={{ flex: 1, minWidth: 0 }}>
+                            <p style={{ 
+                              marginBottom: '4px',
+                              color: isActive ? '#00b8d4' : '#C1C2C5',
+                              fontWeight: isActive ? 500 : 400,
+                            }}>
+                              {model.name}
+                            </p>
+                            <p style={{ 
+                              fontSize: '12px', 
+                              color: '#909296',
+                              margin: 0 
+                            }}>
+                              {details}
+                            </p>
+                            <TagChips
+                              tags={model.tags}
+                              activeTags={activeTags}
+                              onToggle={toggleTag}
+                              onChange={canEditModel(model) ? (tags) => changeModel(model.id, { tags }) : undefined}
+                              suggestions="tag-names"
+                            />
+                          </div>
+                          {renderModelActions(model)}
+                        </div>
+                      )}
+
+                      {expandedHistoryId === model.id.toString() && renderHistory()}
+                    </React.Fragment>
+                  )
+                })}
+              </div>
+            )}
+            {nextCursor && (
+              <div ref={loadMoreRef} style={{ padding: '10px 0', textAlign: 'center', fontSize: '12px', color: '#909296' }}>
+                {isLoadingModels ? 'Loading more...' : ''}
               </div>
             )}
           </div>
@@ -315,9 +1045,70 @@ function App() {
         
         {/* Main Content Area */}
         <div style={{ flex: 1, position: 'relative' }}>
-          <ModelViewer modelId={activeModelId} />
+          {sceneId ? (
+            <SceneWorkspace
+              key={currentUser?.id ?? 'anonymous'}
+              sceneId={sceneId === 'new' ? null : sceneId}
+              models={models}
+              onSceneChange={(id) => setSceneId(id ?? 'new')}
+              onClose={() => setSceneId(null)}
+            />
+          ) : activeModelId && compareModelId && compareModelId !== activeModelId ? (
+            <CompareWorkspace
+              key={currentUser?.id ?? 'anonymous'}
+              modelIds={[activeModelId, compareModelId]}
+              onSwap={() => {
+                setActiveModelId(compareModelId)
+                setCompareModelId(activeModelId)
+              }}
+              onClose={() => setCompareModelId(null)}
+            />
+          ) : (
+            // Remounted when the user changes, so nothing loaded for the previous one lingers
+            <ModelViewer key={currentUser?.id ?? 'anonymous'} modelId={activeModelId} onModelUpdate={handleModelUpdate} />
+          )}
         </div>
       </div>
+
+      {deletingProject && (
+        <ConfirmDialog
+          title="Delete project"
+          message={projectDeleteMessage(deletingProject)}
+          confirmLabel="Delete"
+          danger
+          onConfirm={() => handleProjectDelete(deletingProject)}
+          onCancel={() => setDeletingProject(null)}
+        />
+      )}
+
+      {deletingModel && (
+        <ConfirmDialog
+          title="Delete model"
+          message={deletingModel.revision_count > 1
+            ? `Delete "${deletingModel.name}" and all ${deletingModel.revision_count} of its revisions? This cannot be undone.`
+            : `Delete "${deletingModel.name}"? This cannot be undone.`}
+          confirmLabel="Delete"
+          danger
+          onConfirm={() => {
+            setDeletingModel(null)
+            handleModelDelete(deletingModel.id.toString())
+          }}
+          onCancel={() => setDeletingModel(null)}
+        />
+      )}
+
+      {sharingModel && (
+        <MembersDialog model={sharingModel} onClose={() => setSharingModel(null)} />
+      )}
+
+      {loginPrompt !== null && (
+        <LoginDialog
+          message={loginPrompt || undefined}
+          onLogin={handleLogin}
+          // A user refused one action can keep working; without a user nothing works
+          onCancel={currentUser ? () => setLoginPrompt(null) : undefined}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,52 @@
+import { request } from './http'
+import { Vector3Tuple } from '../types'
+
+export type AnnotationStatus = 'open' | 'resolved'
+
+export interface AnnotationReply {
+  id: number
+  text: string
+  author: string
+  created_at: string
+}
+
+// Comment pinned to the model surface. Points are in model coordinates so
+// pins stay attached however the viewer centers and scales the model.
+export interface Annotation {
+  id: number
+  model: number
+  text: string
+  author: string
+  status: AnnotationStatus
+  position: Vector3Tuple
+  normal: Vector3Tuple | []
+  camera_position: Vector3Tuple | null
+  camera_target: Vector3Tuple | null
+  created_at: string
+  replies: AnnotationReply[]
+  // Whether the current user may resolve or delete it: its author and editors of the model may
+  can_edit: boolean
+}
+
+export type NewAnnotation = Pick<Annotation, 'model' | 'text' | 'position' | 'normal' | 'camera_position' | 'camera_target'>
+
+export function listAnnotations(modelId: string): Promise<Annotation[]> {
+  return request(`/annotations/?model=${encodeURIComponent(modelId)}`)
+}
+
+export function createAnnotation(annotation: NewAnnotation): Promise<Annotation> {
+  return request('/annotations/', { method: 'POST', body: JSON.stringify(annotation) })
+}
+
+export function setAnnotationStatus(id: number, status: AnnotationStatus): Promise<Annotation> {
+  return request(`/annotations/${id}/`, { method: 'PATCH', body: JSON.stringify({ status }) })
+}
+
+export function deleteAnnotation(id: number): Promise<void> {
+  return request(`/annotations/${id}/`, { method: 'DELETE' })
+}
+
+// Adds a reply and returns the annotation with its updated thread
+export function replyToAnnotation(id: number, text: string): Promise<Annotation> {
+  return request(`/annotations/${id}/replies/`, { method: 'POST', body: JSON.stringify({ text }) })
+}
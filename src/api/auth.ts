@@ -0,0 +1,30 @@
+import { request, setAuthToken } from './http'
+
+export interface User {
+  id: number
+  username: string
+  is_staff: boolean
+}
+
+// Logs in and keeps the token for the following requests
+export async function login(username: string, password: string): Promise<User> {
+  const reply = await request<{ token: string, user: User }>('/auth/login/', {
+    method: 'POST',
+    body: JSON.stringify({ username, password }),
+  })
+  setAuthToken(reply.token)
+  return reply.user
+}
+
+export async function logout(): Promise<void> {
+  try {
+    await request('/auth/logout/', { method: 'POST' })
+  } finally {
+    setAuthToken(null)
+  }
+}
+
+// The user the stored token belongs to
+export function getCurrentUser(): Promise<User> {
+  return request('/auth/me/')
+}
@@ -0,0 +1,162 @@
+// Base URL of the backend API, configured with VITE_API_URL (see .env.example)
+export const API_URL = (import.meta.env.VITE_API_URL || 'http://localhost:8000/api').replace(/\/+$/, '')
+
+// JSON body of a failed request, e.g. `{ error: 'Invalid file format' }`
+export interface ApiErrorPayload {
+  error?: string
+  detail?: string
+  [field: string]: unknown
+}
+
+// Raised for any non-2xx reply, carrying the backend's error payload.
+// `status` is 0 when the server could not be reached.
+export class ApiError extends Error {
+  status: number
+  payload: ApiErrorPayload | null
+
+  constructor(status: number, payload: ApiErrorPayload | null) {
+    super(payload?.error || payload?.detail || `Request failed: ${status}`)
+    this.name = 'ApiError'
+    this.status = status
+    this.payload = payload
+  }
+}
+
+const TOKEN_KEY = 'authToken'
+
+// Token of the logged in user, sent with every request
+export function getAuthToken(): string | null {
+  return localStorage.getItem(TOKEN_KEY)
+}
+
+export function setAuthToken(token: string | null) {
+  if (token) {
+    localStorage.setItem(TOKEN_KEY, token)
+  } else {
+    localStorage.removeItem(TOKEN_KEY)
+  }
+}
+
+type AuthErrorListener = (error: ApiError) => void
+const authErrorListeners = new Set<AuthErrorListener>()
+
+// Called for every 401 reply, e.g. to ask the user to log in. A 403 only means the user may not
+// do one thing, so it is left to the caller like any other error. Returns an unsubscribe function.
+export function onAuthError(listener: AuthErrorListener): () => void {
+  authErrorListeners.add(listener)
+  return () => authErrorListeners.delete(listener)
+}
+
+function failed(status: number, payload: ApiErrorPayload | null): ApiError {
+  const error = new ApiError(status, payload)
+  if (status === 401) {
+    // The server no longer accepts the token, e.g. after logging out elsewhere
+    setAuthToken(null)
+    authErrorListeners.forEach(listener => listener(error))
+  }
+  return error
+}
+
+function authHeaders(): Record<string, string> {
+  const token = getAuthToken()
+  return token ? { Authorization: `Token ${token}` } : {}
+}
+
+// Absolute URL of an API path
+export function apiUrl(path: string): string {
+  return `${API_URL}${path}`
+}
+
+async function send(path: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(apiUrl(path), {
+    ...init,
+    headers: {
+      ...authHeaders(),
+      ...(typeof init?.body === 'string' ? { 'Content-Type': 'application/json' } : {}),
+    },
+  })
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null)
+    throw failed(response.status, payload)
+  }
+  return response
+}
+
+// Fetches an API path and parses the JSON reply
+export async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await send(path, init)
+  return response.status === 204 ? (undefined as T) : response.json()
+}
+
+export interface ProgressOptions {
+  // Bytes of the request body sent, or of the reply received, so far. `total`
+  // is 0 when the server does not say how long the reply is.
+  onProgress?: (loaded: number, total: number) => void
+  signal?: AbortSignal
+}
+
+// Fetches an API path returning a file, reading it in chunks when progress is wanted
+export async function requestBlob(path: string, { onProgress, signal }: ProgressOptions = {}): Promise<Blob> {
+  const response = await send(path, { signal })
+  if (!onProgress || !response.body) return response.blob()
+
+  const total = Number(response.headers.get('Content-Length')) || 0
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let loaded = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    loaded += value.length
+    onProgress(loaded, total)
+  }
+  return new Blob(chunks, { type: response.headers.get('Content-Type') ?? '' })
+}
+
+// Error thrown for requests cancelled through their AbortSignal, like fetch does
+export function abortError(): DOMException {
+  return new DOMException('Upload cancelled', 'AbortError')
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError'
+}
+
+// Sends a form and parses the JSON reply. Uses XMLHttpRequest since fetch
+// cannot report upload progress.
+export function sendForm<T>(path: string, method: string, body: FormData, { onProgress, signal }: ProgressOptions = {}): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError())
+      return
+    }
+
+    const xhr = new XMLHttpRequest()
+    const abort = () => xhr.abort()
+    signal?.addEventListener('abort', abort)
+    xhr.onloadend = () => signal?.removeEventListener('abort', abort)
+
+    xhr.open(method, apiUrl(path))
+    Object.entries(authHeaders()).forEach(([name, value]) => xhr.setRequestHeader(name, value))
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded, event.total)
+    }
+    xhr.onload = () => {
+      let payload = null
+      try {
+        payload = xhr.responseText ? JSON.parse(xhr.responseText) : null
+      } catch {
+        // Not JSON, e.g. a proxy error page
+      }
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(payload as T)
+      } else {
+        reject(failed(xhr.status, payload))
+      }
+    }
+    xhr.onerror = () => reject(new ApiError(0, { error: 'Connection lost' }))
+    xhr.onabort = () => reject(abortError())
+    xhr.send(body)
+  })
+}
@@ -0,0 +1,11 @@
+// Typed client for the backend API
+export * from './http'
+export * from './auth'
+export * from './models'
+export * from './annotations'
+export * from './views'
+export * from './scenes'
+export * from './shares'
+export * from './projects'
+export * from './tags'
+export * from './uploads'
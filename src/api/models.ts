@@ -0,0 +1,189 @@
+import { ProgressOptions, request, requestBlob } from './http'
+import { LengthUnit, MeshFormat } from '../types'
+
+export interface ModelAssetInfo {
+  id: number
+  name: string
+}
+
+// What anyone holding a share link sees of a model: enough to show it, nothing
+// about who owns it or where it is filed
+export interface PublicModel3D {
+  id: number
+  name: string
+  file_format: string
+  // Format the viewer loads: 'glb' for tessellated CAD files, else file_format
+  display_format: string
+  assets: ModelAssetInfo[]
+  // Unit of the file's coordinates and of the statistics, shared by all revisions
+  units: LengthUnit
+}
+
+// A stored upload, as serialized by the backend. Re-uploading a model adds
+// a revision to its lineage; each revision is its own Model3D.
+export interface Model3D extends PublicModel3D {
+  // Name of the uploaded file, which is downloaded through downloadModel
+  file_name: string
+  uploaded_at: string
+  // Mesh statistics computed at upload, in model units
+  triangle_count: number | null
+  surface_area: number | null
+  volume: number | null
+  size_x: number | null
+  size_y: number | null
+  size_z: number | null
+  is_watertight: boolean | null
+  // Id of the first revision, shared by all revisions of the model
+  lineage: number
+  revision: number
+  revision_count: number
+  // Whether a preview image is stored, see fetchThumbnail
+  has_thumbnail: boolean
+  // Shared by all revisions of the model
+  project: number | null
+  tags: string[]
+  // Username of the uploader, null when the model has no owner and only staff may open it
+  owner: string | null
+  // What the current user may do with the model
+  role: ModelRole | null
+}
+
+// Viewers may open a model, editors also change, re-upload and delete it,
+// and owners decide who else has access
+export type ModelRole = 'viewer' | 'editor' | 'owner'
+
+export interface ModelMember {
+  id: number
+  user: number
+  username: string
+  role: Exclude<ModelRole, 'owner'>
+}
+
+// Models opened through a share link can never be changed
+export function canEditModel(model: PublicModel3D | Model3D): boolean {
+  return 'role' in model && (model.role === 'editor' || model.role === 'owner')
+}
+
+// Fields that can be changed after upload; changes apply to every revision
+export type ModelChanges = Partial<Pick<Model3D, 'name' | 'project' | 'tags' | 'units'>>
+
+// Values of Model3D.file_format
+export const FILE_FORMATS = ['stl', 'obj', 'glb', 'gltf', 'ply', '3mf', 'step', 'iges']
+
+export type ModelOrdering = '-uploaded_at' | 'uploaded_at' | 'name' | '-name'
+
+export interface ModelQuery {
+  // Matches model names
+  search?: string
+  fileFormats?: string[]
+  // Inclusive dates, YYYY-MM-DD
+  uploadedAfter?: string
+  uploadedBefore?: string
+  // Models filed directly in a project, or 'none' for unfiled models
+  project?: number | 'none'
+  // Models having all of the tags
+  tags?: string[]
+  ordering?: ModelOrdering
+  pageSize?: number
+}
+
+export interface ModelPage {
+  results: Model3D[]
+  // Pass to listModels for the following page, null on the last page
+  nextCursor: string | null
+}
+
+interface CursorPage<T> {
+  next: string | null
+  previous: string | null
+  results: T[]
+}
+
+// One page of the latest revision of every model matching the query
+export async function listModels(query: ModelQuery = {}, cursor?: string | null): Promise<ModelPage> {
+  const params = new URLSearchParams()
+  if (query.search) params.set('search', query.search)
+  if (query.fileFormats?.length) params.set('file_format', query.fileFormats.join(','))
+  if (query.uploadedAfter) params.set('uploaded_after', query.uploadedAfter)
+  if (query.uploadedBefore) params.set('uploaded_before', query.uploadedBefore)
+  if (query.project) params.set('project', String(query.project))
+  if (query.tags?.length) params.set('tags', query.tags.join(','))
+  if (query.ordering) params.set('ordering', query.ordering)
+  if (query.pageSize) params.set('page_size', String(query.pageSize))
+  if (cursor) params.set('cursor', cursor)
+
+  const page = await request<CursorPage<Model3D>>(`/models/?${params}`)
+  return {
+    results: page.results,
+    nextCursor: page.next ? new URL(page.next).searchParams.get('cursor') : null,
+  }
+}
+
+export function getModel(id: number | string): Promise<Model3D> {
+  return request(`/models/${id}/`)
+}
+
+export function updateModel(id: number | string, changes: ModelChanges): Promise<Model3D> {
+  return request(`/models/${id}/`, { method: 'PATCH', body: JSON.stringify(changes) })
+}
+
+// Deletes the model together with all of its revisions
+export function deleteModel(id: number | string): Promise<void> {
+  return request(`/models/${id}/`, { method: 'DELETE' })
+}
+
+// Users the model is shared with, besides its owner
+export function listModelMembers(id: number | string): Promise<ModelMember[]> {
+  return request(`/models/${id}/members/`)
+}
+
+// Share the model with a user, or change their role
+export function setModelMember(id: number | string, username: string, role: ModelMember['role']): Promise<ModelMember> {
+  return request(`/models/${id}/members/`, { method: 'POST', body: JSON.stringify({ username, role }) })
+}
+
+export function removeModelMember(id: number | string, memberId: number): Promise<void> {
+  return request(`/models/${id}/members/${memberId}/`, { method: 'DELETE' })
+}
+
+// The original uploaded file
+export function downloadModel(id: number | string): Promise<Blob> {
+  return requestBlob(`/models/${id}/download/`)
+}
+
+// The viewer mesh converted on the server; `scale` multiplies every coordinate, to change units
+export function convertModel(
+  id: number | string,
+  format: MeshFormat,
+  { ascii = false, scale = 1 }: { ascii?: boolean, scale?: number } = {}
+): Promise<Blob> {
+  const params = new URLSearchParams({ target_format: format, encoding: ascii ? 'ascii' : 'binary', scale: String(scale) })
+  return requestBlob(`/models/${id}/convert/?${params}`)
+}
+
+// The mesh the viewer renders (tessellated GLB for STEP/IGES, else the original)
+export function fetchDisplayFile(id: number | string, options?: ProgressOptions): Promise<Blob> {
+  return requestBlob(`/models/${id}/display/`, options)
+}
+
+// Companion file (MTL, texture) stored with the model
+export function fetchModelAsset(id: number | string, name: string, options?: ProgressOptions): Promise<Blob> {
+  return requestBlob(`/models/${id}/asset/?name=${encodeURIComponent(name)}`, options)
+}
+
+// PNG preview shown in the model list
+export function fetchThumbnail(id: number | string, options?: ProgressOptions): Promise<Blob> {
+  return requestBlob(`/models/${id}/thumbnail/`, options)
+}
+
+// Stores a preview rendered by the viewer
+export function uploadThumbnail(id: number | string, image: Blob): Promise<Model3D> {
+  const formData = new FormData()
+  formData.append('image', image, 'thumbnail.png')
+  return request(`/models/${id}/thumbnail/`, { method: 'POST', body: formData })
+}
+
+// All revisions of a model, oldest first
+export function listRevisions(id: number | string): Promise<Model3D[]> {
+  return request(`/models/${id}/revisions/`)
+}
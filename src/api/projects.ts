@@ -0,0 +1,29 @@
+import { request } from './http'
+
+// Folder of models; projects nest through `parent`
+export interface Project {
+  id: number
+  name: string
+  parent: number | null
+  // Models filed directly in the project
+  model_count: number
+  created_at: string
+}
+
+export function listProjects(): Promise<Project[]> {
+  return request('/projects/')
+}
+
+export function createProject(name: string, parent: number | null): Promise<Project> {
+  return request('/projects/', { method: 'POST', body: JSON.stringify({ name, parent }) })
+}
+
+// Rename a project, or move it below another one (null for the top level)
+export function updateProject(id: number, changes: Partial<Pick<Project, 'name' | 'parent'>>): Promise<Project> {
+  return request(`/projects/${id}/`, { method: 'PATCH', body: JSON.stringify(changes) })
+}
+
+// Deletes the project and its subprojects; their models become unfiled
+export function deleteProject(id: number): Promise<void> {
+  return request(`/projects/${id}/`, { method: 'DELETE' })
+}
@@ -0,0 +1,48 @@
+import { request } from './http'
+import { Vector3Tuple } from '../types'
+
+// One model placed in a scene, in scene units; rotation in degrees about x, y and z, applied in that order
+export interface ScenePart {
+  id?: number
+  model: number
+  model_name?: string
+  position: Vector3Tuple
+  rotation: Vector3Tuple
+  scale: Vector3Tuple
+}
+
+// Named arrangement of several models at their true scale
+export interface Scene {
+  id: number
+  name: string
+  owner: string
+  parts: ScenePart[]
+  created_at: string
+  updated_at: string
+}
+
+export interface SceneChanges {
+  name?: string
+  // Replaces every part of the scene
+  parts?: ScenePart[]
+}
+
+export function listScenes(): Promise<Scene[]> {
+  return request('/scenes/')
+}
+
+export function getScene(id: number | string): Promise<Scene> {
+  return request(`/scenes/${id}/`)
+}
+
+export function createScene(scene: SceneChanges & { name: string }): Promise<Scene> {
+  return request('/scenes/', { method: 'POST', body: JSON.stringify(scene) })
+}
+
+export function updateScene(id: number | string, changes: SceneChanges): Promise<Scene> {
+  return request(`/scenes/${id}/`, { method: 'PATCH', body: JSON.stringify(changes) })
+}
+
+export function deleteScene(id: number | string): Promise<void> {
+  return request(`/scenes/${id}/`, { method: 'DELETE' })
+}
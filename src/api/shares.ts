@@ -0,0 +1,69 @@
+import { ProgressOptions, request, requestBlob } from './http'
+import { PublicModel3D } from './models'
+
+// Read-only link to one revision of a model, for people without an account
+export interface ShareLink {
+  id: number
+  token: string
+  model: number
+  created_by: string | null
+  created_at: string
+  // The link stops working after this time, never when null
+  expires_at: string | null
+  has_password: boolean
+}
+
+export interface NewShareLink {
+  expires_at?: string | null
+  password?: string
+}
+
+export function listShareLinks(modelId: number | string): Promise<ShareLink[]> {
+  return request(`/models/${modelId}/share-links/`)
+}
+
+export function createShareLink(modelId: number | string, link: NewShareLink): Promise<ShareLink> {
+  return request(`/models/${modelId}/share-links/`, { method: 'POST', body: JSON.stringify(link) })
+}
+
+export function deleteShareLink(modelId: number | string, linkId: number): Promise<void> {
+  return request(`/models/${modelId}/share-links/${linkId}/`, { method: 'DELETE' })
+}
+
+// A share link opened by its recipient
+export interface SharedModel {
+  token: string
+  // Proves the password was entered, for links that have one
+  key: string | null
+  model: PublicModel3D
+  expires_at: string | null
+}
+
+function sharedPath(token: string, key: string | null, path = '', params: Record<string, string> = {}): string {
+  const query = new URLSearchParams(params)
+  if (key) query.set('key', key)
+  return `/shared/${encodeURIComponent(token)}/${path}?${query}`
+}
+
+// Fails with status 403 while the link needs a password, and 410 once it has expired
+export async function openShareLink(token: string, key: string | null = null): Promise<SharedModel> {
+  const reply = await request<{ model: PublicModel3D, expires_at: string | null }>(sharedPath(token, key))
+  return { token, key, ...reply }
+}
+
+// Exchanges the password of a link for the key to open it with
+export async function unlockShareLink(token: string, password: string): Promise<string> {
+  const reply = await request<{ key: string }>(sharedPath(token, null, 'unlock/'), {
+    method: 'POST',
+    body: JSON.stringify({ password }),
+  })
+  return reply.key
+}
+
+export function fetchSharedDisplayFile(shared: SharedModel, options?: ProgressOptions): Promise<Blob> {
+  return requestBlob(sharedPath(shared.token, shared.key, 'display/'), options)
+}
+
+export function fetchSharedAsset(shared: SharedModel, name: string, options?: ProgressOptions): Promise<Blob> {
+  return requestBlob(sharedPath(shared.token, shared.key, 'asset/', { name }), options)
+}
@@ -0,0 +1,12 @@
+import { request } from './http'
+
+// Free-form label; models reference tags by name
+export interface Tag {
+  id: number
+  name: string
+  model_count: number
+}
+
+export function listTags(): Promise<Tag[]> {
+  return request('/tags/')
+}
@@ -0,0 +1,177 @@
+import { ApiError, abortError, request, sendForm } from './http'
+import { Model3D } from './models'
+import { LengthUnit } from '../types'
+
+// Files larger than this are sent in chunks, so a dropped connection only loses one chunk
+export const CHUNK_SIZE = 5 * 1024 * 1024
+// Attempts to send a chunk before giving up, waiting twice as long after each failure
+const MAX_RETRIES = 5
+const RETRY_DELAY = 1000
+
+// Server-side state of a chunked upload
+export interface ChunkedUpload {
+  id: string
+  filename: string
+  // Bytes
+  size: number
+  received: number
+  created_at: string
+}
+
+export interface UploadProgress {
+  // Bytes sent so far, of the model file and its assets
+  loaded: number
+  total: number
+}
+
+export interface ModelUploadOptions {
+  // Companion files (MTL, textures) stored with the model
+  assets?: File[]
+  // Defaults to the file name, or to the previous name for a revision
+  name?: string
+  // Upload as the next revision of this model, which keeps its project
+  revisionOf?: number | string
+  // Project to file a new model in
+  project?: number | null
+  // Units of the file's coordinates; by default the server picks them from the format, or keeps those of the model for a revision
+  units?: LengthUnit
+  onProgress?: (progress: UploadProgress) => void
+  signal?: AbortSignal
+}
+
+function startUpload(file: File): Promise<ChunkedUpload> {
+  return request('/models/uploads/', {
+    method: 'POST',
+    body: JSON.stringify({ filename: file.name, size: file.size }),
+  })
+}
+
+function getUpload(id: string): Promise<ChunkedUpload> {
+  return request(`/models/uploads/${id}/`)
+}
+
+function cancelUpload(id: string): Promise<void> {
+  return request(`/models/uploads/${id}/`, { method: 'DELETE' })
+}
+
+function sendChunk(id: string, offset: number, chunk: Blob, onProgress: (loaded: number) => void, signal?: AbortSignal) {
+  const formData = new FormData()
+  formData.append('offset', String(offset))
+  formData.append('chunk', chunk)
+  return sendForm<ChunkedUpload>(`/models/uploads/${id}/`, 'PUT', formData, {
+    signal,
+    onProgress: (loaded, total) => onProgress(chunk.size * (loaded / total)),
+  })
+}
+
+// Connection drops and gateway errors are worth retrying, other errors will not go away
+function isRetryable(error: unknown): boolean {
+  return error instanceof ApiError && (error.status === 0 || error.status >= 500)
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(abortError())
+    }, { once: true })
+  })
+}
+
+// The id of an unfinished upload is kept per file, so picking the same file again resumes it
+function resumeKey(file: File): string {
+  return `chunked-upload:${file.name}:${file.size}:${file.lastModified}`
+}
+
+async function openUpload(file: File): Promise<ChunkedUpload> {
+  const savedId = localStorage.getItem(resumeKey(file))
+  if (savedId) {
+    try {
+      return await getUpload(savedId)
+    } catch (error) {
+      // Expired or already used, start over
+      if (!(error instanceof ApiError && error.status === 404)) throw error
+    }
+  }
+  const upload = await startUpload(file)
+  localStorage.setItem(resumeKey(file), upload.id)
+  return upload
+}
+
+// Sends the rest of `file` from the last chunk the server acknowledged
+async function sendChunks(upload: ChunkedUpload, file: File, onProgress: (loaded: number) => void, signal?: AbortSignal) {
+  let received = upload.received
+  let failures = 0
+  onProgress(received)
+
+  while (received < file.size) {
+    const offset = received
+    const chunk = file.slice(offset, offset + CHUNK_SIZE)
+    try {
+      received = (await sendChunk(upload.id, offset, chunk, loaded => onProgress(offset + loaded), signal)).received
+      failures = 0
+    } catch (error) {
+      // The server holds a different amount, e.g. the reply to the previous chunk was lost
+      if (error instanceof ApiError && error.status === 409 && typeof error.payload?.received === 'number') {
+        received = error.payload.received
+        continue
+      }
+      if (!isRetryable(error)) throw error
+      if (++failures > MAX_RETRIES) {
+        throw new ApiError(error instanceof ApiError ? error.status : 0, {
+          error: 'Upload interrupted. Select the same file again to resume.',
+        })
+      }
+      await wait(RETRY_DELAY * 2 ** (failures - 1), signal)
+    }
+    onProgress(received)
+  }
+}
+
+// Uploads a model file with its companion assets, as a new model or as the next
+// revision of `revisionOf`. Large files go through the resumable chunked upload.
+export async function uploadModel(file: File, options: ModelUploadOptions = {}): Promise<Model3D> {
+  const { assets = [], name, revisionOf, project, units, onProgress, signal } = options
+  const assetBytes = assets.reduce((sum, asset) => sum + asset.size, 0)
+  const total = file.size + assetBytes
+  const report = (loaded: number) => onProgress?.({ loaded: Math.min(loaded, total), total })
+
+  const formData = new FormData()
+  if (name) formData.append('name', name)
+  if (project) formData.append('project', String(project))
+  if (units) formData.append('units', units)
+  assets.forEach(asset => formData.append('assets', asset))
+
+  let upload: ChunkedUpload | null = null
+  try {
+    // Bytes already on the server when the form is sent, and the bytes in the form
+    let sent = 0
+    let formBytes = total
+    if (file.size > CHUNK_SIZE) {
+      upload = await openUpload(file)
+      await sendChunks(upload, file, report, signal)
+      formData.append('upload', upload.id)
+      sent = file.size
+      formBytes = assetBytes
+    } else {
+      formData.append('file', file)
+    }
+
+    const path = revisionOf === undefined ? '/models/' : `/models/${revisionOf}/revisions/`
+    const model = await sendForm<Model3D>(path, 'POST', formData, {
+      signal,
+      onProgress: (loaded, formTotal) => report(sent + formBytes * (loaded / formTotal)),
+    })
+    localStorage.removeItem(resumeKey(file))
+    return model
+  } catch (error) {
+    // Keep the received chunks when the connection dropped; discard them when
+    // cancelled or when the server rejected the file
+    if (upload && !isRetryable(error)) {
+      localStorage.removeItem(resumeKey(file))
+      cancelUpload(upload.id).catch(() => {})
+    }
+    throw error
+  }
+}
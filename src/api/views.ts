@@ -0,0 +1,31 @@
+import { request } from './http'
+import { Projection, Vector3Tuple } from '../types'
+
+// Named camera view of a model, in model coordinates
+export interface SavedView {
+  id: number
+  model: number
+  name: string
+  camera_position: Vector3Tuple
+  camera_target: Vector3Tuple
+  projection: Projection
+  // Height of the visible area at the target in model units
+  view_height: number | null
+  created_at: string
+  // Whether the current user may delete it: its author and editors of the model may
+  can_edit: boolean
+}
+
+export type NewSavedView = Omit<SavedView, 'id' | 'created_at' | 'can_edit'>
+
+export function listViews(modelId: string): Promise<SavedView[]> {
+  return request(`/views/?model=${encodeURIComponent(modelId)}`)
+}
+
+export function createView(view: NewSavedView): Promise<SavedView> {
+  return request('/views/', { method: 'POST', body: JSON.stringify(view) })
+}
+
+export function deleteView(id: number): Promise<void> {
+  return request(`/views/${id}/`, { method: 'DELETE' })
+}
@@ -0,0 +1,153 @@
+import { useEffect, useMemo } from 'react'
+import * as THREE from 'three'
+import { MeshAnalysis, formatQuantity, formatDimensions } from '../utils/analysis'
+import { LengthUnit, ThemeColors } from '../types'
+
+interface AnalysisOverlayProps {
+  analysis: MeshAnalysis | null
+  visible: boolean
+}
+
+interface AnalysisPanelProps {
+  colors: ThemeColors
+  analysis: MeshAnalysis | null
+  // Unit of the model, which the statistics are measured in
+  units: LengthUnit
+  showHighlights: boolean
+  onShowHighlightsChange: (show: boolean) => void
+}
+
+const BOUNDARY_COLOR = '#f44336'
+const NON_MANIFOLD_COLOR = '#e040fb'
+const FLIPPED_COLOR = '#ff9800'
+
+// Highlights open boundaries, non-manifold edges and flipped triangles in the viewport
+export function AnalysisOverlay({ analysis, visible }: AnalysisOverlayProps) {
+  const overlay = useMemo(() => {
+    const group = new THREE.Group()
+    if (!analysis) return group
+
+    const addSegments = (positions: Float32Array, color: string) => {
+      if (positions.length === 0) return
+      const geometry = new THREE.BufferGeometry()
+      geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3))
+      const lines = new THREE.LineSegments(
+        geometry,
+        new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true })
+      )
+      lines.renderOrder = 997
+      group.add(lines)
+    }
+
+    addSegments(analysis.boundarySegments, BOUNDARY_COLOR)
+    addSegments(analysis.nonManifoldSegments, NON_MANIFOLD_COLOR)
+
+    if (analysis.flippedTriangleVertices.length > 0) {
+      const geometry = new THREE.BufferGeometry()
+      geometry.setAttribute('position', new THREE.BufferAttribute(analysis.flippedTriangleVertices, 3))
+      const mesh = new THREE.Mesh(
+        geometry,
+        new THREE.MeshBasicMaterial({
+          color: FLIPPED_COLOR,
+          side: THREE.DoubleSide,
+          transparent: true,
+          opacity: 0.7,
+          depthWrite: false,
+          polygonOffset: true,
+          polygonOffsetFactor: -1
+        })
+      )
+      mesh.renderOrder = 997
+      group.add(mesh)
+    }
+
+    group.traverse((child) => {
+      child.raycast = () => {}
+    })
+    return group
+  }, [analysis])
+
+  useEffect(() => {
+    return () => {
+      overlay.traverse((child) => {
+        if (child instanceof THREE.LineSegments || child instanceof THREE.Mesh) {
+          child.geometry.dispose()
+          ;(child.material as THREE.Material).dispose()
+        }
+      })
+    }
+  }, [overlay])
+
+  return <primitive object={overlay} visible={visible} />
+}
+
+function StatRow({ label, value, color }: { label: string, value: string, color?: string }) {
+  return (
+    <div style={{ display: 'flex', justifyContent: 'space-between', gap: '10px', fontSize: '12px' }}>
+      <span>{label}</span>
+      <span style={{ color, textAlign: 'right' }}>{value}</span>
+    </div>
+  )
+}
+
+// Side panel with the mesh statistics and problem counts
+export function AnalysisPanel({ colors, analysis, units, showHighlights, onShowHighlightsChange }: AnalysisPanelProps) {
+  if (!analysis) {
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+        <h4 style={{ margin: 0, color: colors.accent }}>Analysis</h4>
+        <p style={{ fontSize: '12px', color: colors.textSecondary, margin: 0 }}>
+          Waiting for the model to load
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+      <h4 style={{ margin: 0, color: colors.accent }}>Analysis</h4>
+
+      <StatRow label="Triangles" value={analysis.triangleCount.toLocaleString()} />
+      <StatRow label="Surface area" value={`${formatQuantity(analysis.surfaceArea)} ${units}²`} />
+      <StatRow label="Volume" value={`${analysis.watertight ? '' : '~'}${formatQuantity(analysis.volume)} ${units}³`} />
+      <StatRow label="Size" value={formatDimensions(analysis.size.x, analysis.size.y, analysis.size.z, units)} />
+
+      <div style={{ borderTop: `1px solid ${colors.border}`, margin: '4px 0' }} />
+
+      <StatRow
+        label="Watertight"
+        value={analysis.watertight ? 'Yes' : 'No'}
+        color={analysis.watertight ? '#4CAF50' : BOUNDARY_COLOR}
+      />
+      <StatRow
+        label="Holes"
+        value={`${analysis.holes} (${analysis.boundaryEdges} edges)`}
+        color={analysis.holes > 0 ? BOUNDARY_COLOR : undefined}
+      />
+      <StatRow
+        label="Non-manifold edges"
+        value={analysis.nonManifoldEdges.toString()}
+        color={analysis.nonManifoldEdges > 0 ? NON_MANIFOLD_COLOR : undefined}
+      />
+      <StatRow
+        label="Flipped triangles"
+        value={analysis.flippedTriangles.toString()}
+        color={analysis.flippedTriangles > 0 ? FLIPPED_COLOR : undefined}
+      />
+      {analysis.inverted && (
+        <p style={{ fontSize: '12px', color: FLIPPED_COLOR, margin: 0 }}>
+          Normals point inwards
+        </p>
+      )}
+
+      <label style={{ display: 'flex', alignItems: 'center', gap: '5px', fontSize: '12px' }}>
+        <input
+          type="checkbox"
+          checked={showHighlights}
+          onChange={(e) => onShowHighlightsChange(e.target.checked)}
+        />
+        Highlight problems
+      </label>
+    </div>
+  )
+}
@@ -0,0 +1,335 @@
+import { useMemo, useState } from 'react'
+import { Html } from '@react-three/drei'
+import * as THREE from 'three'
+import { Annotation, AnnotationStatus } from '../api'
+import { LoadedModel, ThemeColors } from '../types'
+
+interface AnnotationPinsProps {
+  model: LoadedModel | null
+  annotations: Annotation[]
+  // Pin being placed, in model coordinates
+  pending: THREE.Vector3 | null
+  selectedId: number | null
+  showResolved: boolean
+  onSelect: (id: number) => void
+}
+
+interface AnnotationPanelProps {
+  colors: ThemeColors
+  annotations: Annotation[]
+  selectedId: number | null
+  placing: boolean
+  hasPending: boolean
+  showResolved: boolean
+  error: string | null
+  onPlacingChange: (placing: boolean) => void
+  onSubmitPending: (text: string) => void
+  onCancelPending: () => void
+  onSelect: (id: number) => void
+  onStatusChange: (id: number, status: AnnotationStatus) => void
+  onDelete: (id: number) => void
+  onReply: (id: number, text: string) => void
+  onShowResolvedChange: (show: boolean) => void
+}
+
+const OPEN_COLOR = '#ff7043'
+const RESOLVED_COLOR = '#4CAF50'
+
+function Pin({ position, label, color, selected, onClick }: {
+  position: THREE.Vector3
+  label: string
+  color: string
+  selected: boolean
+  onClick?: () => void
+}) {
+  return (
+    <Html position={position} center zIndexRange={[20, 0]}>
+      <div
+        style={{
+          width: '22px',
+          height: '22px',
+          borderRadius: '50%',
+          backgroundColor: color,
+          border: `2px solid ${selected ? 'white' : 'rgba(0, 0, 0, 0.5)'}`,
+          color: 'white',
+          fontSize: '11px',
+          fontWeight: 600,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          cursor: onClick ? 'pointer' : 'default',
+          boxShadow: '0 1px 4px rgba(0,0,0,0.4)',
+          userSelect: 'none'
+        }}
+        onClick={onClick}
+      >
+        {label}
+      </div>
+    </Html>
+  )
+}
+
+// Numbered markers for the annotations, following the model as it is placed in the scene
+export function AnnotationPins({ model, annotations, pending, selectedId, showResolved, onSelect }: AnnotationPinsProps) {
+  const positions = useMemo(() => {
+    if (!model) return new Map<number, THREE.Vector3>()
+    model.root.updateWorldMatrix(true, false)
+    return new Map(annotations.map(annotation => [
+      annotation.id,
+      model.root.localToWorld(new THREE.Vector3(...annotation.position))
+    ]))
+  }, [model, annotations])
+
+  if (!model) return null
+
+  return (
+    <>
+      {annotations.map((annotation, index) => {
+        const position = positions.get(annotation.id)
+        if (!position || (!showResolved && annotation.status === 'resolved')) return null
+        return (
+          <Pin
+            key={annotation.id}
+            position={position}
+            label={String(index + 1)}
+            color={annotation.status === 'open' ? OPEN_COLOR : RESOLVED_COLOR}
+            selected={annotation.id === selectedId}
+            onClick={() => onSelect(annotation.id)}
+          />
+        )
+      })}
+      {pending && (
+        <Pin position={model.root.localToWorld(pending.clone())} label="+" color={OPEN_COLOR} selected />
+      )}
+    </>
+  )
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+// Side panel listing the annotations with their status and replies
+export function AnnotationPanel({
+  colors,
+  annotations,
+  selectedId,
+  placing,
+  hasPending,
+  showResolved,
+  error,
+  onPlacingChange,
+  onSubmitPending,
+  onCancelPending,
+  onSelect,
+  onStatusChange,
+  onDelete,
+  onReply,
+  onShowResolvedChange
+}: AnnotationPanelProps) {
+  const [draft, setDraft] = useState('')
+  const [replyDraft, setReplyDraft] = useState('')
+
+  const buttonStyle = {
+    backgroundColor: 'transparent',
+    color: colors.text,
+    border: `1px solid ${colors.border}`,
+    padding: '4px 8px',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontSize: '12px'
+  }
+
+  const inputStyle = {
+    width: '100%',
+    boxSizing: 'border-box' as const,
+    backgroundColor: colors.background,
+    color: colors.text,
+    border: `1px solid ${colors.border}`,
+    borderRadius: '4px',
+    padding: '6px',
+    fontSize: '12px',
+    fontFamily: 'inherit',
+    resize: 'vertical' as const
+  }
+
+  const submitPending = () => {
+    if (!draft.trim()) return
+    onSubmitPending(draft.trim())
+    setDraft('')
+  }
+
+  const submitReply = (id: number) => {
+    if (!replyDraft.trim()) return
+    onReply(id, replyDraft.trim())
+    setReplyDraft('')
+  }
+
+  const openCount = annotations.filter(a => a.status === 'open').length
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <h4 style={{ margin: 0, color: colors.accent }}>Comments</h4>
+        <button
+          style={{
+            ...buttonStyle,
+            backgroundColor: placing ? colors.accent : 'transparent',
+            color: placing ? 'white' : colors.text
+          }}
+          onClick={() => onPlacingChange(!placing)}
+        >
+          Add Pin
+        </button>
+      </div>
+
+      {placing && !hasPending && (
+        <p style={{ fontSize: '12px', color: colors.textSecondary, margin: 0 }}>
+          Click the model to place a comment
+        </p>
+      )}
+
+      {hasPending && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '5px' }}>
+          <textarea
+            style={inputStyle}
+            rows={3}
+            value={draft}
+            placeholder="Write a comment"
+            autoFocus
+            onChange={(e) => setDraft(e.target.value)}
+          />
+          <div style={{ display: 'flex', gap: '5px' }}>
+            <button style={{ ...buttonStyle, flex: 1 }} onClick={submitPending} disabled={!draft.trim()}>
+              Post
+            </button>
+            <button
+              style={{ ...buttonStyle, flex: 1 }}
+              onClick={() => {
+                setDraft('')
+                onCancelPending()
+              }}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p style={{ fontSize: '12px', color: '#f44336', margin: 0 }}>
+          {error}
+        </p>
+      )}
+
+      <label style={{ display: 'flex', alignItems: 'center', gap: '5px', fontSize: '12px' }}>
+        <input
+          type="checkbox"
+          checked={showResolved}
+          onChange={(e) => onShowResolvedChange(e.target.checked)}
+        />
+        Show resolved ({annotations.length - openCount})
+      </label>
+
+      {annotations.length === 0 ? (
+        <p style={{ fontSize: '12px', color: colors.textSecondary, margin: 0 }}>
+          No comments yet
+        </p>
+      ) : (
+        annotations.map((annotation, index) => {
+          if (!showResolved && annotation.status === 'resolved') return null
+          const isSelected = annotation.id === selectedId
+          const isOpen = annotation.status === 'open'
+
+          return (
+            <div
+              key={annotation.id}
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '6px',
+                padding: '6px 8px',
+                border: `1px solid ${isSelected ? colors.accent : colors.border}`,
+                borderRadius: '4px',
+                fontSize: '12px',
+                opacity: isOpen ? 1 : 0.7
+              }}
+            >
+              <div
+                style={{ display: 'flex', gap: '6px', cursor: 'pointer' }}
+                onClick={() => onSelect(annotation.id)}
+                title="Show in viewport"
+              >
+                <span style={{ color: isOpen ? OPEN_COLOR : RESOLVED_COLOR, fontWeight: 600 }}>
+                  {index + 1}.
+                </span>
+                <span style={{ flex: 1, whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                  {annotation.text}
+                </span>
+              </div>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', color: colors.textSecondary, fontSize: '11px' }}>
+                <span>
+                  {annotation.author && `${annotation.author} • `}{formatDate(annotation.created_at)}
+                </span>
+                <span>{annotation.replies.length > 0 && `${annotation.replies.length} ↩`}</span>
+              </div>
+
+              {isSelected && (
+                <>
+                  {annotation.replies.map(reply => (
+                    <div
+                      key={reply.id}
+                      style={{ borderLeft: `2px solid ${colors.border}`, paddingLeft: '8px' }}
+                    >
+                      <div style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>{reply.text}</div>
+                      <div style={{ color: colors.textSecondary, fontSize: '11px' }}>
+                        {reply.author && `${reply.author} • `}{formatDate(reply.created_at)}
+                      </div>
+                    </div>
+                  ))}
+                  <textarea
+                    style={inputStyle}
+                    rows={2}
+                    value={replyDraft}
+                    placeholder="Reply"
+                    onChange={(e) => setReplyDraft(e.target.value)}
+                  />
+                  <div style={{ display: 'flex', gap: '5px' }}>
+                    <button
+                      style={{ ...buttonStyle, flex: 1 }}
+                      onClick={() => submitReply(annotation.id)}
+                      disabled={!replyDraft.trim()}
+                    >
+                      Reply
+                    </button>
+                    {annotation.can_edit && (
+                      <>
+                        <button
+                          style={{ ...buttonStyle, flex: 1 }}
+                          onClick={() => onStatusChange(annotation.id, isOpen ? 'resolved' : 'open')}
+                        >
+                          {isOpen ? 'Resolve' : 'Reopen'}
+                        </button>
+                        <button
+                          style={buttonStyle}
+                          onClick={() => onDelete(annotation.id)}
+                          title="Delete comment"
+                        >
+                          ✕
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          )
+        })
+      )}
+
+      <p style={{ fontSize: '11px', color: colors.textSecondary, margin: 0 }}>
+        Select a comment to fly to its saved view
+      </p>
+    </div>
+  )
+}
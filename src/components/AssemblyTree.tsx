@@ -0,0 +1,272 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useFrame, useThree } from '@react-three/fiber'
+import * as THREE from 'three'
+import { PartNode, findPart } from '../utils/assembly'
+import { OrbitTarget, frameBox } from '../utils/camera'
+import { LoadedModel, ThemeColors } from '../types'
+
+interface AssemblyPanelProps {
+  colors: ThemeColors
+  tree: PartNode[]
+  hidden: Set<string>
+  partColors: Record<string, string>
+  defaultColor: string
+  selectedId: string | null
+  onSelect: (id: string) => void
+  onToggleVisibility: (id: string) => void
+  onIsolate: (id: string) => void
+  onShowAll: () => void
+  onColorChange: (id: string, color: string) => void
+  onFrame: (id: string) => void
+}
+
+interface PartOutlineProps {
+  model: LoadedModel | null
+  selectedId: string | null
+}
+
+export interface FrameRequest {
+  id: string
+  // Changes on every request so framing the same part twice still triggers
+  nonce: number
+}
+
+interface PartFramerProps {
+  model: LoadedModel | null
+  request: FrameRequest | null
+}
+
+const OUTLINE_COLOR = '#ffb300'
+
+// Draws the feature edges of the selected part on top of the model
+export function PartOutline({ model, selectedId }: PartOutlineProps) {
+  const outline = useMemo(() => {
+    const group = new THREE.Group()
+    const part = model && selectedId ? findPart(model.object, selectedId) : undefined
+    if (!part) return group
+
+    part.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        const edges = new THREE.LineSegments(
+          new THREE.EdgesGeometry(child.geometry, 30),
+          new THREE.LineBasicMaterial({ color: OUTLINE_COLOR, depthTest: false, transparent: true })
+        )
+        edges.matrixAutoUpdate = false
+        edges.renderOrder = 998
+        edges.userData.source = child
+        edges.raycast = () => {}
+        group.add(edges)
+      }
+    })
+    return group
+  }, [model, selectedId])
+
+  useEffect(() => {
+    return () => {
+      outline.traverse((child) => {
+        if (child instanceof THREE.LineSegments) {
+          child.geometry.dispose()
+          ;(child.material as THREE.Material).dispose()
+        }
+      })
+    }
+  }, [outline])
+
+  // Follow the part transform and visibility
+  useFrame(() => {
+    for (const child of outline.children) {
+      const source = child.userData.source as THREE.Mesh
+      child.matrix.copy(source.matrixWorld)
+      child.visible = source.visible
+    }
+  })
+
+  return <primitive object={outline} />
+}
+
+// Moves the camera to frame a part whenever a new request comes in
+export function PartFramer({ model, request }: PartFramerProps) {
+  const { camera } = useThree()
+  const controls = useThree(state => state.controls) as unknown as OrbitTarget | null
+  // Read when a request comes in, so camera or controls changes alone do not reframe
+  const sceneRef = useRef({ model, camera, controls })
+  sceneRef.current = { model, camera, controls }
+
+  useEffect(() => {
+    const { model, camera, controls } = sceneRef.current
+    if (!model || !request) return
+    const part = findPart(model.object, request.id)
+    if (part) {
+      frameBox(camera, controls, new THREE.Box3().setFromObject(part))
+    }
+  }, [request])
+
+  return null
+}
+
+function PartRow({
+  node,
+  depth,
+  collapsed,
+  onToggleCollapse,
+  props
+}: {
+  node: PartNode
+  depth: number
+  collapsed: Set<string>
+  onToggleCollapse: (id: string) => void
+  props: AssemblyPanelProps
+}) {
+  const { colors, hidden, partColors, defaultColor, selectedId } = props
+  const isCollapsed = collapsed.has(node.id)
+  const isSelected = node.id === selectedId
+  const isHidden = hidden.has(node.id)
+
+  const iconButtonStyle = {
+    backgroundColor: 'transparent',
+    border: 'none',
+    color: colors.textSecondary,
+    cursor: 'pointer',
+    padding: '0 3px',
+    fontSize: '12px'
+  }
+
+  return (
+    <>
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '4px',
+          padding: `3px 4px 3px ${depth * 14 + 4}px`,
+          borderRadius: '4px',
+          backgroundColor: isSelected ? colors.border : 'transparent',
+          color: isHidden ? colors.textSecondary : colors.text,
+          fontSize: '12px',
+          cursor: 'pointer'
+        }}
+        onClick={() => props.onSelect(node.id)}
+        onDoubleClick={() => props.onFrame(node.id)}
+        title="Double-click to frame"
+      >
+        <span
+          style={{ width: '12px', color: colors.textSecondary }}
+          onClick={(e) => {
+            e.stopPropagation()
+            if (node.children.length > 0) onToggleCollapse(node.id)
+          }}
+        >
+          {node.children.length > 0 ? (isCollapsed ? '▸' : '▾') : ''}
+        </span>
+        <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {node.name}
+        </span>
+        {node.isMesh && (
+          <input
+            type="color"
+            value={partColors[node.id] ?? defaultColor}
+            onClick={(e) => e.stopPropagation()}
+            onChange={(e) => props.onColorChange(node.id, e.target.value)}
+            style={{ width: '18px', height: '18px', border: 'none', padding: 0, background: 'none' }}
+            title="Part color"
+          />
+        )}
+        <button
+          style={iconButtonStyle}
+          onClick={(e) => {
+            e.stopPropagation()
+            props.onIsolate(node.id)
+          }}
+          title="Isolate"
+        >
+          ◎
+        </button>
+        <button
+          style={iconButtonStyle}
+          onClick={(e) => {
+            e.stopPropagation()
+            props.onToggleVisibility(node.id)
+          }}
+          title={isHidden ? 'Show' : 'Hide'}
+        >
+          {isHidden ? '○' : '●'}
+        </button>
+      </div>
+      {!isCollapsed && node.children.map(child => (
+        <PartRow
+          key={child.id}
+          node={child}
+          depth={depth + 1}
+          collapsed={collapsed}
+          onToggleCollapse={onToggleCollapse}
+          props={props}
+        />
+      ))}
+    </>
+  )
+}
+
+// Collapsible tree of the parts in the loaded model
+export function AssemblyPanel(props: AssemblyPanelProps) {
+  const { colors, tree, hidden, onShowAll } = props
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+
+  const toggleCollapse = (id: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <h4 style={{ margin: 0, color: colors.accent }}>Parts</h4>
+        {hidden.size > 0 && (
+          <button
+            style={{
+              backgroundColor: 'transparent',
+              color: colors.text,
+              border: `1px solid ${colors.border}`,
+              padding: '3px 8px',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '12px'
+            }}
+            onClick={onShowAll}
+          >
+            Show All
+          </button>
+        )}
+      </div>
+
+      {tree.length === 0 ? (
+        <p style={{ fontSize: '12px', color: colors.textSecondary, margin: 0 }}>
+          No parts found
+        </p>
+      ) : (
+        <div>
+          {tree.map(node => (
+            <PartRow
+              key={node.id}
+              node={node}
+              depth={0}
+              collapsed={collapsed}
+              onToggleCollapse={toggleCollapse}
+              props={props}
+            />
+          ))}
+        </div>
+      )}
+
+      <p style={{ fontSize: '11px', color: colors.textSecondary, margin: 0 }}>
+        Click a part in the viewport to select it, double-click to frame it
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,319 @@
+import { MutableRefObject, useEffect, useRef, useState } from 'react'
+import { useFrame, useThree } from '@react-three/fiber'
+import { GizmoHelper, GizmoViewcube, OrthographicCamera, PerspectiveCamera } from '@react-three/drei'
+import * as THREE from 'three'
+import { CameraView, OrbitTarget, ViewPreset, VIEW_PRESETS, easeInOut, visibleHeight } from '../utils/camera'
+import { SavedView } from '../api'
+import { Projection, ThemeColors } from '../types'
+
+export interface CameraHandle {
+  camera: THREE.Camera
+  controls: OrbitTarget | null
+}
+
+export interface FlightRequest extends CameraView {
+  // Jump to the view without animating
+  instant?: boolean
+  // Changes on every request so flying to the same view twice still triggers
+  nonce: number
+}
+
+interface CameraBridgeProps {
+  handleRef: MutableRefObject<CameraHandle | null>
+}
+
+interface CameraFlightProps {
+  request: FlightRequest | null
+  // Seconds
+  duration?: number
+}
+
+interface ViewsPanelProps {
+  colors: ThemeColors
+  projection: Projection
+  views: SavedView[]
+  error: string | null
+  onPreset: (preset: ViewPreset) => void
+  onProjectionChange: (projection: Projection) => void
+  onSave: (name: string) => void
+  onRestore: (view: SavedView) => void
+  onCopyLink: (view: SavedView) => void
+  onDelete: (id: number) => void
+}
+
+interface Flight {
+  // Taken on the first frame, after any camera switch requested with the flight
+  from: (CameraView & { zoom: number }) | null
+  to: FlightRequest
+  progress: number
+}
+
+const PERSPECTIVE_FOV = 50
+
+// Exposes the camera and orbit controls to code outside the canvas
+export function CameraBridge({ handleRef }: CameraBridgeProps) {
+  const camera = useThree(state => state.camera)
+  const controls = useThree(state => state.controls) as unknown as OrbitTarget | null
+
+  useEffect(() => {
+    handleRef.current = { camera, controls }
+    return () => {
+      handleRef.current = null
+    }
+  }, [handleRef, camera, controls])
+
+  return null
+}
+
+// Animates the camera to the requested view
+export function CameraFlight({ request, duration = 0.8 }: CameraFlightProps) {
+  const camera = useThree(state => state.camera)
+  const controls = useThree(state => state.controls) as unknown as OrbitTarget | null
+  const flight = useRef<Flight | null>(null)
+
+  useEffect(() => {
+    if (request) {
+      flight.current = { from: null, to: request, progress: 0 }
+    }
+  }, [request])
+
+  useFrame((_, delta) => {
+    const current = flight.current
+    if (!current) return
+
+    if (!current.from) {
+      current.from = {
+        position: camera.position.clone(),
+        target: controls ? controls.target.clone() : current.to.target.clone(),
+        zoom: camera instanceof THREE.OrthographicCamera ? camera.zoom : 1
+      }
+    }
+
+    const { from, to } = current
+    current.progress = to.instant ? 1 : Math.min(current.progress + delta / duration, 1)
+    const t = easeInOut(current.progress)
+    camera.position.lerpVectors(from.position, to.position, t)
+    if (controls) {
+      controls.target.lerpVectors(from.target, to.target, t)
+      controls.update()
+    } else {
+      camera.lookAt(to.target)
+    }
+
+    if (camera instanceof THREE.OrthographicCamera && to.viewHeight) {
+      const zoom = (camera.top - camera.bottom) / to.viewHeight
+      camera.zoom = THREE.MathUtils.lerp(from.zoom, zoom, t)
+      camera.updateProjectionMatrix()
+    }
+
+    if (current.progress === 1) flight.current = null
+  })
+
+  return null
+}
+
+// Perspective and orthographic cameras; switching keeps the view direction and framing.
+// Models are shown at true size, so the depth range follows `sceneSize`, the size of the model.
+export function ProjectionCamera({ projection, sceneSize }: { projection: Projection, sceneSize: number }) {
+  const perspective = useRef<THREE.PerspectiveCamera>(null)
+  const orthographic = useRef<THREE.OrthographicCamera>(null)
+  const controls = useThree(state => state.controls) as unknown as OrbitTarget | null
+  const target = useRef(new THREE.Vector3())
+  const previous = useRef(projection)
+
+  // Remember the orbit target, the controls are recreated when the camera changes
+  useFrame(() => {
+    if (controls) target.current.copy(controls.target)
+  })
+
+  useEffect(() => {
+    if (previous.current === projection) return
+    previous.current = projection
+
+    const from = projection === 'perspective' ? orthographic.current : perspective.current
+    const to = projection === 'perspective' ? perspective.current : orthographic.current
+    if (!from || !to) return
+
+    const height = visibleHeight(from, target.current)
+    const direction = from.position.clone().sub(target.current).normalize()
+    to.up.copy(from.up)
+    if (to instanceof THREE.PerspectiveCamera) {
+      const distance = height / 2 / Math.tan((to.fov * Math.PI) / 360)
+      to.position.copy(target.current).addScaledVector(direction, distance)
+    } else {
+      to.position.copy(from.position)
+      to.zoom = (to.top - to.bottom) / height
+    }
+    to.lookAt(target.current)
+    to.updateProjectionMatrix()
+  }, [projection])
+
+  useEffect(() => {
+    if (!controls) return
+    controls.target.copy(target.current)
+    controls.update()
+  }, [controls])
+
+  return (
+    <>
+      <PerspectiveCamera
+        ref={perspective}
+        makeDefault={projection === 'perspective'}
+        position={[0, 0, 5]}
+        fov={PERSPECTIVE_FOV}
+        near={sceneSize / 100}
+        far={sceneSize * 1000}
+      />
+      <OrthographicCamera
+        ref={orthographic}
+        makeDefault={projection === 'orthographic'}
+        near={sceneSize / 1000}
+        far={sceneSize * 1000}
+      />
+    </>
+  )
+}
+
+// Clickable cube in the corner that turns the camera to the clicked face, edge or corner
+export function ViewCube({ colors }: { colors: ThemeColors }) {
+  return (
+    <GizmoHelper alignment="top-right" margin={[70, 70]}>
+      <GizmoViewcube color={colors.surface} hoverColor={colors.accent} textColor={colors.text} strokeColor={colors.border} />
+    </GizmoHelper>
+  )
+}
+
+// Side panel with the standard views, projection and saved views
+export function ViewsPanel({
+  colors,
+  projection,
+  views,
+  error,
+  onPreset,
+  onProjectionChange,
+  onSave,
+  onRestore,
+  onCopyLink,
+  onDelete
+}: ViewsPanelProps) {
+  const [name, setName] = useState('')
+
+  const buttonStyle = (active: boolean) => ({
+    backgroundColor: active ? colors.accent : 'transparent',
+    color: active ? 'white' : colors.text,
+    border: `1px solid ${colors.border}`,
+    padding: '5px 8px',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontSize: '12px'
+  })
+
+  const save = () => {
+    if (!name.trim()) return
+    onSave(name.trim())
+    setName('')
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+      <h4 style={{ margin: 0, color: colors.accent }}>Views</h4>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '5px' }}>
+        {(Object.keys(VIEW_PRESETS) as ViewPreset[]).map(preset => (
+          <button key={preset} style={buttonStyle(false)} onClick={() => onPreset(preset)}>
+            {VIEW_PRESETS[preset].label}
+          </button>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', gap: '5px' }}>
+        {(['perspective', 'orthographic'] as Projection[]).map(option => (
+          <button
+            key={option}
+            style={{ ...buttonStyle(projection === option), flex: 1 }}
+            onClick={() => onProjectionChange(option)}
+          >
+            {option === 'perspective' ? 'Perspective' : 'Orthographic'}
+          </button>
+        ))}
+      </div>
+
+      <div style={{ borderTop: `1px solid ${colors.border}`, margin: '4px 0' }} />
+
+      <div style={{ display: 'flex', gap: '5px' }}>
+        <input
+          style={{
+            flex: 1,
+            minWidth: 0,
+            backgroundColor: colors.background,
+            color: colors.text,
+            border: `1px solid ${colors.border}`,
+            borderRadius: '4px',
+            padding: '5px',
+            fontSize: '12px'
+          }}
+          value={name}
+          placeholder="View name"
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') save()
+          }}
+        />
+        <button style={buttonStyle(false)} onClick={save} disabled={!name.trim()}>
+          Save
+        </button>
+      </div>
+
+      {error && (
+        <p style={{ fontSize: '12px', color: '#f44336', margin: 0 }}>
+          {error}
+        </p>
+      )}
+
+      {views.length === 0 ? (
+        <p style={{ fontSize: '12px', color: colors.textSecondary, margin: 0 }}>
+          No saved views
+        </p>
+      ) : (
+        views.map(view => (
+          <div
+            key={view.id}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '4px',
+              padding: '6px 8px',
+              border: `1px solid ${colors.border}`,
+              borderRadius: '4px',
+              fontSize: '12px'
+            }}
+          >
+            <span
+              style={{ flex: 1, cursor: 'pointer', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+              onClick={() => onRestore(view)}
+              title="Restore view"
+            >
+              {view.name}
+            </span>
+            <button
+              style={{ backgroundColor: 'transparent', border: 'none', color: colors.textSecondary, cursor: 'pointer' }}
+              onClick={() => onCopyLink(view)}
+              title="Copy link to this view"
+            >
+              🔗
+            </button>
+            {view.can_edit && (
+              <button
+                style={{ backgroundColor: 'transparent', border: 'none', color: colors.textSecondary, cursor: 'pointer' }}
+                onClick={() => onDelete(view.id)}
+                title="Delete view"
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,415 @@
+import { useEffect, useMemo } from 'react'
+import * as THREE from 'three'
+import { RevisionDiff, deviationColors } from '../utils/compare'
+import { Alignment } from '../utils/alignment'
+import { Model3D } from '../api'
+import { ThemeColors, Vector3Tuple } from '../types'
+
+export type CompareBase = 'previous' | number
+
+// Two models side by side with linked cameras, or both in one view
+export type CompareLayout = 'split' | 'overlay'
+
+// Which of two compared models is colored by its distance to the other
+export type DeviationSide = 'a' | 'b'
+
+export interface DeviationStats {
+  mean: number
+  max: number
+  // Share of vertices within the heatmap range
+  within: number
+}
+
+interface DiffOverlayProps {
+  diff: RevisionDiff | null
+}
+
+interface ComparePanelProps {
+  colors: ThemeColors
+  revisions: Model3D[]
+  base: CompareBase
+  targetIndex: number
+  // Model units
+  tolerance: number
+  diff: RevisionDiff | null
+  loading: boolean
+  error: string | null
+  onBaseChange: (base: CompareBase) => void
+  onTargetIndexChange: (index: number) => void
+  onToleranceChange: (tolerance: number) => void
+}
+
+const UNCHANGED_COLOR = '#9e9e9e'
+const ADDED_COLOR = '#4CAF50'
+const REMOVED_COLOR = '#f44336'
+const MOVED_COLOR = '#ffb300'
+
+// Colors of the first and second model in the compare workspace
+export const MODEL_A_COLOR = '#2196f3'
+export const MODEL_B_COLOR = '#ff9800'
+
+function diffMesh(triangles: Float32Array, material: THREE.MeshStandardMaterialParameters) {
+  const geometry = new THREE.BufferGeometry()
+  geometry.setAttribute('position', new THREE.BufferAttribute(triangles, 3))
+  geometry.computeVertexNormals()
+  const mesh = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ side: THREE.DoubleSide, ...material }))
+  mesh.raycast = () => {}
+  return mesh
+}
+
+// Overlays two revisions, colored by what changed between them
+export function DiffOverlay({ diff }: DiffOverlayProps) {
+  const overlay = useMemo(() => {
+    const group = new THREE.Group()
+    if (!diff) return group
+
+    group.add(diffMesh(diff.unchanged, { color: UNCHANGED_COLOR, transparent: true, opacity: 0.35, depthWrite: false }))
+    group.add(diffMesh(diff.added, { color: ADDED_COLOR }))
+    group.add(diffMesh(diff.movedTo, { color: MOVED_COLOR }))
+    group.add(diffMesh(diff.removed, { color: REMOVED_COLOR, transparent: true, opacity: 0.6, depthWrite: false }))
+    group.add(diffMesh(diff.movedFrom, { color: MOVED_COLOR, wireframe: true, transparent: true, opacity: 0.4 }))
+    return group
+  }, [diff])
+
+  useEffect(() => {
+    return () => {
+      overlay.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+          child.geometry.dispose()
+          ;(child.material as THREE.Material).dispose()
+        }
+      })
+    }
+  }, [overlay])
+
+  return <primitive object={overlay} />
+}
+
+interface DeviationMeshProps {
+  // Triangle soup (9 floats per triangle) and the deviation of each of its vertices
+  triangles: Float32Array
+  distances: Float32Array
+  // Deviation shown in full red
+  range: number
+}
+
+// Surface colored by deviation, in place of the model it was measured on
+export function DeviationMesh({ triangles, distances, range }: DeviationMeshProps) {
+  const mesh = useMemo(() => {
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute('position', new THREE.BufferAttribute(triangles, 3))
+    geometry.setAttribute('color', new THREE.BufferAttribute(deviationColors(distances, range), 3))
+    geometry.computeVertexNormals()
+    return new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ vertexColors: true, side: THREE.DoubleSide }))
+  }, [triangles, distances, range])
+
+  useEffect(() => {
+    return () => {
+      mesh.geometry.dispose()
+      mesh.material.dispose()
+    }
+  }, [mesh])
+
+  return <primitive object={mesh} />
+}
+
+function LegendRow({ color, label, triangles }: { color: string, label: string, triangles?: Float32Array }) {
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px' }}>
+      <span style={{ width: '10px', height: '10px', borderRadius: '2px', backgroundColor: color }} />
+      <span style={{ flex: 1 }}>{label}</span>
+      <span>{triangles ? (triangles.length / 9).toLocaleString() : '–'}</span>
+    </div>
+  )
+}
+
+// Side panel choosing the revisions to compare and the change tolerance
+export function ComparePanel({
+  colors,
+  revisions,
+  base,
+  targetIndex,
+  tolerance,
+  diff,
+  loading,
+  error,
+  onBaseChange,
+  onTargetIndexChange,
+  onToleranceChange
+}: ComparePanelProps) {
+  const target = revisions[targetIndex]
+  const inputStyle = {
+    backgroundColor: colors.background,
+    color: colors.text,
+    border: `1px solid ${colors.border}`,
+    borderRadius: '4px',
+    padding: '4px',
+    fontSize: '12px'
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+      <h4 style={{ margin: 0, color: colors.accent }}>Compare Revisions</h4>
+
+      <label style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '12px' }}>
+        Revision {target?.revision} of {revisions.length}
+        <input
+          type="range"
+          min={0}
+          max={revisions.length - 1}
+          step={1}
+          value={targetIndex}
+          onChange={(e) => onTargetIndexChange(Number(e.target.value))}
+        />
+      </label>
+      {target && (
+        <p style={{ fontSize: '11px', color: colors.textSecondary, margin: 0 }}>
+          Uploaded {new Date(target.uploaded_at).toLocaleString()}
+        </p>
+      )}
+
+      <label style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px', fontSize: '12px' }}>
+        Against
+        <select
+          style={{ ...inputStyle, flex: 1 }}
+          value={String(base)}
+          onChange={(e) => onBaseChange(e.target.value === 'previous' ? 'previous' : Number(e.target.value))}
+        >
+          <option value="previous">Previous revision</option>
+          {revisions.map(revision => (
+            <option key={revision.id} value={revision.id}>Rev {revision.revision}</option>
+          ))}
+        </select>
+      </label>
+
+      <label style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px', fontSize: '12px' }}>
+        Tolerance
+        <input
+          type="number"
+          min={0}
+          step="any"
+          style={{ ...inputStyle, width: '90px' }}
+          value={tolerance}
+          onChange={(e) => {
+            const value = Number(e.target.value)
+            if (value > 0) onToleranceChange(value)
+          }}
+        />
+      </label>
+
+      {loading && (
+        <p style={{ fontSize: '12px', color: colors.textSecondary, margin: 0 }}>
+          Comparing revisions...
+        </p>
+      )}
+      {error && (
+        <p style={{ fontSize: '12px', color: '#f44336', margin: 0 }}>
+          {error}
+        </p>
+      )}
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+        <LegendRow color={ADDED_COLOR} label="Added" triangles={diff?.added} />
+        <LegendRow color={REMOVED_COLOR} label="Removed" triangles={diff?.removed} />
+        <LegendRow color={MOVED_COLOR} label="Moved" triangles={diff?.movedTo} />
+        <LegendRow color={UNCHANGED_COLOR} label="Unchanged" triangles={diff?.unchanged} />
+      </div>
+
+      <p style={{ fontSize: '11px', color: colors.textSecondary, margin: 0 }}>
+        Counts are triangles. Tolerance is in model units.
+      </p>
+    </div>
+  )
+}
+
+interface ModelComparePanelProps {
+  colors: ThemeColors
+  names: [string, string]
+  layout: CompareLayout
+  // Of both models in the overlay
+  opacity: number
+  alignment: Alignment
+  fitting: boolean
+  deviationSide: DeviationSide | null
+  // Model units
+  deviationRange: number
+  stats: DeviationStats | null
+  error: string | null
+  onLayoutChange: (layout: CompareLayout) => void
+  onOpacityChange: (opacity: number) => void
+  onAlignmentChange: (alignment: Alignment) => void
+  onBestFit: () => void
+  onDeviationSideChange: (side: DeviationSide | null) => void
+  onDeviationRangeChange: (range: number) => void
+}
+
+const formatDeviation = (value: number) => Number(value.toPrecision(3)).toString()
+
+// Side panel of the compare workspace: layout, placement of the second model and the deviation heatmap
+export function ModelComparePanel({
+  colors,
+  names,
+  layout,
+  opacity,
+  alignment,
+  fitting,
+  deviationSide,
+  deviationRange,
+  stats,
+  error,
+  onLayoutChange,
+  onOpacityChange,
+  onAlignmentChange,
+  onBestFit,
+  onDeviationSideChange,
+  onDeviationRangeChange
+}: ModelComparePanelProps) {
+  const inputStyle = {
+    backgroundColor: colors.background,
+    color: colors.text,
+    border: `1px solid ${colors.border}`,
+    borderRadius: '4px',
+    padding: '4px',
+    fontSize: '12px'
+  }
+
+  const buttonStyle = (active: boolean) => ({
+    flex: 1,
+    backgroundColor: active ? colors.accent : 'transparent',
+    color: active ? 'white' : colors.text,
+    border: `1px solid ${colors.border}`,
+    padding: '5px 8px',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontSize: '12px'
+  })
+
+  const vectorRow = (label: string, key: keyof Alignment, step: number) => (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '12px' }}>
+      <span style={{ width: '56px' }}>{label}</span>
+      {alignment[key].map((value, axis) => (
+        <input
+          key={axis}
+          type="number"
+          step={step}
+          title={'XYZ'[axis]}
+          style={{ ...inputStyle, width: '100%', minWidth: 0 }}
+          value={value}
+          onChange={(e) => {
+            const next = Number(e.target.value)
+            if (!Number.isFinite(next)) return
+            const values = [...alignment[key]] as Vector3Tuple
+            values[axis] = next
+            onAlignmentChange({ ...alignment, [key]: values })
+          }}
+        />
+      ))}
+    </div>
+  )
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+      <h4 style={{ margin: 0, color: colors.accent }}>Compare Models</h4>
+
+      <div style={{ display: 'flex', gap: '5px' }}>
+        <button style={buttonStyle(layout === 'split')} onClick={() => onLayoutChange('split')}>Split</button>
+        <button style={buttonStyle(layout === 'overlay')} onClick={() => onLayoutChange('overlay')}>Overlay</button>
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+        <LegendRow color={MODEL_A_COLOR} label={names[0]} />
+        <LegendRow color={MODEL_B_COLOR} label={names[1]} />
+      </div>
+
+      {layout === 'overlay' && (
+        <label style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '12px' }}>
+          Opacity {Math.round(opacity * 100)}%
+          <input
+            type="range"
+            min={0.1}
+            max={1}
+            step={0.05}
+            value={opacity}
+            onChange={(e) => onOpacityChange(Number(e.target.value))}
+          />
+        </label>
+      )}
+
+      <h4 style={{ margin: '10px 0 0', color: colors.accent }}>Alignment</h4>
+      <p style={{ fontSize: '11px', color: colors.textSecondary, margin: 0 }}>
+        Moves {names[1]} onto {names[0]}. Offsets are in model units, rotations in degrees about its center.
+      </p>
+      {vectorRow('Offset', 'offset', 0.1)}
+      {vectorRow('Rotation', 'rotation', 1)}
+      <div style={{ display: 'flex', gap: '5px' }}>
+        <button style={buttonStyle(false)} onClick={onBestFit} disabled={fitting}>
+          {fitting ? 'Fitting...' : 'Best fit'}
+        </button>
+        <button
+          style={buttonStyle(false)}
+          onClick={() => onAlignmentChange({ offset: [0, 0, 0], rotation: [0, 0, 0] })}
+          disabled={fitting}
+        >
+          Reset
+        </button>
+      </div>
+
+      <h4 style={{ margin: '10px 0 0', color: colors.accent }}>Deviation</h4>
+      <select
+        style={inputStyle}
+        value={deviationSide ?? ''}
+        onChange={(e) => onDeviationSideChange(e.target.value ? e.target.value as DeviationSide : null)}
+      >
+        <option value="">No heatmap</option>
+        <option value="b">Color {names[1]} by distance to {names[0]}</option>
+        <option value="a">Color {names[0]} by distance to {names[1]}</option>
+      </select>
+      {deviationSide && (
+        <>
+          <label style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px', fontSize: '12px' }}>
+            Range
+            <input
+              type="number"
+              min={0}
+              step="any"
+              style={{ ...inputStyle, width: '90px' }}
+              value={deviationRange}
+              onChange={(e) => {
+                const value = Number(e.target.value)
+                if (value > 0) onDeviationRangeChange(value)
+              }}
+            />
+          </label>
+          <div>
+            <div style={{
+              height: '10px',
+              borderRadius: '2px',
+              background: 'linear-gradient(to right, hsl(238, 100%, 50%), hsl(119, 100%, 50%), hsl(0, 100%, 50%))'
+            }} />
+            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: colors.textSecondary }}>
+              <span>0</span>
+              <span>{formatDeviation(deviationRange / 2)}</span>
+              <span>≥ {formatDeviation(deviationRange)}</span>
+            </div>
+          </div>
+          {stats ? (
+            <div style={{ fontSize: '12px', display: 'flex', flexDirection: 'column', gap: '2px' }}>
+              <span>Mean {formatDeviation(stats.mean)} • Max {formatDeviation(stats.max)}</span>
+              <span>{(stats.within * 100).toFixed(1)}% within range</span>
+            </div>
+          ) : (
+            <p style={{ fontSize: '12px', color: colors.textSecondary, margin: 0 }}>
+              Measuring deviation...
+            </p>
+          )}
+        </>
+      )}
+
+      {error && (
+        <p style={{ fontSize: '12px', color: '#f44336', margin: 0 }}>
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,381 @@
+import { MutableRefObject, ReactNode, useEffect, useMemo, useRef, useState } from 'react'
+import { Canvas, useFrame, useThree } from '@react-three/fiber'
+import { OrbitControls } from '@react-three/drei'
+import type { OrbitControls as OrbitControlsImpl } from 'three/examples/jsm/controls/OrbitControls.js'
+import * as THREE from 'three'
+import {
+  CompareLayout,
+  DeviationMesh,
+  DeviationSide,
+  DeviationStats,
+  MODEL_A_COLOR,
+  MODEL_B_COLOR,
+  ModelComparePanel
+} from './CompareTool'
+import { Model3D, getModel } from '../api'
+import { loadRevisionObject, surfaceDistances, worldTriangles } from '../utils/compare'
+import { Alignment, NO_ALIGNMENT, alignmentMatrix, bestFitAlignment, transformTriangles } from '../utils/alignment'
+import { ThemeColors } from '../types'
+
+interface CompareWorkspaceProps {
+  // The first model is the reference the second one is aligned to
+  modelIds: [string, string]
+  onSwap: () => void
+  onClose: () => void
+}
+
+interface ComparedModel {
+  model: Model3D
+  object: THREE.Object3D
+  // Triangles of the file as loaded, before any alignment
+  triangles: Float32Array
+  // Bounds as loaded; its center is the pivot of alignment rotations
+  box: THREE.Box3
+  center: THREE.Vector3
+}
+
+// Camera pose last changed by one of the split views
+interface SharedPose {
+  position: THREE.Vector3
+  target: THREE.Vector3
+  // View that made the change
+  source: number
+  version: number
+}
+
+const COLORS: ThemeColors = {
+  background: '#1A1B1E',
+  surface: '#25262b',
+  border: '#373A40',
+  text: '#C1C2C5',
+  textSecondary: '#909296',
+  accent: '#00b8d4'
+}
+
+async function loadComparedModel(id: string): Promise<ComparedModel> {
+  const model = await getModel(id)
+  const object = await loadRevisionObject(model)
+  const triangles = worldTriangles(object)
+  // Measured before the object is placed in a view
+  const box = new THREE.Box3().setFromObject(object)
+  return { model, object, triangles, box, center: box.getCenter(new THREE.Vector3()) }
+}
+
+// Keeps the camera of each split view where the other one was moved
+function CameraSync({ id, pose }: { id: number, pose: MutableRefObject<SharedPose> }) {
+  const camera = useThree(state => state.camera)
+  const controls = useThree(state => state.controls) as unknown as OrbitControlsImpl | null
+  const seen = useRef(0)
+  const applying = useRef(false)
+
+  useEffect(() => {
+    if (!controls) return
+    const publish = () => {
+      if (applying.current) return
+      const version = pose.current.version + 1
+      pose.current = { position: camera.position.clone(), target: controls.target.clone(), source: id, version }
+      seen.current = version
+    }
+    controls.addEventListener('change', publish)
+    return () => controls.removeEventListener('change', publish)
+  }, [id, pose, camera, controls])
+
+  useFrame(() => {
+    const shared = pose.current
+    if (!controls || shared.version === seen.current) return
+    seen.current = shared.version
+    if (shared.source === id) return
+    applying.current = true
+    camera.position.copy(shared.position)
+    controls.target.copy(shared.target)
+    controls.update()
+    applying.current = false
+  })
+
+  return null
+}
+
+// One view of the workspace; `frame` fits the reference model in a 2-unit box
+function CompareView({ frame, children, sync }: {
+  frame: { scale: number, position: THREE.Vector3 }
+  children: ReactNode
+  sync?: { id: number, pose: MutableRefObject<SharedPose> }
+}) {
+  return (
+    <Canvas camera={{ position: [2.5, 2, 2.5], fov: 50 }} style={{ background: COLORS.surface }}>
+      <ambientLight intensity={0.8} />
+      <pointLight position={[10, 10, 10]} intensity={1} />
+      <pointLight position={[-10, -10, -10]} intensity={0.5} />
+      <OrbitControls makeDefault />
+      {sync && <CameraSync id={sync.id} pose={sync.pose} />}
+      <group scale={frame.scale} position={frame.position}>
+        {children}
+      </group>
+    </Canvas>
+  )
+}
+
+// Two library models side by side with linked cameras, or overlaid in one
+// view with an alignment and a deviation heatmap
+export function CompareWorkspace({ modelIds, onSwap, onClose }: CompareWorkspaceProps) {
+  const [idA, idB] = modelIds
+  const [models, setModels] = useState<[ComparedModel, ComparedModel] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [layout, setLayout] = useState<CompareLayout>('overlay')
+  const [opacity, setOpacity] = useState(0.6)
+  const [alignment, setAlignment] = useState<Alignment>(NO_ALIGNMENT)
+  const [fitting, setFitting] = useState(false)
+  const [fitError, setFitError] = useState<string | null>(null)
+  const [deviationSide, setDeviationSide] = useState<DeviationSide | null>(null)
+  const [deviationRange, setDeviationRange] = useState(0.1)
+  const [deviation, setDeviation] = useState<{ side: DeviationSide, distances: Float32Array } | null>(null)
+  // Parsed models by id, so swapping sides does not load them again
+  const loaded = useRef(new Map<string, Promise<ComparedModel>>())
+  const pose = useRef<SharedPose>({ position: new THREE.Vector3(), target: new THREE.Vector3(), source: -1, version: 0 })
+
+  const materials = useMemo(() => [MODEL_A_COLOR, MODEL_B_COLOR].map(color => (
+    new THREE.MeshStandardMaterial({ color, side: THREE.DoubleSide })
+  )), [])
+
+  useEffect(() => {
+    return () => materials.forEach(material => material.dispose())
+  }, [materials])
+
+  useEffect(() => {
+    let isActive = true
+    setModels(null)
+    setError(null)
+    setAlignment(NO_ALIGNMENT)
+    setDeviation(null)
+    const load = (id: string) => {
+      let model = loaded.current.get(id)
+      if (!model) {
+        model = loadComparedModel(id)
+        loaded.current.set(id, model)
+      }
+      return model
+    }
+    Promise.all([load(idA), load(idB)])
+      .then(([a, b]) => {
+        if (!isActive) return
+        setModels([a, b])
+        // Heatmap range of 1% of the reference size
+        const size = a.box.getSize(new THREE.Vector3()).length()
+        setDeviationRange(Number((size * 0.01).toPrecision(2)) || 0.1)
+      })
+      .catch(err => {
+        console.error('Error loading models to compare:', err)
+        loaded.current.delete(idA)
+        loaded.current.delete(idB)
+        if (isActive) setError(err instanceof Error ? err.message : 'Failed to load the models')
+      })
+    return () => {
+      isActive = false
+    }
+  }, [idA, idB])
+
+  // Tint each model with its color, see-through when overlaid
+  useEffect(() => {
+    if (!models) return
+    models.forEach(({ object }, index) => {
+      const material = materials[index]
+      material.transparent = layout === 'overlay' && opacity < 1
+      material.opacity = layout === 'overlay' ? opacity : 1
+      material.depthWrite = !material.transparent
+      material.needsUpdate = true
+      object.traverse((child) => {
+        if (child instanceof THREE.Mesh) child.material = material
+      })
+    })
+  }, [models, materials, layout, opacity])
+
+  const matrixB = useMemo(
+    () => models ? alignmentMatrix(alignment, models[1].center) : new THREE.Matrix4(),
+    [models, alignment]
+  )
+
+  // Both models in the reference's 2-unit frame, so they keep their relative size
+  const frame = useMemo(() => {
+    if (!models) return { scale: 1, position: new THREE.Vector3() }
+    const box = models[0].box.clone().union(models[1].box)
+    const size = box.getSize(new THREE.Vector3())
+    const scale = 2 / (Math.max(size.x, size.y, size.z) || 1)
+    return { scale, position: models[0].center.clone().multiplyScalar(-scale) }
+  }, [models])
+
+  // Measured a moment after the alignment stops changing, it can take a while on large models
+  useEffect(() => {
+    setDeviation(null)
+    if (!models || !deviationSide) return
+    const timer = setTimeout(() => {
+      const [a, b] = models
+      const alignedB = transformTriangles(b.triangles, matrixB)
+      const distances = deviationSide === 'b'
+        ? surfaceDistances(alignedB, a.triangles)
+        : surfaceDistances(a.triangles, alignedB)
+      setDeviation({ side: deviationSide, distances })
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [models, matrixB, deviationSide])
+
+  const stats = useMemo<DeviationStats | null>(() => {
+    if (!deviation || deviation.distances.length === 0) return null
+    let sum = 0
+    let max = 0
+    let within = 0
+    for (const distance of deviation.distances) {
+      sum += distance
+      max = Math.max(max, distance)
+      if (distance <= deviationRange) within += 1
+    }
+    const count = deviation.distances.length
+    return { mean: sum / count, max, within: within / count }
+  }, [deviation, deviationRange])
+
+  const bestFit = () => {
+    if (!models) return
+    setFitting(true)
+    setFitError(null)
+    // Let the button show progress before the fit blocks the page
+    setTimeout(() => {
+      try {
+        setAlignment(bestFitAlignment(models[0].triangles, models[1].triangles, models[1].center))
+      } catch (err) {
+        console.error('Error fitting models:', err)
+        setFitError('Failed to fit the models')
+      } finally {
+        setFitting(false)
+      }
+    }, 20)
+  }
+
+  const renderModel = (index: 0 | 1) => {
+    if (!models) return null
+    const model = models[index]
+    const side: DeviationSide = index === 0 ? 'a' : 'b'
+    const content = deviation?.side === side
+      ? <DeviationMesh triangles={model.triangles} distances={deviation.distances} range={deviationRange} />
+      : <primitive object={model.object} />
+    return index === 0 ? content : (
+      <group matrixAutoUpdate={false} matrix={matrixB}>
+        {content}
+      </group>
+    )
+  }
+
+  const names: [string, string] = models
+    ? [models[0].model.name, models[1].model.name]
+    : ['First model', 'Second model']
+
+  const labelStyle = {
+    position: 'absolute' as const,
+    top: '10px',
+    left: '10px',
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    fontSize: '12px',
+    padding: '4px 8px',
+    borderRadius: '4px',
+    backgroundColor: COLORS.surface,
+    zIndex: 10
+  }
+
+  const headerButtonStyle = {
+    backgroundColor: 'transparent',
+    border: `1px solid ${COLORS.border}`,
+    color: COLORS.text,
+    padding: '5px 10px',
+    borderRadius: '4px',
+    cursor: 'pointer'
+  }
+
+  return (
+    <div style={{
+      height: '100%',
+      display: 'flex',
+      flexDirection: 'column',
+      backgroundColor: COLORS.background,
+      color: COLORS.text
+    }}>
+      <div style={{
+        padding: '10px 15px',
+        borderBottom: `1px solid ${COLORS.border}`,
+        backgroundColor: COLORS.surface,
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        gap: '10px'
+      }}>
+        <h3 style={{ color: COLORS.accent, margin: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {names[0]} ↔ {names[1]}
+        </h3>
+        <div style={{ display: 'flex', gap: '10px' }}>
+          <button style={headerButtonStyle} onClick={onSwap} title="Use the second model as the reference">
+            Swap
+          </button>
+          <button style={headerButtonStyle} onClick={onClose} title="Back to the viewer">
+            Close
+          </button>
+        </div>
+      </div>
+
+      <div style={{ flex: 1, display: 'flex', overflow: 'hidden' }}>
+        <div style={{ flex: 1, display: 'flex', position: 'relative' }}>
+          {error ? (
+            <p style={{ margin: 'auto', color: '#f44336' }}>{error}</p>
+          ) : !models ? (
+            <p style={{ margin: 'auto', color: COLORS.textSecondary }}>Loading models...</p>
+          ) : layout === 'split' ? (
+            ([0, 1] as const).map(index => (
+              <div
+                key={index}
+                style={{ flex: 1, position: 'relative', borderLeft: index === 1 ? `1px solid ${COLORS.border}` : 'none' }}
+              >
+                <div style={labelStyle}>
+                  <span style={{ width: '10px', height: '10px', borderRadius: '2px', backgroundColor: index === 0 ? MODEL_A_COLOR : MODEL_B_COLOR }} />
+                  {names[index]}
+                </div>
+                <CompareView frame={frame} sync={{ id: index, pose }}>
+                  {renderModel(index)}
+                </CompareView>
+              </div>
+            ))
+          ) : (
+            <CompareView frame={frame}>
+              {renderModel(0)}
+              {renderModel(1)}
+            </CompareView>
+          )}
+        </div>
+
+        <div style={{
+          width: '260px',
+          padding: '15px',
+          borderLeft: `1px solid ${COLORS.border}`,
+          backgroundColor: COLORS.surface,
+          overflowY: 'auto'
+        }}>
+          <ModelComparePanel
+            colors={COLORS}
+            names={names}
+            layout={layout}
+            opacity={opacity}
+            alignment={alignment}
+            fitting={fitting}
+            deviationSide={deviationSide}
+            deviationRange={deviationRange}
+            stats={stats}
+            error={fitError}
+            onLayoutChange={setLayout}
+            onOpacityChange={setOpacity}
+            onAlignmentChange={setAlignment}
+            onBestFit={bestFit}
+            onDeviationSideChange={setDeviationSide}
+            onDeviationRangeChange={setDeviationRange}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+import { Dialog } from './Dialog'
+import { dialogButtonStyle } from './dialogStyles'
+
+interface ConfirmDialogProps {
+  title: string
+  message: string
+  confirmLabel: string
+  // Styles the confirm button as destructive
+  danger?: boolean
+  onConfirm: () => void
+  onCancel: () => void
+}
+
+// Modal asking the user to confirm an action; Escape cancels
+export function ConfirmDialog({ title, message, confirmLabel, danger = false, onConfirm, onCancel }: ConfirmDialogProps) {
+  return (
+    <Dialog title={title} onClose={onCancel}>
+      <p style={{ margin: '0 0 20px', fontSize: '14px', lineHeight: 1.5, color: '#909296' }}>{message}</p>
+      <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '10px' }}>
+        <button style={{ ...dialogButtonStyle, backgroundColor: 'transparent', color: '#C1C2C5' }} onClick={onCancel}>
+          Cancel
+        </button>
+        <button
+          style={{
+            ...dialogButtonStyle,
+            backgroundColor: danger ? '#f44336' : '#00b8d4',
+            borderColor: danger ? '#f44336' : '#00b8d4',
+            color: 'white'
+          }}
+          onClick={onConfirm}
+          autoFocus
+        >
+          {confirmLabel}
+        </button>
+      </div>
+    </Dialog>
+  )
+}
@@ -0,0 +1,56 @@
+import React, { useEffect } from 'react'
+
+interface DialogProps {
+  title: string
+  // Called on Escape and clicks outside the dialog; without it the dialog cannot be dismissed
+  onClose?: () => void
+  width?: string
+  children: React.ReactNode
+}
+
+// Modal window over the whole page
+export function Dialog({ title, onClose, width = '360px', children }: DialogProps) {
+  useEffect(() => {
+    if (!onClose) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.6)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000
+      }}
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="dialog-title"
+        style={{
+          width,
+          maxWidth: 'calc(100vw - 40px)',
+          padding: '20px',
+          backgroundColor: '#25262b',
+          border: '1px solid #373A40',
+          borderRadius: '8px',
+          color: '#C1C2C5',
+          boxShadow: '0 8px 24px rgba(0, 0, 0, 0.4)'
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 id="dialog-title" style={{ margin: '0 0 10px', fontSize: '16px' }}>{title}</h3>
+        {children}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { ApiError, SharedModel, openShareLink } from '../api'
+import { ModelPick } from '../types'
+import { EmbedEvent, EmbedSource, canEmbedModel, embedSource, isEmbedCommand, postToHost } from '../utils/embed'
+import { VIEW_MODES, getUrlParam, parseViewerState } from '../utils/url'
+import { ModelViewer, ModelViewerHandle, ViewerFile } from './ModelViewer'
+
+// Viewer alone, for iframes on other pages. Set up from the embed URL and
+// driven by the host page through postMessage (see utils/embed).
+export function EmbeddedViewer() {
+  const [source, setSource] = useState<EmbedSource | null>(() => embedSource({
+    model: getUrlParam('model'),
+    share: getUrlParam('share'),
+    url: getUrlParam('url'),
+    format: getUrlParam('format')
+  }))
+  const [shared, setShared] = useState<SharedModel | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const initialState = useMemo(() => parseViewerState(), [])
+  const handle = useRef<ModelViewerHandle | null>(null)
+  // Page the embed URL names as its host. Without one, only share links and public
+  // files are shown, and events go to whichever page embeds the viewer.
+  const hostOrigin = useMemo(() => getUrlParam('origin'), [])
+  const modelBlocked = source?.kind === 'model' && !canEmbedModel(hostOrigin)
+
+  const notify = useCallback((event: EmbedEvent) => postToHost(event, hostOrigin ?? '*'), [hostOrigin])
+
+  const fail = useCallback((message: string) => {
+    setError(message)
+    notify({ type: 'error', message })
+  }, [notify])
+
+  const file = useMemo<ViewerFile | undefined>(
+    () => source?.kind === 'file' ? { url: source.url, format: source.format } : undefined,
+    [source]
+  )
+
+  useEffect(() => {
+    if (modelBlocked) fail('Library models can only be embedded by trusted pages that set the origin parameter')
+  }, [modelBlocked, fail])
+
+  // Share links are opened before the viewer gets the model; password protected ones cannot be embedded
+  useEffect(() => {
+    if (source?.kind !== 'share') return
+    let isActive = true
+    openShareLink(source.token)
+      .then(opened => {
+        if (isActive) setShared(opened)
+      })
+      .catch(err => {
+        if (!isActive) return
+        if (err instanceof ApiError && err.status === 403) {
+          fail('Links with a password cannot be embedded')
+        } else if (err instanceof ApiError && err.status === 404) {
+          fail('This link does not exist or has been revoked.')
+        } else {
+          fail(err instanceof Error ? err.message : 'Failed to open the link')
+        }
+      })
+    return () => {
+      isActive = false
+    }
+  }, [source, fail])
+
+  useEffect(() => {
+    const handleMessage = (e: MessageEvent) => {
+      if (e.source !== window.parent || !isEmbedCommand(e.data)) return
+      if (hostOrigin && e.origin !== hostOrigin) return
+      const command = e.data
+      switch (command.type) {
+        case 'load': {
+          const next = embedSource(command)
+          if (next) {
+            setError(null)
+            setSource(next)
+          } else {
+            fail('Nothing to load, expected a model, share or url')
+          }
+          break
+        }
+        case 'setViewMode':
+          if (VIEW_MODES.includes(command.mode)) handle.current?.setViewMode(command.mode)
+          break
+        case 'screenshot':
+          notify({ type: 'screenshot', id: command.id, dataUrl: handle.current?.screenshot() ?? null })
+          break
+      }
+    }
+    window.addEventListener('message', handleMessage)
+    notify({ type: 'ready' })
+    return () => window.removeEventListener('message', handleMessage)
+  }, [hostOrigin, notify, fail])
+
+  const handlePick = useCallback((pick: ModelPick) => notify({ type: 'pick', ...pick }), [notify])
+
+  // Ignores a link opened before the host loaded something else
+  const sharedModel = source?.kind === 'share' && shared?.token === source.token ? shared : null
+
+  if (error || !source || modelBlocked || (source.kind === 'share' && !sharedModel)) {
+    return (
+      <div style={{
+        height: '100vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: '#1A1B1E',
+        color: error ? '#f44336' : '#909296',
+        fontSize: '14px'
+      }}>
+        {error ?? (source ? 'Opening model...' : 'No model to show')}
+      </div>
+    )
+  }
+
+  return (
+    <div style={{ height: '100vh' }}>
+      <ModelViewer
+        // A new source starts from the embed URL settings again
+        key={source.kind === 'file' ? source.url : source.kind === 'share' ? source.token : source.id}
+        modelId={source.kind === 'model' ? source.id : sharedModel ? String(sharedModel.model.id) : null}
+        shared={sharedModel ?? undefined}
+        file={file}
+        initialState={initialState}
+        embedded
+        handleRef={handle}
+        onLoad={() => notify({ type: 'loaded' })}
+        onError={fail}
+        onPick={handlePick}
+      />
+    </div>
+  )
+}
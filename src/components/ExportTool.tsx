@@ -0,0 +1,323 @@
+import { useState } from 'react'
+import { MESH_FORMATS, MeshExportOptions, canWriteColors, canWriteText } from '../utils/meshExport'
+import { LENGTH_UNITS, convertLength } from '../utils/units'
+import { LengthUnit, MeshFormat, ThemeColors } from '../types'
+
+export interface ImageSize {
+  width: number
+  height: number
+}
+
+export type TurntableFormat = 'webm' | 'png'
+
+export interface TurntableSettings {
+  format: TurntableFormat
+  frames: number
+  fps: number
+}
+
+// Parts of the model a mesh export contains
+export type PartScope = 'all' | 'visible' | 'selected'
+
+export interface MeshExportSettings extends Omit<MeshExportOptions, 'include'> {
+  parts: PartScope
+}
+
+interface MeshExportFormProps {
+  colors: ThemeColors
+  // Part choices offered, the first is the default
+  scopes: PartScope[]
+  // Units of the exported coordinates as they are; the file can be written in others
+  units: LengthUnit
+  busy: boolean
+  error: string | null
+  onExport: (settings: MeshExportSettings) => void
+  // Converts the whole original file on the server instead, when the model is stored there
+  onConvert?: (settings: MeshExportSettings) => void
+}
+
+const SCOPE_LABELS: Record<PartScope, string> = {
+  all: 'All parts',
+  visible: 'Visible parts',
+  selected: 'Selected part'
+}
+
+// Mesh export settings, shared by the viewer and the scene workspace
+export function MeshExportForm({ colors, scopes, units, busy, error, onExport, onConvert }: MeshExportFormProps) {
+  const [format, setFormat] = useState<MeshFormat>('stl')
+  const [ascii, setAscii] = useState(false)
+  const [parts, setParts] = useState<PartScope>(scopes[0])
+  // Units to write the file in, null to keep the model's
+  const [fileUnits, setFileUnits] = useState<LengthUnit | null>(null)
+  const [applyTransform, setApplyTransform] = useState(true)
+  const [withColors, setWithColors] = useState(true)
+
+  const inputStyle = {
+    backgroundColor: colors.background,
+    color: colors.text,
+    border: `1px solid ${colors.border}`,
+    borderRadius: '4px',
+    padding: '5px',
+    fontSize: '12px'
+  }
+
+  const buttonStyle = {
+    flex: 1,
+    backgroundColor: colors.accent,
+    color: 'white',
+    border: 'none',
+    padding: '6px 8px',
+    borderRadius: '4px',
+    cursor: busy ? 'default' : 'pointer',
+    fontSize: '12px',
+    opacity: busy ? 0.6 : 1
+  }
+
+  const scope = scopes.includes(parts) ? parts : scopes[0]
+  const settings: MeshExportSettings = {
+    format,
+    ascii: ascii && canWriteText(format),
+    applyTransform,
+    scale: convertLength(1, units, fileUnits ?? units),
+    colors: withColors && canWriteColors(format),
+    parts: scope
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+      <div style={{ display: 'flex', gap: '5px' }}>
+        <select
+          style={{ ...inputStyle, flex: 1 }}
+          value={format}
+          onChange={(e) => setFormat(e.target.value as MeshFormat)}
+        >
+          {MESH_FORMATS.map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <select
+          style={{ ...inputStyle, flex: 1 }}
+          value={settings.ascii ? 'ascii' : 'binary'}
+          disabled={!canWriteText(format)}
+          onChange={(e) => setAscii(e.target.value === 'ascii')}
+        >
+          <option value="binary">Binary</option>
+          <option value="ascii">ASCII</option>
+        </select>
+      </div>
+      {scopes.length > 1 && (
+        <select style={inputStyle} value={scope} onChange={(e) => setParts(e.target.value as PartScope)}>
+          {scopes.map(value => (
+            <option key={value} value={value}>{SCOPE_LABELS[value]}</option>
+          ))}
+        </select>
+      )}
+      <select
+        style={inputStyle}
+        value={fileUnits ?? units}
+        onChange={(e) => setFileUnits(e.target.value === units ? null : e.target.value as LengthUnit)}
+      >
+        {LENGTH_UNITS.map(([value, label]) => (
+          <option key={value} value={value}>{value === units ? `${label} (model units)` : `Convert to ${label.toLowerCase()}`}</option>
+        ))}
+      </select>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '5px', fontSize: '12px' }}>
+        <input type="checkbox" checked={applyTransform} onChange={(e) => setApplyTransform(e.target.checked)} />
+        Apply transforms
+      </label>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '5px', fontSize: '12px', opacity: canWriteColors(format) ? 1 : 0.5 }}>
+        <input
+          type="checkbox"
+          checked={settings.colors}
+          disabled={!canWriteColors(format)}
+          onChange={(e) => setWithColors(e.target.checked)}
+        />
+        Part colors{canWriteColors(format) ? '' : ' (STL has none)'}
+      </label>
+      <p style={{ fontSize: '11px', color: colors.textSecondary, margin: 0 }}>
+        Without applying transforms, GLB keeps the placement of each part as a node; the other formats always bake it in.
+        {format === 'obj' && settings.colors && ' OBJ colors come in a ZIP with an MTL file.'}
+      </p>
+      <div style={{ display: 'flex', gap: '5px' }}>
+        <button style={buttonStyle} disabled={busy} onClick={() => onExport(settings)}>
+          {busy ? 'Exporting...' : 'Export mesh'}
+        </button>
+        {onConvert && (
+          <button
+            style={{ ...buttonStyle, backgroundColor: 'transparent', color: colors.text, border: `1px solid ${colors.border}` }}
+            disabled={busy}
+            onClick={() => onConvert(settings)}
+            title="Convert the whole original file on the server, in the format and units chosen here"
+          >
+            Convert file
+          </button>
+        )}
+      </div>
+      {error && (
+        <p style={{ fontSize: '12px', color: '#f44336', margin: 0 }}>
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
+
+interface ExportPanelProps {
+  colors: ThemeColors
+  // Longest image side the GPU can draw
+  maxSize: number
+  canRecordVideo: boolean
+  // Share of the turntable exported so far, null when no export is running
+  progress: number | null
+  error: string | null
+  // size null exports at the size of the viewer
+  onExportImage: (size: ImageSize | null, transparent: boolean) => void
+  onExportTurntable: (size: ImageSize | null, settings: TurntableSettings, transparent: boolean) => void
+  // Mesh export, shown once a model has loaded
+  mesh?: Omit<MeshExportFormProps, 'colors'>
+}
+
+// Output sizes offered besides the viewer's own and a custom one
+const SIZE_PRESETS: Array<[string, ImageSize]> = [
+  ['1280 × 720', { width: 1280, height: 720 }],
+  ['1920 × 1080', { width: 1920, height: 1080 }],
+  ['2048 × 2048', { width: 2048, height: 2048 }],
+  ['3840 × 2160', { width: 3840, height: 2160 }],
+  ['7680 × 4320', { width: 7680, height: 4320 }]
+]
+
+// Side panel exporting the current view as a PNG or a turntable animation
+export function ExportPanel({
+  colors,
+  maxSize,
+  canRecordVideo,
+  progress,
+  error,
+  onExportImage,
+  onExportTurntable,
+  mesh
+}: ExportPanelProps) {
+  const [preset, setPreset] = useState('viewer')
+  const [customSize, setCustomSize] = useState<ImageSize>({ width: 1920, height: 1080 })
+  const [transparent, setTransparent] = useState(false)
+  const [format, setFormat] = useState<TurntableFormat>(canRecordVideo ? 'webm' : 'png')
+  const [frames, setFrames] = useState(120)
+  const [fps, setFps] = useState(30)
+
+  const inputStyle = {
+    backgroundColor: colors.background,
+    color: colors.text,
+    border: `1px solid ${colors.border}`,
+    borderRadius: '4px',
+    padding: '5px',
+    fontSize: '12px'
+  }
+
+  const buttonStyle = {
+    backgroundColor: colors.accent,
+    color: 'white',
+    border: 'none',
+    padding: '6px 8px',
+    borderRadius: '4px',
+    cursor: progress === null ? 'pointer' : 'default',
+    fontSize: '12px',
+    opacity: progress === null ? 1 : 0.6
+  }
+
+  const size = preset === 'viewer'
+    ? null
+    : preset === 'custom'
+      ? customSize
+      : SIZE_PRESETS.find(([label]) => label === preset)?.[1] ?? null
+  const tooLarge = size !== null && Math.max(size.width, size.height) > maxSize
+  const busy = progress !== null
+
+  const numberInput = (value: number, onChange: (value: number) => void, min: number, max: number) => (
+    <input
+      style={{ ...inputStyle, width: '70px' }}
+      type="number"
+      min={min}
+      max={max}
+      value={value}
+      onChange={(e) => {
+        const next = Math.round(Number(e.target.value))
+        if (Number.isFinite(next)) onChange(Math.min(max, Math.max(min, next)))
+      }}
+    />
+  )
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+      <h4 style={{ margin: 0, color: colors.accent }}>Export</h4>
+      <p style={{ fontSize: '12px', color: colors.textSecondary, margin: 0 }}>
+        Renders the current view, view mode and colors without the toolbars.
+      </p>
+
+      <select style={inputStyle} value={preset} onChange={(e) => setPreset(e.target.value)}>
+        <option value="viewer">Viewer size</option>
+        {SIZE_PRESETS.map(([label]) => (
+          <option key={label} value={label}>{label}</option>
+        ))}
+        <option value="custom">Custom size</option>
+      </select>
+      {preset === 'custom' && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '5px', fontSize: '12px' }}>
+          {numberInput(customSize.width, width => setCustomSize(prev => ({ ...prev, width })), 16, maxSize)}
+          ×
+          {numberInput(customSize.height, height => setCustomSize(prev => ({ ...prev, height })), 16, maxSize)}
+          px
+        </div>
+      )}
+      {tooLarge && (
+        <p style={{ fontSize: '12px', color: '#f44336', margin: 0 }}>
+          This device can draw images up to {maxSize} pixels wide
+        </p>
+      )}
+      <label style={{ display: 'flex', alignItems: 'center', gap: '5px', fontSize: '12px' }}>
+        <input type="checkbox" checked={transparent} onChange={(e) => setTransparent(e.target.checked)} />
+        Transparent background
+      </label>
+
+      <button style={buttonStyle} disabled={busy || tooLarge} onClick={() => onExportImage(size, transparent)}>
+        Export PNG
+      </button>
+
+      <h4 style={{ margin: '10px 0 0', color: colors.accent }}>Turntable</h4>
+      <p style={{ fontSize: '12px', color: colors.textSecondary, margin: 0 }}>
+        One turn around the view's center, like auto-rotate.
+        {transparent && ' Videos keep the background color.'}
+      </p>
+      <select style={inputStyle} value={format} onChange={(e) => setFormat(e.target.value as TurntableFormat)}>
+        <option value="webm" disabled={!canRecordVideo}>
+          WebM video{canRecordVideo ? '' : ' (not supported by this browser)'}
+        </option>
+        <option value="png">PNG sequence (ZIP)</option>
+      </select>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '5px', fontSize: '12px' }}>
+        {numberInput(frames, setFrames, 8, 720)} frames
+        {format === 'webm' && <>{numberInput(fps, setFps, 1, 60)} fps</>}
+      </div>
+
+      <button
+        style={buttonStyle}
+        disabled={busy || tooLarge}
+        onClick={() => onExportTurntable(size, { format, frames, fps }, transparent)}
+      >
+        {progress !== null ? `Exporting ${Math.round(progress * 100)}%` : 'Export turntable'}
+      </button>
+
+      {error && (
+        <p style={{ fontSize: '12px', color: '#f44336', margin: 0 }}>
+          {error}
+        </p>
+      )}
+
+      {mesh && (
+        <>
+          <h4 style={{ margin: '10px 0 0', color: colors.accent }}>Mesh</h4>
+          <MeshExportForm colors={colors} {...mesh} />
+        </>
+      )}
+    </div>
+  )
+}
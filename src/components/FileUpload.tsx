@@ -1,8 +1,11 @@
-import { useState } from 'react'
+import { useRef, useState } from 'react'
 import { Dropzone } from '@mantine/dropzone'
-import { Text, Progress, Paper, Stack, Group } from '@mantine/core'
+import { Text, Progress, Paper, Stack, Group, Button } from '@mantine/core'
 import { Upload, CheckCircle, AlertCircle } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
+import { uploadExtensions, isAssetFile, ASSET_EXTENSIONS } from '../loaders'
+import { uploadModel, isAbortError } from '../api'
+import { formatBytes } from '../utils/format'
 
 interface FileUploadProps {
   onUploadSuccess: () => void
@@ -11,29 +14,41 @@ interface FileUploadProps {
 export function FileUpload({ onUploadSuccess }: FileUploadProps) {
   const [uploadProgress, setUploadProgress] = useState(0)
   const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'success' | 'error'>('idle')
+  const [uploadedBytes, setUploadedBytes] = useState({ loaded: 0, total: 0 })
+  const controllerRef = useRef<AbortController | null>(null)
 
   const handleDrop = async (files: File[]) => {
-    const file = files[0]
+    // Companion files (MTL, textures) dropped with the model are stored alongside it
+    const extensions = uploadExtensions()
+    const file = files.find(f => extensions.some(ext => f.name.toLowerCase().endsWith(ext)))
     if (!file) return
 
     setUploadStatus('uploading')
-    const formData = new FormData()
-    formData.append('file', file)
-    formData.append('name', file.name)
+    setUploadProgress(0)
+    const controller = new AbortController()
+    controllerRef.current = controller
 
     try {
-      const response = await fetch('http://localhost:8000/api/models/', {
-        method: 'POST',
-        body: formData,
+      await uploadModel(file, {
+        assets: files.filter(f => f !== file && isAssetFile(f.name)),
+        signal: controller.signal,
+        onProgress: ({ loaded, total }) => {
+          setUploadProgress((loaded / total) * 100)
+          setUploadedBytes({ loaded, total })
+        },
       })
 
-      if (!response.ok) throw new Error('Upload failed')
-
       setUploadStatus('success')
       onUploadSuccess()
     } catch (error) {
-      console.error('Upload error:', error)
-      setUploadStatus('error')
+      if (isAbortError(error)) {
+        setUploadStatus('idle')
+      } else {
+        console.error('Upload error:', error)
+        setUploadStatus('error')
+      }
+    } finally {
+      controllerRef.current = null
     }
   }
 
@@ -42,8 +57,7 @@ export function FileUpload({ onUploadSuccess }: FileUploadProps) {
       <Stack>
         <Dropzone
           onDrop={handleDrop}
-          accept={['.stl', '.obj']}
-          maxSize={10 * 1024 ** 2}
+          accept={[...uploadExtensions(), ...ASSET_EXTENSIONS]}
           disabled={uploadStatus === 'uploading'}
           styles={{
             root: {
@@ -54,7 +68,7 @@ export function FileUpload({ onUploadSuccess }: FileUploadProps) {
             },
           }}
         >
-          <Group position="center" spacing="xl" style={{ minHeight: 80, pointerEvents: 'none' }}>
+          <Group justify="center" gap="xl" style={{ minHeight: 80, pointerEvents: 'none' }}>
             <AnimatePresence mode="wait">
               {uploadStatus === 'idle' && (
                 <motion.div
@@ -92,7 +106,7 @@ export function FileUpload({ onUploadSuccess }: FileUploadProps) {
                 Drag & drop your 3D model here
               </Text>
               <Text size="sm" c="dimmed" inline mt={7}>
-                Supports STL and OBJ files up to 10MB
+                Supports STL, OBJ, glTF, PLY, 3MF, STEP and IGES files
               </Text>
             </div>
           </Group>
@@ -103,14 +117,26 @@ export function FileUpload({ onUploadSuccess }: FileUploadProps) {
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.2 }}
           >
-            <Progress
-              value={uploadProgress}
-              size="sm"
-              radius="xl"
-              color="cyan"
-              striped
-              animated
-            />
+            <Stack gap="xs">
+              <Progress
+                value={uploadProgress}
+                size="sm"
+                radius="xl"
+                color="cyan"
+                striped
+                animated
+              />
+              <Group justify="space-between">
+                <Text size="xs" c="dimmed">
+                  {uploadProgress < 100
+                    ? `${formatBytes(uploadedBytes.loaded)} of ${formatBytes(uploadedBytes.total)}`
+                    : 'Processing...'}
+                </Text>
+                <Button size="xs" variant="subtle" color="gray" onClick={() => controllerRef.current?.abort()}>
+                  Cancel
+                </Button>
+              </Group>
+            </Stack>
           </motion.div>
         )}
       </Stack>
@@ -0,0 +1,69 @@
+import { LoadStage } from '../loaders'
+import { ThemeColors } from '../types'
+
+// Where loading a model has got to; `percent` is null while the size is unknown
+export interface LoadProgress {
+  stage: LoadStage
+  percent: number | null
+}
+
+interface LoadProgressPanelProps {
+  colors: ThemeColors
+  progress: LoadProgress
+  onCancel: () => void
+}
+
+const STAGE_LABELS: Record<LoadStage, string> = {
+  download: 'Downloading model',
+  parse: 'Processing mesh'
+}
+
+// Progress bar of the current loading stage with a button to stop it
+export function LoadProgressPanel({ colors, progress, onCancel }: LoadProgressPanelProps) {
+  return (
+    <div
+      role="progressbar"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={progress.percent ?? undefined}
+      style={{
+        width: '280px',
+        padding: '16px',
+        backgroundColor: colors.surface,
+        border: `1px solid ${colors.border}`,
+        borderRadius: '8px',
+        boxShadow: '0 2px 10px rgba(0,0,0,0.2)',
+        color: colors.text,
+        fontSize: '13px'
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '8px' }}>
+        <span>{STAGE_LABELS[progress.stage]}…</span>
+        {progress.percent !== null && <span style={{ color: colors.textSecondary }}>{progress.percent}%</span>}
+      </div>
+      <div style={{ height: '6px', backgroundColor: colors.border, borderRadius: '3px', overflow: 'hidden' }}>
+        <div style={{
+          width: `${progress.percent ?? 0}%`,
+          height: '100%',
+          backgroundColor: colors.accent,
+          transition: 'width 0.2s'
+        }} />
+      </div>
+      <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '12px' }}>
+        <button
+          style={{
+            backgroundColor: 'transparent',
+            border: `1px solid ${colors.border}`,
+            color: colors.text,
+            padding: '4px 12px',
+            borderRadius: '4px',
+            cursor: 'pointer'
+          }}
+          onClick={onCancel}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+import React, { useState } from 'react'
+import { User, login } from '../api'
+import { Dialog } from './Dialog'
+import { dialogButtonStyle, dialogInputStyle } from './dialogStyles'
+
+interface LoginDialogProps {
+  // Why logging in is needed, e.g. after a request was refused
+  message?: string
+  onLogin: (user: User) => void
+  // Without it the dialog cannot be dismissed
+  onCancel?: () => void
+}
+
+export function LoginDialog({ message, onLogin, onCancel }: LoginDialogProps) {
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      onLogin(await login(username, password))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log in')
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog title="Log in" onClose={onCancel}>
+      <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+        {message && <p style={{ margin: 0, fontSize: '14px', color: '#909296' }}>{message}</p>}
+        <input
+          style={dialogInputStyle}
+          value={username}
+          placeholder="Username"
+          autoComplete="username"
+          autoFocus
+          onChange={(e) => setUsername(e.target.value)}
+        />
+        <input
+          style={dialogInputStyle}
+          type="password"
+          value={password}
+          placeholder="Password"
+          autoComplete="current-password"
+          onChange={(e) => setPassword(e.target.value)}
+        />
+        {error && <p style={{ margin: 0, fontSize: '13px', color: '#f44336' }}>{error}</p>}
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '10px', marginTop: '10px' }}>
+          {onCancel && (
+            <button type="button" style={{ ...dialogButtonStyle, backgroundColor: 'transparent', color: '#C1C2C5' }} onClick={onCancel}>
+              Cancel
+            </button>
+          )}
+          <button
+            type="submit"
+            style={{ ...dialogButtonStyle, backgroundColor: '#00b8d4', borderColor: '#00b8d4', color: 'white' }}
+            disabled={isSubmitting || !username || !password}
+          >
+            {isSubmitting ? 'Logging in...' : 'Log in'}
+          </button>
+        </div>
+      </form>
+    </Dialog>
+  )
+}
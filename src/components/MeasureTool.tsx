@@ -0,0 +1,225 @@
+import { useMemo } from 'react'
+import { Html, Line } from '@react-three/drei'
+import * as THREE from 'three'
+import { Measurement, MeasureKind, POINTS_REQUIRED, formatMeasurement } from '../utils/measure'
+import { LengthUnit, ThemeColors } from '../types'
+
+interface MeasureOverlayProps {
+  measurements: Measurement[]
+  pendingPoints: THREE.Vector3[]
+  markerSize: number
+}
+
+interface MeasurePanelProps {
+  colors: ThemeColors
+  mode: MeasureKind | null
+  pendingCount: number
+  measurements: Measurement[]
+  // Unit of the model, which lengths are measured in
+  units: LengthUnit
+  onModeChange: (mode: MeasureKind | null) => void
+  onRemove: (id: number) => void
+  onClear: () => void
+}
+
+const MEASURE_COLOR = '#ffb300'
+
+const MODE_LABELS: Record<MeasureKind, string> = {
+  distance: 'Distance',
+  angle: 'Angle',
+  radius: 'Radius',
+}
+
+const MODE_HINTS: Record<MeasureKind, string> = {
+  distance: 'Click two points on the model',
+  angle: 'Click a point, the vertex, then a second point',
+  radius: 'Click three points along an edge or hole',
+}
+
+// Label drawn in the scene next to a measurement
+function MeasureLabel({ position, text }: { position: THREE.Vector3, text: string }) {
+  return (
+    <Html position={position} center style={{ pointerEvents: 'none' }}>
+      <div style={{
+        padding: '2px 6px',
+        backgroundColor: 'rgba(0, 0, 0, 0.75)',
+        color: MEASURE_COLOR,
+        borderRadius: '4px',
+        fontSize: '12px',
+        whiteSpace: 'nowrap'
+      }}>
+        {text}
+      </div>
+    </Html>
+  )
+}
+
+// Points of a circle for drawing radius measurements
+function circlePoints(center: THREE.Vector3, normal: THREE.Vector3, start: THREE.Vector3, segments = 64) {
+  const radial = start.clone().sub(center)
+  const points: THREE.Vector3[] = []
+  for (let i = 0; i <= segments; i++) {
+    points.push(center.clone().add(radial.clone().applyAxisAngle(normal, (i / segments) * Math.PI * 2)))
+  }
+  return points
+}
+
+function MeasurementShape({ measurement }: { measurement: Measurement }) {
+  const { kind, points, center, normal } = measurement
+  const label = formatMeasurement(measurement)
+
+  const circle = useMemo(
+    () => (kind === 'radius' && center && normal ? circlePoints(center, normal, points[0]) : null),
+    [kind, center, normal, points]
+  )
+
+  if (kind === 'distance') {
+    const mid = points[0].clone().add(points[1]).multiplyScalar(0.5)
+    return (
+      <>
+        <Line points={points} color={MEASURE_COLOR} lineWidth={2} depthTest={false} />
+        <MeasureLabel position={mid} text={label} />
+      </>
+    )
+  }
+
+  if (kind === 'angle') {
+    return (
+      <>
+        <Line points={points} color={MEASURE_COLOR} lineWidth={2} depthTest={false} />
+        <MeasureLabel position={points[1]} text={label} />
+      </>
+    )
+  }
+
+  if (!circle || !center) return null
+
+  return (
+    <>
+      <Line points={circle} color={MEASURE_COLOR} lineWidth={2} depthTest={false} />
+      <Line points={[center, points[0]]} color={MEASURE_COLOR} lineWidth={1} dashed depthTest={false} />
+      <MeasureLabel position={center} text={label} />
+    </>
+  )
+}
+
+// Draws picked points, completed measurements and their labels inside the Canvas
+export function MeasureOverlay({ measurements, pendingPoints, markerSize }: MeasureOverlayProps) {
+  const markers = [...pendingPoints, ...measurements.flatMap(m => m.points)]
+
+  return (
+    <group renderOrder={999}>
+      {markers.map((point, index) => (
+        <mesh key={index} position={point}>
+          <sphereGeometry args={[markerSize, 12, 12]} />
+          <meshBasicMaterial color={MEASURE_COLOR} depthTest={false} transparent />
+        </mesh>
+      ))}
+      {measurements.map(measurement => (
+        <MeasurementShape key={measurement.id} measurement={measurement} />
+      ))}
+    </group>
+  )
+}
+
+// Side panel listing measurements and selecting the active measure mode
+export function MeasurePanel({
+  colors,
+  mode,
+  pendingCount,
+  measurements,
+  units,
+  onModeChange,
+  onRemove,
+  onClear
+}: MeasurePanelProps) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+      <h4 style={{ margin: 0, color: colors.accent }}>Measure</h4>
+
+      <div style={{ display: 'flex', gap: '5px' }}>
+        {(Object.keys(MODE_LABELS) as MeasureKind[]).map(kind => (
+          <button
+            key={kind}
+            style={{
+              flex: 1,
+              backgroundColor: mode === kind ? colors.accent : 'transparent',
+              color: mode === kind ? 'white' : colors.text,
+              border: `1px solid ${colors.border}`,
+              padding: '5px 8px',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '12px'
+            }}
+            onClick={() => onModeChange(mode === kind ? null : kind)}
+          >
+            {MODE_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+
+      {mode && (
+        <p style={{ fontSize: '12px', color: colors.textSecondary, margin: 0 }}>
+          {MODE_HINTS[mode]} ({pendingCount}/{POINTS_REQUIRED[mode]})
+        </p>
+      )}
+
+      {measurements.length === 0 ? (
+        <p style={{ fontSize: '12px', color: colors.textSecondary, margin: 0 }}>
+          No measurements yet
+        </p>
+      ) : (
+        <>
+          {measurements.map((measurement, index) => (
+            <div
+              key={measurement.id}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                padding: '6px 8px',
+                border: `1px solid ${colors.border}`,
+                borderRadius: '4px',
+                fontSize: '12px'
+              }}
+            >
+              <span>
+                {index + 1}. {MODE_LABELS[measurement.kind]}: {formatMeasurement(measurement)}
+              </span>
+              <button
+                style={{
+                  backgroundColor: 'transparent',
+                  border: 'none',
+                  color: colors.textSecondary,
+                  cursor: 'pointer'
+                }}
+                onClick={() => onRemove(measurement.id)}
+                title="Remove measurement"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <button
+            style={{
+              backgroundColor: 'transparent',
+              color: colors.text,
+              border: `1px solid ${colors.border}`,
+              padding: '5px 10px',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '12px'
+            }}
+            onClick={onClear}
+          >
+            Clear All
+          </button>
+        </>
+      )}
+
+      <p style={{ fontSize: '11px', color: colors.textSecondary, margin: 0 }}>
+        Lengths are shown in {units}
+      </p>
+    </div>
+  )
+}
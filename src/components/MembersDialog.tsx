@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react'
+import { Model3D, ModelMember, listModelMembers, setModelMember, removeModelMember } from '../api'
+import { Dialog } from './Dialog'
+import { dialogButtonStyle, dialogInputStyle } from './dialogStyles'
+
+interface MembersDialogProps {
+  model: Model3D
+  onClose: () => void
+}
+
+const ROLE_LABELS: Record<ModelMember['role'], string> = {
+  viewer: 'Can view',
+  editor: 'Can edit'
+}
+
+const selectStyle = {
+  ...dialogInputStyle,
+  width: 'auto',
+  padding: '6px'
+}
+
+// Lets the owner of a model choose who else may view or edit it
+export function MembersDialog({ model, onClose }: MembersDialogProps) {
+  const [members, setMembers] = useState<ModelMember[] | null>(null)
+  const [username, setUsername] = useState('')
+  const [role, setRole] = useState<ModelMember['role']>('viewer')
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    listModelMembers(model.id)
+      .then(setMembers)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load members'))
+  }, [model.id])
+
+  const saveMember = async (name: string, memberRole: ModelMember['role']) => {
+    setError(null)
+    try {
+      const saved = await setModelMember(model.id, name, memberRole)
+      setMembers(members => [...(members ?? []).filter(member => member.id !== saved.id), saved])
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to share model')
+      return false
+    }
+  }
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (await saveMember(username.trim(), role)) setUsername('')
+  }
+
+  const handleRemove = async (member: ModelMember) => {
+    setError(null)
+    try {
+      await removeModelMember(model.id, member.id)
+      setMembers(members => (members ?? []).filter(m => m.id !== member.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove member')
+    }
+  }
+
+  return (
+    <Dialog title={`Share "${model.name}"`} onClose={onClose} width="420px">
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', fontSize: '14px' }}>
+        <div style={{ color: '#909296' }}>Owner: {model.owner ?? 'nobody, open to all users'}</div>
+        {members === null && !error && <div style={{ color: '#909296' }}>Loading members...</div>}
+        {members?.map(member => (
+          <div key={member.id} style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <span style={{ flex: 1 }}>{member.username}</span>
+            <select
+              style={selectStyle}
+              value={member.role}
+              onChange={(e) => saveMember(member.username, e.target.value as ModelMember['role'])}
+            >
+              {Object.entries(ROLE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+            <button
+              style={{ ...dialogButtonStyle, padding: '4px 8px', backgroundColor: 'transparent', color: '#909296' }}
+              onClick={() => handleRemove(member)}
+              title="Remove access"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <form onSubmit={handleAdd} style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+          <input
+            style={{ ...dialogInputStyle, flex: 1 }}
+            value={username}
+            placeholder="Username"
+            onChange={(e) => setUsername(e.target.value)}
+          />
+          <select style={selectStyle} value={role} onChange={(e) => setRole(e.target.value as ModelMember['role'])}>
+            {Object.entries(ROLE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+          </select>
+          <button
+            type="submit"
+            style={{ ...dialogButtonStyle, backgroundColor: '#00b8d4', borderColor: '#00b8d4', color: 'white' }}
+            disabled={!username.trim()}
+          >
+            Share
+          </button>
+        </form>
+        {error && <div style={{ fontSize: '13px', color: '#f44336' }}>{error}</div>}
+        <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '10px' }}>
+          <button style={{ ...dialogButtonStyle, backgroundColor: 'transparent', color: '#C1C2C5' }} onClick={onClose}>
+            Done
+          </button>
+        </div>
+      </div>
+    </Dialog>
+  )
+}
@@ -1,13 +1,26 @@
 import { useEffect, useState } from 'react'
 import { Paper, Text, Stack, Button, Group } from '@mantine/core'
-import { File, Trash2 } from 'lucide-react'
+import { Trash2 } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
+import { formatDimensions, formatQuantity } from '../utils/analysis'
+import { Model3D, listModels, deleteModel, canEditModel } from '../api'
+import { ModelThumbnail } from './ModelThumbnail'
 
-interface Model {
-  id: string
-  name: string
-  file_format: string
-  uploaded_at: string
+
+// One-line summary of the mesh statistics stored at upload
+function describeMesh(model: Model3D): string | null {
+  if (model.triangle_count === null) return null
+  const parts = [`${model.triangle_count.toLocaleString()} triangles`]
+  if (model.size_x !== null && model.size_y !== null && model.size_z !== null) {
+    parts.push(formatDimensions(model.size_x, model.size_y, model.size_z, model.units))
+  }
+  if (model.volume !== null) {
+    parts.push(`vol ${formatQuantity(model.volume)} ${model.units}³`)
+  }
+  if (model.is_watertight === false) {
+    parts.push('not watertight')
+  }
+  return parts.join(' • ')
 }
 
 interface ModelListProps {
@@ -16,14 +29,11 @@ interface ModelListProps {
 }
 
 export function ModelList({ onModelSelect, activeModel }: ModelListProps) {
-  const [models, setModels] = useState<Model[]>([])
+  const [models, setModels] = useState<Model3D[]>([])
 
   const fetchModels = async () => {
     try {
-      const response = await fetch('http://localhost:8000/api/models/')
-      if (!response.ok) throw new Error('Failed to fetch models')
-      const data = await response.json()
-      setModels(data)
+      setModels((await listModels()).results)
     } catch (error) {
       console.error('Error fetching models:', error)
     }
@@ -31,10 +41,7 @@ export function ModelList({ onModelSelect, activeModel }: ModelListProps) {
 
   const handleDelete = async (id: string) => {
     try {
-      const response = await fetch(`http://localhost:8000/api/models/${id}/`, {
-        method: 'DELETE',
-      })
-      if (!response.ok) throw new Error('Failed to delete model')
+      await deleteModel(id)
       fetchModels()
       if (activeModel === id) {
         onModelSelect(null)
@@ -50,7 +57,7 @@ export function ModelList({ onModelSelect, activeModel }: ModelListProps) {
 
   return (
     <Stack>
-      <Text c="dimmed" size="sm" weight={500} mb="xs">
+      <Text c="dimmed" size="sm" fw={500} mb="xs">
         Uploaded Models
       </Text>
       <Paper shadow="md" p="md" withBorder style={{ background: '#2C2E33' }}>
@@ -73,43 +80,48 @@ export function ModelList({ onModelSelect, activeModel }: ModelListProps) {
                   mb="xs"
                   withBorder
                   style={{
-                    background: activeModel === model.id ? '#373A40' : '#25262B',
+                    background: activeModel === String(model.id) ? '#373A40' : '#25262B',
                   }}
                 >
-                  <Group position="apart">
+                  <Group justify="space-between">
                     <Group>
-                      <File
-                        size={20}
-                        color={activeModel === model.id ? '#00b8d4' : '#909296'}
-                      />
+                      <ModelThumbnail model={model} size="48px" />
                       <div>
-                        <Text size="sm" weight={500}>
+                        <Text size="sm" fw={500}>
                           {model.name}
                         </Text>
                         <Text size="xs" c="dimmed">
                           {model.file_format.toUpperCase()}
+                          {model.revision_count > 1 && ` • Rev ${model.revision} of ${model.revision_count}`}
                         </Text>
+                        {describeMesh(model) && (
+                          <Text size="xs" c="dimmed">
+                            {describeMesh(model)}
+                          </Text>
+                        )}
                       </div>
                     </Group>
-                    <Group spacing={8}>
+                    <Group gap={8}>
                       <Button
                         variant="subtle"
                         size="xs"
-                        color={activeModel === model.id ? 'gray' : 'cyan'}
+                        color={activeModel === String(model.id) ? 'gray' : 'cyan'}
                         onClick={() =>
-                          onModelSelect(activeModel === model.id ? null : model.id)
+                          onModelSelect(activeModel === String(model.id) ? null : String(model.id))
                         }
                       >
-                        {activeModel === model.id ? 'Hide' : 'View'}
-                      </Button>
-                      <Button
-                        variant="subtle"
-                        size="xs"
-                        color="red"
-                        onClick={() => handleDelete(model.id)}
-                      >
-                        <Trash2 size={16} />
+                        {activeModel === String(model.id) ? 'Hide' : 'View'}
                       </Button>
+                      {canEditModel(model) && (
+                        <Button
+                          variant="subtle"
+                          size="xs"
+                          color="red"
+                          onClick={() => handleDelete(String(model.id))}
+                        >
+                          <Trash2 size={16} />
+                        </Button>
+                      )}
                     </Group>
                   </Group>
                 </Paper>
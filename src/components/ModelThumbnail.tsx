@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react'
+import { Model3D, fetchThumbnail, isAbortError } from '../api'
+
+interface ModelThumbnailProps {
+  model: Model3D
+  // CSS width; the thumbnail is square
+  size: string
+}
+
+// Preview image of a model. Until the viewer has rendered one the file format is shown instead.
+export function ModelThumbnail({ model, size }: ModelThumbnailProps) {
+  // Object URL of the image, fetched with the auth header that an <img> request cannot send
+  const [imageUrl, setImageUrl] = useState<string | null>(null)
+  const { id, has_thumbnail: hasThumbnail } = model
+
+  useEffect(() => {
+    setImageUrl(null)
+    if (!hasThumbnail) return
+    const controller = new AbortController()
+    let objectUrl: string | null = null
+    fetchThumbnail(id, { signal: controller.signal })
+      .then(blob => {
+        if (controller.signal.aborted) return
+        objectUrl = URL.createObjectURL(blob)
+        setImageUrl(objectUrl)
+      })
+      .catch(err => {
+        if (!isAbortError(err)) console.error('Error fetching thumbnail:', err)
+      })
+    return () => {
+      controller.abort()
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+  }, [id, hasThumbnail])
+
+  return (
+    <div style={{
+      width: size,
+      aspectRatio: '1',
+      flexShrink: 0,
+      borderRadius: '4px',
+      backgroundColor: '#25262b',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      overflow: 'hidden',
+      color: '#5c5f66',
+      fontSize: '11px',
+      fontWeight: 600
+    }}>
+      {imageUrl ? (
+        <img
+          src={imageUrl}
+          alt=""
+          style={{ width: '100%', height: '100%', objectFit: 'contain' }}
+          onError={() => setImageUrl(null)}
+        />
+      ) : (
+        model.file_format.toUpperCase()
+      )}
+    </div>
+  )
+}
@@ -1,307 +1,300 @@
-import React, { useState, useEffect, Suspense, useRef } from 'react'
-import { Canvas, useFrame, useThree } from '@react-three/fiber'
-import { OrbitControls, Grid, PerspectiveCamera } from '@react-three/drei'
+import { useState, useEffect, Suspense, useRef, useCallback, useMemo, MutableRefObject } from 'react'
+import { Canvas, ThreeEvent, RootState } from '@react-three/fiber'
+import { OrbitControls, Grid } from '@react-three/drei'
 import * as THREE from 'three'
-
-// Direct imports with .js extension
-import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js'
-import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js'
+import { MeasureOverlay, MeasurePanel } from './MeasureTool'
+import { SectionPlanes, SectionPanel, GizmoMode } from './SectionTool'
+import { AssemblyPanel, PartOutline, PartFramer, FrameRequest } from './AssemblyTree'
+import { AnalysisOverlay, AnalysisPanel } from './AnalysisTool'
+import { AnnotationPins, AnnotationPanel } from './AnnotationTool'
+import {
+  CameraBridge,
+  CameraFlight,
+  CameraHandle,
+  FlightRequest,
+  ProjectionCamera,
+  ViewCube,
+  ViewsPanel
+} from './CameraTool'
+import { DiffOverlay, ComparePanel, CompareBase } from './CompareTool'
+import { ScaleBar } from './ScaleBar'
+import { LoadProgress, LoadProgressPanel } from './LoadProgress'
+import { SharePanel } from './ShareTool'
+import { ExportPanel, ImageSize, MeshExportSettings, PartScope, TurntableSettings } from './ExportTool'
+import { Measurement, MeasureKind, POINTS_REQUIRED, createMeasurement } from '../utils/measure'
+import { SectionAxis, SectionPlane, createSectionPlane, isPointVisible } from '../utils/section'
+import { buildPartTree, findPart, findPartByPath, meshIds, isObjectVisible, partPath } from '../utils/assembly'
+import { analyzeModel } from '../utils/analysis'
+import { RevisionDiff, diffRevisions, loadRevisionObject } from '../utils/compare'
+import { Theme, ViewMode, LoadedModel, Projection, Vector3Tuple, ModelCamera, ViewerState, ModelPick, LengthUnit } from '../types'
+import { getLoader, LoadContext, LoadProgressCallback } from '../loaders'
+import { createMaterial, adaptMaterial, getAuthoredMaterial } from '../utils/materials'
+import {
+  Annotation,
+  AnnotationStatus,
+  Model3D,
+  PublicModel3D,
+  SavedView,
+  NewShareLink,
+  ShareLink,
+  SharedModel,
+  listAnnotations,
+  createAnnotation,
+  setAnnotationStatus,
+  deleteAnnotation,
+  replyToAnnotation,
+  listRevisions,
+  listViews,
+  createView,
+  deleteView,
+  getModel,
+  updateModel,
+  fetchDisplayFile,
+  downloadModel,
+  convertModel,
+  fetchModelAsset,
+  uploadThumbnail,
+  canEditModel,
+  listShareLinks,
+  createShareLink,
+  deleteShareLink,
+  fetchSharedDisplayFile,
+  fetchSharedAsset,
+  isAbortError
+} from '../api'
+import { ViewPreset, presetView, visibleHeight } from '../utils/camera'
+import { getUrlParam, setUrlParams, savedViewUrl, shareLinkUrl } from '../utils/url'
+import { renderThumbnail } from '../utils/thumbnail'
+import {
+  CaptureScene,
+  canRecordWebm,
+  canvasBlob,
+  downloadBlob,
+  maxImageSize,
+  recordTurntable,
+  renderImage,
+  renderTurntableFrames
+} from '../utils/capture'
+import { exportMesh } from '../utils/meshExport'
+import { LENGTH_UNITS, defaultUnits, metersPerUnit, roundLength } from '../utils/units'
 
 interface ModelViewerProps {
   modelId: string | null
+  // Called when the viewer changes the stored model, e.g. after saving its thumbnail
+  onModelUpdate?: (model: Model3D) => void
+  // Model opened through a share link; the viewer is then read-only
+  shared?: SharedModel
+  // Settings to open the model with, e.g. from a share link
+  initialState?: Partial<ViewerState>
+  // File to show instead of a stored model; the viewer is then read-only
+  file?: ViewerFile
+  // Shows only the canvas and its toolbar, for pages embedding the viewer
+  embedded?: boolean
+  // Lets code outside the viewer change the view mode and take screenshots
+  handleRef?: MutableRefObject<ModelViewerHandle | null>
+  onLoad?: () => void
+  onError?: (message: string) => void
+  // Called for clicks on the model that no tool has used
+  onPick?: (pick: ModelPick) => void
 }
 
-// Theme type definition
-type Theme = 'dark' | 'light';
+export interface ViewerFile {
+  url: string
+  // Loader format, e.g. 'stl'
+  format: string
+}
 
-// View mode type definition
-type ViewMode = 'normal' | 'wireframe' | 'x-ray';
+export interface ModelViewerHandle {
+  setViewMode: (mode: ViewMode) => void
+  // PNG data URL of the current view, null before the canvas exists
+  screenshot: () => string | null
+}
 
-// Fallback component when loading models
-function LoadingBox() {
-  const mesh = useRef<THREE.Mesh>(null)
-  
-  useFrame(() => {
-    if (mesh.current) {
-      mesh.current.rotation.x += 0.01
-      mesh.current.rotation.y += 0.01
-    }
-  })
-  
-  return (
-    <mesh ref={mesh}>
-      <boxGeometry args={[1, 1, 1]} />
-      <meshStandardMaterial color="#00b8d4" wireframe />
-    </mesh>
-  )
+interface ModelProps {
+  url: string
+  fileFormat: string
+  viewMode: ViewMode
+  objectColor: string
+  // Show materials authored in the file (MTL, glTF, 3MF, vertex colors) instead of objectColor
+  useOriginalMaterials: boolean
+  // Meters per model unit; the model is rendered at its true size
+  unitScale: number
+  context?: LoadContext
+  onProgress?: LoadProgressCallback
+  onLoad?: (loaded: LoadedModel) => void
+  onError?: (message: string) => void
 }
 
-// Camera and scene setup component
-function SceneSetup({ viewMode }: { viewMode: ViewMode }) {
-  const { scene, camera } = useThree();
-  const controlsRef = useRef<any>();
-  
-  // Auto-center camera on model
-  useEffect(() => {
-    if (!controlsRef.current) return;
-    
-    // Find all meshes in the scene
-    const meshes: THREE.Mesh[] = [];
-    scene.traverse((object) => {
-      if (object instanceof THREE.Mesh) {
-        meshes.push(object);
-      }
-    });
-    
-    if (meshes.length === 0) return;
-    
-    // Calculate bounding box for all meshes
-    const box = new THREE.Box3();
-    for (const mesh of meshes) {
-      box.expandByObject(mesh);
-    }
-    
-    const center = new THREE.Vector3();
-    const size = new THREE.Vector3();
-    box.getCenter(center);
-    box.getSize(size);
-    
-    // Set controls target to center
-    controlsRef.current.target.copy(center);
-    
-    // Position camera to see the whole model
-    const maxDim = Math.max(size.x, size.y, size.z);
-    if (maxDim > 0) {
-      const fov = camera instanceof THREE.PerspectiveCamera ? camera.fov * (Math.PI / 180) : 45 * (Math.PI / 180);
-      const distance = (maxDim / 2) / Math.tan(fov / 2) * 2.5; // Add margin
-      
-      const direction = new THREE.Vector3(1, 1, 1).normalize();
-      camera.position.copy(center).add(direction.multiplyScalar(distance));
-      camera.lookAt(center);
-      
-      // Update controls
-      controlsRef.current.update();
-    }
-  }, [scene, camera]);
+interface SceneSetupProps {
+  viewMode: ViewMode
+  autoRotate: boolean
+  // Size of the model in world units (meters), which lights and grid fading follow
+  sceneSize: number
+  // World size of a grid cell and the height of the grid, just under the model
+  gridCell: number
+  gridHeight: number
+}
+
+// Lights, grid and orbit controls
+function SceneSetup({ viewMode, autoRotate, sceneSize, gridCell, gridHeight }: SceneSetupProps) {
+  // Point lights fade with the square of their distance, so their intensity grows
+  // with it to light models of any size alike
+  const lightDistance = sceneSize * 3
+  const lightIntensity = (lightDistance / 10) ** 2
   
   return (
     <>
       <ambientLight intensity={0.8} />
-      <pointLight position={[10, 10, 10]} intensity={1} />
-      <pointLight position={[-10, -10, -10]} intensity={0.5} />
+      <pointLight position={[lightDistance, lightDistance, lightDistance]} intensity={lightIntensity} />
+      <pointLight position={[-lightDistance, -lightDistance, -lightDistance]} intensity={lightIntensity * 0.5} />
       
-      {/* Add grid for better orientation */}
+      {/* Ground grid at true scale, with a section line every 10 cells */}
       <Grid 
-        position={[0, -1, 0]} 
-        args={[20, 20]} 
-        cellSize={1} 
+        position={[0, gridHeight, 0]} 
+        infiniteGrid
+        cellSize={gridCell} 
         cellThickness={0.5} 
         cellColor="#606060" 
-        sectionSize={5}
+        sectionSize={gridCell * 10}
         sectionThickness={1}
         sectionColor="#808080"
-        fadeDistance={30}
+        fadeDistance={sceneSize * 10}
         fadeStrength={1}
         visible={viewMode !== 'x-ray'}
       />
       
       <OrbitControls 
-        ref={controlsRef}
+        makeDefault
         enablePan 
         enableZoom 
         enableRotate 
-        autoRotate={false}
+        autoRotate={autoRotate}
         autoRotateSpeed={1}
       />
     </>
   );
 }
 
-// Basic model component that loads STL or OBJ files
-function Model({ url, fileFormat, viewMode, objectColor }: { url: string, fileFormat: string, viewMode: ViewMode, objectColor: string }) {
+// Centers a loaded file on the origin at its true size, `unitScale` being meters per file unit
+function placeModel(object: THREE.Object3D, center: THREE.Vector3, unitScale: number) {
+  object.scale.setScalar(unitScale)
+  object.position.copy(center).multiplyScalar(-unitScale)
+}
+
+// Model component that loads any format known to the loader registry
+function Model({ url, fileFormat, viewMode, objectColor, useOriginalMaterials, unitScale, context, onProgress, onLoad, onError }: ModelProps) {
   const [model, setModel] = useState<THREE.Object3D | null>(null)
   const [error, setError] = useState<string | null>(null)
   const modelRef = useRef<THREE.Group>(new THREE.Group())
+  // Center of the loaded file in its own coordinates
+  const centerRef = useRef(new THREE.Vector3())
+  const unitScaleRef = useRef(unitScale)
+  unitScaleRef.current = unitScale
+  const onProgressRef = useRef(onProgress)
+  onProgressRef.current = onProgress
+  const onLoadRef = useRef(onLoad)
+  onLoadRef.current = onLoad
+  const onErrorRef = useRef(onError)
+  onErrorRef.current = onError
+  const objectColorRef = useRef(objectColor)
+  objectColorRef.current = objectColor
   
   useEffect(() => {
     console.log('Loading model:', url, 'Format:', fileFormat)
     let isActive = true
+    // Unmounting or changing the file stops a load still running, e.g. its mesh worker
+    const controller = new AbortController()
     
     const loadModel = async () => {
+      const loader = getLoader(fileFormat)
+      if (!loader) {
+        setError(`Unsupported file format: ${fileFormat}`)
+        return
+      }
+      
       try {
-        if (fileFormat === 'stl') {
-          console.log('Using STLLoader')
-          const loader = new STLLoader()
-          
-          loader.load(
-            url,
-            (geometry) => {
-              if (!isActive) return
-              
-              console.log('STL loaded successfully', geometry)
-              
-              // Compute vertex normals if they don't exist
-              if (!geometry.attributes.normal) {
-                geometry.computeVertexNormals();
-              }
-              
-              // Create material based on view mode
-              const material = createMaterial(viewMode);
-              
-              const mesh = new THREE.Mesh(geometry, material)
-              
-              // Center and scale the model
-              geometry.computeBoundingBox();
-              if (geometry.boundingBox) {
-                const box = geometry.boundingBox;
-                const center = new THREE.Vector3();
-                const size = new THREE.Vector3();
-                
-                box.getCenter(center);
-                box.getSize(size);
-                
-                // Center the geometry
-                mesh.position.set(-center.x, -center.y, -center.z);
-                
-                // Scale the model to a reasonable size
-                const maxDim = Math.max(size.x, size.y, size.z);
-                if (maxDim > 0) {
-                  const scale = 2 / maxDim;
-                  mesh.scale.set(scale, scale, scale);
-                }
-              }
-              
-              if (modelRef.current) {
-                modelRef.current.clear() // Remove any existing children
-                modelRef.current.add(mesh)
-              }
-              
-              setModel(modelRef.current)
-              console.log('STL model set')
-            },
-            (progress) => {
-              const percent = Math.round((progress.loaded / progress.total) * 100)
-              console.log(`Loading STL: ${percent}%`)
-            },
-            (err) => {
-              console.error('STL load error:', err)
-              setError('Failed to load STL model')
-            }
-          )
-        } else if (fileFormat === 'obj') {
-          console.log('Using OBJLoader')
-          const loader = new OBJLoader()
-          
-          loader.load(
-            url,
-            (obj) => {
-              if (!isActive) return
-              
-              console.log('OBJ loaded successfully', obj)
-              
-              // Calculate bounding box for scaling
-              const box = new THREE.Box3().setFromObject(obj);
-              const center = new THREE.Vector3();
-              const size = new THREE.Vector3();
-              
-              box.getCenter(center);
-              box.getSize(size);
-              
-              // Center the object
-              obj.position.set(-center.x, -center.y, -center.z);
-              
-              // Scale the model to a reasonable size
-              const maxDim = Math.max(size.x, size.y, size.z);
-              if (maxDim > 0) {
-                const scale = 2 / maxDim;
-                obj.scale.set(scale, scale, scale);
-              }
-              
-              // Apply material to all meshes based on view mode
-              obj.traverse((child) => {
-                if (child instanceof THREE.Mesh) {
-                  child.material = createMaterial(viewMode);
-                }
-              });
-              
-              if (modelRef.current) {
-                modelRef.current.clear() // Remove any existing children
-                modelRef.current.add(obj)
-              }
-              
-              setModel(modelRef.current)
-              console.log('OBJ model set')
-            },
-            (progress) => {
-              const percent = Math.round((progress.loaded / progress.total) * 100)
-              console.log(`Loading OBJ: ${percent}%`)
-            },
-            (err) => {
-              console.error('OBJ load error:', err)
-              setError('Failed to load OBJ model')
-            }
-          )
-        } else {
-          setError(`Unsupported file format: ${fileFormat}`)
+        const obj = await loader.load(
+          url,
+          (percent, stage) => onProgressRef.current?.(percent, stage),
+          context,
+          controller.signal
+        )
+        if (!isActive) return
+        
+        console.log(`${fileFormat.toUpperCase()} loaded successfully`, obj)
+        
+        // Measured before the object is placed
+        new THREE.Box3().setFromObject(obj).getCenter(centerRef.current);
+        placeModel(obj, centerRef.current, unitScaleRef.current);
+        
+        if (modelRef.current) {
+          modelRef.current.clear() // Remove any existing children
+          modelRef.current.add(obj)
         }
+        
+        setModel(modelRef.current)
+        console.log(`${fileFormat.toUpperCase()} model set`)
       } catch (err) {
-        console.error('Error in model loading process:', err)
-        setError(`Loading error: ${err}`)
+        if (!isActive) return
+        console.error(`${fileFormat.toUpperCase()} load error:`, err)
+        setError(`Failed to load ${fileFormat.toUpperCase()} model`)
       }
     }
     
+    setModel(null)
+    setError(null)
     loadModel()
     
     return () => {
       isActive = false
+      controller.abort()
     }
-  }, [url, fileFormat, viewMode])
-  
-  // Create material based on view mode
-  const createMaterial = (mode: ViewMode) => {
-    switch (mode) {
-      case 'wireframe':
-        return new THREE.MeshStandardMaterial({
-          color: objectColor,
-          metalness: 0.3,
-          roughness: 0.5,
-          wireframe: true
-        });
-      case 'x-ray':
-        return new THREE.MeshPhongMaterial({
-          color: objectColor,
-          opacity: 0.5,
-          transparent: true,
-          depthWrite: false,
-          side: THREE.DoubleSide
-        });
-      case 'normal':
-      default:
-        return new THREE.MeshStandardMaterial({
-          color: objectColor,
-          metalness: 0.3,
-          roughness: 0.5
-        });
-    }
-  };
+  }, [url, fileFormat, context])
+  
+  // Place the model again when its units are changed
+  useEffect(() => {
+    if (model) placeModel(model.children[0], centerRef.current, unitScale)
+  }, [model, unitScale])
+  
+  // Apply materials for the view mode, keeping materials authored in the file
+  useEffect(() => {
+    if (!model) return
+    
+    model.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        const authored = useOriginalMaterials ? getAuthoredMaterial(child) : undefined
+        child.material = authored
+          ? Array.isArray(authored)
+            ? authored.map(material => adaptMaterial(material, viewMode))
+            : adaptMaterial(authored, viewMode)
+          : createMaterial(viewMode, objectColorRef.current)
+      }
+    })
+    
+    // Report again so tools can re-apply settings to the new materials
+    onLoadRef.current?.({ object: model, root: model.children[0], scale: unitScale })
+  }, [model, unitScale, viewMode, useOriginalMaterials])
   
   // Ensure immediate color change
   useEffect(() => {
     if (modelRef.current) {
       modelRef.current.traverse((child) => {
-        if (child instanceof THREE.Mesh) {
+        if (child instanceof THREE.Mesh && !(useOriginalMaterials && getAuthoredMaterial(child))) {
           child.material.color.set(objectColor);
         }
       });
     }
-  }, [objectColor]);
+  }, [objectColor, useOriginalMaterials]);
   
-  if (error) {
-    // Log the error in useEffect, not in render to avoid ReactNode error
-    useEffect(() => {
+  // Log the error in useEffect, not in render to avoid ReactNode error
+  useEffect(() => {
+    if (error) {
       console.error('Model viewer error:', error)
-    }, [error])
-    
+      onErrorRef.current?.(error)
+    }
+  }, [error])
+  
+  if (error) {
     return (
       <mesh position={[0, 0, 0]}>
         <boxGeometry args={[1, 1, 1]} />
@@ -310,23 +303,104 @@ function Model({ url, fileFormat, viewMode, objectColor }: { url: string, fileFo
     )
   }
   
+  // Loading progress is shown over the canvas by the viewer
   if (!model) {
-    return <LoadingBox />
+    return null
   }
   
   return <primitive object={model} />
 }
 
-export function ModelViewer({ modelId }: ModelViewerProps) {
+export function ModelViewer({
+  modelId,
+  onModelUpdate,
+  shared,
+  initialState,
+  file,
+  embedded = false,
+  handleRef,
+  onLoad,
+  onError,
+  onPick
+}: ModelViewerProps) {
+  const readOnly = Boolean(shared || file || embedded)
   const [loading, setLoading] = useState(false)
+  // Progress of downloading and parsing the model, null once it is shown
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null)
+  const [loadCancelled, setLoadCancelled] = useState(false)
+  // Bumped to load the model again after a cancel
+  const [loadAttempt, setLoadAttempt] = useState(0)
+  const downloadController = useRef<AbortController | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [modelUrl, setModelUrl] = useState<string | null>(null)
-  const [modelInfo, setModelInfo] = useState<{name: string, file_format: string} | null>(null)
+  // Object URLs of the companion files (MTL, textures) by name, downloaded with the model
+  const [assetUrls, setAssetUrls] = useState<Record<string, string> | null>(null)
+  // Share links only reveal the public details of their model
+  const [modelInfo, setModelInfo] = useState<Model3D | PublicModel3D | null>(null)
   const [theme, setTheme] = useState<Theme>('dark')
-  const [viewMode, setViewMode] = useState<ViewMode>('normal')
-  const [autoRotate, setAutoRotate] = useState(false)
-  const [backgroundColor, setBackgroundColor] = useState('#25262b');
-  const [objectColor, setObjectColor] = useState('#00b8d4');
+  const [viewMode, setViewMode] = useState<ViewMode>(initialState?.viewMode ?? 'normal')
+  const [autoRotate, setAutoRotate] = useState(initialState?.autoRotate ?? false)
+  const [backgroundColor, setBackgroundColor] = useState(initialState?.backgroundColor ?? '#25262b');
+  const [objectColor, setObjectColor] = useState(initialState?.objectColor ?? '#00b8d4');
+  const [useOriginalMaterials, setUseOriginalMaterials] = useState(initialState?.useOriginalMaterials ?? true);
+  const [loadedModel, setLoadedModel] = useState<LoadedModel | null>(null);
+  const [showMeasure, setShowMeasure] = useState(false);
+  const [measureMode, setMeasureMode] = useState<MeasureKind | null>(null);
+  const [pendingPoints, setPendingPoints] = useState<THREE.Vector3[]>([]);
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const nextMeasurementId = useRef(1);
+  const [showSection, setShowSection] = useState(false);
+  const [sections, setSections] = useState<SectionPlane[]>([]);
+  const [selectedSectionId, setSelectedSectionId] = useState<number | null>(null);
+  const [gizmoMode, setGizmoMode] = useState<GizmoMode>('translate');
+  const nextSectionId = useRef(1);
+  const [showAssembly, setShowAssembly] = useState(false);
+  const [hiddenParts, setHiddenParts] = useState<Set<string>>(new Set());
+  const [partColors, setPartColors] = useState<Record<string, string>>({});
+  const [selectedPartId, setSelectedPartId] = useState<string | null>(null);
+  const [frameRequest, setFrameRequest] = useState<FrameRequest | null>(null);
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const [showProblemHighlights, setShowProblemHighlights] = useState(true);
+  const [showAnnotations, setShowAnnotations] = useState(false);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [placingAnnotation, setPlacingAnnotation] = useState(false);
+  const [pendingAnnotation, setPendingAnnotation] = useState<{ position: THREE.Vector3, normal: THREE.Vector3 } | null>(null);
+  const [selectedAnnotationId, setSelectedAnnotationId] = useState<number | null>(null);
+  const [showResolvedAnnotations, setShowResolvedAnnotations] = useState(true);
+  const [annotationError, setAnnotationError] = useState<string | null>(null);
+  const [flightRequest, setFlightRequest] = useState<FlightRequest | null>(null);
+  const cameraHandle = useRef<CameraHandle | null>(null);
+  const canvasState = useRef<RootState | null>(null);
+  const [revisions, setRevisions] = useState<Model3D[]>([]);
+  const [showCompare, setShowCompare] = useState(false);
+  const [compareBase, setCompareBase] = useState<CompareBase>('previous');
+  const [compareTargetIndex, setCompareTargetIndex] = useState(0);
+  const [compareTolerance, setCompareTolerance] = useState(0.1);
+  const [revisionDiff, setRevisionDiff] = useState<RevisionDiff | null>(null);
+  const [compareLoading, setCompareLoading] = useState(false);
+  const [compareError, setCompareError] = useState<string | null>(null);
+  // Parsed meshes of the revisions compared so far, by revision id
+  const revisionObjects = useRef(new Map<number, Promise<THREE.Object3D>>());
+  const [projection, setProjection] = useState<Projection>(initialState?.camera?.projection ?? 'perspective');
+  const [showViews, setShowViews] = useState(false);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  const [viewsError, setViewsError] = useState<string | null>(null);
+  // Saved view requested by the page URL, restored once the model has loaded
+  const urlViewId = useRef(getUrlParam('view'));
+  // Camera and hidden parts of initialState, applied once the model has loaded
+  const pendingState = useRef(initialState);
+  const [showShare, setShowShare] = useState(false);
+  const [shareLinks, setShareLinks] = useState<ShareLink[]>([]);
+  const [shareError, setShareError] = useState<string | null>(null);
+  const canShare = !readOnly && modelInfo !== null && 'role' in modelInfo && modelInfo.role === 'owner';
+  const [showExport, setShowExport] = useState(false);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [meshExporting, setMeshExporting] = useState(false);
+  const [meshExportError, setMeshExportError] = useState<string | null>(null);
+  const [unitsError, setUnitsError] = useState<string | null>(null);
+  // View of the model to keep while it is shown at the size of newly declared units
+  const unitsCamera = useRef<ModelCamera | null>(null);
   
   // Get theme colors
   const getThemeColors = () => {
@@ -361,55 +435,839 @@ export function ModelViewer({ modelId }: ModelViewerProps) {
     setError(null);
   };
   
+  // World-space bounds of the loaded model
+  const modelBounds = loadedModel ? new THREE.Box3().setFromObject(loadedModel.object) : null;
+  const modelCenter = modelBounds ? modelBounds.getCenter(new THREE.Vector3()) : new THREE.Vector3();
+  const modelSize = modelBounds ? modelBounds.getSize(new THREE.Vector3()) : new THREE.Vector3(1, 1, 1);
+  const modelDiagonal = modelBounds ? modelSize.length() : 2;
+  
+  // Files opened directly have no declared units and get the upload default for their format
+  const modelUnits: LengthUnit = modelInfo?.units ?? defaultUnits(file?.format ?? '');
+  // Grid cells of a round length in model units, around a tenth of the model's longest side
+  const gridCell = loadedModel
+    ? roundLength(Math.max(modelSize.x, modelSize.y, modelSize.z) / loadedModel.scale / 10)
+    : 1;
+  
+  // Size of measurement markers relative to the loaded model
+  const markerSize = modelDiagonal * 0.005;
+  
+  // Switch measure mode, discarding any half-finished pick sequence
+  const changeMeasureMode = (mode: MeasureKind | null) => {
+    setMeasureMode(mode);
+    setPendingPoints([]);
+  };
+  
+  // Toggle the measure panel
+  const toggleMeasure = () => {
+    if (showMeasure) {
+      changeMeasureMode(null);
+    }
+    setShowMeasure(!showMeasure);
+  };
+  
+  // Pick a point on the model for the active measurement
+  const handleModelClick = (e: ThreeEvent<MouseEvent>) => {
+    // Ignore clicks that ended an orbit drag, and hits on hidden parts or geometry cut away by a section
+    if (!loadedModel || e.delta > 2) return;
+    if (!isObjectVisible(e.object) || !isPointVisible(e.point, sections)) return;
+    
+    if (placingAnnotation) {
+      e.stopPropagation();
+      // Store the pin in model coordinates so it stays attached to the surface
+      const toModel = loadedModel.root.matrixWorld.clone().invert();
+      const normal = e.face
+        ? e.face.normal.clone().transformDirection(e.object.matrixWorld).transformDirection(toModel)
+        : new THREE.Vector3();
+      setPendingAnnotation({ position: e.point.clone().applyMatrix4(toModel), normal });
+      return;
+    }
+    
+    if (!measureMode) {
+      if (showAssembly) {
+        e.stopPropagation();
+        setSelectedPartId(e.object.uuid);
+      }
+      if (onPick) {
+        e.stopPropagation();
+        const point = loadedModel.root.worldToLocal(e.point.clone());
+        onPick({ point: [point.x, point.y, point.z], part: e.object.name, path: partPath(loadedModel.object, e.object) });
+      }
+      return;
+    }
+    e.stopPropagation();
+    
+    const points = [...pendingPoints, e.point.clone()];
+    if (points.length < POINTS_REQUIRED[measureMode]) {
+      setPendingPoints(points);
+      return;
+    }
+    
+    const measurement = createMeasurement(nextMeasurementId.current, measureMode, points, loadedModel.scale);
+    if (measurement) {
+      nextMeasurementId.current += 1;
+      setMeasurements(prev => [...prev, measurement]);
+    }
+    setPendingPoints([]);
+  };
+  
+  // Frame the part under the cursor
+  const handleModelDoubleClick = (e: ThreeEvent<MouseEvent>) => {
+    if (!isObjectVisible(e.object) || !isPointVisible(e.point, sections)) return;
+    e.stopPropagation();
+    framePart(e.object.uuid);
+  };
+  
+  const handleModelLoad = useCallback((loaded: LoadedModel) => {
+    setLoadedModel(loaded);
+    setLoadProgress(null);
+  }, []);
+  
+  // Updates only on whole percentages, as downloads report every chunk
+  const updateLoadProgress = useCallback((stage: LoadProgress['stage'], percent: number | null) => {
+    const rounded = percent === null ? null : Math.floor(percent);
+    setLoadProgress(prev => (prev?.stage === stage && prev.percent === rounded ? prev : { stage, percent: rounded }));
+  }, []);
+  
+  // Stored models are downloaded before the loader runs, so its reading of the local copy is not shown
+  const handleLoaderProgress = useCallback<LoadProgressCallback>((percent, stage = 'download') => {
+    if (stage === 'download' && !file) return;
+    updateLoadProgress(stage, percent);
+  }, [file, updateLoadProgress]);
+  
+  const handleModelError = useCallback((message: string) => {
+    setLoadProgress(null);
+    onError?.(message);
+  }, [onError]);
+  
+  // Stops the download or the parsing; the canvas is removed, which ends the loader
+  const cancelLoad = () => {
+    downloadController.current?.abort();
+    setLoading(false);
+    setLoadProgress(null);
+    setLoadCancelled(true);
+  };
+  
+  const retryLoad = () => {
+    setLoadCancelled(false);
+    setLoadAttempt(attempt => attempt + 1);
+  };
+  
+  const loadedRoot = loadedModel?.root;
+  const loadedScale = loadedModel?.scale;
+  const partTree = useMemo(() => loadedRoot ? buildPartTree(loadedRoot) : [], [loadedRoot]);
+  
+  // Mesh statistics, computed only while the analysis panel is open
+  const analysis = useMemo(
+    () => showAnalysis && loadedRoot && loadedScale ? analyzeModel(loadedRoot, loadedScale) : null,
+    [showAnalysis, loadedRoot, loadedScale]
+  );
+  
+  const framePart = (id: string) => {
+    setFrameRequest(prev => ({ id, nonce: (prev?.nonce ?? 0) + 1 }));
+  };
+  
+  const togglePartVisibility = (id: string) => {
+    setHiddenParts(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+  
+  // Hide every mesh outside the given part
+  const isolatePart = (id: string) => {
+    if (!loadedModel) return;
+    const part = findPart(loadedModel.object, id);
+    if (!part) return;
+    const keep = new Set(meshIds(part));
+    setHiddenParts(new Set(meshIds(loadedModel.object).filter(meshId => !keep.has(meshId))));
+    setSelectedPartId(id);
+  };
+  
+  // Apply part visibility and per-part colors to the scene
+  useEffect(() => {
+    if (!loadedModel) return;
+    loadedModel.object.traverse((child) => {
+      if (child === loadedModel.object) return;
+      child.visible = !hiddenParts.has(child.uuid);
+      const color = partColors[child.uuid];
+      if (color && child instanceof THREE.Mesh) {
+        const materials = Array.isArray(child.material) ? child.material : [child.material];
+        materials.forEach(material => material.color?.set(color));
+      }
+    });
+  }, [loadedModel, hiddenParts, partColors, objectColor]);
+  
+  // Resolve companion files (MTL, textures) against the files stored with the model
+  const loadContext = useMemo<LoadContext | undefined>(() => {
+    if (!assetUrls || Object.keys(assetUrls).length === 0) return undefined;
+    return {
+      assets: Object.keys(assetUrls),
+      assetUrl: (name) => assetUrls[name]
+    };
+  }, [assetUrls]);
+  
+  // Whether the file brought its own materials, which the user can toggle
+  const hasOriginalMaterials = useMemo(() => {
+    let found = false;
+    loadedModel?.object.traverse((child) => {
+      if (child instanceof THREE.Mesh && getAuthoredMaterial(child)) {
+        found = true;
+      }
+    });
+    return found;
+  }, [loadedModel]);
+  
+  const toggleAnnotations = () => {
+    if (showAnnotations) {
+      setPlacingAnnotation(false);
+      setPendingAnnotation(null);
+    }
+    setShowAnnotations(!showAnnotations);
+  };
+  
+  const changePlacingAnnotation = (placing: boolean) => {
+    setPlacingAnnotation(placing);
+    if (!placing) setPendingAnnotation(null);
+  };
+  
+  // Replace an annotation with the version returned by the backend
+  const updateAnnotation = (annotation: Annotation) => {
+    setAnnotations(prev => prev.map(a => a.id === annotation.id ? annotation : a));
+  };
+  
+  const runAnnotationRequest = async (request: () => Promise<void>) => {
+    setAnnotationError(null);
+    try {
+      await request();
+    } catch (err) {
+      console.error('Annotation request failed:', err);
+      setAnnotationError(err instanceof Error ? err.message : 'Request failed');
+    }
+  };
+  
+  // Post the pending pin together with the current camera view
+  const submitAnnotation = (text: string) => runAnnotationRequest(async () => {
+    if (!modelId || !loadedModel || !pendingAnnotation) return;
+    const toTuple = (v: THREE.Vector3) => v.toArray() as Vector3Tuple;
+    const handle = cameraHandle.current;
+    const root = loadedModel.root;
+    const cameraPosition = handle ? root.worldToLocal(handle.camera.position.clone()) : null;
+    const cameraTarget = handle?.controls ? root.worldToLocal(handle.controls.target.clone()) : null;
+    
+    const annotation = await createAnnotation({
+      model: Number(modelId),
+      text,
+      position: toTuple(pendingAnnotation.position),
+      normal: toTuple(pendingAnnotation.normal),
+      camera_position: cameraPosition && toTuple(cameraPosition),
+      camera_target: cameraTarget && toTuple(cameraTarget)
+    });
+    setAnnotations(prev => [...prev, annotation]);
+    setSelectedAnnotationId(annotation.id);
+    setPendingAnnotation(null);
+    setPlacingAnnotation(false);
+  });
+  
+  // Select an annotation and fly the camera to the view it was made from
+  const selectAnnotation = (id: number) => {
+    setSelectedAnnotationId(id);
+    const annotation = annotations.find(a => a.id === id);
+    if (!annotation || !loadedModel) return;
+    
+    const root = loadedModel.root;
+    const pin = root.localToWorld(new THREE.Vector3(...annotation.position));
+    const target = annotation.camera_target ? root.localToWorld(new THREE.Vector3(...annotation.camera_target)) : pin;
+    const position = annotation.camera_position
+      ? root.localToWorld(new THREE.Vector3(...annotation.camera_position))
+      : pin.clone().add(new THREE.Vector3(1, 1, 1).normalize().multiplyScalar(modelDiagonal));
+    setFlightRequest(prev => ({ position, target, nonce: (prev?.nonce ?? 0) + 1 }));
+  };
+  
+  const changeAnnotationStatus = (id: number, status: AnnotationStatus) => runAnnotationRequest(async () => {
+    updateAnnotation(await setAnnotationStatus(id, status));
+  });
+  
+  const replyAnnotation = (id: number, text: string) => runAnnotationRequest(async () => {
+    updateAnnotation(await replyToAnnotation(id, text));
+  });
+  
+  const removeAnnotation = (id: number) => runAnnotationRequest(async () => {
+    await deleteAnnotation(id);
+    setAnnotations(prev => prev.filter(a => a.id !== id));
+    if (selectedAnnotationId === id) setSelectedAnnotationId(null);
+  });
+  
+  const currentRevision = revisions.find(revision => String(revision.id) === modelId);
+  
+  // Fly to one of the standard views, framing the whole model
+  const showPreset = (preset: ViewPreset, instant = false) => {
+    const camera = cameraHandle.current?.camera;
+    if (!camera || !loadedModel) return;
+    const view = presetView(camera, new THREE.Box3().setFromObject(loadedModel.object), preset);
+    setFlightRequest(prev => ({ ...view, instant, nonce: (prev?.nonce ?? 0) + 1 }));
+  };
+  
+  // Fly to a camera given in model coordinates
+  const showCamera = (camera: ModelCamera, instant = false) => {
+    if (!loadedModel) return;
+    const root = loadedModel.root;
+    setProjection(camera.projection);
+    setFlightRequest(prev => ({
+      position: root.localToWorld(new THREE.Vector3(...camera.camera_position)),
+      target: root.localToWorld(new THREE.Vector3(...camera.camera_target)),
+      viewHeight: camera.view_height ? camera.view_height * loadedModel.scale : undefined,
+      instant,
+      nonce: (prev?.nonce ?? 0) + 1
+    }));
+  };
+  
+  const restoreView = (view: SavedView, instant = false) => {
+    if (!loadedModel) return;
+    showCamera(view, instant);
+    setUrlParams({ view: String(view.id) });
+  };
+  
+  // Values of the latest render, for effects that run when a different file has
+  // loaded rather than whenever these change
+  const latest = useRef({ loadedModel, showCamera, showPreset, restoreView, modelInfo, onLoad, onError, onModelUpdate });
+  latest.current = { loadedModel, showCamera, showPreset, restoreView, modelInfo, onLoad, onError, onModelUpdate };
+  
+  // The current camera in model coordinates, so it survives a change of the model's units
+  const currentCamera = (): ModelCamera | null => {
+    const handle = cameraHandle.current;
+    if (!loadedModel || !handle?.controls) return null;
+    const root = loadedModel.root;
+    const target = handle.controls.target;
+    return {
+      camera_position: root.worldToLocal(handle.camera.position.clone()).toArray() as Vector3Tuple,
+      camera_target: root.worldToLocal(target.clone()).toArray() as Vector3Tuple,
+      projection,
+      view_height: visibleHeight(handle.camera, target) / loadedModel.scale
+    };
+  };
+  
+  const saveView = async (name: string) => {
+    const camera = currentCamera();
+    if (!modelId || !camera) return;
+    setViewsError(null);
+    try {
+      const view = await createView({ model: Number(modelId), name, ...camera });
+      setSavedViews(prev => [...prev, view]);
+      setUrlParams({ view: String(view.id) });
+    } catch (err) {
+      console.error('Error saving view:', err);
+      setViewsError(err instanceof Error ? err.message : 'Failed to save view');
+    }
+  };
+  
+  // Declare the units the file is in, for all revisions; the model is then shown at its new size
+  const changeUnits = async (units: LengthUnit) => {
+    if (!modelInfo) return;
+    setUnitsError(null);
+    unitsCamera.current = currentCamera();
+    try {
+      const updated = await updateModel(modelInfo.id, { units });
+      setModelInfo(info => info?.id === updated.id ? updated : info);
+      onModelUpdate?.(updated);
+    } catch (err) {
+      console.error('Error changing units:', err);
+      unitsCamera.current = null;
+      setUnitsError(err instanceof Error ? err.message : 'Failed to change the units');
+    }
+  };
+  
+  const removeView = async (id: number) => {
+    setViewsError(null);
+    try {
+      await deleteView(id);
+      setSavedViews(prev => prev.filter(view => view.id !== id));
+      if (getUrlParam('view') === String(id)) setUrlParams({ view: null });
+    } catch (err) {
+      console.error('Error deleting view:', err);
+      setViewsError(err instanceof Error ? err.message : 'Failed to delete view');
+    }
+  };
+  
+  const copyViewLink = (view: SavedView) => {
+    if (!modelId) return;
+    navigator.clipboard.writeText(savedViewUrl(modelId, view.id)).catch(err => {
+      console.error('Error copying link:', err);
+      setViewsError('Could not copy the link');
+    });
+  };
+  
+  // Everything a share link reproduces, see shareLinkUrl
+  const currentViewerState = (): ViewerState => {
+    const object = loadedModel?.object;
+    return {
+      viewMode,
+      backgroundColor,
+      objectColor,
+      useOriginalMaterials,
+      autoRotate,
+      camera: currentCamera(),
+      hiddenParts: object
+        ? [...hiddenParts]
+          .map(id => findPart(object, id))
+          .map(part => part ? partPath(object, part) : null)
+          .filter((path): path is string => path !== null)
+        : []
+    };
+  };
+  
+  const runShareRequest = async (request: () => Promise<void>) => {
+    setShareError(null);
+    try {
+      await request();
+    } catch (err) {
+      console.error('Share link request failed:', err);
+      setShareError(err instanceof Error ? err.message : 'Request failed');
+    }
+  };
+  
+  const addShareLink = (link: NewShareLink) => runShareRequest(async () => {
+    if (!modelId) return;
+    const created = await createShareLink(modelId, link);
+    setShareLinks(prev => [created, ...prev]);
+    await navigator.clipboard.writeText(shareLinkUrl(created.token, currentViewerState()));
+  });
+  
+  const copyShareLink = (link: ShareLink) => runShareRequest(async () => {
+    await navigator.clipboard.writeText(shareLinkUrl(link.token, currentViewerState()));
+  });
+  
+  const removeShareLink = (id: number) => runShareRequest(async () => {
+    if (!modelId) return;
+    await deleteShareLink(modelId, id);
+    setShareLinks(prev => prev.filter(link => link.id !== id));
+  });
+  
+  // Name for exported files, from the model name without its extension
+  const exportName = (modelInfo?.name ?? file?.url.split('/').pop() ?? 'model').replace(/\.[^.]*$/, '') || 'model';
+  
+  // Canvas to export and the output size, the viewer's own in device pixels when none is chosen
+  const exportTarget = (size: ImageSize | null): { view: CaptureScene, size: ImageSize } | null => {
+    const state = canvasState.current?.get();
+    if (!state) return null;
+    return {
+      view: state,
+      size: size ?? {
+        width: Math.round(state.size.width * state.viewport.dpr),
+        height: Math.round(state.size.height * state.viewport.dpr)
+      }
+    };
+  };
+  
+  const exportImage = async (size: ImageSize | null, transparent: boolean) => {
+    const target = exportTarget(size);
+    if (!target) return;
+    setExportError(null);
+    try {
+      const image = renderImage(target.view, { ...target.size, background: transparent ? null : backgroundColor });
+      downloadBlob(await canvasBlob(image), `${exportName}.png`);
+    } catch (err) {
+      console.error('Error exporting image:', err);
+      setExportError(err instanceof Error ? err.message : 'Failed to export the image');
+    }
+  };
+  
+  const exportTurntable = async (size: ImageSize | null, settings: TurntableSettings, transparent: boolean) => {
+    const target = exportTarget(size);
+    if (!target) return;
+    setExportError(null);
+    setExportProgress(0);
+    try {
+      const center = cameraHandle.current?.controls?.target ?? new THREE.Vector3();
+      const options = {
+        ...target.size,
+        // Videos cannot be transparent
+        background: transparent && settings.format === 'png' ? null : backgroundColor,
+        frames: settings.frames,
+        fps: settings.fps
+      };
+      if (settings.format === 'webm') {
+        downloadBlob(await recordTurntable(target.view, center, options, setExportProgress), `${exportName}-turntable.webm`);
+      } else {
+        downloadBlob(await renderTurntableFrames(target.view, center, options, setExportProgress), `${exportName}-turntable.zip`);
+      }
+    } catch (err) {
+      console.error('Error exporting turntable:', err);
+      setExportError(err instanceof Error ? err.message : 'Failed to export the turntable');
+    } finally {
+      setExportProgress(null);
+    }
+  };
+  
+  // Meshes in the chosen parts of the loaded model
+  const meshFilter = (scope: PartScope): ((mesh: THREE.Mesh) => boolean) | undefined => {
+    if (scope === 'visible') return isObjectVisible;
+    if (scope === 'selected' && loadedModel && selectedPartId) {
+      const part = findPart(loadedModel.object, selectedPartId);
+      const ids = new Set(part ? meshIds(part) : []);
+      return (mesh) => ids.has(mesh.uuid);
+    }
+    return undefined;
+  };
+  
+  const exportModelMesh = async (settings: MeshExportSettings) => {
+    if (!loadedModel) return;
+    setMeshExportError(null);
+    setMeshExporting(true);
+    try {
+      // In the file's own coordinates, without the viewer's centering and scaling
+      const items = [{ object: loadedModel.root, matrix: new THREE.Matrix4() }];
+      const { blob, filename } = await exportMesh(items, { ...settings, include: meshFilter(settings.parts) }, exportName);
+      downloadBlob(blob, filename);
+    } catch (err) {
+      console.error('Error exporting mesh:', err);
+      setMeshExportError(err instanceof Error ? err.message : 'Failed to export the mesh');
+    } finally {
+      setMeshExporting(false);
+    }
+  };
+  
+  const convertModelFile = async (settings: MeshExportSettings) => {
+    if (!modelId) return;
+    setMeshExportError(null);
+    setMeshExporting(true);
+    try {
+      const blob = await convertModel(modelId, settings.format, { ascii: settings.ascii, scale: settings.scale });
+      downloadBlob(blob, `${exportName}.${settings.format}`);
+    } catch (err) {
+      console.error('Error converting model:', err);
+      setMeshExportError(err instanceof Error ? err.message : 'Failed to convert the model');
+    } finally {
+      setMeshExporting(false);
+    }
+  };
+  
+  // Frame each newly loaded model from the isometric view, or as initialState says
+  useEffect(() => {
+    const current = latest.current;
+    if (!loadedRoot || !current.loadedModel) return;
+    const state = pendingState.current;
+    pendingState.current = undefined;
+    if (state?.camera) {
+      current.showCamera(state.camera, true);
+    } else {
+      current.showPreset('iso', true);
+    }
+    if (state?.hiddenParts) {
+      const object = current.loadedModel.object;
+      const parts = state.hiddenParts.map(path => findPartByPath(object, path));
+      setHiddenParts(new Set(parts.flatMap(part => part ? [part.uuid] : [])));
+    }
+  }, [loadedRoot]);
+  
+  // Once the model is shown at the size of its new units, keep the view of it.
+  // Measurements and sections are placed in world space, so they start over.
+  useEffect(() => {
+    const camera = unitsCamera.current;
+    if (!camera || !loadedScale) return;
+    unitsCamera.current = null;
+    setPendingPoints([]);
+    setMeasurements([]);
+    setSections([]);
+    setSelectedSectionId(null);
+    latest.current.showCamera(camera, true);
+  }, [loadedScale]);
+  
+  useEffect(() => {
+    if (loadedRoot) latest.current.onLoad?.();
+  }, [loadedRoot]);
+  
+  useEffect(() => {
+    if (!handleRef) return;
+    handleRef.current = {
+      setViewMode,
+      screenshot: () => {
+        const state = canvasState.current?.get();
+        if (!state) return null;
+        // Render right before reading, the drawing buffer is cleared after each frame
+        state.gl.render(state.scene, state.camera);
+        return state.gl.domElement.toDataURL('image/png');
+      }
+    };
+    return () => {
+      handleRef.current = null;
+    };
+  }, [handleRef]);
+  
+  // Store a preview for the model list the first time a model is viewed, by
+  // someone allowed to change it. The details of the new model are already
+  // loaded by the time its mesh is.
+  useEffect(() => {
+    const info = latest.current.modelInfo;
+    if (!loadedRoot || !info || !('has_thumbnail' in info) || info.has_thumbnail || !canEditModel(info)) return;
+    renderThumbnail(loadedRoot)
+      .then(image => uploadThumbnail(info.id, image))
+      .then(updated => {
+        setModelInfo(current => current?.id === updated.id ? updated : current);
+        latest.current.onModelUpdate?.(updated);
+      })
+      .catch(err => console.error('Error storing thumbnail:', err));
+  }, [loadedRoot]);
+  
+  // Restore the saved view named in the page URL once both the model and its views are loaded
+  useEffect(() => {
+    if (!loadedRoot || !urlViewId.current) return;
+    const view = savedViews.find(v => String(v.id) === urlViewId.current);
+    if (view) {
+      urlViewId.current = null;
+      latest.current.restoreView(view, true);
+    }
+  }, [loadedRoot, savedViews]);
+  
+  // Open compare mode on the displayed revision with a tolerance relative to the model size
+  const toggleCompare = () => {
+    if (!showCompare) {
+      setCompareTargetIndex(currentRevision ? revisions.indexOf(currentRevision) : 0);
+      if (loadedModel) {
+        setCompareTolerance(Number((modelDiagonal / loadedModel.scale * 0.001).toPrecision(2)));
+      }
+    }
+    setShowCompare(!showCompare);
+  };
+  
+  const compareTarget = showCompare ? revisions[compareTargetIndex] : undefined;
+  const compareBaseRevision = !compareTarget
+    ? undefined
+    : compareBase === 'previous'
+      ? revisions[compareTargetIndex - 1]
+      : revisions.find(revision => revision.id === compareBase);
+  
+  // Diff the chosen revisions, placed like the displayed model so they share its world space
+  useEffect(() => {
+    setRevisionDiff(null);
+    setCompareError(null);
+    if (!compareTarget || !loadedRoot || !loadedScale) return;
+    if (!compareBaseRevision) {
+      setCompareError('The first revision has nothing to compare against');
+      return;
+    }
+    
+    const load = (revision: Model3D) => {
+      const cache = revisionObjects.current;
+      const cached = cache.get(revision.id);
+      if (cached) return cached;
+      const object = loadRevisionObject(revision);
+      cache.set(revision.id, object);
+      // A failed load is tried again the next time the revision is compared
+      object.catch(() => {
+        if (cache.get(revision.id) === object) cache.delete(revision.id);
+      });
+      return object;
+    };
+    
+    let isActive = true;
+    setCompareLoading(true);
+    Promise.all([load(compareBaseRevision), load(compareTarget)])
+      .then(([older, newer]) => {
+        if (!isActive) return;
+        for (const object of [older, newer]) {
+          object.position.copy(loadedRoot.position);
+          object.quaternion.copy(loadedRoot.quaternion);
+          object.scale.copy(loadedRoot.scale);
+        }
+        setRevisionDiff(diffRevisions(older, newer, compareTolerance * loadedScale));
+      })
+      .catch(err => {
+        console.error('Error comparing revisions:', err);
+        if (isActive) setCompareError(err instanceof Error ? err.message : 'Failed to compare revisions');
+      })
+      .finally(() => {
+        if (isActive) setCompareLoading(false);
+      });
+    
+    return () => {
+      isActive = false;
+      setCompareLoading(false);
+    };
+  }, [compareTarget, compareBaseRevision, compareTolerance, loadedRoot, loadedScale]);
+  
+  // Add a section plane through the model center
+  const addSection = (axis: SectionAxis) => {
+    const section = createSectionPlane(nextSectionId.current, axis, modelCenter);
+    nextSectionId.current += 1;
+    setSections(prev => [...prev, section]);
+    setSelectedSectionId(section.id);
+  };
+  
+  const updateSection = (section: SectionPlane) => {
+    setSections(prev => prev.map(s => s.id === section.id ? section : s));
+  };
+  
+  const removeSection = (id: number) => {
+    setSections(prev => prev.filter(s => s.id !== id));
+    if (selectedSectionId === id) {
+      setSelectedSectionId(null);
+    }
+  };
+  
+  // Reset measurements and sections whenever a different model is opened
+  useEffect(() => {
+    setLoadedModel(null);
+    setPendingPoints([]);
+    setMeasurements([]);
+    setSections([]);
+    setSelectedSectionId(null);
+    setHiddenParts(new Set());
+    setPartColors({});
+    setSelectedPartId(null);
+    setFrameRequest(null);
+    setAnnotations([]);
+    setPendingAnnotation(null);
+    setSelectedAnnotationId(null);
+    setAnnotationError(null);
+    setFlightRequest(null);
+    setShowCompare(false);
+    setRevisions([]);
+    revisionObjects.current.clear();
+    setSavedViews([]);
+    setViewsError(null);
+    setShareLinks([]);
+    setShareError(null);
+    setUnitsError(null);
+    unitsCamera.current = null;
+  }, [modelId]);
+  
+  // Load the share links of the displayed revision while the panel is open
+  useEffect(() => {
+    if (!modelId || !showShare || !canShare) return;
+    let isActive = true;
+    listShareLinks(modelId)
+      .then(data => {
+        if (isActive) setShareLinks(data);
+      })
+      .catch(err => {
+        console.error('Error fetching share links:', err);
+        if (isActive) setShareError('Failed to load share links');
+      });
+    return () => {
+      isActive = false;
+    };
+  }, [modelId, showShare, canShare]);
+  
+  // Load the saved camera views of the model
+  useEffect(() => {
+    if (!modelId || readOnly) return;
+    let isActive = true;
+    listViews(modelId)
+      .then(data => {
+        if (isActive) setSavedViews(data);
+      })
+      .catch(err => console.error('Error fetching saved views:', err));
+    return () => {
+      isActive = false;
+    };
+  }, [modelId, readOnly]);
+  
+  // Load the revision history used by compare mode
+  useEffect(() => {
+    if (!modelId || readOnly) return;
+    let isActive = true;
+    listRevisions(modelId)
+      .then(data => {
+        if (isActive) setRevisions(data);
+      })
+      .catch(err => console.error('Error fetching revisions:', err));
+    return () => {
+      isActive = false;
+    };
+  }, [modelId, readOnly]);
+  
+  // Load the comments pinned to the model
+  useEffect(() => {
+    if (!modelId || readOnly) return;
+    let isActive = true;
+    listAnnotations(modelId)
+      .then(data => {
+        if (isActive) setAnnotations(data);
+      })
+      .catch(err => {
+        console.error('Error fetching annotations:', err);
+        if (isActive) setAnnotationError('Failed to load comments');
+      });
+    return () => {
+      isActive = false;
+    };
+  }, [modelId, readOnly]);
+  
   // Ensure model URL is valid and log errors
   useEffect(() => {
+    setLoadCancelled(false)
+    if (file) {
+      setModelUrl(file.url)
+      setAssetUrls(null)
+      setModelInfo(null)
+      updateLoadProgress('download', null)
+      return
+    }
     if (!modelId) {
       setModelUrl(null)
+      setAssetUrls(null)
       setModelInfo(null)
+      setLoadProgress(null)
       return
     }
     
+    const controller = new AbortController()
+    downloadController.current = controller
+    let objectUrl: string | null = null
+    const assetObjectUrls: string[] = []
+    
     const fetchModel = async () => {
       setLoading(true)
       setError(null)
+      updateLoadProgress('download', null)
       
       try {
         console.log(`Fetching model with ID: ${modelId}`)
         
         // Step 1: Get model details
-        const detailsResponse = await fetch(`http://localhost:8000/api/models/${modelId}/`)
-        if (!detailsResponse.ok) {
-          throw new Error(`Failed to fetch model details: ${detailsResponse.status}`)
-        }
-        
-        const modelData = await detailsResponse.json()
+        const modelData = shared ? shared.model : await getModel(modelId)
         console.log('Model details:', modelData)
+        setModelInfo(modelData)
         
-        setModelInfo({
-          name: modelData.name,
-          file_format: modelData.file_format
-        })
-        
-        // Step 2: Download the model file
-        console.log(`Downloading model from: http://localhost:8000/api/models/${modelId}/download/`)
-        const fileResponse = await fetch(`http://localhost:8000/api/models/${modelId}/download/`)
-        
-        if (!fileResponse.ok) {
-          throw new Error(`Failed to download model: ${fileResponse.status}`)
+        // Step 2: Download the viewable mesh (tessellated GLB for STEP/IGES, else the original)
+        const progress = {
+          onProgress: (loaded: number, total: number) => updateLoadProgress('download', total ? (loaded / total) * 100 : null),
+          signal: controller.signal
         }
-        
-        const blob = await fileResponse.blob()
+        const blob = shared ? await fetchSharedDisplayFile(shared, progress) : await fetchDisplayFile(modelId, progress)
         console.log(`Downloaded model file (${blob.size} bytes)`)
         
+        // Step 3: Download the companion files. They are fetched with the auth header like
+        // the model, as loaders requesting them by URL could not send it.
+        const assets: Record<string, string> = {}
+        for (const { name } of modelData.assets) {
+          const options = { signal: controller.signal }
+          const assetBlob = shared ? await fetchSharedAsset(shared, name, options) : await fetchModelAsset(modelId, name, options)
+          const assetUrl = URL.createObjectURL(assetBlob)
+          assetObjectUrls.push(assetUrl)
+          assets[name] = assetUrl
+        }
+        
         // Create a URL for the blob
-        const url = URL.createObjectURL(blob)
-        console.log('Created object URL:', url)
-        setModelUrl(url)
+        objectUrl = URL.createObjectURL(blob)
+        console.log('Created object URL:', objectUrl)
+        setAssetUrls(assets)
+        setModelUrl(objectUrl)
+        updateLoadProgress('parse', 0)
       } catch (err) {
+        // Cancelled, or replaced by another model
+        if (isAbortError(err)) return
+        setLoadProgress(null)
         console.error('Error in fetch process:', err)
-        setError(`Error: ${err}`)
+        setError(`Error: ${err instanceof Error ? err.message : err}`)
+        latest.current.onError?.(err instanceof Error ? err.message : String(err))
       } finally {
-        setLoading(false)
+        if (!controller.signal.aborted) setLoading(false)
       }
     }
     
@@ -417,12 +1275,24 @@ export function ModelViewer({ modelId }: ModelViewerProps) {
     
     // Clean up URL when component unmounts or modelId changes
     return () => {
-      if (modelUrl) {
-        console.log('Revoking object URL:', modelUrl)
-        URL.revokeObjectURL(modelUrl)
+      controller.abort()
+      if (objectUrl) {
+        console.log('Revoking object URL:', objectUrl)
+        URL.revokeObjectURL(objectUrl)
       }
+      assetObjectUrls.forEach(url => URL.revokeObjectURL(url))
+    }
+  }, [modelId, shared, file, loadAttempt, updateLoadProgress])
+  
+  // Save the original uploaded file
+  const handleDownload = async () => {
+    if (!modelId || !modelInfo || !('file_name' in modelInfo)) return
+    try {
+      downloadBlob(await downloadModel(modelId), modelInfo.file_name || modelInfo.name)
+    } catch (err) {
+      console.error('Error downloading model:', err)
     }
-  }, [modelId])
+  }
   
   // Apply dark mode to the entire document and ensure all elements reflect the theme
   useEffect(() => {
@@ -431,8 +1301,10 @@ export function ModelViewer({ modelId }: ModelViewerProps) {
     // Update other elements if needed
   }, [theme]);
   
+  const displayFormat = file ? file.format : modelInfo?.display_format;
+  
   // Content for different states
-  if (!modelId) {
+  if (!modelId && !file) {
     return (
       <div style={{
         height: '100%',
@@ -464,18 +1336,11 @@ export function ModelViewer({ modelId }: ModelViewerProps) {
         padding: '20px',
         backgroundColor: colors.background,
       }}>
-        <div>
-          <div style={{ 
-            width: '40px', 
-            height: '40px', 
-            border: `4px solid ${colors.border}`,
-            borderTopColor: colors.accent,
-            borderRadius: '50%',
-            animation: 'spin 1s linear infinite',
-            margin: '0 auto 20px'
-          }} />
-          <p>Loading model data...</p>
-        </div>
+        <LoadProgressPanel
+          colors={colors}
+          progress={loadProgress ?? { stage: 'download', percent: null }}
+          onCancel={cancelLoad}
+        />
       </div>
     )
   }
@@ -524,60 +1389,189 @@ export function ModelViewer({ modelId }: ModelViewerProps) {
       color: colors.text,
     }}>
       {/* Header with model info and theme toggle */}
-      <div style={{
-        padding: '10px 15px',
-        borderBottom: `1px solid ${colors.border}`,
-        backgroundColor: colors.surface,
-        display: 'flex',
-        justifyContent: 'space-between',
-        alignItems: 'center'
-      }}>
-        <div>
-          <h3 style={{ color: colors.accent, margin: '0 0 5px 0' }}>
-            {modelInfo?.name}
-          </h3>
-          <p style={{ fontSize: '12px', color: colors.textSecondary, margin: 0 }}>
-            Format: {modelInfo?.file_format.toUpperCase()}
-          </p>
-        </div>
+      {!embedded && (
+        <div style={{
+          padding: '10px 15px',
+          borderBottom: `1px solid ${colors.border}`,
+          backgroundColor: colors.surface,
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <div>
+            <h3 style={{ color: colors.accent, margin: '0 0 5px 0' }}>
+              {modelInfo?.name}
+            </h3>
+            <p style={{ fontSize: '12px', color: colors.textSecondary, margin: 0 }}>
+              Format: {modelInfo?.file_format.toUpperCase()}
+              {currentRevision && revisions.length > 1 && ` • Rev ${currentRevision.revision} of ${revisions.length}`}
+              {' • Units: '}
+              {modelInfo && !readOnly && canEditModel(modelInfo) ? (
+                <select
+                  style={{
+                    backgroundColor: colors.background,
+                    color: colors.text,
+                    border: `1px solid ${colors.border}`,
+                    borderRadius: '4px',
+                    fontSize: '12px'
+                  }}
+                  value={modelUnits}
+                  onChange={(e) => changeUnits(e.target.value as LengthUnit)}
+                  title="Units the file's coordinates are in. Changing them rescales the model without changing the file."
+                >
+                  {LENGTH_UNITS.map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              ) : modelUnits}
+              {unitsError && <span style={{ color: '#f44336' }}> {unitsError}</span>}
+            </p>
+          </div>
         
-        {/* Theme toggle button */}
-        <button
-          style={{
-            backgroundColor: 'transparent',
-            border: `1px solid ${colors.border}`,
-            color: colors.text,
-            padding: '5px 10px',
-            borderRadius: '4px',
-            cursor: 'pointer',
-            display: 'flex',
-            alignItems: 'center',
-            gap: '5px'
-          }}
-          onClick={toggleTheme}
-          title={`Switch to ${theme === 'dark' ? 'light' : 'dark'} mode`}
-        >
-          {theme === 'dark' ? '☀️ Light' : '🌙 Dark'}
-        </button>
-      </div>
+          <div style={{ display: 'flex', gap: '10px' }}>
+          {!readOnly && (
+            <button
+              style={{
+                backgroundColor: 'transparent',
+                border: `1px solid ${colors.border}`,
+                color: colors.text,
+                padding: '5px 10px',
+                borderRadius: '4px',
+                cursor: 'pointer'
+              }}
+              onClick={handleDownload}
+              title="Download the original file"
+            >
+              Download
+            </button>
+          )}
+        
+          {/* Theme toggle button */}
+          <button
+            style={{
+              backgroundColor: 'transparent',
+              border: `1px solid ${colors.border}`,
+              color: colors.text,
+              padding: '5px 10px',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '5px'
+            }}
+            onClick={toggleTheme}
+            title={`Switch to ${theme === 'dark' ? 'light' : 'dark'} mode`}
+          >
+            {theme === 'dark' ? '☀️ Light' : '🌙 Dark'}
+          </button>
+          </div>
+        </div>
+      )}
       
+      <div style={{ flex: 1, display: 'flex', overflow: 'hidden' }}>
       {/* 3D Viewer */}
-      <div style={{ flex: 1, position: 'relative' }}>
-        {modelUrl && modelInfo ? (
+      <div style={{ flex: 1, position: 'relative', cursor: measureMode || placingAnnotation ? 'crosshair' : 'auto' }}>
+        {loadCancelled ? (
+          <div style={{
+            height: '100%',
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            justifyContent: 'center',
+            gap: '12px',
+            color: colors.textSecondary,
+          }}>
+            <p style={{ margin: 0 }}>Loading cancelled</p>
+            <button
+              style={{
+                padding: '6px 14px',
+                backgroundColor: colors.accent,
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer'
+              }}
+              onClick={retryLoad}
+            >
+              Load again
+            </button>
+          </div>
+        ) : modelUrl && displayFormat ? (
           <Canvas
-            camera={{ position: [0, 0, 5], fov: 50 }}
+            gl={{ stencil: true }}
             style={{ background: backgroundColor }}
+            onCreated={(state) => {
+              canvasState.current = state;
+            }}
           >
-            <SceneSetup viewMode={viewMode} />
+            <ProjectionCamera projection={projection} sceneSize={modelDiagonal} />
+            <SceneSetup
+              viewMode={viewMode}
+              autoRotate={autoRotate}
+              sceneSize={modelDiagonal}
+              gridCell={gridCell * (loadedModel?.scale ?? 1)}
+              gridHeight={modelBounds ? modelBounds.min.y : -1}
+            />
+            <ViewCube colors={colors} />
+            <CameraBridge handleRef={cameraHandle} />
+            <CameraFlight request={flightRequest} />
             
-            <Suspense fallback={<LoadingBox />}>
-              <Model 
-                url={modelUrl} 
-                fileFormat={modelInfo.file_format}
-                viewMode={viewMode}
-                objectColor={objectColor}
-              />
+            <Suspense fallback={null}>
+              <group onClick={handleModelClick} onDoubleClick={handleModelDoubleClick} visible={!(showCompare && revisionDiff)}>
+                <Model 
+                  url={modelUrl} 
+                  fileFormat={displayFormat}
+                  viewMode={viewMode}
+                  objectColor={objectColor}
+                  useOriginalMaterials={useOriginalMaterials}
+                  unitScale={metersPerUnit(modelUnits)}
+                  context={loadContext}
+                  onProgress={handleLoaderProgress}
+                  onLoad={handleModelLoad}
+                  onError={handleModelError}
+                />
+              </group>
             </Suspense>
+            
+            {loadedModel && (
+              <ScaleBar
+                colors={colors}
+                scale={loadedModel.scale}
+                units={modelUnits}
+                gridCell={viewMode !== 'x-ray' ? gridCell : null}
+              />
+            )}
+            
+            <MeasureOverlay
+              measurements={measurements}
+              pendingPoints={pendingPoints}
+              markerSize={markerSize}
+            />
+            
+            <PartOutline model={loadedModel} selectedId={showAssembly ? selectedPartId : null} />
+            <PartFramer model={loadedModel} request={frameRequest} />
+            <AnalysisOverlay analysis={analysis} visible={showAnalysis && showProblemHighlights} />
+            {showCompare && <DiffOverlay diff={revisionDiff} />}
+            
+            {showAnnotations && (
+              <AnnotationPins
+                model={loadedModel}
+                annotations={annotations}
+                pending={pendingAnnotation?.position ?? null}
+                selectedId={selectedAnnotationId}
+                showResolved={showResolvedAnnotations}
+                onSelect={selectAnnotation}
+              />
+            )}
+            
+            <SectionPlanes
+              model={loadedModel}
+              sections={sections}
+              selectedId={showSection ? selectedSectionId : null}
+              gizmoMode={gizmoMode}
+              capColor={objectColor}
+              onChange={updateSection}
+            />
           </Canvas>
         ) : (
           <div style={{
@@ -591,6 +1585,23 @@ export function ModelViewer({ modelId }: ModelViewerProps) {
           </div>
         )}
         
+        {/* Parsing progress over the canvas */}
+        {loadProgress && !loadCancelled && modelUrl && displayFormat && (
+          <div style={{
+            position: 'absolute',
+            inset: 0,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            pointerEvents: 'none',
+            zIndex: 20
+          }}>
+            <div style={{ pointerEvents: 'auto' }}>
+              <LoadProgressPanel colors={colors} progress={loadProgress} onCancel={cancelLoad} />
+            </div>
+          </div>
+        )}
+        
         {/* View controls overlay */}
         <div style={{
           position: 'absolute',
@@ -664,42 +1675,346 @@ export function ModelViewer({ modelId }: ModelViewerProps) {
           >
             {autoRotate ? 'Stop Rotation' : 'Auto Rotate'}
           </button>
+          
+          <button
+            style={{
+              backgroundColor: showMeasure ? colors.accent : 'transparent',
+              color: showMeasure ? 'white' : colors.text,
+              border: `1px solid ${colors.border}`,
+              padding: '5px 10px',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '12px'
+            }}
+            onClick={toggleMeasure}
+          >
+            Measure
+          </button>
+          
+          <button
+            style={{
+              backgroundColor: showSection ? colors.accent : 'transparent',
+              color: showSection ? 'white' : colors.text,
+              border: `1px solid ${colors.border}`,
+              padding: '5px 10px',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '12px'
+            }}
+            onClick={() => setShowSection(!showSection)}
+          >
+            Section
+          </button>
+          
+          <button
+            style={{
+              backgroundColor: showAssembly ? colors.accent : 'transparent',
+              color: showAssembly ? 'white' : colors.text,
+              border: `1px solid ${colors.border}`,
+              padding: '5px 10px',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '12px'
+            }}
+            onClick={() => setShowAssembly(!showAssembly)}
+          >
+            Parts
+          </button>
+          
+          <button
+            style={{
+              backgroundColor: showAnalysis ? colors.accent : 'transparent',
+              color: showAnalysis ? 'white' : colors.text,
+              border: `1px solid ${colors.border}`,
+              padding: '5px 10px',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '12px'
+            }}
+            onClick={() => setShowAnalysis(!showAnalysis)}
+          >
+            Analysis
+          </button>
+          
+          {/* Comments and saved views belong to signed in users */}
+          {!readOnly && (
+            <>
+              <button
+                style={{
+                  backgroundColor: showAnnotations ? colors.accent : 'transparent',
+                  color: showAnnotations ? 'white' : colors.text,
+                  border: `1px solid ${colors.border}`,
+                  padding: '5px 10px',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                  fontSize: '12px'
+                }}
+                onClick={toggleAnnotations}
+              >
+                Comments
+              </button>
+              
+              <button
+                style={{
+                  backgroundColor: showViews ? colors.accent : 'transparent',
+                  color: showViews ? 'white' : colors.text,
+                  border: `1px solid ${colors.border}`,
+                  padding: '5px 10px',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                  fontSize: '12px'
+                }}
+                onClick={() => setShowViews(!showViews)}
+              >
+                Views
+              </button>
+            </>
+          )}
+          
+          {revisions.length > 1 && (
+            <button
+              style={{
+                backgroundColor: showCompare ? colors.accent : 'transparent',
+                color: showCompare ? 'white' : colors.text,
+                border: `1px solid ${colors.border}`,
+                padding: '5px 10px',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '12px'
+              }}
+              onClick={toggleCompare}
+            >
+              Compare
+            </button>
+          )}
+          
+          <button
+            style={{
+              backgroundColor: showExport ? colors.accent : 'transparent',
+              color: showExport ? 'white' : colors.text,
+              border: `1px solid ${colors.border}`,
+              padding: '5px 10px',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '12px'
+            }}
+            onClick={() => setShowExport(!showExport)}
+          >
+            Export
+          </button>
+          
+          {canShare && (
+            <button
+              style={{
+                backgroundColor: showShare ? colors.accent : 'transparent',
+                color: showShare ? 'white' : colors.text,
+                border: `1px solid ${colors.border}`,
+                padding: '5px 10px',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '12px'
+              }}
+              onClick={() => setShowShare(!showShare)}
+            >
+              Share
+            </button>
+          )}
         </div>
         
         {/* Color controls */}
+        {!embedded && (
+          <div style={{
+            position: 'absolute',
+            top: '20px',
+            left: '50%',
+            transform: 'translateX(-50%)',
+            display: 'flex',
+            gap: '10px',
+            padding: '8px 12px',
+            backgroundColor: colors.surface,
+            borderRadius: '8px',
+            boxShadow: '0 2px 10px rgba(0,0,0,0.2)',
+            zIndex: 10
+          }}>
+            <input type="color" value={backgroundColor} onChange={(e) => setBackgroundColor(e.target.value)} />
+            <input type="color" value={objectColor} onChange={(e) => setObjectColor(e.target.value)} />
+            {hasOriginalMaterials && (
+              <label style={{ display: 'flex', alignItems: 'center', gap: '5px', fontSize: '12px', color: colors.text }}>
+                <input
+                  type="checkbox"
+                  checked={useOriginalMaterials}
+                  onChange={(e) => setUseOriginalMaterials(e.target.checked)}
+                />
+                Use original materials
+              </label>
+            )}
+          </div>
+        )}
+      </div>
+      
+      {/* Tool side panel */}
+      {(showMeasure || showSection || showAssembly || showAnalysis || showAnnotations || showCompare || showViews || showExport || (showShare && canShare)) && (
         <div style={{
-          position: 'absolute',
-          top: '20px',
-          left: '50%',
-          transform: 'translateX(-50%)',
-          display: 'flex',
-          gap: '10px',
-          padding: '8px 12px',
+          width: '260px',
+          padding: '15px',
+          borderLeft: `1px solid ${colors.border}`,
           backgroundColor: colors.surface,
-          borderRadius: '8px',
-          boxShadow: '0 2px 10px rgba(0,0,0,0.2)',
-          zIndex: 10
+          overflowY: 'auto',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '20px'
         }}>
-          <input type="color" value={backgroundColor} onChange={(e) => setBackgroundColor(e.target.value)} />
-          <input type="color" value={objectColor} onChange={(e) => setObjectColor(e.target.value)} />
+          {showExport && (
+            <ExportPanel
+              colors={colors}
+              maxSize={canvasState.current ? maxImageSize(canvasState.current.gl) : 4096}
+              canRecordVideo={canRecordWebm()}
+              progress={exportProgress}
+              error={exportError}
+              onExportImage={exportImage}
+              onExportTurntable={exportTurntable}
+              mesh={loadedModel ? {
+                scopes: selectedPartId ? ['all', 'visible', 'selected'] : ['all', 'visible'],
+                units: modelUnits,
+                busy: meshExporting,
+                error: meshExportError,
+                onExport: exportModelMesh,
+                // Only models in the library have a file on the server
+                onConvert: modelId && !shared && !file ? convertModelFile : undefined
+              } : undefined}
+            />
+          )}
+          {showShare && canShare && (
+            <SharePanel
+              colors={colors}
+              links={shareLinks}
+              error={shareError}
+              onCreate={addShareLink}
+              onCopyLink={copyShareLink}
+              onDelete={removeShareLink}
+            />
+          )}
+          {showViews && (
+            <ViewsPanel
+              colors={colors}
+              projection={projection}
+              views={savedViews}
+              error={viewsError}
+              onPreset={showPreset}
+              onProjectionChange={setProjection}
+              onSave={saveView}
+              onRestore={restoreView}
+              onCopyLink={copyViewLink}
+              onDelete={removeView}
+            />
+          )}
+          {showMeasure && (
+            <MeasurePanel
+              colors={colors}
+              mode={measureMode}
+              pendingCount={pendingPoints.length}
+              measurements={measurements}
+              units={modelUnits}
+              onModeChange={changeMeasureMode}
+              onRemove={(id) => setMeasurements(prev => prev.filter(m => m.id !== id))}
+              onClear={() => setMeasurements([])}
+            />
+          )}
+          {showSection && (
+            <SectionPanel
+              colors={colors}
+              sections={sections}
+              selectedId={selectedSectionId}
+              gizmoMode={gizmoMode}
+              center={modelCenter}
+              extent={modelDiagonal / 2}
+              onAdd={addSection}
+              onSelect={setSelectedSectionId}
+              onChange={updateSection}
+              onRemove={removeSection}
+              onGizmoModeChange={setGizmoMode}
+            />
+          )}
+          {showAssembly && (
+            <AssemblyPanel
+              colors={colors}
+              tree={partTree}
+              hidden={hiddenParts}
+              partColors={partColors}
+              defaultColor={objectColor}
+              selectedId={selectedPartId}
+              onSelect={setSelectedPartId}
+              onToggleVisibility={togglePartVisibility}
+              onIsolate={isolatePart}
+              onShowAll={() => setHiddenParts(new Set())}
+              onColorChange={(id, color) => setPartColors(prev => ({ ...prev, [id]: color }))}
+              onFrame={framePart}
+            />
+          )}
+          {showAnalysis && (
+            <AnalysisPanel
+              colors={colors}
+              analysis={analysis}
+              units={modelUnits}
+              showHighlights={showProblemHighlights}
+              onShowHighlightsChange={setShowProblemHighlights}
+            />
+          )}
+          {showAnnotations && (
+            <AnnotationPanel
+              colors={colors}
+              annotations={annotations}
+              selectedId={selectedAnnotationId}
+              placing={placingAnnotation}
+              hasPending={pendingAnnotation !== null}
+              showResolved={showResolvedAnnotations}
+              error={annotationError}
+              onPlacingChange={changePlacingAnnotation}
+              onSubmitPending={submitAnnotation}
+              onCancelPending={() => setPendingAnnotation(null)}
+              onSelect={selectAnnotation}
+              onStatusChange={changeAnnotationStatus}
+              onDelete={removeAnnotation}
+              onReply={replyAnnotation}
+              onShowResolvedChange={setShowResolvedAnnotations}
+            />
+          )}
+          {showCompare && (
+            <ComparePanel
+              colors={colors}
+              revisions={revisions}
+              base={compareBase}
+              targetIndex={compareTargetIndex}
+              tolerance={compareTolerance}
+              diff={revisionDiff}
+              loading={compareLoading}
+              error={compareError}
+              onBaseChange={setCompareBase}
+              onTargetIndexChange={setCompareTargetIndex}
+              onToleranceChange={setCompareTolerance}
+            />
+          )}
         </div>
+      )}
       </div>
       
       {/* Debugging info */}
-      <div style={{
-        padding: '10px 15px',
-        borderTop: `1px solid ${colors.border}`,
-        backgroundColor: colors.surface,
-        fontSize: '12px',
-        color: colors.textSecondary,
-      }}>
-        <p style={{ margin: 0 }}>
-          Model ID: {modelId} • 
-          Format: {modelInfo?.file_format || 'Unknown'} •
-          View Mode: {viewMode} •
-          Theme: {theme}
-        </p>
-      </div>
+      {!embedded && (
+        <div style={{
+          padding: '10px 15px',
+          borderTop: `1px solid ${colors.border}`,
+          backgroundColor: colors.surface,
+          fontSize: '12px',
+          color: colors.textSecondary,
+        }}>
+          <p style={{ margin: 0 }}>
+            Model ID: {modelId} • 
+            Format: {modelInfo?.file_format || 'Unknown'} •
+            View Mode: {viewMode} •
+            Theme: {theme}
+          </p>
+        </div>
+      )}
       
       {/* Spinner animation */}
       <style>
@@ -0,0 +1,266 @@
+import React, { useMemo, useState } from 'react'
+import { Project } from '../api'
+import { MODEL_DRAG_TYPE, PROJECT_DRAG_TYPE, ProjectSelection, projectDescendants } from '../utils/projects'
+
+interface ProjectTreeProps {
+  projects: Project[]
+  selected: ProjectSelection
+  onSelect: (selection: ProjectSelection) => void
+  onCreate: (name: string, parent: number | null) => void
+  onRename: (id: number, name: string) => void
+  onDelete: (project: Project) => void
+  // project null files the model nowhere, parent null moves the project to the top level
+  onMoveModel: (modelId: number, project: number | null) => void
+  onMoveProject: (id: number, parent: number | null) => void
+}
+
+const actionStyle = {
+  backgroundColor: 'transparent',
+  border: 'none',
+  color: '#909296',
+  cursor: 'pointer',
+  padding: '0 3px',
+  fontSize: '12px'
+}
+
+const inputStyle = {
+  flex: 1,
+  minWidth: 0,
+  padding: '3px 6px',
+  fontSize: '13px',
+  backgroundColor: '#1A1B1E',
+  color: '#C1C2C5',
+  border: '1px solid #373A40',
+  borderRadius: '4px'
+}
+
+function NameInput({ initial, onSubmit, onCancel }: {
+  initial: string
+  onSubmit: (name: string) => void
+  onCancel: () => void
+}) {
+  const [name, setName] = useState(initial)
+  const submit = () => {
+    if (name.trim()) {
+      onSubmit(name.trim())
+    } else {
+      onCancel()
+    }
+  }
+  return (
+    <input
+      style={inputStyle}
+      value={name}
+      placeholder="Project name"
+      autoFocus
+      onClick={(e) => e.stopPropagation()}
+      onChange={(e) => setName(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') submit()
+        if (e.key === 'Escape') onCancel()
+      }}
+      onBlur={submit}
+    />
+  )
+}
+
+// Sidebar tree of projects. Models and projects can be dragged onto a project to move them.
+export function ProjectTree({
+  projects,
+  selected,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onMoveModel,
+  onMoveProject
+}: ProjectTreeProps) {
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set())
+  // Parent of the project being created: a project id, or null for the top level
+  const [creatingIn, setCreatingIn] = useState<number | null | undefined>(undefined)
+  const [renamingId, setRenamingId] = useState<number | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [draggedProject, setDraggedProject] = useState<number | null>(null)
+
+  const children = useMemo(() => {
+    const byParent = new Map<number | null, Project[]>()
+    for (const project of projects) {
+      byParent.set(project.parent, [...(byParent.get(project.parent) ?? []), project])
+    }
+    return byParent
+  }, [projects])
+
+  // A project cannot be dropped into itself or a project below it
+  const blocked = useMemo(
+    () => draggedProject === null ? new Set<number>() : projectDescendants(projects, draggedProject),
+    [projects, draggedProject]
+  )
+
+  const dropHandlers = (key: string, project: number | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      const types = e.dataTransfer.types
+      if (!types.includes(MODEL_DRAG_TYPE) && !types.includes(PROJECT_DRAG_TYPE)) return
+      if (project !== null && types.includes(PROJECT_DRAG_TYPE) && blocked.has(project)) return
+      e.preventDefault()
+      e.dataTransfer.dropEffect = 'move'
+      setDropTarget(key)
+    },
+    onDragLeave: () => setDropTarget(target => target === key ? null : target),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault()
+      setDropTarget(null)
+      const modelId = e.dataTransfer.getData(MODEL_DRAG_TYPE)
+      const projectId = e.dataTransfer.getData(PROJECT_DRAG_TYPE)
+      if (modelId) onMoveModel(Number(modelId), project)
+      if (projectId && Number(projectId) !== project) onMoveProject(Number(projectId), project)
+    }
+  })
+
+  const rowStyle = (key: string, isSelected: boolean, depth: number) => ({
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+    padding: `4px 6px 4px ${6 + depth * 14}px`,
+    borderRadius: '4px',
+    fontSize: '13px',
+    cursor: 'pointer',
+    backgroundColor: dropTarget === key ? '#373A40' : isSelected ? '#2C2E33' : 'transparent',
+    color: isSelected ? '#00b8d4' : '#C1C2C5',
+    outline: dropTarget === key ? '1px dashed #00b8d4' : 'none'
+  })
+
+  const renderCreateRow = (parent: number | null, depth: number) => creatingIn === parent && (
+    <div style={{ ...rowStyle('new', false, depth), cursor: 'default' }}>
+      <NameInput
+        initial=""
+        onSubmit={(name) => {
+          setCreatingIn(undefined)
+          onCreate(name, parent)
+        }}
+        onCancel={() => setCreatingIn(undefined)}
+      />
+    </div>
+  )
+
+  const renderProject = (project: Project, depth: number): React.ReactNode => {
+    const key = `project-${project.id}`
+    const subprojects = children.get(project.id) ?? []
+    const isOpen = !collapsed.has(project.id)
+    const isSelected = selected === project.id
+
+    return (
+      <React.Fragment key={project.id}>
+        <div
+          style={rowStyle(key, isSelected, depth)}
+          draggable={renamingId !== project.id}
+          onDragStart={(e) => {
+            e.dataTransfer.setData(PROJECT_DRAG_TYPE, String(project.id))
+            e.dataTransfer.effectAllowed = 'move'
+            setDraggedProject(project.id)
+          }}
+          onDragEnd={() => setDraggedProject(null)}
+          onClick={() => onSelect(project.id)}
+          {...dropHandlers(key, project.id)}
+        >
+          <span
+            style={{ width: '12px', color: '#909296', fontSize: '10px', visibility: subprojects.length > 0 ? 'visible' : 'hidden' }}
+            onClick={(e) => {
+              e.stopPropagation()
+              setCollapsed(prev => {
+                const next = new Set(prev)
+                if (next.has(project.id)) {
+                  next.delete(project.id)
+                } else {
+                  next.add(project.id)
+                }
+                return next
+              })
+            }}
+          >
+            {isOpen ? '▾' : '▸'}
+          </span>
+          {renamingId === project.id ? (
+            <NameInput
+              initial={project.name}
+              onSubmit={(name) => {
+                setRenamingId(null)
+                if (name !== project.name) onRename(project.id, name)
+              }}
+              onCancel={() => setRenamingId(null)}
+            />
+          ) : (
+            <>
+              <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {project.name}
+              </span>
+              {isSelected ? (
+                <>
+                  <button
+                    style={actionStyle}
+                    title="New subproject"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      setCollapsed(prev => new Set([...prev].filter(id => id !== project.id)))
+                      setCreatingIn(project.id)
+                    }}
+                  >
+                    +
+                  </button>
+                  <button
+                    style={actionStyle}
+                    title="Rename project"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      setRenamingId(project.id)
+                    }}
+                  >
+                    ✎
+                  </button>
+                  <button
+                    style={actionStyle}
+                    title="Delete project"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onDelete(project)
+                    }}
+                  >
+                    ✕
+                  </button>
+                </>
+              ) : (
+                <span style={{ fontSize: '11px', color: '#909296' }}>{project.model_count || ''}</span>
+              )}
+            </>
+          )}
+        </div>
+        {isOpen && subprojects.map(subproject => renderProject(subproject, depth + 1))}
+        {renderCreateRow(project.id, depth + 1)}
+      </React.Fragment>
+    )
+  }
+
+  return (
+    <div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+        <h2 style={{ fontSize: '18px', margin: 0 }}>Projects</h2>
+        <button
+          style={{ ...actionStyle, fontSize: '13px' }}
+          onClick={() => setCreatingIn(null)}
+          title="New top-level project"
+        >
+          + New
+        </button>
+      </div>
+
+      {/* Dropping here moves models out of their project and projects to the top level */}
+      <div style={rowStyle('all', selected === null, 0)} onClick={() => onSelect(null)} {...dropHandlers('all', null)}>
+        <span style={{ flex: 1 }}>All models</span>
+      </div>
+      <div style={rowStyle('none', selected === 'none', 0)} onClick={() => onSelect('none')} {...dropHandlers('none', null)}>
+        <span style={{ flex: 1 }}>Unfiled</span>
+      </div>
+      {(children.get(null) ?? []).map(project => renderProject(project, 0))}
+      {renderCreateRow(null, 0)}
+    </div>
+  )
+}
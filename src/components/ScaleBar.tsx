@@ -0,0 +1,69 @@
+import { useState } from 'react'
+import { useFrame, useThree } from '@react-three/fiber'
+import { Html } from '@react-three/drei'
+import * as THREE from 'three'
+import { OrbitTarget, visibleHeight } from '../utils/camera'
+import { formatLength, roundLength } from '../utils/units'
+import { LengthUnit, ThemeColors } from '../types'
+
+interface ScaleBarProps {
+  colors: ThemeColors
+  // World units per model unit
+  scale: number
+  units: LengthUnit
+  // Grid cell size in model units, null while the grid is hidden
+  gridCell: number | null
+}
+
+// Longest the bar gets in pixels; it is shortened to a round length
+const MAX_BAR_WIDTH = 120
+
+const ORIGIN = new THREE.Vector3()
+
+// Bar in the bottom left corner of the canvas showing a round length at the
+// depth of the orbit target, with the size of a grid cell below it
+export function ScaleBar({ colors, scale, units, gridCell }: ScaleBarProps) {
+  const controls = useThree(state => state.controls) as unknown as OrbitTarget | null
+  const [bar, setBar] = useState<{ length: number, width: number } | null>(null)
+
+  // Only re-rendered when the bar changes, not on every frame
+  useFrame(({ camera, size }) => {
+    const unitsPerPixel = visibleHeight(camera, controls?.target ?? ORIGIN) / size.height / scale
+    const length = roundLength(unitsPerPixel * MAX_BAR_WIDTH)
+    const width = Math.round(length / unitsPerPixel)
+    if (bar?.length !== length || bar.width !== width) setBar({ length, width })
+  })
+
+  if (!bar) return null
+
+  return (
+    <Html
+      calculatePosition={(_object, _camera, size) => [12, size.height - 12]}
+      zIndexRange={[20, 0]}
+      style={{ pointerEvents: 'none' }}
+    >
+      <div style={{
+        transform: 'translateY(-100%)',
+        padding: '6px 8px',
+        backgroundColor: colors.surface,
+        color: colors.text,
+        borderRadius: '4px',
+        boxShadow: '0 2px 10px rgba(0,0,0,0.2)',
+        fontSize: '11px',
+        whiteSpace: 'nowrap',
+        userSelect: 'none'
+      }}>
+        <div style={{
+          width: `${bar.width}px`,
+          height: '5px',
+          border: `2px solid ${colors.text}`,
+          borderTop: 'none'
+        }} />
+        <div style={{ marginTop: '3px' }}>{formatLength(bar.length, units)}</div>
+        {gridCell !== null && (
+          <div style={{ color: colors.textSecondary }}>Grid {formatLength(gridCell, units)}</div>
+        )}
+      </div>
+    </Html>
+  )
+}
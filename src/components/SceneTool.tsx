@@ -0,0 +1,300 @@
+import { useState } from 'react'
+import { Model3D, Scene } from '../api'
+import { GRID_STEPS, PartTransform, PlacedPart, ROTATION_SNAP, SCALE_SNAP } from '../utils/scene'
+import { ThemeColors, Vector3Tuple } from '../types'
+
+export type TransformMode = 'translate' | 'rotate' | 'scale'
+
+interface ScenePanelProps {
+  colors: ThemeColors
+  name: string
+  // Unsaved changes since the scene was opened or saved
+  dirty: boolean
+  saving: boolean
+  error: string | null
+  scenes: Scene[]
+  currentSceneId: number | null
+  // Models that can be added, such as the ones in the model list
+  models: Model3D[]
+  parts: PlacedPart[]
+  // Names of the placed models by id, and models that failed to load
+  partNames: Map<number, string>
+  failedModels: Set<number>
+  selectedKey: string | null
+  mode: TransformMode
+  snap: boolean
+  // Grid cell size, which is also the move snap
+  gridStep: number
+  canUndo: boolean
+  canRedo: boolean
+  onNameChange: (name: string) => void
+  onSave: () => void
+  onNewScene: () => void
+  onOpenScene: (id: number) => void
+  onDeleteScene: (scene: Scene) => void
+  onAddModel: (modelId: number) => void
+  onSelect: (key: string | null) => void
+  onRemove: (key: string) => void
+  // `field` lets consecutive edits of one value be undone as a single step
+  onTransformChange: (key: string, transform: PartTransform, field: string) => void
+  onModeChange: (mode: TransformMode) => void
+  onSnapChange: (snap: boolean) => void
+  onGridStepChange: (step: number) => void
+  onUndo: () => void
+  onRedo: () => void
+  onFit: () => void
+}
+
+// Side panel of the scene workspace: saved scenes, placed parts and their transforms
+export function ScenePanel({
+  colors,
+  name,
+  dirty,
+  saving,
+  error,
+  scenes,
+  currentSceneId,
+  models,
+  parts,
+  partNames,
+  failedModels,
+  selectedKey,
+  mode,
+  snap,
+  gridStep,
+  canUndo,
+  canRedo,
+  onNameChange,
+  onSave,
+  onNewScene,
+  onOpenScene,
+  onDeleteScene,
+  onAddModel,
+  onSelect,
+  onRemove,
+  onTransformChange,
+  onModeChange,
+  onSnapChange,
+  onGridStepChange,
+  onUndo,
+  onRedo,
+  onFit
+}: ScenePanelProps) {
+  const [modelToAdd, setModelToAdd] = useState('')
+  const selected = parts.find(part => part.key === selectedKey) ?? null
+
+  const inputStyle = {
+    backgroundColor: colors.background,
+    color: colors.text,
+    border: `1px solid ${colors.border}`,
+    borderRadius: '4px',
+    padding: '4px',
+    fontSize: '12px'
+  }
+
+  const buttonStyle = (active: boolean) => ({
+    flex: 1,
+    backgroundColor: active ? colors.accent : 'transparent',
+    color: active ? 'white' : colors.text,
+    border: `1px solid ${colors.border}`,
+    padding: '5px 8px',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontSize: '12px'
+  })
+
+  const removeButtonStyle = {
+    backgroundColor: 'transparent',
+    border: 'none',
+    color: colors.textSecondary,
+    cursor: 'pointer',
+    fontSize: '14px',
+    padding: '0 4px'
+  }
+
+  const rowStyle = (active: boolean) => ({
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '4px 6px',
+    borderRadius: '4px',
+    fontSize: '12px',
+    cursor: 'pointer',
+    backgroundColor: active ? colors.background : 'transparent',
+    border: `1px solid ${active ? colors.accent : 'transparent'}`
+  })
+
+  const vectorRow = (part: PlacedPart, label: string, key: keyof PartTransform, step: number) => (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '12px' }}>
+      <span style={{ width: '56px' }}>{label}</span>
+      {part[key].map((value, axis) => (
+        <input
+          key={axis}
+          type="number"
+          step={step}
+          title={'XYZ'[axis]}
+          style={{ ...inputStyle, width: '100%', minWidth: 0 }}
+          value={value}
+          onChange={(e) => {
+            const next = Number(e.target.value)
+            if (!Number.isFinite(next) || (key === 'scale' && next === 0)) return
+            const values = [...part[key]] as Vector3Tuple
+            values[axis] = next
+            const { position, rotation, scale } = part
+            onTransformChange(part.key, { position, rotation, scale, [key]: values }, `${part.key}.${key}.${axis}`)
+          }}
+        />
+      ))}
+    </div>
+  )
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+      <h4 style={{ margin: 0, color: colors.accent }}>Scene</h4>
+      <input
+        style={inputStyle}
+        value={name}
+        placeholder="Scene name"
+        onChange={(e) => onNameChange(e.target.value)}
+      />
+      <div style={{ display: 'flex', gap: '5px' }}>
+        <button style={buttonStyle(dirty)} onClick={onSave} disabled={saving || !name.trim()}>
+          {saving ? 'Saving...' : dirty ? 'Save' : 'Saved'}
+        </button>
+        <button style={buttonStyle(false)} onClick={onNewScene}>New</button>
+      </div>
+      {error && (
+        <p style={{ fontSize: '12px', color: '#f44336', margin: 0 }}>
+          {error}
+        </p>
+      )}
+      {scenes.length > 0 && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '2px' }}>
+          {scenes.map(scene => (
+            <div key={scene.id} style={rowStyle(scene.id === currentSceneId)} onClick={() => onOpenScene(scene.id)}>
+              <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {scene.name}
+              </span>
+              <span style={{ color: colors.textSecondary }}>{scene.parts.length}</span>
+              <button
+                style={removeButtonStyle}
+                title="Delete scene"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onDeleteScene(scene)
+                }}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <h4 style={{ margin: '10px 0 0', color: colors.accent }}>Parts</h4>
+      <div style={{ display: 'flex', gap: '5px' }}>
+        <select
+          style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+          value={modelToAdd}
+          onChange={(e) => setModelToAdd(e.target.value)}
+        >
+          <option value="">Choose a model...</option>
+          {models.map(model => (
+            <option key={model.id} value={model.id}>{model.name}</option>
+          ))}
+        </select>
+        <button
+          style={{ ...buttonStyle(false), flex: 'none' }}
+          disabled={!modelToAdd}
+          onClick={() => onAddModel(Number(modelToAdd))}
+        >
+          Add
+        </button>
+      </div>
+      {parts.length === 0 ? (
+        <p style={{ fontSize: '12px', color: colors.textSecondary, margin: 0 }}>
+          Add models from the library to place them on the grid at their true size.
+        </p>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '2px' }}>
+          {parts.map(part => (
+            <div key={part.key} style={rowStyle(part.key === selectedKey)} onClick={() => onSelect(part.key)}>
+              <span style={{
+                flex: 1,
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+                color: failedModels.has(part.model) ? '#f44336' : colors.text
+              }}>
+                {partNames.get(part.model) ?? part.model_name ?? `Model ${part.model}`}
+              </span>
+              <button
+                style={removeButtonStyle}
+                title="Remove from the scene"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onRemove(part.key)
+                }}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      {failedModels.size > 0 && (
+        <p style={{ fontSize: '12px', color: '#f44336', margin: 0 }}>
+          Some models could not be loaded
+        </p>
+      )}
+
+      <h4 style={{ margin: '10px 0 0', color: colors.accent }}>Transform</h4>
+      <div style={{ display: 'flex', gap: '5px' }}>
+        <button style={buttonStyle(mode === 'translate')} onClick={() => onModeChange('translate')} title="Move (W)">
+          Move
+        </button>
+        <button style={buttonStyle(mode === 'rotate')} onClick={() => onModeChange('rotate')} title="Rotate (E)">
+          Rotate
+        </button>
+        <button style={buttonStyle(mode === 'scale')} onClick={() => onModeChange('scale')} title="Scale (R)">
+          Scale
+        </button>
+      </div>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '5px', fontSize: '12px' }}>
+        <input type="checkbox" checked={snap} onChange={(e) => onSnapChange(e.target.checked)} />
+        Snap to grid
+      </label>
+      <label style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px', fontSize: '12px' }}>
+        Grid cell
+        <select
+          style={{ ...inputStyle, width: '90px' }}
+          value={gridStep}
+          onChange={(e) => onGridStepChange(Number(e.target.value))}
+        >
+          {GRID_STEPS.map(step => (
+            <option key={step} value={step}>{step} mm</option>
+          ))}
+        </select>
+      </label>
+      {selected ? (
+        <>
+          {vectorRow(selected, 'Position', 'position', gridStep)}
+          {vectorRow(selected, 'Rotation', 'rotation', ROTATION_SNAP)}
+          {vectorRow(selected, 'Scale', 'scale', SCALE_SNAP)}
+        </>
+      ) : (
+        <p style={{ fontSize: '12px', color: colors.textSecondary, margin: 0 }}>
+          Click a part to move, rotate or scale it.
+        </p>
+      )}
+      <p style={{ fontSize: '11px', color: colors.textSecondary, margin: 0 }}>
+        Positions and the grid are in millimeters, with each model converted from its own units. Rotations are in degrees. Snapping rotates in {ROTATION_SNAP}° and scales in {SCALE_SNAP} steps.
+      </p>
+      <div style={{ display: 'flex', gap: '5px' }}>
+        <button style={buttonStyle(false)} onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">Undo</button>
+        <button style={buttonStyle(false)} onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">Redo</button>
+        <button style={buttonStyle(false)} onClick={onFit} title="Fit the scene in view">Fit</button>
+      </div>
+    </div>
+  )
+}
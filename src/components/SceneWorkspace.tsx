@@ -0,0 +1,580 @@
+import { MutableRefObject, useEffect, useMemo, useRef, useState } from 'react'
+import { Canvas, ThreeEvent, useThree } from '@react-three/fiber'
+import { Grid, OrbitControls, TransformControls } from '@react-three/drei'
+import type { OrbitControls as OrbitControlsImpl } from 'three/examples/jsm/controls/OrbitControls.js'
+import * as THREE from 'three'
+import { ScenePanel, TransformMode } from './SceneTool'
+import { ConfirmDialog } from './ConfirmDialog'
+import { MeshExportForm, MeshExportSettings } from './ExportTool'
+import { Model3D, Scene, createScene, deleteScene, getModel, getScene, listScenes, updateScene } from '../api'
+import { loadRevisionObject } from '../utils/compare'
+import { downloadBlob } from '../utils/capture'
+import { exportMesh } from '../utils/meshExport'
+import { convertLength } from '../utils/units'
+import {
+  DEFAULT_GRID_STEP,
+  History,
+  PartTransform,
+  PlacedPart,
+  ROTATION_SNAP,
+  SCALE_SNAP,
+  initialTransform,
+  objectTransform,
+  partEuler,
+  partKey,
+  partMatrix,
+  recordHistory,
+  redoHistory,
+  savedParts,
+  startHistory,
+  undoHistory
+} from '../utils/scene'
+import { ThemeColors } from '../types'
+
+interface SceneWorkspaceProps {
+  // Saved scene to open, null for a new one
+  sceneId: string | null
+  // Models offered for adding to the scene
+  models: Model3D[]
+  // Called when another scene is opened or a new one is saved
+  onSceneChange: (sceneId: string | null) => void
+  onClose: () => void
+}
+
+interface LoadedPart {
+  model: Model3D
+  object: THREE.Object3D
+  // Bounds of the file as loaded
+  box: THREE.Box3
+}
+
+// Change that waits for the user to confirm dropping unsaved changes
+type PendingAction = { label: string, run: () => void }
+
+const COLORS: ThemeColors = {
+  background: '#1A1B1E',
+  surface: '#25262b',
+  border: '#373A40',
+  text: '#C1C2C5',
+  textSecondary: '#909296',
+  accent: '#00b8d4'
+}
+
+const NEW_SCENE_NAME = 'Untitled scene'
+const SCENE_UNITS = 'mm'
+
+async function loadPart(id: number): Promise<LoadedPart> {
+  const model = await getModel(String(id))
+  const object = await loadRevisionObject(model)
+  // Scenes are laid out in millimeters, whatever units each model is in
+  object.scale.setScalar(convertLength(1, model.units, SCENE_UNITS))
+  // Measured before the object is placed in the scene
+  return { model, object, box: new THREE.Box3().setFromObject(object) }
+}
+
+// A placed model; the loaded object is shared, so each part shows a copy of it
+function PartObject({ part, loaded, objectRef, onClick }: {
+  part: PlacedPart
+  loaded: LoadedPart
+  objectRef?: (object: THREE.Group | null) => void
+  onClick: (e: ThreeEvent<MouseEvent>) => void
+}) {
+  const copy = useMemo(() => loaded.object.clone(), [loaded])
+  return (
+    <group
+      ref={objectRef}
+      position={part.position}
+      rotation={partEuler(part)}
+      scale={part.scale}
+      onClick={onClick}
+    >
+      <primitive object={copy} />
+    </group>
+  )
+}
+
+// Frames the parts whenever `version` changes, once they have all loaded
+function FitCamera({ version, ready, parts }: { version: number, ready: boolean, parts: MutableRefObject<THREE.Group | null> }) {
+  const camera = useThree(state => state.camera)
+  const controls = useThree(state => state.controls) as unknown as OrbitControlsImpl | null
+
+  useEffect(() => {
+    if (!ready || !controls || !parts.current) return
+    const box = new THREE.Box3().setFromObject(parts.current)
+    if (box.isEmpty()) return
+    const center = box.getCenter(new THREE.Vector3())
+    const distance = Math.max(box.getSize(new THREE.Vector3()).length(), 1e-3) * 1.2
+    camera.position.copy(center).add(new THREE.Vector3(1, 0.8, 1).normalize().multiplyScalar(distance))
+    // True-scale scenes span any size, so the depth range follows the scene
+    camera.near = distance / 1000
+    camera.far = distance * 100
+    camera.updateProjectionMatrix()
+    controls.target.copy(center)
+    controls.update()
+  }, [version, ready, controls, camera, parts])
+
+  return null
+}
+
+// Several library models placed together at their true size, such as a
+// build plate, edited with gizmos and saved as a named scene
+export function SceneWorkspace({ sceneId, models, onSceneChange, onClose }: SceneWorkspaceProps) {
+  const [history, setHistory] = useState<History<PlacedPart[]>>(() => startHistory([]))
+  const [name, setName] = useState(NEW_SCENE_NAME)
+  // Parts and name as last saved, to tell whether there are unsaved changes
+  const [saved, setSaved] = useState<{ name: string, parts: PlacedPart[] }>({ name: NEW_SCENE_NAME, parts: [] })
+  const [currentId, setCurrentId] = useState<number | null>(null)
+  // Read when the requested scene changes, to skip reopening the one just saved
+  const currentIdRef = useRef(currentId)
+  currentIdRef.current = currentId
+  const [loading, setLoading] = useState(false)
+  const [scenes, setScenes] = useState<Scene[]>([])
+  const [loadedParts, setLoadedParts] = useState<Map<number, LoadedPart>>(new Map())
+  const [failedModels, setFailedModels] = useState<Set<number>>(new Set())
+  const [selectedKey, setSelectedKey] = useState<string | null>(null)
+  const [selectedObject, setSelectedObject] = useState<THREE.Group | null>(null)
+  const [mode, setMode] = useState<TransformMode>('translate')
+  const [snap, setSnap] = useState(true)
+  const [gridStep, setGridStep] = useState(DEFAULT_GRID_STEP)
+  const [fitVersion, setFitVersion] = useState(0)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [pending, setPending] = useState<PendingAction | null>(null)
+  const [deletingScene, setDeletingScene] = useState<Scene | null>(null)
+  const [exporting, setExporting] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
+  // Parsed models by id, shared by every part placed from them
+  const loadCache = useRef(new Map<number, Promise<LoadedPart>>())
+  const partsGroup = useRef<THREE.Group>(null)
+  // Field edited by the last change, so typing in one input is undone as a single step
+  const lastEdit = useRef<string | null>(null)
+  // When the last gizmo drag ended, so the click that ends it does not change the selection
+  const dragEnded = useRef(0)
+
+  const parts = history.present
+  const dirty = name !== saved.name || parts !== saved.parts
+
+  const refreshScenes = () => {
+    listScenes()
+      .then(setScenes)
+      .catch(err => console.error('Error fetching scenes:', err))
+  }
+
+  useEffect(() => {
+    refreshScenes()
+  }, [])
+
+  // Open the requested scene, unless it is the one already shown after saving it
+  useEffect(() => {
+    const id = sceneId === null ? null : Number(sceneId)
+    if (id !== null && id === currentIdRef.current) return
+    let isActive = true
+    setSelectedKey(null)
+    setError(null)
+    lastEdit.current = null
+
+    const open = (id: number | null, name: string, parts: PlacedPart[]) => {
+      setCurrentId(id)
+      setName(name)
+      setHistory(startHistory(parts))
+      setSaved({ name, parts })
+      setFitVersion(version => version + 1)
+    }
+
+    if (id === null) {
+      open(null, NEW_SCENE_NAME, [])
+      return
+    }
+    setLoading(true)
+    getScene(id)
+      .then(scene => {
+        if (!isActive) return
+        open(scene.id, scene.name, scene.parts.map(part => ({ ...part, key: partKey() })))
+      })
+      .catch(err => {
+        console.error('Error loading scene:', err)
+        if (isActive) setError(err instanceof Error ? err.message : 'Failed to load the scene')
+      })
+      .finally(() => {
+        if (isActive) setLoading(false)
+      })
+    return () => {
+      isActive = false
+    }
+  }, [sceneId])
+
+  // Load every model placed in the scene once
+  useEffect(() => {
+    const ids = new Set(parts.map(part => part.model))
+    ids.forEach(id => {
+      if (loadCache.current.has(id)) return
+      const load = loadPart(id)
+      loadCache.current.set(id, load)
+      load
+        .then(loaded => setLoadedParts(prev => new Map(prev).set(id, loaded)))
+        .catch(err => {
+          console.error('Error loading scene part:', err)
+          setFailedModels(prev => new Set(prev).add(id))
+        })
+    })
+  }, [parts])
+
+  const ready = !loading && parts.every(part => loadedParts.has(part.model) || failedModels.has(part.model))
+
+  const partNames = useMemo(
+    () => new Map([...loadedParts].map(([id, loaded]) => [id, loaded.model.name])),
+    [loadedParts]
+  )
+
+  // Record a change of the parts for undo; changes to the same `field` in a row count as one step
+  const changeParts = (next: PlacedPart[], field: string | null = null) => {
+    const coalesce = field !== null && field === lastEdit.current
+    lastEdit.current = field
+    setHistory(prev => coalesce ? { ...prev, present: next, future: [] } : recordHistory(prev, next))
+  }
+
+  const transformPart = (key: string, transform: PartTransform, field: string | null = null) => {
+    changeParts(parts.map(part => part.key === key ? { ...part, ...transform } : part), field)
+  }
+
+  const addModel = async (modelId: number) => {
+    try {
+      let load = loadCache.current.get(modelId)
+      if (!load) {
+        load = loadPart(modelId)
+        loadCache.current.set(modelId, load)
+      }
+      const loaded = await load
+      setLoadedParts(prev => new Map(prev).set(modelId, loaded))
+      const part = {
+        key: partKey(),
+        model: modelId,
+        model_name: loaded.model.name,
+        ...initialTransform(loaded.box, snap ? gridStep : null)
+      }
+      changeParts([...history.present, part])
+      setSelectedKey(part.key)
+      if (history.present.length === 0) setFitVersion(version => version + 1)
+    } catch (err) {
+      console.error('Error adding model to the scene:', err)
+      loadCache.current.delete(modelId)
+      setError('Failed to load the model')
+    }
+  }
+
+  const removePart = (key: string) => {
+    changeParts(parts.filter(part => part.key !== key))
+    if (selectedKey === key) setSelectedKey(null)
+  }
+
+  const undo = () => {
+    lastEdit.current = null
+    setHistory(undoHistory)
+  }
+
+  const redo = () => {
+    lastEdit.current = null
+    setHistory(redoHistory)
+  }
+
+  // The gizmo moves the object directly; its new transform is recorded when the drag ends
+  const commitGizmo = () => {
+    dragEnded.current = performance.now()
+    const part = parts.find(part => part.key === selectedKey)
+    if (!selectedObject || !part) return
+    const transform = objectTransform(selectedObject)
+    const { position, rotation, scale } = part
+    if (JSON.stringify(transform) !== JSON.stringify({ position, rotation, scale })) {
+      transformPart(part.key, transform)
+    }
+  }
+
+  const handlePartClick = (key: string | null) => {
+    if (performance.now() - dragEnded.current < 200) return
+    setSelectedKey(key)
+  }
+
+  const save = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const changes = { name: name.trim(), parts: savedParts(parts) }
+      const scene = currentId === null ? await createScene(changes) : await updateScene(currentId, changes)
+      setName(scene.name)
+      setSaved({ name: scene.name, parts })
+      refreshScenes()
+      if (currentId === null) {
+        setCurrentId(scene.id)
+        onSceneChange(String(scene.id))
+      }
+    } catch (err) {
+      console.error('Error saving scene:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save the scene')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeScene = async (scene: Scene) => {
+    try {
+      await deleteScene(scene.id)
+      refreshScenes()
+      if (scene.id === currentId) {
+        setCurrentId(null)
+        onSceneChange(null)
+      }
+    } catch (err) {
+      console.error('Error deleting scene:', err)
+      setError('Failed to delete the scene')
+    }
+  }
+
+  // Parts as placed in the scene, in one file for CAM or rendering tools
+  const exportScene = async (settings: MeshExportSettings) => {
+    setExportError(null)
+    setExporting(true)
+    try {
+      const items = parts
+        .filter(part => settings.parts !== 'selected' || part.key === selectedKey)
+        .flatMap(part => {
+          const loaded = loadedParts.get(part.model)
+          if (!loaded) return []
+          loaded.object.updateMatrix()
+          return [{ object: loaded.object, matrix: partMatrix(part).multiply(loaded.object.matrix) }]
+        })
+      const baseName = (name.trim() || NEW_SCENE_NAME).replace(/[\\/:*?"<>|]/g, '_')
+      const { blob, filename } = await exportMesh(items, settings, baseName)
+      downloadBlob(blob, filename)
+    } catch (err) {
+      console.error('Error exporting scene:', err)
+      setExportError(err instanceof Error ? err.message : 'Failed to export the scene')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  // Runs `run` right away, or after confirming when it would drop unsaved changes
+  const confirmDiscard = (label: string, run: () => void) => {
+    if (dirty) {
+      setPending({ label, run })
+    } else {
+      run()
+    }
+  }
+
+  // Undo, redo and gizmo modes from the keyboard, unless typing in a field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement
+      if (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA') return
+      const key = e.key.toLowerCase()
+      if ((e.ctrlKey || e.metaKey) && (key === 'z' || key === 'y')) {
+        e.preventDefault()
+        if (key === 'y' || e.shiftKey) {
+          redo()
+        } else {
+          undo()
+        }
+      } else if (!e.ctrlKey && !e.metaKey && !e.altKey) {
+        if (key === 'w') setMode('translate')
+        if (key === 'e') setMode('rotate')
+        if (key === 'r') setMode('scale')
+        if (key === 'delete' && selectedKey) removePart(selectedKey)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  })
+
+  const headerButtonStyle = {
+    backgroundColor: 'transparent',
+    border: `1px solid ${COLORS.border}`,
+    color: COLORS.text,
+    padding: '5px 10px',
+    borderRadius: '4px',
+    cursor: 'pointer'
+  }
+
+  return (
+    <div style={{
+      height: '100%',
+      display: 'flex',
+      flexDirection: 'column',
+      backgroundColor: COLORS.background,
+      color: COLORS.text
+    }}>
+      <div style={{
+        padding: '10px 15px',
+        borderBottom: `1px solid ${COLORS.border}`,
+        backgroundColor: COLORS.surface,
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        gap: '10px'
+      }}>
+        <h3 style={{ color: COLORS.accent, margin: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {name || NEW_SCENE_NAME}{dirty ? ' •' : ''}
+        </h3>
+        <button
+          style={headerButtonStyle}
+          onClick={() => confirmDiscard('Close', onClose)}
+          title="Back to the viewer"
+        >
+          Close
+        </button>
+      </div>
+
+      <div style={{ flex: 1, display: 'flex', overflow: 'hidden' }}>
+        <div style={{ flex: 1, position: 'relative' }}>
+          {loading && (
+            <p style={{ position: 'absolute', top: '10px', left: '15px', margin: 0, zIndex: 10, color: COLORS.textSecondary }}>
+              Loading scene...
+            </p>
+          )}
+          <Canvas
+            camera={{ position: [100, 80, 100], fov: 50, near: 0.1, far: 100000 }}
+            style={{ background: COLORS.surface }}
+            onPointerMissed={() => handlePartClick(null)}
+          >
+            <ambientLight intensity={0.8} />
+            <directionalLight position={[1, 2, 1.5]} intensity={1} />
+            <directionalLight position={[-1, -1, -1]} intensity={0.4} />
+            <Grid
+              infiniteGrid
+              cellSize={gridStep}
+              cellThickness={0.5}
+              cellColor="#606060"
+              sectionSize={gridStep * 10}
+              sectionThickness={1}
+              sectionColor="#808080"
+              fadeDistance={gridStep * 300}
+              fadeStrength={1}
+            />
+            <OrbitControls makeDefault />
+            <FitCamera version={fitVersion} ready={ready} parts={partsGroup} />
+            <group ref={partsGroup}>
+              {parts.map(part => {
+                const loaded = loadedParts.get(part.model)
+                return loaded && (
+                  <PartObject
+                    key={part.key}
+                    part={part}
+                    loaded={loaded}
+                    objectRef={part.key === selectedKey ? setSelectedObject : undefined}
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      if (e.delta <= 2) handlePartClick(part.key)
+                    }}
+                  />
+                )
+              })}
+            </group>
+            {selectedObject && selectedKey && (
+              <TransformControls
+                object={selectedObject}
+                mode={mode}
+                translationSnap={snap ? gridStep : null}
+                rotationSnap={snap ? THREE.MathUtils.degToRad(ROTATION_SNAP) : null}
+                scaleSnap={snap ? SCALE_SNAP : null}
+                onMouseUp={commitGizmo}
+              />
+            )}
+          </Canvas>
+        </div>
+
+        <div style={{
+          width: '260px',
+          padding: '15px',
+          borderLeft: `1px solid ${COLORS.border}`,
+          backgroundColor: COLORS.surface,
+          overflowY: 'auto'
+        }}>
+          <ScenePanel
+            colors={COLORS}
+            name={name}
+            dirty={dirty}
+            saving={saving}
+            error={error}
+            scenes={scenes}
+            currentSceneId={currentId}
+            models={models}
+            parts={parts}
+            partNames={partNames}
+            failedModels={failedModels}
+            selectedKey={selectedKey}
+            mode={mode}
+            snap={snap}
+            gridStep={gridStep}
+            canUndo={history.past.length > 0}
+            canRedo={history.future.length > 0}
+            onNameChange={setName}
+            onSave={save}
+            onNewScene={() => confirmDiscard('Start a new scene', () => {
+              if (currentId === null) {
+                // Already on an unsaved scene, so the id does not change; start over by hand
+                setHistory(startHistory([]))
+                setName(NEW_SCENE_NAME)
+                setSaved({ name: NEW_SCENE_NAME, parts: [] })
+                setSelectedKey(null)
+              } else {
+                setCurrentId(null)
+                onSceneChange(null)
+              }
+            })}
+            onOpenScene={(id) => {
+              if (id !== currentId) confirmDiscard('Open scene', () => onSceneChange(String(id)))
+            }}
+            onDeleteScene={setDeletingScene}
+            onAddModel={addModel}
+            onSelect={setSelectedKey}
+            onRemove={removePart}
+            onTransformChange={transformPart}
+            onModeChange={setMode}
+            onSnapChange={setSnap}
+            onGridStepChange={setGridStep}
+            onUndo={undo}
+            onRedo={redo}
+            onFit={() => setFitVersion(version => version + 1)}
+          />
+          <h4 style={{ margin: '20px 0 10px', color: COLORS.accent }}>Export</h4>
+          <MeshExportForm
+            colors={COLORS}
+            scopes={selectedKey ? ['all', 'selected'] : ['all']}
+            units={SCENE_UNITS}
+            busy={exporting}
+            error={exportError}
+            onExport={exportScene}
+          />
+        </div>
+      </div>
+
+      {pending && (
+        <ConfirmDialog
+          title="Unsaved changes"
+          message={`${name || NEW_SCENE_NAME} has changes that have not been saved. Discard them?`}
+          confirmLabel={pending.label}
+          danger
+          onConfirm={() => {
+            setPending(null)
+            pending.run()
+          }}
+          onCancel={() => setPending(null)}
+        />
+      )}
+
+      {deletingScene && (
+        <ConfirmDialog
+          title="Delete scene"
+          message={`Delete "${deletingScene.name}"? The models in it are not deleted.`}
+          confirmLabel="Delete"
+          danger
+          onConfirm={() => {
+            setDeletingScene(null)
+            removeScene(deletingScene)
+          }}
+          onCancel={() => setDeletingScene(null)}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,354 @@
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react'
+import { useFrame, useThree } from '@react-three/fiber'
+import { TransformControls } from '@react-three/drei'
+import * as THREE from 'three'
+import {
+  SectionAxis,
+  SectionPlane,
+  toClippingPlane,
+  sectionOffset,
+  sectionQuaternion
+} from '../utils/section'
+import { LoadedModel, ThemeColors } from '../types'
+
+export type GizmoMode = 'translate' | 'rotate'
+
+interface SectionPlanesProps {
+  model: LoadedModel | null
+  sections: SectionPlane[]
+  selectedId: number | null
+  gizmoMode: GizmoMode
+  capColor: string
+  onChange: (section: SectionPlane) => void
+}
+
+interface SectionPanelProps {
+  colors: ThemeColors
+  sections: SectionPlane[]
+  selectedId: number | null
+  gizmoMode: GizmoMode
+  center: THREE.Vector3
+  extent: number
+  onAdd: (axis: SectionAxis) => void
+  onSelect: (id: number) => void
+  onChange: (section: SectionPlane) => void
+  onRemove: (id: number) => void
+  onGizmoModeChange: (mode: GizmoMode) => void
+}
+
+// Collect the meshes of the loaded model
+function collectMeshes(object: THREE.Object3D): THREE.Mesh[] {
+  const meshes: THREE.Mesh[] = []
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      meshes.push(child)
+    }
+  })
+  return meshes
+}
+
+// Stencil pass for one side of a mesh: back faces increment, front faces decrement,
+// leaving a non-zero stencil value wherever the clipping plane cuts through material
+function createStencilMesh(source: THREE.Mesh, plane: THREE.Plane, side: THREE.Side, renderOrder: number) {
+  const op = side === THREE.BackSide ? THREE.IncrementWrapStencilOp : THREE.DecrementWrapStencilOp
+  const material = new THREE.MeshBasicMaterial({
+    side,
+    depthWrite: false,
+    depthTest: false,
+    colorWrite: false,
+    stencilWrite: true,
+    stencilFunc: THREE.AlwaysStencilFunc,
+    stencilFail: op,
+    stencilZFail: op,
+    stencilZPass: op,
+    clippingPlanes: [plane]
+  })
+
+  const mesh = new THREE.Mesh(source.geometry, material)
+  mesh.matrixAutoUpdate = false
+  mesh.renderOrder = renderOrder
+  mesh.userData.source = source
+  mesh.raycast = () => {}
+  return mesh
+}
+
+// Applies section planes to the loaded model and fills the cut faces with caps
+export function SectionPlanes({ model, sections, selectedId, gizmoMode, capColor, onChange }: SectionPlanesProps) {
+  const { gl } = useThree()
+  const planeMap = useRef(new Map<number, THREE.Plane>())
+  const [handle, setHandle] = useState<THREE.Mesh | null>(null)
+  const idsKey = sections.map(section => section.id).join(',')
+
+  // Stable clipping planes per section so materials only change when planes are added or removed
+  const clippingPlanes = useMemo(() => {
+    const map = planeMap.current
+    const ids = idsKey ? idsKey.split(',').map(Number) : []
+    for (const id of map.keys()) {
+      if (!ids.includes(id)) map.delete(id)
+    }
+    return ids.map(id => {
+      if (!map.has(id)) map.set(id, new THREE.Plane())
+      return map.get(id) as THREE.Plane
+    })
+  }, [idsKey])
+
+  // Keep plane equations in sync with the section state
+  useLayoutEffect(() => {
+    for (const section of sections) {
+      const plane = planeMap.current.get(section.id)
+      if (plane) toClippingPlane(section, plane)
+    }
+  }, [sections, clippingPlanes])
+
+  useEffect(() => {
+    gl.localClippingEnabled = true
+  }, [gl])
+
+  // Clip every model material
+  useEffect(() => {
+    if (!model) return
+    const planes = clippingPlanes.length > 0 ? clippingPlanes : null
+    for (const mesh of collectMeshes(model.object)) {
+      const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material]
+      for (const material of materials) {
+        material.clippingPlanes = planes
+        material.needsUpdate = true
+      }
+    }
+  }, [model, clippingPlanes])
+
+  // Stencil meshes and cap planes, one set per section
+  const caps = useMemo(() => {
+    const group = new THREE.Group()
+    if (!model) return group
+
+    const meshes = collectMeshes(model.object)
+    const size = new THREE.Box3().setFromObject(model.object).getSize(new THREE.Vector3()).length() * 2
+
+    clippingPlanes.forEach((plane, index) => {
+      for (const mesh of meshes) {
+        group.add(createStencilMesh(mesh, plane, THREE.BackSide, index + 1))
+        group.add(createStencilMesh(mesh, plane, THREE.FrontSide, index + 1))
+      }
+
+      const cap = new THREE.Mesh(
+        new THREE.PlaneGeometry(size, size),
+        new THREE.MeshStandardMaterial({
+          metalness: 0.1,
+          roughness: 0.75,
+          clippingPlanes: clippingPlanes.filter(other => other !== plane),
+          stencilWrite: true,
+          stencilRef: 0,
+          stencilFunc: THREE.NotEqualStencilFunc,
+          stencilFail: THREE.ReplaceStencilOp,
+          stencilZFail: THREE.ReplaceStencilOp,
+          stencilZPass: THREE.ReplaceStencilOp
+        })
+      )
+      cap.renderOrder = index + 1.1
+      cap.userData.plane = plane
+      cap.onAfterRender = (renderer) => renderer.clearStencil()
+      cap.raycast = () => {}
+      group.add(cap)
+    })
+
+    return group
+  }, [model, clippingPlanes])
+
+  // Dispose of generated materials when the caps are rebuilt
+  useEffect(() => {
+    return () => {
+      caps.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+          (child.material as THREE.Material).dispose()
+          if (child.userData.plane) child.geometry.dispose()
+        }
+      })
+    }
+  }, [caps])
+
+  useEffect(() => {
+    caps.traverse((child) => {
+      if (child instanceof THREE.Mesh && child.userData.plane) {
+        (child.material as THREE.MeshStandardMaterial).color.set(capColor)
+      }
+    })
+  }, [caps, capColor])
+
+  // Follow the model transform and plane positions
+  useFrame(() => {
+    for (const child of caps.children) {
+      const source = child.userData.source as THREE.Mesh | undefined
+      const plane = child.userData.plane as THREE.Plane | undefined
+      if (source) {
+        child.matrix.copy(source.matrixWorld)
+      } else if (plane) {
+        plane.coplanarPoint(child.position)
+        child.lookAt(child.position.clone().sub(plane.normal))
+      }
+    }
+  })
+
+  const selected = sections.find(section => section.id === selectedId)
+
+  // Read the gizmo transform back into the section
+  const handleObjectChange = () => {
+    if (!handle || !selected) return
+    onChange({
+      ...selected,
+      position: handle.position.clone(),
+      normal: new THREE.Vector3(0, 0, 1).applyQuaternion(handle.quaternion).normalize()
+    })
+  }
+
+  const handleSize = model
+    ? new THREE.Box3().setFromObject(model.object).getSize(new THREE.Vector3()).length() * 0.6
+    : 1
+
+  return (
+    <>
+      <primitive object={caps} />
+      {selected && (
+        <>
+          <mesh
+            ref={setHandle}
+            position={selected.position}
+            quaternion={sectionQuaternion(selected)}
+            raycast={() => null}
+          >
+            <planeGeometry args={[handleSize, handleSize]} />
+            <meshBasicMaterial color="#ffb300" opacity={0.15} transparent side={THREE.DoubleSide} depthWrite={false} />
+          </mesh>
+          {handle && (
+            <TransformControls
+              object={handle}
+              mode={gizmoMode}
+              space="local"
+              showX={gizmoMode === 'rotate'}
+              showY={gizmoMode === 'rotate'}
+              onObjectChange={handleObjectChange}
+            />
+          )}
+        </>
+      )}
+    </>
+  )
+}
+
+// Side panel for adding, selecting, moving and flipping section planes
+export function SectionPanel({
+  colors,
+  sections,
+  selectedId,
+  gizmoMode,
+  center,
+  extent,
+  onAdd,
+  onSelect,
+  onChange,
+  onRemove,
+  onGizmoModeChange
+}: SectionPanelProps) {
+  const buttonStyle = (active: boolean) => ({
+    flex: 1,
+    backgroundColor: active ? colors.accent : 'transparent',
+    color: active ? 'white' : colors.text,
+    border: `1px solid ${colors.border}`,
+    padding: '5px 8px',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontSize: '12px'
+  })
+
+  // Move a section along its normal to the given offset from the model center
+  const setOffset = (section: SectionPlane, offset: number) => {
+    const delta = offset - sectionOffset(section, center)
+    onChange({ ...section, position: section.position.clone().addScaledVector(section.normal, delta) })
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+      <h4 style={{ margin: 0, color: colors.accent }}>Section</h4>
+
+      <div style={{ display: 'flex', gap: '5px' }}>
+        {(['x', 'y', 'z'] as SectionAxis[]).map(axis => (
+          <button key={axis} style={buttonStyle(false)} onClick={() => onAdd(axis)}>
+            + {axis.toUpperCase()}
+          </button>
+        ))}
+      </div>
+
+      {sections.length === 0 ? (
+        <p style={{ fontSize: '12px', color: colors.textSecondary, margin: 0 }}>
+          Add a plane to cut through the model
+        </p>
+      ) : (
+        <>
+          <div style={{ display: 'flex', gap: '5px' }}>
+            <button style={buttonStyle(gizmoMode === 'translate')} onClick={() => onGizmoModeChange('translate')}>
+              Move
+            </button>
+            <button style={buttonStyle(gizmoMode === 'rotate')} onClick={() => onGizmoModeChange('rotate')}>
+              Rotate
+            </button>
+          </div>
+
+          {sections.map((section, index) => (
+            <div
+              key={section.id}
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '6px',
+                padding: '8px',
+                border: `1px solid ${section.id === selectedId ? colors.accent : colors.border}`,
+                borderRadius: '4px',
+                fontSize: '12px',
+                cursor: 'pointer'
+              }}
+              onClick={() => onSelect(section.id)}
+            >
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <span>
+                  Plane {index + 1} ({section.normal.x.toFixed(2)}, {section.normal.y.toFixed(2)}, {section.normal.z.toFixed(2)})
+                </span>
+                <button
+                  style={{
+                    backgroundColor: 'transparent',
+                    border: 'none',
+                    color: colors.textSecondary,
+                    cursor: 'pointer'
+                  }}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onRemove(section.id)
+                  }}
+                  title="Remove plane"
+                >
+                  ✕
+                </button>
+              </div>
+              <input
+                type="range"
+                min={-extent}
+                max={extent}
+                step={extent / 200}
+                value={sectionOffset(section, center)}
+                onChange={(e) => setOffset(section, Number(e.target.value))}
+              />
+              <button
+                style={buttonStyle(section.flipped)}
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onChange({ ...section, flipped: !section.flipped })
+                }}
+              >
+                Flip
+              </button>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+import { useState } from 'react'
+import { NewShareLink, ShareLink } from '../api'
+import { ThemeColors } from '../types'
+
+interface SharePanelProps {
+  colors: ThemeColors
+  links: ShareLink[]
+  error: string | null
+  onCreate: (link: NewShareLink) => void
+  onCopyLink: (link: ShareLink) => void
+  onDelete: (id: number) => void
+}
+
+// Choices for how long a new link works, in days; null never expires
+const EXPIRY_OPTIONS: Array<[number | null, string]> = [
+  [null, 'Never expires'],
+  [1, 'Expires in 1 day'],
+  [7, 'Expires in 7 days'],
+  [30, 'Expires in 30 days']
+]
+
+const DAY = 24 * 60 * 60 * 1000
+
+// Side panel listing the read-only links to the displayed revision
+export function SharePanel({ colors, links, error, onCreate, onCopyLink, onDelete }: SharePanelProps) {
+  const [expiryDays, setExpiryDays] = useState<number | null>(7)
+  const [password, setPassword] = useState('')
+
+  const inputStyle = {
+    backgroundColor: colors.background,
+    color: colors.text,
+    border: `1px solid ${colors.border}`,
+    borderRadius: '4px',
+    padding: '5px',
+    fontSize: '12px'
+  }
+
+  const create = () => {
+    onCreate({
+      expires_at: expiryDays === null ? null : new Date(Date.now() + expiryDays * DAY).toISOString(),
+      password: password || undefined
+    })
+    setPassword('')
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+      <h4 style={{ margin: 0, color: colors.accent }}>Share links</h4>
+      <p style={{ fontSize: '12px', color: colors.textSecondary, margin: 0 }}>
+        Anyone with a link can view this revision without an account. Copied links
+        open with the current camera, view mode, colors and hidden parts.
+      </p>
+
+      <select
+        style={inputStyle}
+        value={expiryDays ?? ''}
+        onChange={(e) => setExpiryDays(e.target.value ? Number(e.target.value) : null)}
+      >
+        {EXPIRY_OPTIONS.map(([days, label]) => (
+          <option key={label} value={days ?? ''}>{label}</option>
+        ))}
+      </select>
+      <input
+        style={inputStyle}
+        type="password"
+        value={password}
+        placeholder="Password (optional)"
+        autoComplete="new-password"
+        onChange={(e) => setPassword(e.target.value)}
+      />
+      <button
+        style={{
+          backgroundColor: colors.accent,
+          color: 'white',
+          border: 'none',
+          padding: '6px 8px',
+          borderRadius: '4px',
+          cursor: 'pointer',
+          fontSize: '12px'
+        }}
+        onClick={create}
+      >
+        Create link
+      </button>
+
+      {error && (
+        <p style={{ fontSize: '12px', color: '#f44336', margin: 0 }}>
+          {error}
+        </p>
+      )}
+
+      {links.length === 0 ? (
+        <p style={{ fontSize: '12px', color: colors.textSecondary, margin: 0 }}>
+          No share links
+        </p>
+      ) : (
+        links.map(link => {
+          const expired = link.expires_at !== null && new Date(link.expires_at).getTime() <= Date.now()
+          return (
+            <div
+              key={link.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '4px',
+                padding: '6px 8px',
+                border: `1px solid ${colors.border}`,
+                borderRadius: '4px',
+                fontSize: '12px',
+                opacity: expired ? 0.6 : 1
+              }}
+            >
+              <span style={{ flex: 1, minWidth: 0 }}>
+                {expired
+                  ? 'Expired'
+                  : link.expires_at
+                    ? `Until ${new Date(link.expires_at).toLocaleDateString()}`
+                    : 'No expiry'}
+                {link.has_password && ' • 🔒'}
+              </span>
+              <button
+                style={{ backgroundColor: 'transparent', border: 'none', color: colors.textSecondary, cursor: 'pointer' }}
+                onClick={() => onCopyLink(link)}
+                title="Copy link with the current view"
+                disabled={expired}
+              >
+                🔗
+              </button>
+              <button
+                style={{ backgroundColor: 'transparent', border: 'none', color: colors.textSecondary, cursor: 'pointer' }}
+                onClick={() => onDelete(link.id)}
+                title="Revoke link"
+              >
+                ✕
+              </button>
+            </div>
+          )
+        })
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { ApiError, SharedModel, openShareLink, unlockShareLink } from '../api'
+import { parseViewerState } from '../utils/url'
+import { ModelViewer } from './ModelViewer'
+
+interface SharedViewerProps {
+  token: string
+}
+
+// Keys of unlocked links, kept for the browser session so reloading does not ask again
+const keyStorageKey = (token: string) => `share-key:${token}`
+
+// Full page read-only viewer for a share link, asking for the password first when it has one
+export function SharedViewer({ token }: SharedViewerProps) {
+  const [shared, setShared] = useState<SharedModel | null>(null)
+  const [needsPassword, setNeedsPassword] = useState(false)
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const initialState = useMemo(() => parseViewerState(), [])
+
+  const open = useCallback(async (key: string | null) => {
+    try {
+      setShared(await openShareLink(token, key))
+      setNeedsPassword(false)
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 403) {
+        sessionStorage.removeItem(keyStorageKey(token))
+        setNeedsPassword(true)
+      } else if (err instanceof ApiError && err.status === 404) {
+        setError('This link does not exist or has been revoked.')
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to open the link')
+      }
+    }
+  }, [token])
+
+  useEffect(() => {
+    open(sessionStorage.getItem(keyStorageKey(token)))
+  }, [open, token])
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    try {
+      const key = await unlockShareLink(token, password)
+      sessionStorage.setItem(keyStorageKey(token), key)
+      await open(key)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock the link')
+    }
+  }
+
+  if (shared) {
+    return (
+      <div style={{ height: '100vh' }}>
+        <ModelViewer modelId={String(shared.model.id)} shared={shared} initialState={initialState} />
+      </div>
+    )
+  }
+
+  return (
+    <div style={{
+      height: '100vh',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: '#1A1B1E',
+      color: '#C1C2C5'
+    }}>
+      {needsPassword ? (
+        <form onSubmit={handleUnlock} style={{ display: 'flex', flexDirection: 'column', gap: '10px', width: '280px' }}>
+          <p style={{ margin: 0 }}>This model is protected with a password.</p>
+          <input
+            type="password"
+            value={password}
+            placeholder="Password"
+            autoFocus
+            style={{
+              padding: '8px',
+              fontSize: '14px',
+              backgroundColor: '#25262b',
+              color: '#C1C2C5',
+              border: '1px solid #373A40',
+              borderRadius: '4px'
+            }}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          {error && <p style={{ margin: 0, fontSize: '13px', color: '#f44336' }}>{error}</p>}
+          <button
+            type="submit"
+            disabled={!password}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#00b8d4',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '14px'
+            }}
+          >
+            View model
+          </button>
+        </form>
+      ) : (
+        <p style={{ color: error ? '#f44336' : '#909296' }}>{error ?? 'Opening shared model...'}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+import { useState } from 'react'
+
+interface TagChipsProps {
+  tags: string[]
+  // Tags the model list is filtered by, highlighted
+  activeTags: string[]
+  onToggle: (tag: string) => void
+  // Makes the tags editable
+  onChange?: (tags: string[]) => void
+  // Id of a <datalist> with existing tag names to suggest
+  suggestions?: string
+}
+
+const chipStyle = {
+  display: 'inline-flex',
+  alignItems: 'center',
+  gap: '3px',
+  padding: '1px 7px',
+  borderRadius: '10px',
+  border: 'none',
+  fontSize: '11px',
+  lineHeight: '16px',
+  cursor: 'pointer'
+}
+
+// Tag labels of a model; clicking one filters the model list by it
+export function TagChips({ tags, activeTags, onToggle, onChange, suggestions }: TagChipsProps) {
+  const [adding, setAdding] = useState(false)
+  const [draft, setDraft] = useState('')
+
+  const addTag = () => {
+    const tag = draft.trim()
+    if (tag && !tags.includes(tag)) {
+      onChange?.([...tags, tag])
+    }
+    setDraft('')
+    setAdding(false)
+  }
+
+  if (tags.length === 0 && !onChange) return null
+
+  return (
+    <div
+      style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginTop: '4px' }}
+      // Chips sit inside clickable and draggable list entries
+      onClick={(e) => e.stopPropagation()}
+    >
+      {tags.map(tag => {
+        const active = activeTags.includes(tag)
+        return (
+          <span
+            key={tag}
+            style={{
+              ...chipStyle,
+              backgroundColor: active ? '#00b8d4' : '#373A40',
+              color: active ? 'white' : '#C1C2C5'
+            }}
+            onClick={() => onToggle(tag)}
+            title={active ? `Stop filtering by ${tag}` : `Show models tagged ${tag}`}
+          >
+            {tag}
+            {onChange && (
+              <span
+                style={{ opacity: 0.7 }}
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onChange(tags.filter(t => t !== tag))
+                }}
+                title="Remove tag"
+              >
+                ×
+              </span>
+            )}
+          </span>
+        )
+      })}
+      {onChange && (adding ? (
+        <input
+          style={{
+            width: '80px',
+            padding: '1px 6px',
+            fontSize: '11px',
+            backgroundColor: '#1A1B1E',
+            color: '#C1C2C5',
+            border: '1px solid #373A40',
+            borderRadius: '10px'
+          }}
+          value={draft}
+          list={suggestions}
+          placeholder="Tag"
+          autoFocus
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') addTag()
+            if (e.key === 'Escape') {
+              setDraft('')
+              setAdding(false)
+            }
+          }}
+          onBlur={addTag}
+        />
+      ) : (
+        <button
+          style={{ ...chipStyle, backgroundColor: 'transparent', color: '#909296', border: '1px dashed #373A40' }}
+          onClick={() => setAdding(true)}
+          title="Add tag"
+        >
+          + tag
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+import { QueuedUpload } from '../utils/uploadQueue'
+import { formatBytes } from '../utils/format'
+
+interface UploadQueueProps {
+  uploads: QueuedUpload[]
+  onCancel: (id: number) => void
+  onRetry: (id: number) => void
+  onRemove: (id: number) => void
+  onClearFinished: () => void
+}
+
+const STATUS_COLORS: Record<QueuedUpload['status'], string> = {
+  pending: '#909296',
+  uploading: '#00b8d4',
+  done: '#4CAF50',
+  failed: '#f44336',
+  cancelled: '#909296',
+  invalid: '#f44336'
+}
+
+const buttonStyle = {
+  backgroundColor: 'transparent',
+  border: 'none',
+  color: '#909296',
+  cursor: 'pointer',
+  padding: '2px 4px',
+  fontSize: '13px'
+}
+
+function statusText(upload: QueuedUpload) {
+  switch (upload.status) {
+    case 'pending':
+      return `Waiting • ${formatBytes(upload.file.size)}`
+    case 'uploading': {
+      const { progress } = upload
+      if (!progress) return 'Starting...'
+      if (progress.loaded >= progress.total) return 'Processing...'
+      return `${Math.floor((progress.loaded / progress.total) * 100)}% • ${formatBytes(progress.loaded)} of ${formatBytes(progress.total)}`
+    }
+    case 'done':
+      return 'Uploaded'
+    case 'cancelled':
+      return 'Cancelled'
+    default:
+      return upload.error
+  }
+}
+
+// Per-file status of the files being uploaded
+export function UploadQueue({ uploads, onCancel, onRetry, onRemove, onClearFinished }: UploadQueueProps) {
+  if (uploads.length === 0) return null
+
+  const finished = uploads.filter(upload => upload.status !== 'pending' && upload.status !== 'uploading').length
+  const done = uploads.filter(upload => upload.status === 'done').length
+
+  return (
+    <div style={{ marginTop: '10px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: '12px', color: '#909296' }}>
+        <span>Uploaded {done} of {uploads.length}</span>
+        {finished > 0 && (
+          <button style={buttonStyle} onClick={onClearFinished}>
+            Clear finished
+          </button>
+        )}
+      </div>
+
+      {uploads.map(upload => (
+        <div
+          key={upload.id}
+          style={{
+            padding: '6px 8px',
+            backgroundColor: '#25262b',
+            border: '1px solid #373A40',
+            borderRadius: '4px',
+            fontSize: '12px',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '4px'
+          }}
+        >
+          <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+            <span
+              style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', color: '#C1C2C5' }}
+              title={upload.assets.length > 0 ? `${upload.path} (+${upload.assets.length} companion files)` : upload.path}
+            >
+              {upload.path}
+              {upload.assets.length > 0 && ` +${upload.assets.length}`}
+            </span>
+            {upload.status === 'uploading' && (
+              <button style={buttonStyle} onClick={() => onCancel(upload.id)} title="Cancel upload">
+                ✕
+              </button>
+            )}
+            {(upload.status === 'failed' || upload.status === 'cancelled') && (
+              <button style={buttonStyle} onClick={() => onRetry(upload.id)} title="Retry upload">
+                ↻
+              </button>
+            )}
+            {upload.status !== 'uploading' && upload.status !== 'done' && (
+              <button style={buttonStyle} onClick={() => onRemove(upload.id)} title="Remove from queue">
+                ✕
+              </button>
+            )}
+            {upload.status === 'done' && <span style={{ color: STATUS_COLORS.done }}>✓</span>}
+          </div>
+
+          {upload.status === 'uploading' && (
+            <div style={{ height: '4px', borderRadius: '2px', backgroundColor: '#373A40', overflow: 'hidden' }}>
+              <div style={{
+                height: '100%',
+                width: `${upload.progress ? (upload.progress.loaded / upload.progress.total) * 100 : 0}%`,
+                backgroundColor: STATUS_COLORS.uploading,
+                transition: 'width 0.2s ease'
+              }} />
+            </div>
+          )}
+
+          <span style={{ color: STATUS_COLORS[upload.status], wordBreak: 'break-word' }}>
+            {statusText(upload)}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
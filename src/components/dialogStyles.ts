@@ -0,0 +1,19 @@
+// Shared by the forms inside a Dialog
+export const dialogButtonStyle = {
+  padding: '8px 16px',
+  border: '1px solid #373A40',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '14px'
+}
+
+export const dialogInputStyle = {
+  width: '100%',
+  boxSizing: 'border-box' as const,
+  padding: '8px',
+  fontSize: '14px',
+  backgroundColor: '#1A1B1E',
+  color: '#C1C2C5',
+  border: '1px solid #373A40',
+  borderRadius: '4px'
+}
@@ -0,0 +1,124 @@
+import * as THREE from 'three'
+import { MTLLoader } from 'three/examples/jsm/loaders/MTLLoader.js'
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { ThreeMFLoader } from 'three/examples/jsm/loaders/3MFLoader.js'
+import { ModelLoader, createAssetManager, registerLoader, toPercent } from './registry'
+import { PackedMaterial, PackedObject, unpackGeometry } from './transfer'
+import { parseInWorker } from './workerParse'
+import { markAuthoredMaterials } from '../utils/materials'
+
+// STL, OBJ and PLY are parsed in a worker; the page only builds objects around the geometry
+
+type MaterialFactory = (packed: PackedMaterial, kind: PackedObject['kind']) => THREE.Material
+
+function defaultMaterial(packed: PackedMaterial, kind: PackedObject['kind']): THREE.Material {
+  const material = kind === 'lines'
+    ? new THREE.LineBasicMaterial()
+    : kind === 'points'
+      ? new THREE.PointsMaterial({ size: 1, sizeAttenuation: false })
+      : new THREE.MeshStandardMaterial({ flatShading: packed.flatShading })
+  material.name = packed.name
+  material.vertexColors = packed.vertexColors
+  return material
+}
+
+function buildObject(packed: PackedObject, createMaterial: MaterialFactory): THREE.Object3D {
+  const geometry = unpackGeometry(packed.geometry)
+  const materials = packed.materials.map(material => createMaterial(material, packed.kind))
+  const material = materials.length === 1 ? materials[0] : materials
+  const object = packed.kind === 'lines'
+    ? new THREE.LineSegments(geometry, material)
+    : packed.kind === 'points'
+      ? new THREE.Points(geometry, material)
+      : new THREE.Mesh(geometry, material)
+  object.name = packed.name
+  return object
+}
+
+// A single object on its own, several in a group
+function buildObjects(packed: PackedObject[], createMaterial: MaterialFactory = defaultMaterial): THREE.Object3D {
+  if (packed.length === 1) return buildObject(packed[0], createMaterial)
+  const group = new THREE.Group()
+  packed.forEach(object => group.add(buildObject(object, createMaterial)))
+  return group
+}
+
+// STL has no notion of parts, so disconnected bodies are split into separate meshes
+export const stlLoader: ModelLoader = {
+  formats: ['stl'],
+  extensions: ['.stl'],
+  load: async (url, onProgress, _context, signal) => buildObjects(await parseInWorker(url, 'stl', onProgress, signal))
+}
+
+// OBJ uses its companion MTL file and textures when they were uploaded with it
+export const objLoader: ModelLoader = {
+  formats: ['obj'],
+  extensions: ['.obj'],
+  load: async (url, onProgress, context, signal) => {
+    const manager = createAssetManager(context)
+    const mtlName = context?.assets.find(name => name.toLowerCase().endsWith('.mtl'))
+    let library: MTLLoader.MaterialCreator | undefined
+
+    if (context && mtlName) {
+      library = await new MTLLoader(manager).loadAsync(context.assetUrl(mtlName))
+      library.preload()
+    }
+
+    const packed = await parseInWorker(url, 'obj', onProgress, signal)
+    // Lines and points keep plain materials, as the MTL file describes surfaces
+    const obj = buildObjects(packed, (material, kind) => (
+      (kind === 'mesh' && library?.materials[material.name]) || defaultMaterial(material, kind)
+    ))
+    if (mtlName) {
+      markAuthoredMaterials(obj)
+    }
+    return obj
+  }
+}
+
+// glTF keeps its node hierarchy and embedded materials
+export const gltfLoader: ModelLoader = {
+  formats: ['glb', 'gltf'],
+  extensions: ['.glb', '.gltf'],
+  load: async (url, onProgress, context) => {
+    const gltf = await new GLTFLoader(createAssetManager(context)).loadAsync(url, e => onProgress?.(toPercent(e)))
+    markAuthoredMaterials(gltf.scene)
+    return gltf.scene
+  }
+}
+
+// PLY scans often carry per-vertex colors
+export const plyLoader: ModelLoader = {
+  formats: ['ply'],
+  extensions: ['.ply'],
+  load: async (url, onProgress, _context, signal) => {
+    const mesh = buildObjects(await parseInWorker(url, 'ply', onProgress, signal))
+    if (mesh instanceof THREE.Mesh && mesh.geometry.attributes.color) {
+      markAuthoredMaterials(mesh)
+    }
+    return mesh
+  }
+}
+
+// 3MF builds may contain several objects with base materials or color groups
+export const threeMFLoader: ModelLoader = {
+  formats: ['3mf'],
+  extensions: ['.3mf'],
+  load: async (url, onProgress) => {
+    const group = await new ThreeMFLoader().loadAsync(url, e => onProgress?.(toPercent(e)))
+    markAuthoredMaterials(group, mesh => {
+      const material = Array.isArray(mesh.material) ? mesh.material[0] : mesh.material
+      return material.name !== THREE.Loader.DEFAULT_MATERIAL_NAME
+    })
+    group.traverse((child) => {
+      if (child instanceof THREE.Mesh && !child.geometry.attributes.normal) {
+        child.geometry.computeVertexNormals()
+      }
+    })
+    return group
+  }
+}
+
+for (const loader of [stlLoader, objLoader, gltfLoader, plyLoader, threeMFLoader]) {
+  registerLoader(loader)
+}
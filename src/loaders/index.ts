@@ -0,0 +1,24 @@
+import './builtin'
+import { loaderExtensions } from './registry'
+
+export { registerLoader, getLoader, loaderExtensions } from './registry'
+export type { ModelLoader, LoadProgressCallback, LoadContext, LoadStage } from './registry'
+
+// Formats the browser cannot parse; the backend tessellates them to GLB on upload
+export const SERVER_CONVERTED_EXTENSIONS = ['.step', '.stp', '.iges', '.igs']
+
+// Zip archives holding a model and its companion files
+export const ARCHIVE_EXTENSIONS = ['.zip']
+
+// Companion files uploaded together with a model: OBJ materials and their textures
+export const ASSET_EXTENSIONS = ['.mtl', '.png', '.jpg', '.jpeg', '.bmp', '.tga', '.gif', '.webp']
+
+// Every extension that can be uploaded as the main model file
+export function uploadExtensions(): string[] {
+  return [...loaderExtensions(), ...SERVER_CONVERTED_EXTENSIONS, ...ARCHIVE_EXTENSIONS]
+}
+
+export function isAssetFile(name: string): boolean {
+  const lower = name.toLowerCase()
+  return ASSET_EXTENSIONS.some(ext => lower.endsWith(ext))
+}
@@ -0,0 +1,123 @@
+import * as THREE from 'three'
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js'
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js'
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js'
+import { splitConnectedComponents } from '../utils/mesh'
+import { PackedObject, ParseRequest, WorkerMessage, packGeometry } from './transfer'
+import { LoadStage } from './registry'
+
+// Downloads and parses STL, OBJ and PLY files off the page's thread, so large
+// meshes do not freeze it, and sends the geometry back as transferable buffers
+
+// The app is type-checked with the DOM library, which types `self` as a window
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ParseRequest>) => void) | null
+  postMessage: (message: WorkerMessage, transfer?: Transferable[]) => void
+}
+
+// Reports whole percentages only, so the page is not flooded with messages
+let lastProgress = ''
+function progress(stage: LoadStage, percent: number) {
+  const key = `${stage}:${Math.floor(percent)}`
+  if (key === lastProgress) return
+  lastProgress = key
+  scope.postMessage({ type: 'progress', stage, percent: Math.floor(percent) })
+}
+
+async function download(url: string): Promise<ArrayBuffer> {
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`Download failed with status ${response.status}`)
+  const total = Number(response.headers.get('Content-Length')) || 0
+  if (!response.body || !total) return response.arrayBuffer()
+
+  // Compressed replies can be longer than Content-Length, so the chunks are joined at the end
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let loaded = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    loaded += value.length
+    progress('download', Math.min(100, (loaded / total) * 100))
+  }
+  const data = new Uint8Array(loaded)
+  let offset = 0
+  chunks.forEach((chunk) => {
+    data.set(chunk, offset)
+    offset += chunk.length
+  })
+  return data.buffer
+}
+
+function withNormals(geometry: THREE.BufferGeometry): THREE.BufferGeometry {
+  if (!geometry.attributes.normal) geometry.computeVertexNormals()
+  return geometry
+}
+
+const plainMaterial = (vertexColors = false) => ({ name: '', flatShading: false, vertexColors })
+
+// STL has no notion of parts, so disconnected bodies are split into separate meshes
+function parseSTL(data: ArrayBuffer, transfer: Set<ArrayBufferLike>): PackedObject[] {
+  const geometry = new STLLoader().parse(data)
+  progress('parse', 40)
+  const bodies = splitConnectedComponents(geometry)
+  progress('parse', 70)
+  return bodies.map((body, i) => ({
+    kind: 'mesh',
+    name: bodies.length > 1 ? `Body ${i + 1}` : '',
+    geometry: packGeometry(withNormals(body), transfer),
+    materials: [plainMaterial()]
+  }))
+}
+
+// PLY scans often carry per-vertex colors
+function parsePLY(data: ArrayBuffer, transfer: Set<ArrayBufferLike>): PackedObject[] {
+  const geometry = new PLYLoader().parse(data)
+  progress('parse', 60)
+  return [{
+    kind: 'mesh',
+    name: '',
+    geometry: packGeometry(withNormals(geometry), transfer),
+    materials: [plainMaterial(Boolean(geometry.attributes.color))]
+  }]
+}
+
+// OBJ objects keep the names of the materials they use, which the page looks up in the MTL file
+function parseOBJ(data: ArrayBuffer, transfer: Set<ArrayBufferLike>): PackedObject[] {
+  const group = new OBJLoader().parse(new TextDecoder().decode(data))
+  progress('parse', 60)
+  const objects: PackedObject[] = []
+  group.children.forEach((child) => {
+    if (!(child instanceof THREE.Mesh || child instanceof THREE.LineSegments || child instanceof THREE.Points)) return
+    const kind = child instanceof THREE.Mesh ? 'mesh' : child instanceof THREE.Points ? 'points' : 'lines'
+    const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material]
+    objects.push({
+      kind,
+      name: child.name,
+      geometry: packGeometry(kind === 'mesh' ? withNormals(child.geometry) : child.geometry, transfer),
+      materials: materials.map(material => ({
+        name: material.name,
+        flatShading: 'flatShading' in material && Boolean(material.flatShading),
+        vertexColors: material.vertexColors
+      }))
+    })
+  })
+  return objects
+}
+
+const parsers = { stl: parseSTL, obj: parseOBJ, ply: parsePLY }
+
+scope.onmessage = async (event) => {
+  const { url, format } = event.data
+  try {
+    const data = await download(url)
+    progress('parse', 0)
+    const transfer = new Set<ArrayBufferLike>()
+    const objects = parsers[format](data, transfer)
+    progress('parse', 100)
+    scope.postMessage({ type: 'done', objects }, [...transfer] as Transferable[])
+  } catch (err) {
+    scope.postMessage({ type: 'error', error: err instanceof Error ? err.message : String(err) })
+  }
+}
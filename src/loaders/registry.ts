@@ -0,0 +1,75 @@
+import * as THREE from 'three'
+
+// Downloading the file, then turning it into meshes
+export type LoadStage = 'download' | 'parse'
+
+// Progress callback receiving a percentage between 0 and 100 of a stage, 'download' when not given
+export type LoadProgressCallback = (percent: number, stage?: LoadStage) => void
+
+// Companion files (MTL, textures, buffers) stored alongside the model
+export interface LoadContext {
+  // Asset names relative to the model file
+  assets: string[]
+  assetUrl: (name: string) => string
+}
+
+export interface ModelLoader {
+  // Values of `file_format` handled by this loader
+  formats: string[]
+  // File extensions accepted for upload, including the leading dot
+  extensions: string[]
+  // Aborting `signal` rejects with an AbortError; loaders that cannot stop early may finish anyway
+  load: (url: string, onProgress?: LoadProgressCallback, context?: LoadContext, signal?: AbortSignal) => Promise<THREE.Object3D>
+}
+
+const loaders = new Map<string, ModelLoader>()
+
+// Register a loader for each of its formats, replacing any previous loader
+export function registerLoader(loader: ModelLoader) {
+  for (const format of loader.formats) {
+    loaders.set(format, loader)
+  }
+}
+
+export function getLoader(format: string): ModelLoader | undefined {
+  return loaders.get(format.toLowerCase())
+}
+
+// Extensions of every registered loader
+export function loaderExtensions(): string[] {
+  const extensions = new Set<string>()
+  for (const loader of loaders.values()) {
+    loader.extensions.forEach(ext => extensions.add(ext))
+  }
+  return [...extensions]
+}
+
+// Find the stored asset a model file refers to, matching the relative path first
+// and then the bare file name, since exporters often write absolute paths
+export function findAsset(assets: string[], reference: string): string | undefined {
+  const normalized = decodeURIComponent(reference.split('?')[0]).replace(/\\/g, '/')
+  const exact = assets.find(name => normalized === name || normalized.endsWith(`/${name}`))
+  if (exact) return exact
+
+  const basename = normalized.split('/').pop()?.toLowerCase()
+  return assets.find(name => name.split('/').pop()?.toLowerCase() === basename)
+}
+
+// Loading manager that redirects references to companion files to their stored URLs
+export function createAssetManager(context?: LoadContext): THREE.LoadingManager {
+  const manager = new THREE.LoadingManager()
+  if (context && context.assets.length > 0) {
+    manager.setURLModifier((url) => {
+      // Assets are loaded from object URLs, so relative references from an MTL file arrive as blob: URLs too
+      if (url.startsWith('data:')) return url
+      const asset = findAsset(context.assets, url)
+      return asset ? context.assetUrl(asset) : url
+    })
+  }
+  return manager
+}
+
+// Convert a three.js loader progress event to a percentage
+export function toPercent(event: ProgressEvent): number {
+  return event.total > 0 ? Math.round((event.loaded / event.total) * 100) : 0
+}
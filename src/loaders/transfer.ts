@@ -0,0 +1,89 @@
+import * as THREE from 'three'
+import { LoadStage } from './registry'
+
+// Messages between the mesh worker and the page. Geometry crosses as plain
+// typed arrays whose buffers are transferred rather than copied.
+
+export type WorkerFormat = 'stl' | 'obj' | 'ply'
+
+export interface ParseRequest {
+  // Absolute URL; the worker downloads the file itself
+  url: string
+  format: WorkerFormat
+}
+
+export interface PackedAttribute {
+  array: THREE.TypedArray
+  itemSize: number
+  normalized: boolean
+}
+
+export interface PackedGeometry {
+  attributes: Record<string, PackedAttribute>
+  index: THREE.TypedArray | null
+  groups: Array<{ start: number, count: number, materialIndex: number }>
+  // Min and max corners, and center and radius
+  boundingBox: [number[], number[]]
+  boundingSphere: [number[], number]
+}
+
+// What the page needs to recreate a material the file refers to
+export interface PackedMaterial {
+  name: string
+  flatShading: boolean
+  vertexColors: boolean
+}
+
+export interface PackedObject {
+  kind: 'mesh' | 'lines' | 'points'
+  name: string
+  geometry: PackedGeometry
+  // One per geometry group, or a single one
+  materials: PackedMaterial[]
+}
+
+export type WorkerMessage =
+  | { type: 'progress', stage: LoadStage, percent: number }
+  | { type: 'done', objects: PackedObject[] }
+  | { type: 'error', error: string }
+
+// Geometry as typed arrays, with its bounds computed, and the buffers to transfer
+export function packGeometry(geometry: THREE.BufferGeometry, transfer: Set<ArrayBufferLike>): PackedGeometry {
+  geometry.computeBoundingBox()
+  geometry.computeBoundingSphere()
+  const box = geometry.boundingBox as THREE.Box3
+  const sphere = geometry.boundingSphere as THREE.Sphere
+
+  const attributes: Record<string, PackedAttribute> = {}
+  for (const [name, attribute] of Object.entries(geometry.attributes)) {
+    if (!(attribute instanceof THREE.BufferAttribute)) continue
+    attributes[name] = { array: attribute.array, itemSize: attribute.itemSize, normalized: attribute.normalized }
+    transfer.add(attribute.array.buffer)
+  }
+  const index = geometry.index ? geometry.index.array : null
+  if (index) transfer.add(index.buffer)
+
+  return {
+    attributes,
+    index,
+    groups: geometry.groups.map(({ start, count, materialIndex }) => ({ start, count, materialIndex: materialIndex ?? 0 })),
+    boundingBox: [box.min.toArray(), box.max.toArray()],
+    boundingSphere: [sphere.center.toArray(), sphere.radius]
+  }
+}
+
+// Geometry rebuilt on the page around the transferred arrays, without copying them
+export function unpackGeometry(packed: PackedGeometry): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry()
+  for (const [name, { array, itemSize, normalized }] of Object.entries(packed.attributes)) {
+    geometry.setAttribute(name, new THREE.BufferAttribute(array, itemSize, normalized))
+  }
+  if (packed.index) geometry.setIndex(new THREE.BufferAttribute(packed.index, 1))
+  packed.groups.forEach(({ start, count, materialIndex }) => geometry.addGroup(start, count, materialIndex))
+
+  const [min, max] = packed.boundingBox
+  geometry.boundingBox = new THREE.Box3(new THREE.Vector3().fromArray(min), new THREE.Vector3().fromArray(max))
+  const [center, radius] = packed.boundingSphere
+  geometry.boundingSphere = new THREE.Sphere(new THREE.Vector3().fromArray(center), radius)
+  return geometry
+}
@@ -0,0 +1,51 @@
+import { LoadProgressCallback } from './registry'
+import { PackedObject, WorkerFormat, WorkerMessage } from './transfer'
+
+function cancelled(): DOMException {
+  return new DOMException('Loading cancelled', 'AbortError')
+}
+
+// Downloads and parses a file in a mesh worker; aborting `signal` stops the worker at once
+export function parseInWorker(
+  url: string,
+  format: WorkerFormat,
+  onProgress?: LoadProgressCallback,
+  signal?: AbortSignal
+): Promise<PackedObject[]> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelled())
+      return
+    }
+
+    const worker = new Worker(new URL('./meshWorker.ts', import.meta.url), { type: 'module' })
+    const finish = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', abort)
+    }
+    const abort = () => {
+      finish()
+      reject(cancelled())
+    }
+    signal?.addEventListener('abort', abort)
+
+    worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+      const message = event.data
+      if (message.type === 'progress') {
+        onProgress?.(message.percent, message.stage)
+      } else if (message.type === 'done') {
+        finish()
+        resolve(message.objects)
+      } else {
+        finish()
+        reject(new Error(message.error))
+      }
+    }
+    worker.onerror = (event) => {
+      finish()
+      reject(new Error(event.message || 'The mesh worker failed'))
+    }
+    // The worker resolves relative URLs against its own script, so they are made absolute
+    worker.postMessage({ url: new URL(url, window.location.href).href, format })
+  })
+}
@@ -1,6 +1,8 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
+import { SharedViewer } from './components/SharedViewer'
+import { getUrlParam } from './utils/url'
 import './index.css'
 
 const rootElement = document.getElementById('root')
@@ -9,8 +11,11 @@ if (!rootElement) {
   throw new Error('Root element not found')
 }
 
+const shareToken = getUrlParam('share')
+
 ReactDOM.createRoot(rootElement).render(
   <React.StrictMode>
-    <App />
+    {/* Share links open the model alone, without the library around it */}
+    {shareToken ? <SharedViewer token={shareToken} /> : <App />}
   </React.StrictMode>
 )
@@ -0,0 +1,71 @@
+import * as THREE from 'three'
+
+// Shared types used across the viewer components
+
+// Theme type definition
+export type Theme = 'dark' | 'light';
+
+// View mode type definition
+export type ViewMode = 'normal' | 'wireframe' | 'x-ray';
+
+// Camera projection type definition
+export type Projection = 'perspective' | 'orthographic';
+
+// Point or direction as sent to and from the backend
+export type Vector3Tuple = [number, number, number];
+
+// Mesh formats models can be exported and converted to
+export type MeshFormat = 'stl' | 'obj' | 'glb' | 'ply';
+
+// Length units a model's coordinates can be declared in
+export type LengthUnit = 'mm' | 'cm' | 'm' | 'in';
+
+// Colors resolved from the active theme
+export interface ThemeColors {
+  background: string;
+  surface: string;
+  border: string;
+  text: string;
+  textSecondary: string;
+  accent: string;
+}
+
+// Information reported by the Model component once a file has been loaded,
+// and again whenever its materials are rebuilt
+export interface LoadedModel {
+  object: THREE.Object3D;
+  // Object created by the loader for this file; changes only when a new file is loaded
+  root: THREE.Object3D;
+  // World units per model unit; the viewer renders in meters, so this is the size of the model's unit
+  scale: number;
+}
+
+// Camera in model coordinates, as stored with saved views
+export interface ModelCamera {
+  camera_position: Vector3Tuple;
+  camera_target: Vector3Tuple;
+  projection: Projection;
+  // Height of the visible area at the target in model units
+  view_height: number | null;
+}
+
+// What a share link shows, so the recipient sees the model as it was shared
+export interface ViewerState {
+  viewMode: ViewMode;
+  backgroundColor: string;
+  objectColor: string;
+  useOriginalMaterials: boolean;
+  autoRotate: boolean;
+  camera: ModelCamera | null;
+  // Hidden parts as paths from partPath, which unlike object ids are the same every time the file loads
+  hiddenParts: string[];
+}
+
+// Point clicked on the model, reported to pages embedding the viewer
+export interface ModelPick {
+  // Model coordinates
+  point: Vector3Tuple;
+  // Name of the clicked mesh and its path from partPath
+  part: string;
+  path: string | null;
+}
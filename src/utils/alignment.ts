@@ -0,0 +1,189 @@
+import * as THREE from 'three';
+import { Vector3Tuple } from '../types';
+import { buildBVH } from './compare';
+
+// Placement of a compared model relative to the reference model, in model units
+export interface Alignment {
+  offset: Vector3Tuple;
+  // Degrees about the x, y and z axes through the pivot, applied in that order
+  rotation: Vector3Tuple;
+}
+
+export const NO_ALIGNMENT: Alignment = { offset: [0, 0, 0], rotation: [0, 0, 0] };
+
+// Vertices sampled from the moving model for each best-fit step
+const FIT_SAMPLES = 3000;
+const FIT_ITERATIONS = 100;
+// Share of the closest pairs used in each step, so parts only one model has do not pull the fit
+const FIT_INLIERS = 0.8;
+
+const DEGREES = 180 / Math.PI;
+
+export function alignmentMatrix(alignment: Alignment, pivot: THREE.Vector3): THREE.Matrix4 {
+  const [x, y, z] = alignment.rotation.map(angle => angle / DEGREES);
+  const [dx, dy, dz] = alignment.offset;
+  return new THREE.Matrix4()
+    .makeTranslation(pivot.x + dx, pivot.y + dy, pivot.z + dz)
+    .multiply(new THREE.Matrix4().makeRotationFromEuler(new THREE.Euler(x, y, z, 'XYZ')))
+    .multiply(new THREE.Matrix4().makeTranslation(-pivot.x, -pivot.y, -pivot.z));
+}
+
+// Inverse of alignmentMatrix for rigid transforms
+function matrixAlignment(matrix: THREE.Matrix4, pivot: THREE.Vector3): Alignment {
+  const position = new THREE.Vector3();
+  const quaternion = new THREE.Quaternion();
+  matrix.decompose(position, quaternion, new THREE.Vector3());
+  const euler = new THREE.Euler().setFromQuaternion(quaternion, 'XYZ');
+  const offset = position.sub(pivot).add(pivot.clone().applyQuaternion(quaternion));
+  const round = (value: number) => Number(value.toPrecision(6));
+  return {
+    offset: [round(offset.x), round(offset.y), round(offset.z)],
+    rotation: [round(euler.x * DEGREES), round(euler.y * DEGREES), round(euler.z * DEGREES)],
+  };
+}
+
+// Eigenvector of the largest eigenvalue of a symmetric 4×4 matrix, by Jacobi rotations
+function dominantEigenvector(matrix: number[][]): number[] {
+  const a = matrix.map(row => [...row]);
+  const v: number[][] = [0, 1, 2, 3].map(i => [0, 1, 2, 3].map(j => (i === j ? 1 : 0)));
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let off = 0;
+    for (let p = 0; p < 3; p++) {
+      for (let q = p + 1; q < 4; q++) off += a[p][q] * a[p][q];
+    }
+    if (off < 1e-24) break;
+
+    for (let p = 0; p < 3; p++) {
+      for (let q = p + 1; q < 4; q++) {
+        if (Math.abs(a[p][q]) < 1e-30) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < 4; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < 4; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < 4; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  let best = 0;
+  for (let i = 1; i < 4; i++) {
+    if (a[i][i] > a[best][best]) best = i;
+  }
+  return v.map(row => row[best]);
+}
+
+// Rigid transform moving `from` onto the matching `to` points with the least
+// squared error (Horn's quaternion method)
+function rigidFit(from: THREE.Vector3[], to: THREE.Vector3[]): THREE.Matrix4 {
+  const fromCenter = new THREE.Vector3();
+  const toCenter = new THREE.Vector3();
+  from.forEach(p => fromCenter.add(p));
+  to.forEach(q => toCenter.add(q));
+  fromCenter.divideScalar(from.length);
+  toCenter.divideScalar(to.length);
+
+  // Cross-covariance, s[i][j] = sum of p_i * q_j over centered pairs
+  const s = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const p = new THREE.Vector3();
+  const q = new THREE.Vector3();
+  for (let k = 0; k < from.length; k++) {
+    p.subVectors(from[k], fromCenter);
+    q.subVectors(to[k], toCenter);
+    const pa = p.toArray();
+    const qa = q.toArray();
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) s[i][j] += pa[i] * qa[j];
+    }
+  }
+
+  const [[sxx, sxy, sxz], [syx, syy, syz], [szx, szy, szz]] = s;
+  const [w, x, y, z] = dominantEigenvector([
+    [sxx + syy + szz, syz - szy, szx - sxz, sxy - syx],
+    [syz - szy, sxx - syy - szz, sxy + syx, szx + sxz],
+    [szx - sxz, sxy + syx, -sxx + syy - szz, syz + szy],
+    [sxy - syx, szx + sxz, syz + szy, -sxx - syy + szz],
+  ]);
+  const rotation = new THREE.Quaternion(x, y, z, w).normalize();
+  const translation = toCenter.clone().sub(fromCenter.clone().applyQuaternion(rotation));
+  return new THREE.Matrix4().compose(translation, rotation, new THREE.Vector3(1, 1, 1));
+}
+
+function triangleBox(triangles: Float32Array): THREE.Box3 {
+  const box = new THREE.Box3();
+  const point = new THREE.Vector3();
+  for (let i = 0; i < triangles.length; i += 3) {
+    box.expandByPoint(point.fromArray(triangles, i));
+  }
+  return box;
+}
+
+// Alignment that best fits the `moving` triangles onto the `reference`
+// surface, by iterative closest points starting from matching bounding box
+// centers. Finds the nearest fit, so models should start roughly oriented alike.
+export function bestFitAlignment(reference: Float32Array, moving: Float32Array, pivot: THREE.Vector3): Alignment {
+  if (reference.length === 0 || moving.length === 0) return NO_ALIGNMENT;
+
+  const bvh = buildBVH(reference);
+  const vertexCount = moving.length / 3;
+  const stride = Math.max(1, Math.floor(vertexCount / FIT_SAMPLES));
+  const samples: THREE.Vector3[] = [];
+  for (let i = 0; i < vertexCount; i += stride) {
+    samples.push(new THREE.Vector3().fromArray(moving, i * 3));
+  }
+
+  const referenceBox = triangleBox(reference);
+  // Steps shorter than this end the fit
+  const settled = referenceBox.getSize(new THREE.Vector3()).length() * 1e-7;
+  const start = referenceBox.getCenter(new THREE.Vector3()).sub(triangleBox(moving).getCenter(new THREE.Vector3()));
+  const matrix = new THREE.Matrix4().makeTranslation(start.x, start.y, start.z);
+  const hit = { point: new THREE.Vector3(), distance: 0, faceIndex: 0 };
+  const step = new THREE.Vector3();
+  const stepRotation = new THREE.Quaternion();
+
+  for (let iteration = 0; iteration < FIT_ITERATIONS; iteration++) {
+    const pairs = samples.map(sample => {
+      const moved = sample.clone().applyMatrix4(matrix);
+      bvh.closestPointToPoint(moved, hit);
+      return { moved, closest: hit.point.clone(), distance: hit.distance };
+    });
+    pairs.sort((a, b) => a.distance - b.distance);
+    const inliers = pairs.slice(0, Math.max(3, Math.floor(pairs.length * FIT_INLIERS)));
+
+    const fit = rigidFit(inliers.map(pair => pair.moved), inliers.map(pair => pair.closest));
+    matrix.premultiply(fit);
+
+    // Stop once a step barely moves the model
+    fit.decompose(step, stepRotation, new THREE.Vector3());
+    if (step.length() < settled && 1 - Math.abs(stepRotation.w) < 1e-12) break;
+  }
+
+  return matrixAlignment(matrix, pivot);
+}
+
+// Copy of a triangle soup moved by `matrix`
+export function transformTriangles(triangles: Float32Array, matrix: THREE.Matrix4): Float32Array {
+  const result = new Float32Array(triangles.length);
+  const point = new THREE.Vector3();
+  for (let i = 0; i < triangles.length; i += 3) {
+    point.fromArray(triangles, i).applyMatrix4(matrix).toArray(result, i);
+  }
+  return result;
+}
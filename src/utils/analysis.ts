@@ -0,0 +1,210 @@
+import * as THREE from 'three'
+import { weldTolerance, weldVertices } from './mesh'
+
+export interface MeshAnalysis {
+  triangleCount: number;
+  // Model units, model units² and model units³
+  surfaceArea: number;
+  volume: number;
+  size: THREE.Vector3;
+  // Edges used by a single triangle (open boundaries)
+  boundaryEdges: number;
+  // Closed loops of boundary edges
+  holes: number;
+  // Edges shared by more than two triangles
+  nonManifoldEdges: number;
+  // Triangles whose winding disagrees with a neighbour
+  flippedTriangles: number;
+  // True when the enclosed volume is negative, i.e. all normals point inwards
+  inverted: boolean;
+  watertight: boolean;
+  // World-space segments and triangles for highlighting problems
+  boundarySegments: Float32Array;
+  nonManifoldSegments: Float32Array;
+  flippedTriangleVertices: Float32Array;
+}
+
+interface EdgeUse {
+  a: number;
+  b: number;
+  // Triangles using the edge and whether each runs a -> b
+  triangles: number[];
+  forward: boolean[];
+}
+
+function findRoot(parent: Map<number, number>, i: number): number {
+  let root = i;
+  while (parent.get(root) !== root) root = parent.get(root) as number;
+  parent.set(i, root);
+  return root;
+}
+
+// Analyze all meshes under `root`. World-space results are divided by `scale`
+// so the numbers are reported in model units.
+export function analyzeModel(root: THREE.Object3D, scale: number): MeshAnalysis {
+  root.updateMatrixWorld(true);
+
+  let triangleCount = 0;
+  let area = 0;
+  let signedVolume = 0;
+  let boundaryEdges = 0;
+  let holes = 0;
+  let nonManifoldEdges = 0;
+  const boundarySegments: number[] = [];
+  const nonManifoldSegments: number[] = [];
+  const flippedVertices: number[] = [];
+  const box = new THREE.Box3();
+
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const cross = new THREE.Vector3();
+  const edge2 = new THREE.Vector3();
+
+  root.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return;
+
+    const geometry = child.geometry as THREE.BufferGeometry;
+    const position = geometry.attributes.position;
+    if (!position) return;
+
+    const index = geometry.index;
+    const triangles = Math.floor((index ? index.count : position.count) / 3);
+    const vertexAt = (t: number, k: number) => (index ? index.getX(t * 3 + k) : t * 3 + k);
+
+    // World-space vertex positions
+    const world = new Float32Array(position.count * 3);
+    for (let i = 0; i < position.count; i++) {
+      a.fromBufferAttribute(position, i).applyMatrix4(child.matrixWorld);
+      a.toArray(world, i * 3);
+      box.expandByPoint(a);
+    }
+
+    const { vertexIds } = weldVertices(position, weldTolerance(geometry));
+    const edges = new Map<string, EdgeUse>();
+
+    for (let t = 0; t < triangles; t++) {
+      const i0 = vertexAt(t, 0);
+      const i1 = vertexAt(t, 1);
+      const i2 = vertexAt(t, 2);
+      a.fromArray(world, i0 * 3);
+      b.fromArray(world, i1 * 3);
+      c.fromArray(world, i2 * 3);
+
+      cross.subVectors(b, a).cross(edge2.subVectors(c, a));
+      area += cross.length() / 2;
+      signedVolume += a.dot(edge2.crossVectors(b, c)) / 6;
+
+      const ids = [vertexIds[i0], vertexIds[i1], vertexIds[i2]];
+      const corners = [i0, i1, i2];
+      for (let k = 0; k < 3; k++) {
+        const from = ids[k];
+        const to = ids[(k + 1) % 3];
+        if (from === to) continue;
+        const key = from < to ? `${from}_${to}` : `${to}_${from}`;
+        let edge = edges.get(key);
+        if (!edge) {
+          edge = { a: corners[k], b: corners[(k + 1) % 3], triangles: [], forward: [] };
+          edges.set(key, edge);
+        }
+        edge.triangles.push(t);
+        edge.forward.push(from < to);
+      }
+    }
+
+    const loopParent = new Map<number, number>();
+    // Neighbours across manifold edges, with the low bit set when the two windings disagree
+    const neighbours: number[][] = Array.from({ length: triangles }, () => []);
+
+    for (const edge of edges.values()) {
+      const segment = [...world.subarray(edge.a * 3, edge.a * 3 + 3), ...world.subarray(edge.b * 3, edge.b * 3 + 3)];
+      if (edge.triangles.length === 1) {
+        boundaryEdges += 1;
+        boundarySegments.push(...segment);
+
+        // Group boundary edges into hole loops
+        const from = vertexIds[edge.a];
+        const to = vertexIds[edge.b];
+        if (!loopParent.has(from)) loopParent.set(from, from);
+        if (!loopParent.has(to)) loopParent.set(to, to);
+        loopParent.set(findRoot(loopParent, from), findRoot(loopParent, to));
+      } else if (edge.triangles.length > 2) {
+        nonManifoldEdges += 1;
+        nonManifoldSegments.push(...segment);
+      } else if (edge.triangles[0] !== edge.triangles[1]) {
+        // Consistently wound neighbours traverse a shared edge in opposite directions
+        const [t0, t1] = edge.triangles;
+        const disagree = edge.forward[0] === edge.forward[1] ? 1 : 0;
+        neighbours[t0].push(t1 * 2 + disagree);
+        neighbours[t1].push(t0 * 2 + disagree);
+      }
+    }
+
+    // Orient each connected surface from one of its triangles; the
+    // orientation fewer of its triangles have is the flipped one
+    const flipped: number[] = [];
+    const orientation = new Int8Array(triangles).fill(-1);
+    for (let seed = 0; seed < triangles; seed++) {
+      if (orientation[seed] !== -1) continue;
+      orientation[seed] = 0;
+      const component = [seed];
+      let reversed = 0;
+      for (let q = 0; q < component.length; q++) {
+        const t = component[q];
+        for (const link of neighbours[t]) {
+          const other = link >> 1;
+          if (orientation[other] !== -1) continue;
+          orientation[other] = orientation[t] ^ (link & 1);
+          reversed += orientation[other];
+          component.push(other);
+        }
+      }
+      const minority = reversed * 2 > component.length ? 0 : 1;
+      component.forEach(t => {
+        if (orientation[t] === minority) flipped.push(t);
+      });
+    }
+
+    holes += new Set([...loopParent.keys()].map(id => findRoot(loopParent, id))).size;
+    triangleCount += triangles;
+
+    for (const t of flipped) {
+      for (let k = 0; k < 3; k++) {
+        const i = vertexAt(t, k);
+        flippedVertices.push(world[i * 3], world[i * 3 + 1], world[i * 3 + 2]);
+      }
+    }
+  });
+
+  const size = box.isEmpty() ? new THREE.Vector3() : box.getSize(new THREE.Vector3()).divideScalar(scale);
+  const flippedTriangles = flippedVertices.length / 9;
+
+  return {
+    triangleCount,
+    surfaceArea: area / (scale * scale),
+    volume: Math.abs(signedVolume) / (scale * scale * scale),
+    size,
+    boundaryEdges,
+    holes,
+    nonManifoldEdges,
+    flippedTriangles,
+    inverted: signedVolume < 0,
+    watertight: boundaryEdges === 0 && nonManifoldEdges === 0,
+    boundarySegments: new Float32Array(boundarySegments),
+    nonManifoldSegments: new Float32Array(nonManifoldSegments),
+    flippedTriangleVertices: new Float32Array(flippedVertices),
+  };
+}
+
+// Compact number formatting for analysis values
+export function formatQuantity(value: number): string {
+  if (value === 0) return '0';
+  if (Math.abs(value) >= 1e6 || Math.abs(value) < 1e-3) return value.toExponential(3);
+  return value.toLocaleString(undefined, { maximumFractionDigits: 3 });
+}
+
+// Bounding box dimensions as "X × Y × Z", followed by the unit when given
+export function formatDimensions(x: number, y: number, z: number, unit?: string): string {
+  const dimensions = `${formatQuantity(x)} × ${formatQuantity(y)} × ${formatQuantity(z)}`;
+  return unit ? `${dimensions} ${unit}` : dimensions;
+}
@@ -0,0 +1,78 @@
+import * as THREE from 'three'
+
+// Node of the part tree shown for the loaded model
+export interface PartNode {
+  id: string;
+  name: string;
+  isMesh: boolean;
+  children: PartNode[];
+}
+
+function partName(object: THREE.Object3D, index: number): string {
+  if (object.name) return object.name;
+  return object instanceof THREE.Mesh ? `Part ${index + 1}` : `Group ${index + 1}`;
+}
+
+function toPartNode(object: THREE.Object3D, index: number): PartNode {
+  return {
+    id: object.uuid,
+    name: partName(object, index),
+    isMesh: object instanceof THREE.Mesh,
+    children: object.children
+      .filter(child => child instanceof THREE.Mesh || child.children.length > 0)
+      .map(toPartNode),
+  };
+}
+
+// Build the part tree below the object created by the loader for a file
+export function buildPartTree(root: THREE.Object3D): PartNode[] {
+  if (root instanceof THREE.Mesh) {
+    return [toPartNode(root, 0)];
+  }
+  return toPartNode(root, 0).children;
+}
+
+export function findPart(root: THREE.Object3D, id: string): THREE.Object3D | undefined {
+  return root.getObjectByProperty('uuid', id);
+}
+
+// Ids of all meshes in the subtree of `object`, including itself
+export function meshIds(object: THREE.Object3D): string[] {
+  const ids: string[] = [];
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      ids.push(child.uuid);
+    }
+  });
+  return ids;
+}
+
+// True when the object and all of its ancestors are visible
+export function isObjectVisible(object: THREE.Object3D): boolean {
+  let current: THREE.Object3D | null = object;
+  while (current) {
+    if (!current.visible) return false;
+    current = current.parent;
+  }
+  return true;
+}
+
+// Child indices leading from `root` to `object`, e.g. '0.2.1'
+export function partPath(root: THREE.Object3D, object: THREE.Object3D): string | null {
+  const indices: number[] = [];
+  let current = object;
+  while (current !== root) {
+    if (!current.parent) return null;
+    indices.unshift(current.parent.children.indexOf(current));
+    current = current.parent;
+  }
+  return indices.join('.');
+}
+
+export function findPartByPath(root: THREE.Object3D, path: string): THREE.Object3D | undefined {
+  let current: THREE.Object3D | undefined = root;
+  for (const index of path.split('.')) {
+    current = current?.children[Number(index)];
+  }
+  return current === root ? undefined : current;
+}
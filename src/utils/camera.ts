@@ -0,0 +1,80 @@
+import * as THREE from 'three'
+
+// Minimal interface of the orbit controls used for framing
+export interface OrbitTarget {
+  target: THREE.Vector3;
+  update: () => void;
+}
+
+// Camera position that fits `box` in view when looking along `direction`
+export function framingPosition(camera: THREE.Camera, box: THREE.Box3, direction: THREE.Vector3): THREE.Vector3 {
+  const center = box.getCenter(new THREE.Vector3());
+  const size = box.getSize(new THREE.Vector3());
+  const maxDim = Math.max(size.x, size.y, size.z) || 1;
+  const fov = camera instanceof THREE.PerspectiveCamera ? camera.fov * (Math.PI / 180) : 45 * (Math.PI / 180);
+  const distance = (maxDim / 2) / Math.tan(fov / 2) * 2.5; // Add margin
+
+  return center.add(direction.clone().normalize().multiplyScalar(distance));
+}
+
+// Move the camera so `box` fills the view, keeping the current viewing direction
+export function frameBox(camera: THREE.Camera, controls: OrbitTarget | null, box: THREE.Box3) {
+  if (box.isEmpty()) return;
+
+  const center = box.getCenter(new THREE.Vector3());
+  const target = controls ? controls.target : center;
+  const direction = camera.position.clone().sub(target);
+  if (direction.lengthSq() === 0) direction.set(1, 1, 1);
+
+  camera.position.copy(framingPosition(camera, box, direction));
+  camera.lookAt(center);
+
+  if (controls) {
+    controls.target.copy(center);
+    controls.update();
+  }
+}
+
+// Camera pose as an eye position and the point it orbits around
+export interface CameraView {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  // Height of the visible area at the target, sets the zoom of orthographic cameras
+  viewHeight?: number;
+}
+
+export type ViewPreset = 'front' | 'back' | 'left' | 'right' | 'top' | 'bottom' | 'iso';
+
+// Direction from the target towards the camera for each standard view. Top and
+// bottom lean slightly forward so the camera never looks straight along its up axis.
+export const VIEW_PRESETS: Record<ViewPreset, { label: string; direction: THREE.Vector3 }> = {
+  front: { label: 'Front', direction: new THREE.Vector3(0, 0, 1) },
+  back: { label: 'Back', direction: new THREE.Vector3(0, 0, -1) },
+  left: { label: 'Left', direction: new THREE.Vector3(-1, 0, 0) },
+  right: { label: 'Right', direction: new THREE.Vector3(1, 0, 0) },
+  top: { label: 'Top', direction: new THREE.Vector3(0, 1, 1e-4) },
+  bottom: { label: 'Bottom', direction: new THREE.Vector3(0, -1, 1e-4) },
+  iso: { label: 'Iso', direction: new THREE.Vector3(1, 1, 1) },
+};
+
+// Height of the area the camera sees at `target`
+export function visibleHeight(camera: THREE.Camera, target: THREE.Vector3): number {
+  if (camera instanceof THREE.OrthographicCamera) {
+    return (camera.top - camera.bottom) / camera.zoom;
+  }
+  const fov = camera instanceof THREE.PerspectiveCamera ? camera.fov * (Math.PI / 180) : 45 * (Math.PI / 180);
+  return 2 * camera.position.distanceTo(target) * Math.tan(fov / 2);
+}
+
+// View that fits `box` from one of the standard directions
+export function presetView(camera: THREE.Camera, box: THREE.Box3, preset: ViewPreset): CameraView {
+  const target = box.getCenter(new THREE.Vector3());
+  const position = framingPosition(camera, box, VIEW_PRESETS[preset].direction);
+  const fov = camera instanceof THREE.PerspectiveCamera ? camera.fov * (Math.PI / 180) : 45 * (Math.PI / 180);
+  return { position, target, viewHeight: 2 * position.distanceTo(target) * Math.tan(fov / 2) };
+}
+
+// Smooth start and stop for camera transitions, `t` in [0, 1]
+export function easeInOut(t: number): number {
+  return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+}
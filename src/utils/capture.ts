@@ -0,0 +1,195 @@
+import * as THREE from 'three'
+import { ZipEntry, createZip } from './zip'
+
+// Image and turntable export of the viewer canvas. Only the WebGL scene is
+// drawn, so HTML overlays such as the toolbars and the view cube are left out.
+
+// What the exports need from the canvas; the react-three-fiber state provides it
+export interface CaptureScene {
+  gl: THREE.WebGLRenderer
+  scene: THREE.Scene
+  camera: THREE.Camera
+}
+
+export interface ImageOptions {
+  // Output size in pixels
+  width: number
+  height: number
+  // Color behind the model, null leaves it transparent
+  background: string | null
+}
+
+export interface TurntableOptions extends ImageOptions {
+  frames: number
+  fps: number
+}
+
+// Images are drawn this many times larger when the GPU allows it, then scaled down to smooth edges
+const SUPERSAMPLE = 2
+
+// Longest image side the renderer can draw
+export function maxImageSize(gl: THREE.WebGLRenderer): number {
+  return gl.capabilities.maxTextureSize
+}
+
+// Copy of `camera` showing the same view at another aspect ratio
+function fitCamera(camera: THREE.Camera, aspect: number): THREE.Camera {
+  const fitted = camera.clone()
+  if (fitted instanceof THREE.PerspectiveCamera) {
+    fitted.aspect = aspect
+    fitted.updateProjectionMatrix()
+  } else if (fitted instanceof THREE.OrthographicCamera) {
+    const center = (fitted.left + fitted.right) / 2
+    const halfWidth = (fitted.top - fitted.bottom) / 2 * aspect
+    fitted.left = center - halfWidth
+    fitted.right = center + halfWidth
+    fitted.updateProjectionMatrix()
+  }
+  return fitted
+}
+
+// Renders the view of `camera` into a new canvas. The live canvas is resized
+// for the render and restored before returning, so the page never shows it.
+export function renderImage(view: CaptureScene, options: ImageOptions, camera = view.camera): HTMLCanvasElement {
+  const { gl, scene } = view
+  const maxSize = maxImageSize(gl)
+  const longest = Math.max(options.width, options.height)
+  if (longest > maxSize) {
+    throw new Error(`Images can be at most ${maxSize} pixels wide on this device`)
+  }
+  const scale = Math.max(1, Math.min(SUPERSAMPLE, Math.floor(maxSize / longest)))
+
+  const size = gl.getSize(new THREE.Vector2())
+  const pixelRatio = gl.getPixelRatio()
+  const image = document.createElement('canvas')
+  image.width = options.width
+  image.height = options.height
+  const context = image.getContext('2d')
+  if (!context) throw new Error('Could not create the image')
+
+  try {
+    gl.setPixelRatio(1)
+    gl.setSize(options.width * scale, options.height * scale, false)
+    gl.render(scene, fitCamera(camera, options.width / options.height))
+    if (options.background) {
+      context.fillStyle = options.background
+      context.fillRect(0, 0, options.width, options.height)
+    }
+    context.imageSmoothingQuality = 'high'
+    // Read in the same task as the render, before the drawing buffer is cleared
+    context.drawImage(gl.domElement, 0, 0, options.width, options.height)
+  } finally {
+    gl.setPixelRatio(pixelRatio)
+    gl.setSize(size.x, size.y, false)
+  }
+  return image
+}
+
+export function canvasBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))), 'image/png')
+  })
+}
+
+// Copy of `camera` moved around `target` the way the orbit controls auto-rotate:
+// about the camera's up axis, clockwise seen from above
+function orbitCamera(camera: THREE.Camera, target: THREE.Vector3, angle: number): THREE.Camera {
+  const orbiting = camera.clone()
+  const offset = orbiting.position.clone().sub(target).applyAxisAngle(orbiting.up, -angle)
+  orbiting.position.copy(target).add(offset)
+  orbiting.lookAt(target)
+  return orbiting
+}
+
+// Frames of one full turn, starting from the current view
+function turntableCameras(view: CaptureScene, target: THREE.Vector3, frames: number): THREE.Camera[] {
+  // Fixed at the start, the live view may keep moving while frames are exported
+  const start = view.camera.clone()
+  const center = target.clone()
+  return Array.from({ length: frames }, (_, frame) => orbitCamera(start, center, (frame / frames) * Math.PI * 2))
+}
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+
+export function canRecordWebm(): boolean {
+  return typeof MediaRecorder !== 'undefined' && WEBM_TYPES.some(type => MediaRecorder.isTypeSupported(type))
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Records one turn as a WebM video. The recorder timestamps frames as they
+// arrive, so this takes as long as the video plays.
+export async function recordTurntable(
+  view: CaptureScene,
+  target: THREE.Vector3,
+  options: TurntableOptions,
+  onProgress: (fraction: number) => void
+): Promise<Blob> {
+  const mimeType = WEBM_TYPES.find(type => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type))
+  if (!mimeType) throw new Error('This browser cannot record WebM videos')
+
+  const cameras = turntableCameras(view, target, options.frames)
+  const output = document.createElement('canvas')
+  output.width = options.width
+  output.height = options.height
+  const context = output.getContext('2d')
+  if (!context) throw new Error('Could not create the video')
+
+  const stream = output.captureStream(0)
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 })
+  const chunks: Blob[] = []
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data)
+  }
+  const stopped = new Promise(resolve => {
+    recorder.onstop = resolve
+  })
+
+  recorder.start()
+  try {
+    for (const [frame, camera] of cameras.entries()) {
+      const started = performance.now()
+      context.drawImage(renderImage(view, options, camera), 0, 0)
+      track.requestFrame()
+      onProgress((frame + 1) / cameras.length)
+      await wait(Math.max(0, 1000 / options.fps - (performance.now() - started)))
+    }
+  } finally {
+    recorder.stop()
+    track.stop()
+  }
+  await stopped
+  return new Blob(chunks, { type: 'video/webm' })
+}
+
+// One turn as numbered PNG files in a ZIP archive
+export async function renderTurntableFrames(
+  view: CaptureScene,
+  target: THREE.Vector3,
+  options: TurntableOptions,
+  onProgress: (fraction: number) => void
+): Promise<Blob> {
+  const cameras = turntableCameras(view, target, options.frames)
+  const digits = String(cameras.length).length
+  const files: ZipEntry[] = []
+  for (const [frame, camera] of cameras.entries()) {
+    const image = await canvasBlob(renderImage(view, options, camera))
+    files.push({
+      name: `frame-${String(frame + 1).padStart(digits, '0')}.png`,
+      data: new Uint8Array(await image.arrayBuffer())
+    })
+    onProgress((frame + 1) / cameras.length)
+  }
+  return createZip(files)
+}
+
+// Saves `blob` through the browser's download prompt
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
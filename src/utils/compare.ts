@@ -0,0 +1,249 @@
+import * as THREE from 'three'
+import { MeshBVH } from 'three-mesh-bvh'
+import { weldVertices } from './mesh'
+import { getLoader } from '../loaders'
+import { Model3D, fetchDisplayFile } from '../api'
+
+// Changed bodies this similar in area and size are treated as one body that moved
+const MOVE_MATCH_RATIO = 0.02
+
+// World-space triangle soups (9 floats per triangle) of two revisions, grouped by change
+export interface RevisionDiff {
+  // Geometry of the newer revision that is within tolerance of the older one
+  unchanged: Float32Array;
+  // Only in the newer revision
+  added: Float32Array;
+  // Only in the older revision
+  removed: Float32Array;
+  // Bodies that moved beyond the tolerance, at their older and newer location
+  movedFrom: Float32Array;
+  movedTo: Float32Array;
+}
+
+interface Body {
+  triangles: number[];
+  area: number;
+  center: THREE.Vector3;
+  // Bounding box dimensions sorted ascending, so rotated bodies still match
+  dimensions: number[];
+}
+
+// All triangles under `root` in world space
+export function worldTriangles(root: THREE.Object3D): Float32Array {
+  root.updateMatrixWorld(true);
+
+  const meshes: THREE.Mesh[] = [];
+  let count = 0;
+  root.traverse((child) => {
+    if (child instanceof THREE.Mesh && child.geometry.attributes.position) {
+      const geometry = child.geometry as THREE.BufferGeometry;
+      meshes.push(child);
+      count += Math.floor((geometry.index ? geometry.index.count : geometry.attributes.position.count) / 3);
+    }
+  });
+
+  const triangles = new Float32Array(count * 9);
+  const vertex = new THREE.Vector3();
+  let offset = 0;
+  for (const mesh of meshes) {
+    const geometry = mesh.geometry as THREE.BufferGeometry;
+    const position = geometry.attributes.position;
+    const index = geometry.index;
+    const vertexCount = Math.floor((index ? index.count : position.count) / 3) * 3;
+    for (let i = 0; i < vertexCount; i++) {
+      vertex.fromBufferAttribute(position, index ? index.getX(i) : i).applyMatrix4(mesh.matrixWorld);
+      vertex.toArray(triangles, offset);
+      offset += 3;
+    }
+  }
+  return triangles;
+}
+
+export function buildBVH(triangles: Float32Array): MeshBVH {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(triangles, 3));
+  return new MeshBVH(geometry);
+}
+
+// Flags triangles whose corners or centroid are farther than `tolerance` from the surface in `bvh`
+function changedTriangles(triangles: Float32Array, bvh: MeshBVH, tolerance: number): Uint8Array {
+  const count = triangles.length / 9;
+  const changed = new Uint8Array(count);
+  const point = new THREE.Vector3();
+  const centroid = new THREE.Vector3();
+  const hit = { point: new THREE.Vector3(), distance: 0, faceIndex: 0 };
+
+  for (let t = 0; t < count; t++) {
+    centroid.set(0, 0, 0);
+    for (let k = 0; k <= 3; k++) {
+      if (k < 3) {
+        point.fromArray(triangles, t * 9 + k * 3);
+        centroid.add(point);
+      } else {
+        point.copy(centroid).divideScalar(3);
+      }
+      if (!bvh.closestPointToPoint(point, hit, 0, tolerance)) {
+        changed[t] = 1;
+        break;
+      }
+    }
+  }
+  return changed;
+}
+
+function findRoot(parent: Int32Array, i: number): number {
+  while (parent[i] !== i) {
+    parent[i] = parent[parent[i]];
+    i = parent[i];
+  }
+  return i;
+}
+
+// Groups the flagged triangles into connected bodies
+function changedBodies(triangles: Float32Array, changed: Uint8Array, tolerance: number): Body[] {
+  const { vertexIds, count } = weldVertices(new THREE.BufferAttribute(triangles, 3), tolerance);
+  const parent = new Int32Array(count);
+  for (let i = 0; i < count; i++) parent[i] = i;
+
+  for (let t = 0; t < changed.length; t++) {
+    if (!changed[t]) continue;
+    const a = findRoot(parent, vertexIds[t * 3]);
+    for (let k = 1; k < 3; k++) {
+      const b = findRoot(parent, vertexIds[t * 3 + k]);
+      if (a !== b) parent[b] = a;
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  for (let t = 0; t < changed.length; t++) {
+    if (!changed[t]) continue;
+    const root = findRoot(parent, vertexIds[t * 3]);
+    const group = groups.get(root);
+    if (group) {
+      group.push(t);
+    } else {
+      groups.set(root, [t]);
+    }
+  }
+
+  const triangle = new THREE.Triangle();
+  return [...groups.values()].map(group => {
+    const box = new THREE.Box3();
+    let area = 0;
+    for (const t of group) {
+      triangle.a.fromArray(triangles, t * 9);
+      triangle.b.fromArray(triangles, t * 9 + 3);
+      triangle.c.fromArray(triangles, t * 9 + 6);
+      area += triangle.getArea();
+      box.expandByPoint(triangle.a).expandByPoint(triangle.b).expandByPoint(triangle.c);
+    }
+    const size = box.getSize(new THREE.Vector3());
+    return {
+      triangles: group,
+      area,
+      center: box.getCenter(new THREE.Vector3()),
+      dimensions: [size.x, size.y, size.z].sort((a, b) => a - b),
+    };
+  });
+}
+
+function isSameBody(a: Body, b: Body, tolerance: number): boolean {
+  const close = (x: number, y: number, slack: number) => Math.abs(x - y) <= Math.max(x, y) * MOVE_MATCH_RATIO + slack;
+  return close(a.area, b.area, 0) && a.dimensions.every((d, i) => close(d, b.dimensions[i], tolerance));
+}
+
+function pickTriangles(triangles: Float32Array, indices: number[]): Float32Array {
+  const result = new Float32Array(indices.length * 9);
+  indices.forEach((t, i) => result.set(triangles.subarray(t * 9, t * 9 + 9), i * 9));
+  return result;
+}
+
+// Compares two revisions placed in the same world space. Surfaces within
+// `tolerance` (world units) of each other count as unchanged.
+export function diffRevisions(older: THREE.Object3D, newer: THREE.Object3D, tolerance: number): RevisionDiff {
+  const oldTriangles = worldTriangles(older);
+  const newTriangles = worldTriangles(newer);
+  const empty = new Float32Array(0);
+
+  if (oldTriangles.length === 0 || newTriangles.length === 0) {
+    return { unchanged: empty, added: newTriangles, removed: oldTriangles, movedFrom: empty, movedTo: empty };
+  }
+
+  const addedFlags = changedTriangles(newTriangles, buildBVH(oldTriangles), tolerance);
+  const removedFlags = changedTriangles(oldTriangles, buildBVH(newTriangles), tolerance);
+
+  const weld = Math.max(tolerance * 1e-3, 1e-9);
+  const addedBodies = changedBodies(newTriangles, addedFlags, weld);
+  const removedBodies = changedBodies(oldTriangles, removedFlags, weld);
+
+  // Pair each added body with the nearest matching removed body
+  const matched = new Set<Body>();
+  const moved: Array<[Body, Body]> = [];
+  for (const body of addedBodies) {
+    let best: Body | null = null;
+    for (const candidate of removedBodies) {
+      if (matched.has(candidate) || !isSameBody(body, candidate, tolerance)) continue;
+      if (!best || candidate.center.distanceTo(body.center) < best.center.distanceTo(body.center)) {
+        best = candidate;
+      }
+    }
+    if (best) {
+      matched.add(best);
+      moved.push([best, body]);
+    }
+  }
+
+  const movedTo = new Set(moved.map(([, to]) => to));
+  const unchanged: number[] = [];
+  for (let t = 0; t < addedFlags.length; t++) {
+    if (!addedFlags[t]) unchanged.push(t);
+  }
+
+  return {
+    unchanged: pickTriangles(newTriangles, unchanged),
+    added: pickTriangles(newTriangles, addedBodies.filter(b => !movedTo.has(b)).flatMap(b => b.triangles)),
+    removed: pickTriangles(oldTriangles, removedBodies.filter(b => !matched.has(b)).flatMap(b => b.triangles)),
+    movedFrom: pickTriangles(oldTriangles, moved.flatMap(([from]) => from.triangles)),
+    movedTo: pickTriangles(newTriangles, moved.flatMap(([, to]) => to.triangles)),
+  };
+}
+
+// Distance from every vertex of `triangles` to the closest point on the `reference` surface
+export function surfaceDistances(triangles: Float32Array, reference: Float32Array): Float32Array {
+  const distances = new Float32Array(triangles.length / 3);
+  if (reference.length === 0) return distances.fill(Infinity);
+
+  const bvh = buildBVH(reference);
+  const point = new THREE.Vector3();
+  const hit = { point: new THREE.Vector3(), distance: 0, faceIndex: 0 };
+  for (let i = 0; i < distances.length; i++) {
+    point.fromArray(triangles, i * 3);
+    bvh.closestPointToPoint(point, hit);
+    distances[i] = hit.distance;
+  }
+  return distances;
+}
+
+// Vertex colors for a deviation heatmap, from blue at no distance through green to red at `range` and beyond
+export function deviationColors(distances: Float32Array, range: number): Float32Array {
+  const colors = new Float32Array(distances.length * 3);
+  const color = new THREE.Color();
+  for (let i = 0; i < distances.length; i++) {
+    const t = range > 0 ? Math.min(distances[i] / range, 1) : 1;
+    color.setHSL((1 - t) * 0.66, 1, 0.5).toArray(colors, i * 3);
+  }
+  return colors;
+}
+
+// Downloads and parses the viewable mesh of a revision
+export async function loadRevisionObject(revision: Model3D): Promise<THREE.Object3D> {
+  const loader = getLoader(revision.display_format);
+  if (!loader) throw new Error(`Unsupported file format: ${revision.display_format}`);
+
+  const url = URL.createObjectURL(await fetchDisplayFile(revision.id));
+  try {
+    return await loader.load(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,69 @@
+import { ModelPick, ViewMode } from '../types'
+
+// postMessage protocol between the embedded viewer (embed.html) and the page hosting its iframe
+
+// What the embedded viewer shows: a library model, a share link or a model file at any URL
+export type EmbedSource =
+  | { kind: 'model', id: string }
+  | { kind: 'share', token: string }
+  | { kind: 'file', url: string, format: string }
+
+// Messages the host page sends to the viewer
+export type EmbedCommand =
+  | { type: 'load', model?: string, share?: string, url?: string, format?: string }
+  | { type: 'setViewMode', mode: ViewMode }
+  // Answered with a 'screenshot' event carrying the same id
+  | { type: 'screenshot', id?: string }
+
+// Messages the viewer posts to the host page
+export type EmbedEvent =
+  | { type: 'ready' }
+  | { type: 'loaded' }
+  | { type: 'error', message: string }
+  | ({ type: 'pick' } & ModelPick)
+  | { type: 'screenshot', id?: string, dataUrl: string | null }
+
+const COMMAND_TYPES = ['load', 'setViewMode', 'screenshot']
+
+// Pages other than the viewer's own that may embed library models, e.g. https://wiki.example.com
+const TRUSTED_ORIGINS = (import.meta.env.VITE_EMBED_ORIGINS ?? '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean)
+
+export function isEmbedCommand(data: unknown): data is EmbedCommand {
+  return typeof data === 'object' && data !== null && COMMAND_TYPES.includes((data as { type?: string }).type ?? '')
+}
+
+// Format of a model file from the extension in its URL
+function formatOf(url: string): string {
+  const path = new URL(url, window.location.href).pathname
+  const dot = path.lastIndexOf('.')
+  return dot < 0 ? '' : path.slice(dot + 1).toLowerCase()
+}
+
+// Source named by the embed URL (model, share or url and format) or by a 'load' command
+export function embedSource(params: {
+  model?: string | null
+  share?: string | null
+  url?: string | null
+  format?: string | null
+}): EmbedSource | null {
+  if (params.model) return { kind: 'model', id: params.model }
+  if (params.share) return { kind: 'share', token: params.share }
+  if (params.url) return { kind: 'file', url: params.url, format: params.format?.toLowerCase() || formatOf(params.url) }
+  return null
+}
+
+// Library models open with the signed-in user's token, so only trusted pages may embed
+// them, and must name themselves in the embed URL to receive events
+export function canEmbedModel(hostOrigin: string | null): boolean {
+  return hostOrigin !== null && (hostOrigin === window.location.origin || TRUSTED_ORIGINS.includes(hostOrigin))
+}
+
+// Posts to the page embedding the viewer, if it is at targetOrigin
+export function postToHost(event: EmbedEvent, targetOrigin: string) {
+  if (window.parent !== window) {
+    window.parent.postMessage(event, targetOrigin)
+  }
+}
@@ -0,0 +1,12 @@
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB']
+
+// File size for display, e.g. "12.5 MB"
+export function formatBytes(bytes: number): string {
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${BYTE_UNITS[unit]}`
+}
@@ -0,0 +1,60 @@
+import * as THREE from 'three'
+import { ViewMode } from '../types'
+
+// Create material based on view mode
+export function createMaterial(mode: ViewMode, color: string): THREE.Material {
+  switch (mode) {
+    case 'wireframe':
+      return new THREE.MeshStandardMaterial({
+        color,
+        metalness: 0.3,
+        roughness: 0.5,
+        wireframe: true
+      });
+    case 'x-ray':
+      return new THREE.MeshPhongMaterial({
+        color,
+        opacity: 0.5,
+        transparent: true,
+        depthWrite: false,
+        side: THREE.DoubleSide
+      });
+    case 'normal':
+    default:
+      return new THREE.MeshStandardMaterial({
+        color,
+        metalness: 0.3,
+        roughness: 0.5
+      });
+  }
+}
+
+// Copy of a material authored in the model file, adjusted for the view mode
+export function adaptMaterial(material: THREE.Material, mode: ViewMode): THREE.Material {
+  const adapted = material.clone();
+
+  if (mode === 'wireframe' && 'wireframe' in adapted) {
+    (adapted as THREE.MeshStandardMaterial).wireframe = true;
+  } else if (mode === 'x-ray') {
+    adapted.transparent = true;
+    adapted.opacity = 0.5;
+    adapted.depthWrite = false;
+    adapted.side = THREE.DoubleSide;
+  }
+
+  return adapted;
+}
+
+// Materials the file defines for a mesh, kept so view modes can be switched without reloading
+export function getAuthoredMaterial(mesh: THREE.Mesh): THREE.Material | THREE.Material[] | undefined {
+  return mesh.userData.authoredMaterial;
+}
+
+// Mark the current materials of matching meshes as authored by the model file
+export function markAuthoredMaterials(object: THREE.Object3D, predicate: (mesh: THREE.Mesh) => boolean = () => true) {
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh && predicate(child)) {
+      child.userData.authoredMaterial = child.material;
+    }
+  });
+}
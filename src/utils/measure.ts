@@ -0,0 +1,102 @@
+import * as THREE from 'three'
+
+// Measurement kinds supported by the measure tool
+export type MeasureKind = 'distance' | 'angle' | 'radius';
+
+export interface Measurement {
+  id: number;
+  kind: MeasureKind;
+  // Picked points in world space
+  points: THREE.Vector3[];
+  // Distance/radius in model units, angle in degrees
+  value: number;
+  // Circle center and normal for radius measurements (world space)
+  center?: THREE.Vector3;
+  normal?: THREE.Vector3;
+}
+
+export interface CircleFit {
+  center: THREE.Vector3;
+  normal: THREE.Vector3;
+  radius: number;
+}
+
+// Number of picks needed to complete each kind of measurement
+export const POINTS_REQUIRED: Record<MeasureKind, number> = {
+  distance: 2,
+  angle: 3,
+  radius: 3,
+};
+
+// Angle in degrees at `vertex` between the rays towards `a` and `b`
+export function angleBetween(a: THREE.Vector3, vertex: THREE.Vector3, b: THREE.Vector3): number {
+  const u = a.clone().sub(vertex);
+  const v = b.clone().sub(vertex);
+  if (u.lengthSq() === 0 || v.lengthSq() === 0) return 0;
+  return THREE.MathUtils.radToDeg(u.angleTo(v));
+}
+
+// Circle passing through three points, or null when the points are collinear
+export function fitCircle(a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3): CircleFit | null {
+  const ab = b.clone().sub(a);
+  const ac = c.clone().sub(a);
+  const normal = new THREE.Vector3().crossVectors(ab, ac);
+  const normalLengthSq = normal.lengthSq();
+
+  if (normalLengthSq < 1e-12) return null;
+
+  // Circumcenter relative to `a`
+  const offset = new THREE.Vector3()
+    .crossVectors(normal, ab)
+    .multiplyScalar(ac.lengthSq())
+    .add(new THREE.Vector3().crossVectors(ac, normal).multiplyScalar(ab.lengthSq()))
+    .divideScalar(2 * normalLengthSq);
+
+  return {
+    center: a.clone().add(offset),
+    normal: normal.normalize(),
+    radius: offset.length(),
+  };
+}
+
+// Build a measurement from picked world-space points. `scale` converts model units
+// to world units, so lengths are divided by it to report real model dimensions.
+export function createMeasurement(
+  id: number,
+  kind: MeasureKind,
+  points: THREE.Vector3[],
+  scale: number
+): Measurement | null {
+  if (points.length < POINTS_REQUIRED[kind]) return null;
+
+  switch (kind) {
+    case 'distance':
+      return { id, kind, points, value: points[0].distanceTo(points[1]) / scale };
+    case 'angle':
+      return { id, kind, points, value: angleBetween(points[0], points[1], points[2]) };
+    case 'radius': {
+      const circle = fitCircle(points[0], points[1], points[2]);
+      if (!circle) return null;
+      return {
+        id,
+        kind,
+        points,
+        value: circle.radius / scale,
+        center: circle.center,
+        normal: circle.normal,
+      };
+    }
+  }
+}
+
+// Human readable value for a measurement
+export function formatMeasurement(measurement: Measurement): string {
+  switch (measurement.kind) {
+    case 'distance':
+      return measurement.value.toFixed(3);
+    case 'angle':
+      return `${measurement.value.toFixed(2)}°`;
+    case 'radius':
+      return `R ${measurement.value.toFixed(3)} / Ø ${(measurement.value * 2).toFixed(3)}`;
+  }
+}
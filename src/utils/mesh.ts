@@ -0,0 +1,92 @@
+import * as THREE from 'three'
+
+// Splitting very large meshes costs more than it helps, so they are kept whole
+const MAX_SPLIT_TRIANGLES = 2_000_000
+
+// Weld coincident vertices and return, for each vertex, the id of its welded position
+export function weldVertices(position: THREE.BufferAttribute | THREE.InterleavedBufferAttribute, tolerance: number) {
+  const ids = new Map<string, number>()
+  const vertexIds = new Uint32Array(position.count)
+
+  for (let i = 0; i < position.count; i++) {
+    const key = `${Math.round(position.getX(i) / tolerance)},${Math.round(position.getY(i) / tolerance)},${Math.round(position.getZ(i) / tolerance)}`
+    let id = ids.get(key)
+    if (id === undefined) {
+      id = ids.size
+      ids.set(key, id)
+    }
+    vertexIds[i] = id
+  }
+
+  return { vertexIds, count: ids.size }
+}
+
+// Welding tolerance relative to the size of the geometry
+export function weldTolerance(geometry: THREE.BufferGeometry): number {
+  geometry.computeBoundingBox()
+  const diagonal = geometry.boundingBox ? geometry.boundingBox.getSize(new THREE.Vector3()).length() : 0
+  return diagonal > 0 ? diagonal * 1e-6 : 1e-9
+}
+
+function findRoot(parent: Int32Array, i: number): number {
+  while (parent[i] !== i) {
+    parent[i] = parent[parent[i]]
+    i = parent[i]
+  }
+  return i
+}
+
+// Split a triangle soup into its connected bodies, largest first. Returns the
+// original geometry when it forms a single body.
+export function splitConnectedComponents(geometry: THREE.BufferGeometry): THREE.BufferGeometry[] {
+  const source = geometry.index ? geometry.toNonIndexed() : geometry
+  const position = source.attributes.position
+  const triangleCount = Math.floor(position.count / 3)
+
+  if (triangleCount === 0 || triangleCount > MAX_SPLIT_TRIANGLES) return [geometry]
+
+  const { vertexIds, count } = weldVertices(position, weldTolerance(source))
+
+  // Union the welded vertices of every triangle
+  const parent = new Int32Array(count)
+  for (let i = 0; i < count; i++) parent[i] = i
+  for (let t = 0; t < triangleCount; t++) {
+    const a = findRoot(parent, vertexIds[t * 3])
+    for (let k = 1; k < 3; k++) {
+      const b = findRoot(parent, vertexIds[t * 3 + k])
+      if (a !== b) parent[b] = a
+    }
+  }
+
+  const bodies = new Map<number, number[]>()
+  for (let t = 0; t < triangleCount; t++) {
+    const root = findRoot(parent, vertexIds[t * 3])
+    const triangles = bodies.get(root)
+    if (triangles) {
+      triangles.push(t)
+    } else {
+      bodies.set(root, [t])
+    }
+  }
+
+  if (bodies.size <= 1) return [geometry]
+
+  return [...bodies.values()]
+    .sort((a, b) => b.length - a.length)
+    .map(triangles => {
+      const body = new THREE.BufferGeometry()
+      for (const [name, attribute] of Object.entries(source.attributes)) {
+        const itemSize = attribute.itemSize
+        const array = new Float32Array(triangles.length * 3 * itemSize)
+        triangles.forEach((t, i) => {
+          for (let v = 0; v < 3; v++) {
+            for (let c = 0; c < itemSize; c++) {
+              array[(i * 3 + v) * itemSize + c] = attribute.getComponent(t * 3 + v, c)
+            }
+          }
+        })
+        body.setAttribute(name, new THREE.BufferAttribute(array, itemSize, attribute.normalized))
+      }
+      return body
+    })
+}
@@ -0,0 +1,192 @@
+import * as THREE from 'three'
+import { STLExporter } from 'three/examples/jsm/exporters/STLExporter.js'
+import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js'
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js'
+import { PLYExporter } from 'three/examples/jsm/exporters/PLYExporter.js'
+import { MeshFormat } from '../types'
+import { createZip } from './zip'
+
+// Mesh export of what the viewer shows, with the parts, placement and colors
+// chosen by the user. The original file can be converted on the server instead.
+
+// An object to export and where it is placed in the exported file
+export interface ExportItem {
+  object: THREE.Object3D
+  // Replaces the object's own transform; identity keeps the file's coordinates
+  matrix: THREE.Matrix4
+}
+
+export interface MeshExportOptions {
+  format: MeshFormat
+  // STL and PLY can be written as text instead of binary
+  ascii: boolean
+  // Bakes every transform into the vertices; without it GLB keeps the parts as nodes with their transforms
+  applyTransform: boolean
+  // Multiplies every coordinate, to change units
+  scale: number
+  // Keeps the colors shown: materials in GLB, an MTL file for OBJ and vertex colors in PLY
+  colors: boolean
+  // Only meshes this returns true for are exported
+  include?: (mesh: THREE.Mesh) => boolean
+}
+
+export const MESH_FORMATS: Array<[MeshFormat, string]> = [
+  ['stl', 'STL'],
+  ['obj', 'OBJ'],
+  ['glb', 'GLB'],
+  ['ply', 'PLY']
+]
+
+export function canWriteText(format: MeshFormat): boolean {
+  return format === 'stl' || format === 'ply'
+}
+
+export function canWriteColors(format: MeshFormat): boolean {
+  return format !== 'stl'
+}
+
+function firstMaterial(mesh: THREE.Mesh): THREE.Material {
+  return Array.isArray(mesh.material) ? mesh.material[0] : mesh.material
+}
+
+// Color the mesh is shown in, in the renderer's working color space
+function meshColor(mesh: THREE.Mesh): THREE.Color {
+  const material = firstMaterial(mesh) as THREE.MeshStandardMaterial
+  return material.color ? material.color.clone() : new THREE.Color(0xffffff)
+}
+
+// Plain material for the exported mesh; the viewer's own materials depend on the view mode
+function exportMaterial(mesh: THREE.Mesh, colors: boolean): THREE.MeshStandardMaterial {
+  if (!colors) return new THREE.MeshStandardMaterial()
+  const color = meshColor(mesh)
+  const source = firstMaterial(mesh) as THREE.MeshStandardMaterial
+  return new THREE.MeshStandardMaterial({
+    name: `color_${color.getHexString()}`,
+    color,
+    map: source.map ?? null,
+    vertexColors: Boolean(mesh.geometry.getAttribute('color'))
+  })
+}
+
+// Copy of the meshes below `object` that pass `include`, with the groups leading to them
+function copyParts(object: THREE.Object3D, options: MeshExportOptions): THREE.Object3D | null {
+  const children = object.children
+    .map(child => copyParts(child, options))
+    .filter((child): child is THREE.Object3D => child !== null)
+  const isIncluded = object instanceof THREE.Mesh && (options.include?.(object) ?? true)
+  if (!isIncluded && children.length === 0) return null
+
+  let copy: THREE.Object3D
+  if (isIncluded) {
+    const mesh = object as THREE.Mesh
+    const geometry = mesh.geometry.clone()
+    if (!options.colors) {
+      geometry.deleteAttribute('color')
+    } else if (options.format === 'ply' && !geometry.getAttribute('color')) {
+      // PLY has no materials, so the mesh color goes on every vertex
+      const color = meshColor(mesh)
+      const count = geometry.getAttribute('position').count
+      const values = new Float32Array(count * 3)
+      for (let i = 0; i < count; i++) color.toArray(values, i * 3)
+      geometry.setAttribute('color', new THREE.BufferAttribute(values, 3))
+    }
+    copy = new THREE.Mesh(geometry, exportMaterial(mesh, options.colors))
+  } else {
+    copy = new THREE.Group()
+  }
+  copy.name = object.name
+  copy.position.copy(object.position)
+  copy.quaternion.copy(object.quaternion)
+  copy.scale.copy(object.scale)
+  children.forEach(child => copy.add(child))
+  return copy
+}
+
+// Same meshes with their transforms applied to the vertices
+function bakeTransforms(root: THREE.Object3D): THREE.Group {
+  const baked = new THREE.Group()
+  root.updateMatrixWorld(true)
+  root.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.geometry.applyMatrix4(child.matrixWorld)
+      const mesh = new THREE.Mesh(child.geometry, child.material)
+      mesh.name = child.name
+      baked.add(mesh)
+    }
+  })
+  return baked
+}
+
+function disposeCopy(root: THREE.Object3D) {
+  root.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.geometry.dispose()
+      ;(child.material as THREE.Material).dispose()
+    }
+  })
+}
+
+// MTL file with the diffuse color of each material used by the OBJ
+function materialLibrary(root: THREE.Object3D): string {
+  const lines = new Map<string, string>()
+  root.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      const material = child.material as THREE.MeshStandardMaterial
+      if (!material.name || lines.has(material.name)) return
+      const { r, g, b } = material.color.clone().convertLinearToSRGB()
+      lines.set(material.name, `newmtl ${material.name}\nKd ${r.toFixed(4)} ${g.toFixed(4)} ${b.toFixed(4)}\n`)
+    }
+  })
+  return [...lines.values()].join('\n')
+}
+
+// Exports `items` as one file, or a ZIP of an OBJ and its MTL file when OBJ colors are kept
+export async function exportMesh(
+  items: ExportItem[],
+  options: MeshExportOptions,
+  baseName: string
+): Promise<{ blob: Blob, filename: string }> {
+  const copy = new THREE.Group()
+  copy.scale.setScalar(options.scale)
+  for (const item of items) {
+    const part = copyParts(item.object, options)
+    if (!part) continue
+    item.matrix.decompose(part.position, part.quaternion, part.scale)
+    copy.add(part)
+  }
+  if (copy.children.length === 0) throw new Error('There are no parts to export')
+
+  const root = options.applyTransform ? bakeTransforms(copy) : copy
+  root.updateMatrixWorld(true)
+  try {
+    switch (options.format) {
+      case 'stl': {
+        const data = new STLExporter().parse(root, { binary: !options.ascii })
+        return { blob: new Blob([data], { type: 'model/stl' }), filename: `${baseName}.stl` }
+      }
+      case 'ply': {
+        const data = new PLYExporter().parse(root, () => {}, { binary: !options.ascii, littleEndian: true })
+        if (data === null) throw new Error('Could not write the PLY file')
+        return { blob: new Blob([data], { type: 'application/octet-stream' }), filename: `${baseName}.ply` }
+      }
+      case 'glb': {
+        const data = await new GLTFExporter().parseAsync(root, { binary: true })
+        return { blob: new Blob([data as ArrayBuffer], { type: 'model/gltf-binary' }), filename: `${baseName}.glb` }
+      }
+      case 'obj': {
+        const obj = new OBJExporter().parse(root)
+        if (!options.colors) {
+          return { blob: new Blob([obj], { type: 'model/obj' }), filename: `${baseName}.obj` }
+        }
+        const encoder = new TextEncoder()
+        const blob = createZip([
+          { name: `${baseName}.obj`, data: encoder.encode(`mtllib ${baseName}.mtl\n${obj}`) },
+          { name: `${baseName}.mtl`, data: encoder.encode(materialLibrary(root)) }
+        ])
+        return { blob, filename: `${baseName}.zip` }
+      }
+    }
+  } finally {
+    disposeCopy(copy)
+  }
+}
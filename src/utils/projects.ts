@@ -0,0 +1,24 @@
+import { Project } from '../api'
+
+// Drag payloads: the id of a model list entry or of a project
+export const MODEL_DRAG_TYPE = 'application/x-cad-model'
+export const PROJECT_DRAG_TYPE = 'application/x-cad-project'
+
+// null shows every model, 'none' the models outside any project
+export type ProjectSelection = number | 'none' | null
+
+// Ids of `id` and all projects below it
+export function projectDescendants(projects: Project[], id: number): Set<number> {
+  const ids = new Set([id])
+  let added = true
+  while (added) {
+    added = false
+    for (const project of projects) {
+      if (project.parent !== null && ids.has(project.parent) && !ids.has(project.id)) {
+        ids.add(project.id)
+        added = true
+      }
+    }
+  }
+  return ids
+}
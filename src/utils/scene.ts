@@ -0,0 +1,113 @@
+import * as THREE from 'three';
+import { ScenePart } from '../api';
+import { Vector3Tuple } from '../types';
+
+// Part of the scene being edited; `key` tells apart parts placed from the same model
+export interface PlacedPart extends ScenePart {
+  key: string;
+}
+
+export type PartTransform = Pick<ScenePart, 'position' | 'rotation' | 'scale'>;
+
+// Undo and redo stacks around the current state
+export interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+// Steps kept for undo
+const HISTORY_LIMIT = 100;
+
+const DEGREES = 180 / Math.PI;
+
+// Grid cell sizes offered, in millimeters like the rest of the scene; the cell is also the step parts move in when snapping
+export const GRID_STEPS = [0.1, 0.5, 1, 5, 10, 25, 50, 100];
+export const DEFAULT_GRID_STEP = 10;
+// Snapping steps of the rotate and scale gizmos, in degrees and scale factor
+export const ROTATION_SNAP = 15;
+export const SCALE_SNAP = 0.1;
+
+let partCount = 0;
+
+export function partKey(): string {
+  partCount += 1;
+  return `part-${partCount}`;
+}
+
+export function startHistory<T>(present: T): History<T> {
+  return { past: [], present, future: [] };
+}
+
+// Makes `next` the current state; anything undone before is dropped
+export function recordHistory<T>(history: History<T>, next: T): History<T> {
+  if (next === history.present) return history;
+  return { past: [...history.past, history.present].slice(-HISTORY_LIMIT), present: next, future: [] };
+}
+
+export function undoHistory<T>(history: History<T>): History<T> {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+}
+
+export function redoHistory<T>(history: History<T>): History<T> {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+}
+
+// Rotation of a part in radians, as three.js objects take it
+export function partEuler(part: PartTransform): THREE.Euler {
+  const [x, y, z] = part.rotation.map(angle => angle / DEGREES);
+  return new THREE.Euler(x, y, z, 'XYZ');
+}
+
+// Placement of a part in the scene
+export function partMatrix(part: PartTransform): THREE.Matrix4 {
+  return new THREE.Matrix4().compose(
+    new THREE.Vector3(...part.position),
+    new THREE.Quaternion().setFromEuler(partEuler(part)),
+    new THREE.Vector3(...part.scale),
+  );
+}
+
+// Trims float noise left by the transform gizmo, so saved scenes stay readable
+const round = (value: number) => Number(value.toPrecision(6));
+const roundVector = (values: number[]): Vector3Tuple => [round(values[0]), round(values[1]), round(values[2])];
+
+// Transform of a part object after it was moved by the gizmo
+export function objectTransform(object: THREE.Object3D): PartTransform {
+  return {
+    position: roundVector(object.position.toArray()),
+    rotation: roundVector([object.rotation.x * DEGREES, object.rotation.y * DEGREES, object.rotation.z * DEGREES]),
+    scale: roundVector(object.scale.toArray()),
+  };
+}
+
+export function snapValue(value: number, step: number): number {
+  return round(Math.round(value / step) * step);
+}
+
+// Placement of a newly added model: standing on the grid, centered on the
+// origin, and with its file coordinates otherwise kept
+export function initialTransform(box: THREE.Box3, step: number | null): PartTransform {
+  const center = box.getCenter(new THREE.Vector3());
+  const snap = (value: number) => (step ? snapValue(value, step) : round(value));
+  return {
+    position: [snap(-center.x), round(-box.min.y), snap(-center.z)],
+    rotation: [0, 0, 0],
+    scale: [1, 1, 1],
+  };
+}
+
+// Scene parts as the backend stores them
+export function savedParts(parts: PlacedPart[]): ScenePart[] {
+  return parts.map(({ model, position, rotation, scale }) => ({ model, position, rotation, scale }));
+}
@@ -0,0 +1,54 @@
+import * as THREE from 'three'
+
+export type SectionAxis = 'x' | 'y' | 'z';
+
+export interface SectionPlane {
+  id: number;
+  // Point on the plane and its normal in world space. The half space the normal
+  // points into is kept, the other side is cut away.
+  position: THREE.Vector3;
+  normal: THREE.Vector3;
+  flipped: boolean;
+}
+
+const AXIS_NORMALS: Record<SectionAxis, [number, number, number]> = {
+  x: [1, 0, 0],
+  y: [0, 1, 0],
+  z: [0, 0, 1],
+};
+
+// Create a plane through `center`, perpendicular to the given axis
+export function createSectionPlane(id: number, axis: SectionAxis, center: THREE.Vector3): SectionPlane {
+  return {
+    id,
+    position: center.clone(),
+    normal: new THREE.Vector3(...AXIS_NORMALS[axis]),
+    flipped: false,
+  };
+}
+
+// Normal actually used for clipping, taking the flip state into account
+export function effectiveNormal(section: SectionPlane): THREE.Vector3 {
+  return section.flipped ? section.normal.clone().negate() : section.normal.clone();
+}
+
+// Write the clipping plane for a section into `target`
+export function toClippingPlane(section: SectionPlane, target = new THREE.Plane()): THREE.Plane {
+  return target.setFromNormalAndCoplanarPoint(effectiveNormal(section), section.position);
+}
+
+// True when a world-space point survives all section planes
+export function isPointVisible(point: THREE.Vector3, sections: SectionPlane[]): boolean {
+  const plane = new THREE.Plane();
+  return sections.every(section => toClippingPlane(section, plane).distanceToPoint(point) >= 0);
+}
+
+// Signed offset of a section from `origin` along its (unflipped) normal
+export function sectionOffset(section: SectionPlane, origin: THREE.Vector3): number {
+  return section.position.clone().sub(origin).dot(section.normal);
+}
+
+// Orientation that maps the local +Z axis onto the section normal
+export function sectionQuaternion(section: SectionPlane): THREE.Quaternion {
+  return new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), section.normal.clone().normalize());
+}
@@ -0,0 +1,45 @@
+import * as THREE from 'three';
+import { VIEW_PRESETS } from './camera';
+
+// Width and height of the preview images shown in the model list, in pixels
+export const THUMBNAIL_SIZE = 256;
+const THUMBNAIL_FOV = 35;
+
+// Renders `root` from the isometric view on a transparent background, as a PNG.
+// Uses its own renderer so the preview does not depend on the viewer's camera,
+// grid or display mode.
+export async function renderThumbnail(root: THREE.Object3D): Promise<Blob> {
+  const scene = new THREE.Scene();
+  // Shares geometries and materials with the displayed model
+  const model = root.clone();
+  scene.add(model);
+  model.updateMatrixWorld(true);
+
+  const sphere = new THREE.Box3().setFromObject(model).getBoundingSphere(new THREE.Sphere());
+  const radius = sphere.radius || 1;
+  const camera = new THREE.PerspectiveCamera(THUMBNAIL_FOV, 1, radius / 100, radius * 100);
+  const distance = radius / Math.sin((THUMBNAIL_FOV * Math.PI) / 360);
+  camera.position.copy(sphere.center).addScaledVector(VIEW_PRESETS.iso.direction.clone().normalize(), distance);
+  camera.lookAt(sphere.center);
+
+  const light = new THREE.DirectionalLight(0xffffff, 1.5);
+  light.position.copy(camera.position);
+  light.target.position.copy(sphere.center);
+  scene.add(new THREE.AmbientLight(0xffffff, 0.8), light, light.target);
+
+  const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true, preserveDrawingBuffer: true });
+  try {
+    renderer.setSize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, false);
+    renderer.setClearColor(0x000000, 0);
+    renderer.render(scene, camera);
+    return await new Promise<Blob>((resolve, reject) => {
+      renderer.domElement.toBlob(
+        blob => (blob ? resolve(blob) : reject(new Error('Could not encode the thumbnail'))),
+        'image/png'
+      );
+    });
+  } finally {
+    renderer.dispose();
+    renderer.forceContextLoss();
+  }
+}
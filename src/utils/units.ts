@@ -0,0 +1,43 @@
+import { LengthUnit } from '../types';
+
+export const LENGTH_UNITS: Array<[LengthUnit, string]> = [
+  ['mm', 'Millimeters'],
+  ['cm', 'Centimeters'],
+  ['m', 'Meters'],
+  ['in', 'Inches'],
+];
+
+// The viewer renders in meters, as glTF does
+const METERS_PER_UNIT: Record<LengthUnit, number> = {
+  mm: 0.001,
+  cm: 0.01,
+  m: 1,
+  in: 0.0254,
+};
+
+// Units assumed for a file with none declared, as the server assumes them on upload:
+// glTF is defined in meters, other formats are usually written in millimeters
+export function defaultUnits(format: string): LengthUnit {
+  return format === 'glb' || format === 'gltf' ? 'm' : 'mm';
+}
+
+export function metersPerUnit(unit: LengthUnit): number {
+  return METERS_PER_UNIT[unit];
+}
+
+export function convertLength(value: number, from: LengthUnit, to: LengthUnit): number {
+  return value * METERS_PER_UNIT[from] / METERS_PER_UNIT[to];
+}
+
+// Largest 1, 2 or 5 times a power of ten up to `length`, for grid cells and scale bars
+export function roundLength(length: number): number {
+  if (!(length > 0) || !Number.isFinite(length)) return 1;
+  const power = 10 ** Math.floor(Math.log10(length));
+  const digit = length / power;
+  return (digit >= 5 ? 5 : digit >= 2 ? 2 : 1) * power;
+}
+
+// Length with its unit, e.g. "0.5 mm", without float noise
+export function formatLength(value: number, unit: LengthUnit): string {
+  return `${Number(value.toPrecision(4))} ${unit}`;
+}
@@ -0,0 +1,112 @@
+import { uploadExtensions, isAssetFile } from '../loaders'
+import { UploadProgress } from '../api'
+import { LengthUnit } from '../types'
+
+// A picked or dropped file with its path inside the folder it came from
+export interface PickedFile {
+  file: File
+  path: string
+}
+
+// 'invalid' files were rejected before uploading and cannot be retried
+export type QueuedUploadStatus = 'pending' | 'uploading' | 'done' | 'failed' | 'cancelled' | 'invalid'
+
+// One model file in the upload queue, with the companion files found next to it
+export interface QueuedUpload {
+  id: number
+  path: string
+  file: File
+  assets: File[]
+  status: QueuedUploadStatus
+  progress: UploadProgress | null
+  error: string | null
+  // Upload as the next revision of this model
+  revisionOf?: string
+  // Project to file a new model in
+  project?: number | null
+  // Declared units, or the server's default for the format
+  units?: LengthUnit
+}
+
+export type UploadGroup = Pick<QueuedUpload, 'path' | 'file' | 'assets' | 'error'>
+
+export function pickedFiles(files: FileList | File[]): PickedFile[] {
+  return Array.from(files).map(file => ({ file, path: file.webkitRelativePath || file.name }))
+}
+
+async function readEntry(entry: FileSystemEntry): Promise<PickedFile[]> {
+  const path = entry.fullPath.replace(/^\//, '')
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))
+    return [{ file, path }]
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader()
+  const children: FileSystemEntry[] = []
+  // Directories are read in batches, until an empty one
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (batch.length === 0) break
+    children.push(...batch)
+  }
+  return (await Promise.all(children.map(readEntry))).flat()
+}
+
+// Files and folders of a drop, read recursively. Must be called while handling
+// the drop event, the browser empties the DataTransfer afterwards.
+export function droppedFiles(dataTransfer: DataTransfer): Promise<PickedFile[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null)
+  if (entries.length === 0) return Promise.resolve(pickedFiles(dataTransfer.files))
+  return Promise.all(entries.map(readEntry)).then(lists => lists.flat())
+}
+
+function directoryOf(path: string): string {
+  const index = path.lastIndexOf('/')
+  return index < 0 ? '' : path.slice(0, index)
+}
+
+// Dotfiles and macOS metadata folders that come along with folder drops
+function isHidden(path: string): boolean {
+  return path.split('/').some(part => part.startsWith('.') || part === '__MACOSX')
+}
+
+// Splits picked files into one upload per model file. Companion files (MTL,
+// textures) go with the models in the nearest folder above them that has any;
+// files that are neither are returned with an error.
+export function groupUploads(files: PickedFile[]): UploadGroup[] {
+  const extensions = uploadExtensions()
+  const isModel = (path: string) => extensions.some(ext => path.toLowerCase().endsWith(ext))
+  const visible = files.filter(picked => !isHidden(picked.path))
+
+  const groups: UploadGroup[] = visible
+    .filter(picked => isModel(picked.path))
+    .map(picked => ({ path: picked.path, file: picked.file, assets: [], error: null }))
+  const rejected: UploadGroup[] = []
+
+  for (const picked of visible) {
+    if (isModel(picked.path)) continue
+    const reject = (error: string) => rejected.push({ path: picked.path, file: picked.file, assets: [], error })
+    if (!isAssetFile(picked.path)) {
+      reject(`Unsupported format, expected one of ${extensions.join(', ')}`)
+      continue
+    }
+
+    let directory = directoryOf(picked.path)
+    for (;;) {
+      const owners = groups.filter(group => directoryOf(group.path) === directory)
+      if (owners.length > 0) {
+        owners.forEach(owner => owner.assets.push(picked.file))
+        break
+      }
+      if (directory === '') {
+        reject('No model file to store this file with')
+        break
+      }
+      directory = directoryOf(directory)
+    }
+  }
+
+  return [...groups, ...rejected]
+}
@@ -0,0 +1,87 @@
+import { Projection, ViewMode, ViewerState } from '../types'
+
+// Query parameters of the page URL, used to link to a model, a saved view or a share link
+
+export function getUrlParam(name: string): string | null {
+  return new URLSearchParams(window.location.search).get(name)
+}
+
+// Updates the page URL in place; null removes a parameter
+export function setUrlParams(params: Record<string, string | null>) {
+  const url = new URL(window.location.href)
+  for (const [name, value] of Object.entries(params)) {
+    if (value === null) {
+      url.searchParams.delete(name)
+    } else {
+      url.searchParams.set(name, value)
+    }
+  }
+  window.history.replaceState(null, '', url)
+}
+
+// Absolute link that opens a model at a saved view
+export function savedViewUrl(modelId: string, viewId: number): string {
+  const url = new URL(window.location.pathname, window.location.origin)
+  url.searchParams.set('model', modelId)
+  url.searchParams.set('view', String(viewId))
+  return url.toString()
+}
+
+export const VIEW_MODES: ViewMode[] = ['normal', 'wireframe', 'x-ray']
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i
+
+function formatNumbers(values: number[]): string {
+  return values.map(value => Number(value.toPrecision(6))).join(',')
+}
+
+function parseNumbers(value: string | null, count: number): number[] | null {
+  const numbers = value?.split(',').map(Number)
+  return numbers && numbers.length === count && numbers.every(Number.isFinite) ? numbers : null
+}
+
+// Absolute link that opens a share link with the viewer set up like `state`
+export function shareLinkUrl(token: string, state: ViewerState): string {
+  const url = new URL(window.location.pathname, window.location.origin)
+  url.searchParams.set('share', token)
+  url.searchParams.set('mode', state.viewMode)
+  url.searchParams.set('bg', state.backgroundColor)
+  url.searchParams.set('color', state.objectColor)
+  if (!state.useOriginalMaterials) url.searchParams.set('materials', '0')
+  if (state.autoRotate) url.searchParams.set('rotate', '1')
+  if (state.camera) {
+    url.searchParams.set('camera', formatNumbers([...state.camera.camera_position, ...state.camera.camera_target]))
+    if (state.camera.projection === 'orthographic') url.searchParams.set('projection', 'orthographic')
+    if (state.camera.view_height) url.searchParams.set('height', formatNumbers([state.camera.view_height]))
+  }
+  if (state.hiddenParts.length > 0) url.searchParams.set('hide', state.hiddenParts.join(','))
+  return url.toString()
+}
+
+// Viewer settings encoded by shareLinkUrl in the page URL; missing or invalid ones are left out
+export function parseViewerState(params: URLSearchParams = new URLSearchParams(window.location.search)): Partial<ViewerState> {
+  const state: Partial<ViewerState> = {}
+  const mode = params.get('mode') as ViewMode | null
+  if (mode && VIEW_MODES.includes(mode)) state.viewMode = mode
+  const background = params.get('bg')
+  if (background && COLOR_PATTERN.test(background)) state.backgroundColor = background
+  const color = params.get('color')
+  if (color && COLOR_PATTERN.test(color)) state.objectColor = color
+  if (params.get('materials') === '0') state.useOriginalMaterials = false
+  if (params.get('rotate') === '1') state.autoRotate = true
+
+  const camera = parseNumbers(params.get('camera'), 6)
+  if (camera) {
+    const height = parseNumbers(params.get('height'), 1)
+    const projection: Projection = params.get('projection') === 'orthographic' ? 'orthographic' : 'perspective'
+    state.camera = {
+      camera_position: [camera[0], camera[1], camera[2]],
+      camera_target: [camera[3], camera[4], camera[5]],
+      projection,
+      view_height: height ? height[0] : null
+    }
+  }
+
+  const hidden = params.get('hide')
+  if (hidden) state.hiddenParts = hidden.split(',').filter(path => /^\d+(\.\d+)*$/.test(path))
+  return state
+}
@@ -0,0 +1,73 @@
+// Minimal ZIP writer bundling a few files, such as PNG frames or an OBJ and
+// its MTL file: entries are stored as they are, without deflating
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// Little-endian header fields; sizes are [value, bytes]
+function header(fields: Array<[number, 2 | 4]>): Uint8Array {
+  const bytes = new Uint8Array(fields.reduce((sum, [, size]) => sum + size, 0))
+  const view = new DataView(bytes.buffer)
+  let offset = 0
+  for (const [value, size] of fields) {
+    if (size === 2) {
+      view.setUint16(offset, value, true)
+    } else {
+      view.setUint32(offset, value, true)
+    }
+    offset += size
+  }
+  return bytes
+}
+
+const DOS_DATE = (1 << 5) | 1
+
+export function createZip(entries: ZipEntry[]): Blob {
+  const encoder = new TextEncoder()
+  const parts: Uint8Array[] = []
+  const directory: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const crc = crc32(entry.data)
+    const size = entry.data.length
+    // Version 2.0, UTF-8 names (flag bit 11), stored, dated 1980-01-01
+    const local = header([
+      [0x04034b50, 4], [20, 2], [0x0800, 2], [0, 2], [0, 2], [DOS_DATE, 2],
+      [crc, 4], [size, 4], [size, 4], [name.length, 2], [0, 2]
+    ])
+    directory.push(header([
+      [0x02014b50, 4], [20, 2], [20, 2], [0x0800, 2], [0, 2], [0, 2], [DOS_DATE, 2],
+      [crc, 4], [size, 4], [size, 4], [name.length, 2], [0, 2], [0, 2], [0, 2], [0, 2], [0, 4],
+      [offset, 4]
+    ]), name)
+    parts.push(local, name, entry.data)
+    offset += local.length + name.length + size
+  }
+
+  const directorySize = directory.reduce((sum, part) => sum + part.length, 0)
+  const end = header([
+    [0x06054b50, 4], [0, 2], [0, 2], [entries.length, 2], [entries.length, 2],
+    [directorySize, 4], [offset, 4], [0, 2]
+  ])
+  return new Blob([...parts, ...directory, end], { type: 'application/zip' })
+}
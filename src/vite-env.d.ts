@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of the backend API, e.g. https://staging.example.com/api
+  readonly VITE_API_URL?: string
+  // Comma-separated origins of pages allowed to embed library models
+  readonly VITE_EMBED_ORIGINS?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
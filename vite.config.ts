@@ -2,9 +2,13 @@ import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
 // https://vitejs.dev/config/
-export default defineConfig({
+// `vite build --mode embed` builds only the embeddable viewer (embed.html) into dist-embed
+export default defineConfig(({ mode }) => ({
   plugins: [react()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
-});
+  build: mode === 'embed'
+    ? { outDir: 'dist-embed', rollupOptions: { input: 'embed.html' } }
+    : {},
+}));